@@ -0,0 +1,242 @@
+#!/usr/bin/env node
+/**
+ * Exercise the built-in translation proxy (src/main/proxy.ts) against a mock
+ * OpenAI-compatible chat/completions server. No Electron, no network.
+ *
+ * Usage:
+ *   node scripts/test-proxy.mjs      # or: npm run test:proxy
+ *
+ * Checks: non-streaming text, streamed text, streamed tool_use (parallel calls with
+ * interleaved fragments), tool_result round trips, and that requests without the
+ * proxy token, from a browser (Origin) or with a non-JSON Content-Type are refused.
+ * Exits non-zero if any check fails.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import assert from 'assert/strict';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const ts = require(path.join(root, 'node_modules', 'typescript'));
+
+// ---- compile the proxy and what it imports into a scratch dir ----
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qc-proxy-test-'));
+for (const file of ['main/proxy.ts', 'main/logger.ts', 'shared/types.ts']) {
+  const source = fs.readFileSync(path.join(root, 'src', file), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+  });
+  const target = path.join(outDir, file.replace(/\.ts$/, '.js'));
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, outputText);
+}
+// logger.ts reads app paths from Electron; outside it, logging is a no-op
+fs.mkdirSync(path.join(outDir, 'node_modules', 'electron'), { recursive: true });
+fs.writeFileSync(path.join(outDir, 'node_modules', 'electron', 'index.js'), 'module.exports = {}\n');
+const { TranslationProxy } = require(path.join(outDir, 'main', 'proxy.js'));
+
+// ---- mock upstream: records each request, answers with the next scripted reply ----
+const upstreamRequests = [];
+let reply = null; // { json } or { chunks }
+
+const upstream = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', (c) => (raw += c));
+  req.on('end', () => {
+    upstreamRequests.push({ headers: req.headers, body: JSON.parse(raw) });
+    if (reply.json) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.json));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const chunk of reply.chunks) res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    res.end('data: [DONE]\n\n');
+  });
+});
+
+function listen(server) {
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server.address().port)));
+}
+
+const upstreamPort = await listen(upstream);
+// A free port for the proxy: bind, read, release
+const probe = http.createServer();
+const proxyPort = await listen(probe);
+await new Promise((resolve) => probe.close(resolve));
+
+const proxy = new TranslationProxy(
+  (request) => ({ url: `http://127.0.0.1:${upstreamPort}/v1/chat/completions`, apiKey: 'sk-upstream', model: `up-${request.model}` }),
+  proxyPort,
+);
+await proxy.start();
+
+function post(body, headers = {}) {
+  return fetch(`${proxy.url}/v1/messages`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${proxy.token}`, ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+// Anthropic SSE -> [{ event, data }]
+async function events(response) {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .filter((block) => block.trim())
+    .map((block) => {
+      const event = block.match(/^event: (.*)$/m)[1];
+      const data = JSON.parse(block.match(/^data: (.*)$/m)[1]);
+      return { event, data };
+    });
+}
+
+// The content blocks a client would rebuild from the stream
+function assemble(stream) {
+  const blocks = [];
+  for (const { event, data } of stream) {
+    if (event === 'content_block_start') blocks[data.index] = { ...data.content_block, json: '' };
+    if (event === 'content_block_delta' && data.delta.type === 'text_delta') blocks[data.index].text += data.delta.text;
+    if (event === 'content_block_delta' && data.delta.type === 'input_json_delta') blocks[data.index].json += data.delta.partial_json;
+  }
+  return blocks.map(({ json, ...block }) => (block.type === 'tool_use' ? { ...block, input: JSON.parse(json) } : block));
+}
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+test('non-streaming text', async () => {
+  reply = { json: { choices: [{ message: { content: 'Hello there' }, finish_reason: 'stop' }], usage: { prompt_tokens: 12, completion_tokens: 3 } } };
+  const response = await post({ model: 'm1', max_tokens: 100, system: 'Be brief.', messages: [{ role: 'user', content: 'Hi' }] });
+  assert.equal(response.status, 200);
+  const message = await response.json();
+  assert.deepEqual(message.content, [{ type: 'text', text: 'Hello there' }]);
+  assert.equal(message.stop_reason, 'end_turn');
+  assert.deepEqual(message.usage, { input_tokens: 12, output_tokens: 3 });
+
+  const sent = upstreamRequests.at(-1);
+  assert.equal(sent.headers.authorization, 'Bearer sk-upstream');
+  assert.equal(sent.body.model, 'up-m1');
+  assert.deepEqual(sent.body.messages, [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }]);
+});
+
+test('streamed text', async () => {
+  reply = {
+    chunks: [
+      { choices: [{ delta: { content: 'Hel' } }] },
+      { choices: [{ delta: { content: 'lo' } }] },
+      { choices: [{ delta: {}, finish_reason: 'length' }] },
+      { choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } },
+    ],
+  };
+  const stream = await events(await post({ model: 'm1', stream: true, messages: [{ role: 'user', content: 'Hi' }] }));
+  assert.deepEqual(stream.map((e) => e.event), [
+    'message_start', 'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop', 'message_delta', 'message_stop',
+  ]);
+  assert.deepEqual(assemble(stream), [{ type: 'text', text: 'Hello' }]);
+  const delta = stream.find((e) => e.event === 'message_delta').data;
+  assert.equal(delta.delta.stop_reason, 'max_tokens');
+  assert.deepEqual(delta.usage, { input_tokens: 5, output_tokens: 2 });
+  assert.equal(upstreamRequests.at(-1).body.stream, true);
+});
+
+test('streamed tool_use, parallel calls interleaved', async () => {
+  reply = {
+    chunks: [
+      { choices: [{ delta: { content: 'Checking both.' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'get_weather', arguments: '{"ci' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 1, id: 'call_b', function: { name: 'get_time', arguments: '{"zo' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ty":"Oslo"}' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 1, function: { arguments: 'ne":"UTC"}' } }] } }] },
+      { choices: [{ delta: {}, finish_reason: 'stop' }] },
+    ],
+  };
+  const stream = await events(await post({
+    model: 'm1',
+    stream: true,
+    messages: [{ role: 'user', content: 'Weather and time?' }],
+    tools: [
+      { name: 'get_weather', input_schema: { type: 'object', properties: { city: { type: 'string' } } } },
+      { name: 'get_time', input_schema: { type: 'object', properties: { zone: { type: 'string' } } } },
+    ],
+  }));
+  assert.deepEqual(assemble(stream), [
+    { type: 'text', text: 'Checking both.' },
+    { type: 'tool_use', id: 'call_a', name: 'get_weather', input: { city: 'Oslo' } },
+    { type: 'tool_use', id: 'call_b', name: 'get_time', input: { zone: 'UTC' } },
+  ]);
+  // Some servers say "stop" after tool calls; Claude Code needs tool_use
+  assert.equal(stream.find((e) => e.event === 'message_delta').data.delta.stop_reason, 'tool_use');
+  assert.equal(upstreamRequests.at(-1).body.tools[0].function.name, 'get_weather');
+});
+
+test('streamed tool_use without index', async () => {
+  reply = {
+    chunks: [
+      { choices: [{ delta: { tool_calls: [{ id: 'call_1', function: { name: 'read', arguments: '{"path":' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ function: { arguments: '"a.ts"}' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ id: 'call_2', function: { name: 'read', arguments: '{"path":"b.ts"}' } }] } }] },
+      { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+    ],
+  };
+  const stream = await events(await post({ model: 'm1', stream: true, messages: [{ role: 'user', content: 'Read both' }] }));
+  assert.deepEqual(assemble(stream), [
+    { type: 'tool_use', id: 'call_1', name: 'read', input: { path: 'a.ts' } },
+    { type: 'tool_use', id: 'call_2', name: 'read', input: { path: 'b.ts' } },
+  ]);
+});
+
+test('tool_result round trip', async () => {
+  reply = { json: { choices: [{ message: { content: 'It is 12°C in Oslo.' }, finish_reason: 'stop' }] } };
+  const response = await post({
+    model: 'm1',
+    messages: [
+      { role: 'user', content: 'Weather in Oslo?' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'call_a', name: 'get_weather', input: { city: 'Oslo' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_a', content: [{ type: 'text', text: '12°C' }] }] },
+    ],
+  });
+  assert.equal(response.status, 200);
+  assert.deepEqual((await response.json()).content, [{ type: 'text', text: 'It is 12°C in Oslo.' }]);
+  assert.deepEqual(upstreamRequests.at(-1).body.messages.slice(1), [
+    { role: 'assistant', content: null, tool_calls: [{ id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }] },
+    { role: 'tool', tool_call_id: 'call_a', content: '12°C' },
+  ]);
+});
+
+test('refuses requests without the proxy token, from browsers, or not JSON', async () => {
+  reply = { json: { choices: [{ message: { content: 'ok' }, finish_reason: 'stop' }] } };
+  const before = upstreamRequests.length;
+  const body = { model: 'm1', messages: [{ role: 'user', content: 'Hi' }] };
+  assert.equal((await post(body, { Authorization: '' })).status, 401);
+  assert.equal((await post(body, { Authorization: 'Bearer wrong' })).status, 401);
+  assert.equal((await post(body, { Origin: 'https://example.com' })).status, 403);
+  assert.equal((await post(JSON.stringify(body), { 'Content-Type': 'text/plain' })).status, 400);
+  assert.equal(upstreamRequests.length, before);
+  // The token also counts as x-api-key (ANTHROPIC_API_KEY)
+  assert.equal((await post(body, { Authorization: '', 'x-api-key': proxy.token })).status, 200);
+  assert.equal(upstreamRequests.length, before + 1);
+});
+
+let failed = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`ok   ${name}`);
+  } catch (error) {
+    failed += 1;
+    console.log(`FAIL ${name}\n     ${error.message.split('\n').join('\n     ')}`);
+  }
+}
+
+proxy.stop();
+upstream.close();
+fs.rmSync(outDir, { recursive: true, force: true });
+console.log(failed ? `\n${failed} of ${tests.length} failed` : `\nall ${tests.length} passed`);
+process.exit(failed ? 1 : 0);
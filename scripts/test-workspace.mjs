@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/**
+ * Exercise named workspace switching (src/main/workspace.ts) against an
+ * in-memory electron-store. No Electron.
+ *
+ * Usage:
+ *   node scripts/test-workspace.mjs      # or: npm run test:workspace
+ *
+ * Checks that switching workspaces never carries the outgoing workspace's
+ * detached windows or custom split tree into the target. Exits non-zero if any check fails.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import assert from 'assert/strict';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const ts = require(path.join(root, 'node_modules', 'typescript'));
+
+// ---- compile the manager and what it imports into a scratch dir ----
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qc-workspace-test-'));
+for (const file of ['main/workspace.ts', 'main/logger.ts', 'shared/types.ts']) {
+  const source = fs.readFileSync(path.join(root, 'src', file), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+  });
+  const target = path.join(outDir, file.replace(/\.ts$/, '.js'));
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, outputText);
+}
+// logger.ts reads app paths from Electron; outside it, it only logs to the console
+fs.mkdirSync(path.join(outDir, 'node_modules', 'electron'), { recursive: true });
+fs.writeFileSync(path.join(outDir, 'node_modules', 'electron', 'index.js'), 'module.exports = {}\n');
+// electron-store keeps JSON on disk: values round-trip through JSON, so
+// undefined keys are dropped on every set
+fs.mkdirSync(path.join(outDir, 'node_modules', 'electron-store'), { recursive: true });
+fs.writeFileSync(
+  path.join(outDir, 'node_modules', 'electron-store', 'index.js'),
+  `module.exports = class Store {
+  constructor({ defaults = {} } = {}) {
+    this.path = ':memory:';
+    this.data = JSON.parse(JSON.stringify(defaults));
+  }
+  get(key, fallback) {
+    return key in this.data ? JSON.parse(JSON.stringify(this.data[key])) : fallback;
+  }
+  set(key, value) {
+    this.data[key] = JSON.parse(JSON.stringify(value));
+  }
+};
+`,
+);
+const { WorkspaceManager } = require(path.join(outDir, 'main', 'workspace.js'));
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+test('switching to a workspace without windows closes the detached ones', () => {
+  const manager = new WorkspaceManager();
+  const defaultId = manager.getActiveWorkspaceId();
+  const { activeId: secondId } = manager.saveAs('Second');
+  manager.saveWindows([{ id: 'w1', paneIds: [2, 3] }]);
+
+  assert.deepEqual(manager.switchTo(defaultId).windows ?? [], []);
+  // The windows stay with the workspace they were detached in
+  assert.deepEqual(manager.switchTo(secondId).windows, [{ id: 'w1', paneIds: [2, 3] }]);
+});
+
+test('switching to a workspace without a split tree drops the custom one', () => {
+  const manager = new WorkspaceManager();
+  const defaultId = manager.getActiveWorkspaceId();
+  const { activeId: secondId } = manager.saveAs('Second');
+  const tree = { type: 'split', direction: 'row', children: [{ type: 'pane', paneId: 0 }, { type: 'pane', paneId: 1 }], sizes: [0.5, 0.5] };
+  manager.save({ layout: 'custom', layoutTree: tree });
+
+  const switched = manager.switchTo(defaultId);
+  assert.equal(switched.layoutTree, undefined);
+  assert.equal(switched.layout, 'grid');
+  // Each keeps its own tree through the snapshots taken on every switch
+  const back = manager.switchTo(secondId);
+  assert.deepEqual(back.layoutTree, tree);
+  assert.equal(back.layout, 'custom');
+  assert.equal(manager.switchTo(defaultId).layoutTree, undefined);
+});
+
+let failed = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`ok   ${name}`);
+  } catch (error) {
+    failed += 1;
+    console.log(`FAIL ${name}\n     ${error.message.split('\n').join('\n     ')}`);
+  }
+}
+
+fs.rmSync(outDir, { recursive: true, force: true });
+console.log(failed ? `\n${failed} of ${tests.length} failed` : `\nall ${tests.length} passed`);
+process.exit(failed ? 1 : 0);
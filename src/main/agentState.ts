@@ -0,0 +1,305 @@
+import { AgentActivity, AgentDetectorId, AgentStateUpdate, isClaudeSessionId } from '../shared/types'
+import { ClaudeHookEvent, ClaudeHookPayload, describeToolCall } from './claudeHooks'
+
+// Per-pane agent activity classification. Consumes each pane's raw PTY output,
+// keeps an ANSI-stripped tail, and hands it to the detector assigned to the
+// pane's agent profile. Detectors are stateless text classifiers; transitions
+// that need memory (finished-task) live in AgentStateTracker. Claude Code hook
+// events (claudeHooks.ts), when a pane reports them, outrank the detectors.
+
+export interface DetectorResult {
+  activity: AgentActivity
+  detail?: string
+}
+
+export interface AgentDetector {
+  id: Exclude<AgentDetectorId, 'none'>
+  // lines: the tail of the pane's output, oldest first, ANSI stripped.
+  // quietMs: time since the pane last produced output.
+  classify(lines: string[], quietMs: number): DetectorResult | null
+}
+
+// Output tail kept per pane (chars of stripped text). A TUI redraw of the
+// prompt area plus a few lines of history fits comfortably.
+const TAIL_CHARS = 8 * 1024
+// Classify at most this often while output streams (spinners redraw ~10x/s)...
+const THROTTLE_MS = 400
+// ...and once more after output settles, so "quiet" states can be reached.
+const SETTLE_MS = 1500
+
+// CSI / OSC / two-char escapes. Cursor-forward (CSI n C) is how some TUIs
+// render runs of spaces, so it becomes a space instead of vanishing.
+const ANSI_RE = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g
+
+export function stripAnsi(data: string): string {
+  return data
+    .replace(ANSI_RE, (seq) => (seq.endsWith('C') && seq.startsWith('\x1b[') ? ' ' : ''))
+    .replace(/\r\n?/g, '\n')
+}
+
+function lastLines(lines: string[], n: number): string {
+  return lines.slice(-n).join('\n')
+}
+
+// Most recent tool-call bullet, e.g. "⏺ Bash(rm -rf build)" -> "Bash(rm -rf build)"
+const TOOL_CALL_RE = /^\s*(?:⏺\s*)?([A-Z][A-Za-z]+)\((.*)\)\s*$/
+
+function findLastIndex(lines: string[], test: (line: string) => boolean): number {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (test(lines[i])) return i
+  }
+  return -1
+}
+
+function truncate(text: string, max = 120): string {
+  const t = text.trim()
+  return t.length > max ? t.slice(0, max - 1) + '…' : t
+}
+
+// Claude Code (also router-backed `ccr code`, which runs the same TUI).
+const claudeDetector: AgentDetector = {
+  id: 'claude',
+  classify(lines) {
+    const recent = lines.slice(-40)
+    const text = recent.join('\n')
+    const toolIdx = findLastIndex(recent, (l) => TOOL_CALL_RE.test(l))
+    const toolDetail = toolIdx >= 0 ? truncate(recent[toolIdx].replace(/^\s*⏺\s*/, '')) : undefined
+
+    // Permission prompt: a selectable "❯ 1. Yes" list with decision wording
+    const hasSelector = /❯\s*\d+\.\s/.test(text)
+    const hasDecision =
+      /\b\d+\.\s*Yes\b/i.test(text) ||
+      /Do you want to (proceed|continue|make this edit|create|run|allow)/i.test(text)
+    if (hasSelector && hasDecision) return { activity: 'awaiting-permission', detail: toolDetail }
+    // A numbered choice without yes/no wording is Claude asking a question
+    if (hasSelector) return { activity: 'awaiting-free-text' }
+
+    // Working: the spinner line carries "esc to interrupt"
+    if (/esc to interrupt/i.test(lastLines(recent, 10))) {
+      const resultIdx = findLastIndex(recent, (l) => /^\s*⎿/.test(l))
+      if (toolIdx >= 0 && toolIdx > resultIdx) return { activity: 'running-tool', detail: toolDetail }
+      return { activity: 'thinking' }
+    }
+
+    const errLine = recent.slice(-15).find((l) =>
+      /API Error|Request timed out|Connection error|overloaded_error|rate_limit_error|Credit balance is too low/i.test(l),
+    )
+    if (errLine) return { activity: 'errored', detail: truncate(errLine) }
+
+    // Input box visible and nothing running
+    if (/\? for shortcuts|^\s*│?\s*>\s/m.test(lastLines(recent, 12))) {
+      // Last assistant bullet ending in a question = Claude wants an answer
+      const replyIdx = findLastIndex(recent, (l) => /^\s*⏺\s/.test(l) && !TOOL_CALL_RE.test(l))
+      if (replyIdx >= 0) {
+        const reply = recent.slice(replyIdx, replyIdx + 6).join(' ').split(/\s*[│╭╰─]{3,}/)[0]
+        if (/\?\s*$/.test(reply.trim())) return { activity: 'awaiting-free-text' }
+      }
+      return { activity: 'idle-at-prompt' }
+    }
+    return null
+  },
+}
+
+// aider: line-oriented REPL ("> " / "architect> " prompt, "(Y)es/(N)o" confirms)
+const aiderDetector: AgentDetector = {
+  id: 'aider',
+  classify(lines, quietMs) {
+    const recent = lines.slice(-20)
+    const tail = recent.filter((l) => l.trim()).slice(-1)[0] ?? ''
+    if (/\(Y\)es\/\(N\)o/i.test(tail)) return { activity: 'awaiting-permission', detail: truncate(tail) }
+    const errLine = recent.slice(-8).find((l) => /litellm\.\w*Error|APIError|AuthenticationError|RateLimitError/.test(l))
+    if (errLine) return { activity: 'errored', detail: truncate(errLine) }
+    if (/^\s*(?:\w+\s)?(?:architect|ask|code|help)?>\s*$/.test(tail)) return { activity: 'idle-at-prompt' }
+    if (/^\s*Running\s/.test(tail)) return { activity: 'running-tool', detail: truncate(tail) }
+    return quietMs < SETTLE_MS ? { activity: 'thinking' } : null
+  },
+}
+
+// opencode: full-screen TUI; only a few stable markers are reliable.
+const opencodeDetector: AgentDetector = {
+  id: 'opencode',
+  classify(lines, quietMs) {
+    const text = lastLines(lines, 30)
+    if (/Permission required|Allow (once|always)/i.test(text)) return { activity: 'awaiting-permission' }
+    if (/esc interrupt|esc to interrupt|Working/i.test(text)) return { activity: 'thinking' }
+    if (/\bError\b:/.test(lastLines(lines, 8))) return { activity: 'errored' }
+    return quietMs < SETTLE_MS ? { activity: 'thinking' } : { activity: 'idle-at-prompt' }
+  },
+}
+
+// Anything else: y/n confirmations, otherwise streaming vs quiet.
+const genericDetector: AgentDetector = {
+  id: 'generic',
+  classify(lines, quietMs) {
+    const tail = lines.filter((l) => l.trim()).slice(-1)[0] ?? ''
+    if (/\[y\/n\]|\(y\/n\)|\[Y\/n\]|\[y\/N\]|\(yes\/no\)/i.test(tail)) {
+      return { activity: 'awaiting-permission', detail: truncate(tail) }
+    }
+    return quietMs < SETTLE_MS ? { activity: 'thinking' } : { activity: 'idle-at-prompt' }
+  },
+}
+
+const DETECTORS: Record<AgentDetector['id'], AgentDetector> = {
+  claude: claudeDetector,
+  aider: aiderDetector,
+  opencode: opencodeDetector,
+  generic: genericDetector,
+}
+
+interface PaneTracker {
+  detector: AgentDetector | null
+  tail: string
+  lastOutput: number
+  lastClassify: number
+  settleTimer: ReturnType<typeof setTimeout> | null
+  activity: AgentActivity | null
+  detail?: string
+  hooked: boolean // Claude hook events seen since this PTY/agent started
+  sessionId?: string
+}
+
+type StateCallback = (paneId: number, update: AgentStateUpdate) => void
+
+export class AgentStateTracker {
+  private panes: Map<number, PaneTracker> = new Map()
+  private onChange: StateCallback
+
+  constructor(onChange: StateCallback) {
+    this.onChange = onChange
+  }
+
+  private get(paneId: number): PaneTracker {
+    let t = this.panes.get(paneId)
+    if (!t) {
+      t = { detector: null, tail: '', lastOutput: 0, lastClassify: 0, settleTimer: null, activity: null, hooked: false }
+      this.panes.set(paneId, t)
+    }
+    return t
+  }
+
+  // Assign the detector for a pane's agent (null/'none' = stop classifying).
+  setDetector(paneId: number, id: AgentDetectorId | null): void {
+    const t = this.get(paneId)
+    const next = id && id !== 'none' ? DETECTORS[id] ?? null : null
+    if (t.detector === next) return
+    t.detector = next
+    if (!next) {
+      t.hooked = false
+      t.sessionId = undefined
+      this.emit(paneId, t, null)
+    }
+  }
+
+  // Authoritative transition from a Claude Code hook event
+  applyHook(paneId: number, event: ClaudeHookEvent, payload: ClaudeHookPayload): void {
+    const t = this.get(paneId)
+    t.hooked = true
+    // Hooks only fire from Claude, so the pane is a Claude pane whatever the
+    // renderer has told us so far.
+    if (!t.detector) t.detector = DETECTORS.claude
+    if (isClaudeSessionId(payload.session_id)) t.sessionId = payload.session_id
+
+    switch (event) {
+      case 'UserPromptSubmit':
+        this.emit(paneId, t, 'thinking')
+        break
+      case 'PreToolUse':
+        this.emit(paneId, t, 'running-tool', describeToolCall(payload))
+        break
+      case 'Stop':
+        this.emit(paneId, t, 'finished-task')
+        break
+      case 'Notification': {
+        const message = payload.message ?? ''
+        if (/permission/i.test(message)) {
+          // Keep the pending tool call (from PreToolUse) as the detail when we have it
+          this.emit(paneId, t, 'awaiting-permission', t.detail ?? message)
+        } else if (!/waiting for your input/i.test(message)) {
+          // Idle reminders aren't questions; anything else wants an answer
+          this.emit(paneId, t, 'awaiting-free-text', message || undefined)
+        }
+        break
+      }
+    }
+  }
+
+  getDetector(paneId: number): AgentDetectorId | null {
+    return this.panes.get(paneId)?.detector?.id ?? null
+  }
+
+  feed(paneId: number, data: string): void {
+    const t = this.get(paneId)
+    t.tail = (t.tail + stripAnsi(data)).slice(-TAIL_CHARS)
+    t.lastOutput = Date.now()
+    if (!t.detector) return
+    if (t.lastOutput - t.lastClassify >= THROTTLE_MS) this.classify(paneId, t)
+    if (t.settleTimer) clearTimeout(t.settleTimer)
+    t.settleTimer = setTimeout(() => {
+      t.settleTimer = null
+      this.classify(paneId, t)
+    }, SETTLE_MS)
+  }
+
+  // The most recent non-blank line of output (shelved panes' preview)
+  lastLine(paneId: number): string | null {
+    const tail = this.panes.get(paneId)?.tail
+    if (!tail) return null
+    const lines = tail.split('\n')
+    const i = findLastIndex(lines, (line) => line.trim().length > 0)
+    return i === -1 ? null : truncate(lines[i])
+  }
+
+  // User keystrokes acknowledge a finished task / error.
+  noteInput(paneId: number): void {
+    const t = this.panes.get(paneId)
+    if (t && (t.activity === 'finished-task' || t.activity === 'errored')) {
+      this.emit(paneId, t, 'idle-at-prompt')
+    }
+  }
+
+  // Fresh PTY: forget the old stream and detector.
+  reset(paneId: number): void {
+    const t = this.panes.get(paneId)
+    if (!t) return
+    if (t.settleTimer) clearTimeout(t.settleTimer)
+    this.panes.delete(paneId)
+    if (t.activity !== null) this.onChange(paneId, { activity: null, since: Date.now() })
+  }
+
+  private classify(paneId: number, t: PaneTracker): void {
+    if (!t.detector) return
+    const now = Date.now()
+    t.lastClassify = now
+    const result = t.detector.classify(t.tail.split('\n'), now - t.lastOutput)
+    if (!result) return
+    // With hooks reporting, scraping only fills the gap they leave: an answered
+    // permission prompt emits nothing until the next tool call or Stop.
+    if (t.hooked) {
+      const resumed = result.activity === 'thinking' || result.activity === 'running-tool'
+      if (t.activity !== 'awaiting-permission' || !resumed) return
+    }
+    let activity = result.activity
+    // Work -> idle is a completed turn; it stays "finished" until the user
+    // interacts, so a glance at the grid shows which agents have news.
+    if (activity === 'idle-at-prompt') {
+      if (t.activity === 'thinking' || t.activity === 'running-tool' || t.activity === 'finished-task') {
+        activity = 'finished-task'
+      }
+    }
+    this.emit(paneId, t, activity, result.detail)
+  }
+
+  private emit(paneId: number, t: PaneTracker, activity: AgentActivity | null, detail?: string): void {
+    if (t.activity === activity && t.detail === detail) return
+    t.activity = activity
+    t.detail = detail
+    this.onChange(paneId, { activity, detail, since: Date.now(), ...(t.sessionId ? { sessionId: t.sessionId } : {}) })
+  }
+
+  dispose(): void {
+    for (const t of this.panes.values()) {
+      if (t.settleTimer) clearTimeout(t.settleTimer)
+    }
+    this.panes.clear()
+  }
+}
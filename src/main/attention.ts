@@ -0,0 +1,77 @@
+import { app, BrowserWindow, Notification } from 'electron'
+import { logger } from './logger'
+import { AttentionNotification, IPC_CHANNELS } from '../shared/types'
+
+// Native notifications and the dock/taskbar badge for panes that are waiting on
+// the user. The renderer decides *when* a pane needs attention (it owns pane
+// labels, repos and the xterm buffer the question is read from); this side just
+// talks to the OS.
+export class AttentionNotifier {
+  // The window showing the pane (the main window when no pane is given)
+  private getWindow: (paneId?: number) => BrowserWindow | null
+  // One live notification per pane. Holding the reference also keeps it from
+  // being garbage collected, which would silently drop its click handler.
+  private notifications: Map<number, Notification> = new Map()
+  private badgeCount = 0
+
+  constructor(getWindow: (paneId?: number) => BrowserWindow | null) {
+    this.getWindow = getWindow
+  }
+
+  notify(request: AttentionNotification): void {
+    const win = this.getWindow(request.paneId)
+    // The pane is already on screen; the in-app ring and chime cover it
+    if (!win || win.isDestroyed() || win.isFocused()) return
+    if (!Notification.isSupported()) return
+
+    this.clear(request.paneId)
+    try {
+      const notification = new Notification({ title: request.title, body: request.body })
+      notification.on('click', () => this.focusPane(request.paneId))
+      notification.on('close', () => {
+        if (this.notifications.get(request.paneId) === notification) this.notifications.delete(request.paneId)
+      })
+      this.notifications.set(request.paneId, notification)
+      notification.show()
+    } catch (error) {
+      logger.warn('attention', 'Failed to show notification', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  // The pane stopped waiting (answered in-app, or the agent moved on)
+  clear(paneId: number): void {
+    const notification = this.notifications.get(paneId)
+    if (!notification) return
+    this.notifications.delete(paneId)
+    notification.close()
+  }
+
+  // Dock badge on macOS, launcher badge on Linux (Unity). Windows has no badge
+  // count, so the taskbar button flashes when the count goes up instead.
+  setBadge(count: number): void {
+    const previous = this.badgeCount
+    this.badgeCount = count
+    app.setBadgeCount(count)
+    const win = this.getWindow()
+    if (!win || win.isDestroyed()) return
+    if (process.platform !== 'darwin') {
+      if (count > previous && !win.isFocused()) win.flashFrame(true)
+      if (count === 0) win.flashFrame(false)
+    }
+  }
+
+  private focusPane(paneId: number): void {
+    const win = this.getWindow(paneId)
+    if (!win || win.isDestroyed()) return
+    if (win.isMinimized()) win.restore()
+    win.show()
+    win.focus()
+    win.webContents.send(IPC_CHANNELS.ATTENTION_FOCUS_PANE, paneId)
+  }
+
+  dispose(): void {
+    for (const notification of this.notifications.values()) notification.close()
+    this.notifications.clear()
+    app.setBadgeCount(0)
+  }
+}
@@ -0,0 +1,380 @@
+import net from 'net'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { logger } from './logger'
+import { AutomationRequest, AutomationResponse, AutomationError, AUTOMATION_ERRORS } from '../shared/types'
+
+// Local automation API: newline-delimited JSON-RPC 2.0 over a Unix socket, so
+// scripts and the agents running in panes can list, open, type into, launch,
+// read and wait on panes. The socket lives in the user-owned ~/.quadclaude
+// (chmod 600). Pane state belongs to the renderer, so every call except `ping`
+// is forwarded there and answered over AUTOMATION_RESPONSE; the method table is
+// documented next to AutomationPaneInfo in shared/types.ts.
+
+const QC_DIR = path.join(os.homedir(), '.quadclaude')
+export const API_SOCKET_PATH = path.join(QC_DIR, 'api.sock')
+const CLI_BIN_DIR = path.join(os.homedir(), '.local', 'bin')
+const CLI_PATH = path.join(CLI_BIN_DIR, 'quadclaude')
+// Renderer round-trip budget for ordinary calls; panes.wait gets its own
+// timeout plus this much slack.
+const REQUEST_TIMEOUT_MS = 15_000
+const DEFAULT_WAIT_MS = 5 * 60_000
+const MAX_WAIT_MS = 60 * 60_000
+const MAX_LINE = 1024 * 1024
+
+type JsonRpcId = string | number | null
+
+interface PendingCall {
+  resolve: (result: unknown) => void
+  reject: (error: AutomationError) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+// Hands a call to the renderer; false when there's no window to answer it
+type ForwardFn = (request: AutomationRequest) => boolean
+
+// The `quadclaude` CLI: a dependency-free Node client for the socket above
+// (Node is already on PATH for anyone running Claude Code).
+const CLI_SCRIPT = `#!/usr/bin/env node
+// quadclaude — control QuadClaude panes from scripts. GENERATED by QuadClaude
+// (edits may be overwritten). Talks JSON-RPC to the app's local socket.
+'use strict'
+const net = require('net')
+const os = require('os')
+const path = require('path')
+
+const SOCKET = process.env.QUADCLAUDE_API_SOCKET || path.join(os.homedir(), '.quadclaude', 'api.sock')
+const USAGE = [
+  'usage: quadclaude <command> [args]',
+  '',
+  '  list [--json]                         panes and their states',
+  '  open <dir> [--agent <id>]             open a directory in a free pane',
+  '  send <pane> <text...> [--no-enter]    type text into a pane',
+  '  launch <pane> [agent]                 launch an agent profile in a pane',
+  '  read <pane> [-n <lines>]              print the last lines of a pane',
+  '  wait <pane> [--until <s1,s2>] [--timeout <sec>]',
+  '                                        block until the pane changes state',
+  '  layout <grid|focus|focus-right|custom>',
+  '                                        switch the layout',
+  '  call <method> [json-params]           raw JSON-RPC call',
+  '',
+  '<pane> is a pane id from \`quadclaude list\`, or "self" inside a QuadClaude pane.',
+].join('\\n')
+
+function fail(message, code) {
+  process.stderr.write('quadclaude: ' + message + '\\n')
+  process.exit(code || 1)
+}
+
+function call(method, params) {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(SOCKET)
+    let buffer = ''
+    socket.setEncoding('utf8')
+    socket.on('connect', () => {
+      socket.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: method, params: params || {} }) + '\\n')
+    })
+    socket.on('data', (chunk) => {
+      buffer += chunk
+      const nl = buffer.indexOf('\\n')
+      if (nl === -1) return
+      socket.end()
+      let msg
+      try {
+        msg = JSON.parse(buffer.slice(0, nl))
+      } catch (e) {
+        return reject(new Error('malformed response'))
+      }
+      if (msg.error) return reject(new Error(msg.error.message))
+      resolve(msg.result)
+    })
+    socket.on('error', (err) => {
+      if (err.code === 'ENOENT' || err.code === 'ECONNREFUSED') reject(new Error('QuadClaude is not running'))
+      else reject(err)
+    })
+    // Closed before a whole line came back (no-op once answered)
+    socket.on('close', () => reject(new Error('connection closed without a response')))
+  })
+}
+
+function paneArg(value) {
+  if (value === 'self') {
+    if (!process.env.QUADCLAUDE_PANE_ID) fail('"self" only works inside a QuadClaude pane')
+    return parseInt(process.env.QUADCLAUDE_PANE_ID, 10)
+  }
+  const id = parseInt(value, 10)
+  if (isNaN(id)) fail('expected a pane id, got "' + (value || '') + '"\\n\\n' + USAGE)
+  return id
+}
+
+// Pull "--name value" / "--flag" options out of argv
+function option(args, names, takesValue) {
+  for (const name of names) {
+    const i = args.indexOf(name)
+    if (i === -1) continue
+    const value = takesValue ? args[i + 1] : true
+    args.splice(i, takesValue ? 2 : 1)
+    return value
+  }
+  return undefined
+}
+
+function describe(pane) {
+  const status = pane.activity || pane.state
+  return [String(pane.id), pane.label, status + (pane.needsAttention ? ' *' : ''), pane.branch || '-', pane.cwd].join('\\t')
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const command = args.shift()
+  switch (command) {
+    case 'list': {
+      const json = option(args, ['--json'], false)
+      const panes = await call('panes.list')
+      if (json) return console.log(JSON.stringify(panes, null, 2))
+      for (const pane of panes) console.log(describe(pane))
+      return
+    }
+    case 'open': {
+      const agent = option(args, ['--agent', '-a'], true)
+      if (!args[0]) fail('open needs a directory\\n\\n' + USAGE)
+      const pane = await call('panes.open', { cwd: path.resolve(args[0]), agent: agent })
+      return console.log(pane.id)
+    }
+    case 'send': {
+      const noEnter = option(args, ['--no-enter'], false)
+      const paneId = paneArg(args.shift())
+      let text = args.join(' ')
+      if (!text && !process.stdin.isTTY) text = require('fs').readFileSync(0, 'utf8').replace(/\\n$/, '')
+      await call('panes.send', { paneId: paneId, text: text, enter: !noEnter })
+      return
+    }
+    case 'launch': {
+      const paneId = paneArg(args.shift())
+      const pane = await call('panes.launch', { paneId: paneId, agent: args[0] })
+      return console.log(describe(pane))
+    }
+    case 'read': {
+      const n = option(args, ['-n', '--lines'], true)
+      const paneId = paneArg(args.shift())
+      const result = await call('panes.read', { paneId: paneId, lines: n ? parseInt(n, 10) : undefined })
+      return console.log(result.lines.join('\\n'))
+    }
+    case 'wait': {
+      const until = option(args, ['--until', '-u'], true)
+      const timeout = option(args, ['--timeout', '-t'], true)
+      const paneId = paneArg(args.shift())
+      const pane = await call('panes.wait', {
+        paneId: paneId,
+        until: until ? until.split(',') : undefined,
+        timeoutMs: timeout ? parseFloat(timeout) * 1000 : undefined,
+      })
+      return console.log(describe(pane))
+    }
+    case 'layout': {
+      if (!args[0]) fail('layout needs a mode\\n\\n' + USAGE)
+      await call('layout.set', { layout: args[0] })
+      return
+    }
+    case 'call': {
+      if (!args[0]) fail('call needs a method\\n\\n' + USAGE)
+      let params = {}
+      try {
+        params = args[1] ? JSON.parse(args[1]) : {}
+      } catch (e) {
+        fail('params must be JSON')
+      }
+      const result = await call(args[0], params)
+      return console.log(JSON.stringify(result, null, 2))
+    }
+    case undefined:
+    case '-h':
+    case '--help':
+    case 'help':
+      return console.log(USAGE)
+    default:
+      fail('unknown command "' + command + '"\\n\\n' + USAGE)
+  }
+}
+
+main().catch((err) => fail(err.message))
+`
+
+// Write the CLI next to qcdelegate in ~/.local/bin. Rewritten on every launch
+// so it tracks the app's version of the protocol.
+export function installAutomationCli(): void {
+  try {
+    fs.mkdirSync(CLI_BIN_DIR, { recursive: true })
+    fs.writeFileSync(CLI_PATH, CLI_SCRIPT, { mode: 0o755 })
+  } catch (error) {
+    logger.warn('automation', 'Failed to install quadclaude CLI', error instanceof Error ? error.message : String(error))
+  }
+}
+
+function rpcError(code: number, message: string): AutomationError {
+  return { code, message }
+}
+
+function isDirectory(dir: string): boolean {
+  try {
+    return fs.statSync(dir).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+export class AutomationServer {
+  private server: net.Server | null = null
+  private forward: ForwardFn
+  private version: string
+  private nextId = 1
+  private pending: Map<number, PendingCall> = new Map()
+
+  constructor(forward: ForwardFn, version: string) {
+    this.forward = forward
+    this.version = version
+  }
+
+  start(): void {
+    try {
+      fs.mkdirSync(QC_DIR, { recursive: true })
+      // A previous run that crashed leaves the socket file behind
+      if (fs.existsSync(API_SOCKET_PATH)) fs.unlinkSync(API_SOCKET_PATH)
+    } catch (error) {
+      logger.warn('automation', 'Failed to prepare API socket', error instanceof Error ? error.message : String(error))
+    }
+
+    this.server = net.createServer((socket) => this.handleConnection(socket))
+    this.server.on('error', (error) => {
+      logger.error('automation', 'API server error', error.message)
+    })
+    this.server.listen(API_SOCKET_PATH, () => {
+      try {
+        fs.chmodSync(API_SOCKET_PATH, 0o600)
+      } catch {
+        // Best effort - the ~/.quadclaude dir is already user-owned
+      }
+      logger.info('automation', 'API server listening', API_SOCKET_PATH)
+    })
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    let buffer = ''
+    socket.setEncoding('utf-8')
+    socket.on('data', (chunk: string) => {
+      buffer += chunk
+      if (buffer.length > MAX_LINE) {
+        socket.destroy()
+        return
+      }
+      let nl: number
+      while ((nl = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, nl).trim()
+        buffer = buffer.slice(nl + 1)
+        if (line) {
+          this.handleLine(socket, line).catch((error) => {
+            logger.error('automation', 'Failed to handle request', error instanceof Error ? error.message : String(error))
+          })
+        }
+      }
+    })
+    socket.on('error', () => {
+      // Client went away mid-call; its response is simply dropped
+    })
+  }
+
+  private async handleLine(socket: net.Socket, line: string): Promise<void> {
+    let message: { jsonrpc?: unknown; id?: JsonRpcId; method?: unknown; params?: unknown }
+    try {
+      message = JSON.parse(line)
+    } catch {
+      this.reply(socket, null, undefined, rpcError(AUTOMATION_ERRORS.PARSE, 'Parse error'))
+      return
+    }
+    // `null`, a number, an array: valid JSON, not a request
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      this.reply(socket, null, undefined, rpcError(AUTOMATION_ERRORS.INVALID_REQUEST, 'Invalid request'))
+      return
+    }
+    const id = message.id ?? null
+    const isNotification = message.id === undefined
+    if (
+      message.jsonrpc !== '2.0' || typeof message.method !== 'string' ||
+      (message.params !== undefined && (typeof message.params !== 'object' || message.params === null || Array.isArray(message.params)))
+    ) {
+      this.reply(socket, id, undefined, rpcError(AUTOMATION_ERRORS.INVALID_REQUEST, 'Invalid request (params must be an object)'))
+      return
+    }
+
+    try {
+      const result = await this.dispatch(message.method, (message.params ?? {}) as Record<string, unknown>)
+      if (!isNotification) this.reply(socket, id, result)
+    } catch (error) {
+      const rpc = (error as AutomationError)?.code !== undefined
+        ? (error as AutomationError)
+        : rpcError(AUTOMATION_ERRORS.INTERNAL, error instanceof Error ? error.message : String(error))
+      if (!isNotification) this.reply(socket, id, undefined, rpc)
+    }
+  }
+
+  private reply(socket: net.Socket, id: JsonRpcId, result?: unknown, error?: AutomationError): void {
+    if (socket.destroyed) return
+    const body = error ? { jsonrpc: '2.0', id, error } : { jsonrpc: '2.0', id, result: result ?? null }
+    socket.write(JSON.stringify(body) + '\n')
+  }
+
+  private dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    if (method === 'ping') return Promise.resolve({ version: this.version })
+    // The renderer can't see the filesystem; check the directory here
+    if (method === 'panes.open' && typeof params.cwd === 'string' && !isDirectory(params.cwd)) {
+      return Promise.reject(rpcError(AUTOMATION_ERRORS.INVALID_PARAMS, `Not a directory: ${params.cwd}`))
+    }
+
+    let timeoutMs = REQUEST_TIMEOUT_MS
+    if (method === 'panes.wait') {
+      const requested = typeof params.timeoutMs === 'number' ? params.timeoutMs : DEFAULT_WAIT_MS
+      params = { ...params, timeoutMs: Math.min(Math.max(0, requested), MAX_WAIT_MS) }
+      timeoutMs = (params.timeoutMs as number) + REQUEST_TIMEOUT_MS
+    }
+
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(rpcError(AUTOMATION_ERRORS.TIMEOUT, `${method} timed out`))
+      }, timeoutMs)
+      this.pending.set(id, { resolve, reject, timer })
+      if (!this.forward({ id, method, params })) {
+        clearTimeout(timer)
+        this.pending.delete(id)
+        reject(rpcError(AUTOMATION_ERRORS.UNAVAILABLE, 'QuadClaude window is not open'))
+      }
+    })
+  }
+
+  // The renderer's answer to a forwarded call
+  resolve(response: AutomationResponse): void {
+    const call = this.pending.get(response.id)
+    if (!call) return
+    this.pending.delete(response.id)
+    clearTimeout(call.timer)
+    if (response.error) call.reject(response.error)
+    else call.resolve(response.result)
+  }
+
+  stop(): void {
+    for (const call of this.pending.values()) {
+      clearTimeout(call.timer)
+      call.reject(rpcError(AUTOMATION_ERRORS.UNAVAILABLE, 'QuadClaude is quitting'))
+    }
+    this.pending.clear()
+    this.server?.close()
+    this.server = null
+    try {
+      fs.unlinkSync(API_SOCKET_PATH)
+    } catch {
+      // Already gone
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import http from 'http'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { logger } from './logger'
+
+// Claude Code hooks -> QuadClaude. We install a tiny hook script for the events
+// below into ~/.claude/settings.json; it forwards each event's JSON payload over
+// a local Unix socket, tagged with the pane id QuadClaude injects into every
+// PTY's env. These events are the authoritative pane state; the output-scraping
+// detector in agentState.ts is only the fallback.
+
+export type ClaudeHookEvent = 'Notification' | 'Stop' | 'PreToolUse' | 'UserPromptSubmit'
+export const CLAUDE_HOOK_EVENTS: ClaudeHookEvent[] = ['Notification', 'Stop', 'PreToolUse', 'UserPromptSubmit']
+
+// Subset of the hook payload we read (Claude sends more)
+export interface ClaudeHookPayload {
+  session_id?: string
+  transcript_path?: string
+  cwd?: string
+  message?: string // Notification
+  tool_name?: string // PreToolUse
+  tool_input?: Record<string, unknown>
+}
+
+// `delegate`: the event came from a qcdelegate worker running in the pane's shell
+type HookCallback = (paneId: number, event: ClaudeHookEvent, payload: ClaudeHookPayload, delegate: boolean) => void
+
+const QC_DIR = path.join(os.homedir(), '.quadclaude')
+export const HOOK_SOCKET_PATH = path.join(QC_DIR, 'hooks.sock')
+const HOOK_SCRIPT_NAME = 'quadclaude-hook.sh'
+const MAX_BODY = 256 * 1024
+
+// The hook must never slow Claude down or change its decisions: it prints
+// nothing, caps the request at 1s, and always exits 0. Outside a QuadClaude
+// pane (no pane id in env) it's a no-op.
+const HOOK_SCRIPT = `#!/bin/bash
+# QuadClaude: forward Claude Code hook events to the app, keyed by pane.
+if [ -z "$QUADCLAUDE_PANE_ID" ]; then cat > /dev/null; exit 0; fi
+sock="\${QUADCLAUDE_HOOK_SOCKET:-$HOME/.quadclaude/hooks.sock}"
+if [ ! -S "$sock" ]; then cat > /dev/null; exit 0; fi
+curl -s -o /dev/null --max-time 1 --unix-socket "$sock" -X POST \\
+  -H 'Content-Type: application/json' --data-binary @- \\
+  "http://localhost/hook/$1?pane=$QUADCLAUDE_PANE_ID\${QUADCLAUDE_DELEGATE:+&delegate=1}" 2>/dev/null
+exit 0
+`
+
+// Install the hook script and register it for each event in Claude's
+// settings.json. Idempotent: our entries are recognized by the script path, and
+// any hooks the user configured themselves are left untouched.
+export function installClaudeHooks(claudeDir: string): void {
+  const scriptPath = path.join(claudeDir, HOOK_SCRIPT_NAME)
+  const settingsPath = path.join(claudeDir, 'settings.json')
+  try {
+    if (!fs.existsSync(claudeDir)) fs.mkdirSync(claudeDir, { recursive: true })
+    fs.writeFileSync(scriptPath, HOOK_SCRIPT, { mode: 0o755 })
+
+    let settings: Record<string, unknown> = {}
+    if (fs.existsSync(settingsPath)) {
+      settings = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'))
+    }
+    type HookEntry = { matcher?: string; hooks: Array<{ type: string; command: string }> }
+    const hooks = (settings.hooks && typeof settings.hooks === 'object' ? settings.hooks : {}) as Record<string, HookEntry[]>
+
+    let added = 0
+    for (const event of CLAUDE_HOOK_EVENTS) {
+      const entries = Array.isArray(hooks[event]) ? hooks[event] : []
+      // Quoted: the home directory may contain spaces
+      const command = `bash '${scriptPath.replace(/'/g, `'\\''`)}' ${event}`
+      const ours = entries.flatMap((e) => e.hooks ?? []).find((h) => h.command?.includes(HOOK_SCRIPT_NAME))
+      if (ours) {
+        // Installed by an older version with the path unquoted
+        if (ours.command === command) continue
+        ours.command = command
+      } else {
+        entries.push(event === 'PreToolUse' ? { matcher: '*', hooks: [{ type: 'command', command }] } : { hooks: [{ type: 'command', command }] })
+      }
+      hooks[event] = entries
+      added++
+    }
+    if (added === 0) return
+    settings.hooks = hooks
+    fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 2), 'utf-8')
+    logger.info('hooks', 'Installed Claude Code hooks', `${added} event(s) added or updated`)
+  } catch (error) {
+    logger.warn('hooks', 'Failed to install Claude Code hooks', error instanceof Error ? error.message : String(error))
+  }
+}
+
+// One-line description of a tool call, e.g. "Bash(rm -rf build)"
+export function describeToolCall(payload: ClaudeHookPayload): string | undefined {
+  if (!payload.tool_name) return undefined
+  const input = payload.tool_input ?? {}
+  const arg =
+    (typeof input.command === 'string' && input.command) ||
+    (typeof input.file_path === 'string' && input.file_path) ||
+    (typeof input.pattern === 'string' && input.pattern) ||
+    (typeof input.url === 'string' && input.url) ||
+    ''
+  const text = `${payload.tool_name}(${arg})`
+  return text.length > 120 ? text.slice(0, 119) + '…' : text
+}
+
+export class ClaudeHooksServer {
+  private server: http.Server | null = null
+  private onEvent: HookCallback
+
+  constructor(onEvent: HookCallback) {
+    this.onEvent = onEvent
+  }
+
+  start(): void {
+    try {
+      fs.mkdirSync(QC_DIR, { recursive: true })
+      // A previous run that crashed leaves the socket file behind
+      if (fs.existsSync(HOOK_SOCKET_PATH)) fs.unlinkSync(HOOK_SOCKET_PATH)
+    } catch (error) {
+      logger.warn('hooks', 'Failed to prepare hook socket', error instanceof Error ? error.message : String(error))
+    }
+
+    this.server = http.createServer((req, res) => this.handle(req, res))
+    this.server.on('error', (error) => {
+      logger.error('hooks', 'Hook server error', error.message)
+    })
+    this.server.listen(HOOK_SOCKET_PATH, () => {
+      try {
+        fs.chmodSync(HOOK_SOCKET_PATH, 0o600)
+      } catch {
+        // Best effort - the ~/.quadclaude dir is already user-owned
+      }
+      logger.info('hooks', 'Hook server listening', HOOK_SOCKET_PATH)
+    })
+  }
+
+  // Env a pane's PTY needs so the hook script can find us and tag its events
+  envFor(paneId: number): Record<string, string> {
+    return { QUADCLAUDE_PANE_ID: String(paneId), QUADCLAUDE_HOOK_SOCKET: HOOK_SOCKET_PATH }
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const match = url.pathname.match(/^\/hook\/(\w+)$/)
+    const event = match?.[1] as ClaudeHookEvent | undefined
+    const paneId = parseInt(url.searchParams.get('pane') ?? '', 10)
+    const delegate = url.searchParams.get('delegate') === '1'
+    if (req.method !== 'POST' || !event || !CLAUDE_HOOK_EVENTS.includes(event) || isNaN(paneId)) {
+      res.writeHead(404).end()
+      return
+    }
+
+    let body = ''
+    req.setEncoding('utf-8')
+    req.on('data', (chunk: string) => {
+      body += chunk
+      if (body.length > MAX_BODY) req.destroy()
+    })
+    req.on('end', () => {
+      res.writeHead(204).end()
+      let payload: ClaudeHookPayload = {}
+      try {
+        payload = body ? JSON.parse(body) : {}
+      } catch {
+        // Malformed payload still tells us the event happened
+      }
+      this.onEvent(paneId, event, payload, delegate)
+    })
+  }
+
+  stop(): void {
+    this.server?.close()
+    this.server = null
+    try {
+      fs.unlinkSync(HOOK_SOCKET_PATH)
+    } catch {
+      // Already gone
+    }
+  }
+}
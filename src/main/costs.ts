@@ -0,0 +1,314 @@
+// CostTracker — what routed models cost. When a Claude Code turn ends (the Stop hook),
+// the new lines of that session's transcript are read and each assistant message's
+// token usage is credited to its pane, route ("providerSlug,modelId") and day.
+// qcdelegate workers report through their orchestrator's pane, flagged as delegated.
+// Sessions on Anthropic's own models don't resolve to a route and aren't recorded
+// (UsageIndicator covers those).
+//
+// Prices and budgets are the user's. Costs are computed when summarized, so fixing a
+// price fixes the history too.
+import os from 'os'
+import fs from 'fs'
+import path from 'path'
+import { logger } from './logger'
+import { BUDGET_WARN_RATIO, CostBudget, CostConfig, CostRow, CostSummary, ModelPrice } from '../shared/types'
+
+const QC_DIR = path.join(os.homedir(), '.quadclaude')
+const CONFIG_PATH = path.join(QC_DIR, 'costs.json')
+const LOG_PATH = path.join(QC_DIR, 'costs.jsonl')
+// qcdelegate prints this before it runs a task (see router.ts): "<scope>\t<warning>",
+// where the scope (a day or a month) is when the warning still holds
+export const BUDGET_WARNING_PATH = path.join(QC_DIR, 'budget-warning')
+const SUMMARY_DAYS = 30
+const MAX_TRANSCRIPTS = 500 // read offsets remembered, oldest dropped first
+const DAY_MS = 24 * 60 * 60_000
+
+// One line of costs.jsonl: a turn's tokens on one route
+interface CostRecord {
+  at: number
+  pane: number
+  route: string
+  input: number
+  output: number
+  delegate?: boolean
+}
+
+interface CostsFile extends CostConfig {
+  transcripts: Record<string, number> // transcript path -> bytes already counted
+}
+
+// The parts of a Claude Code transcript line we read
+interface TranscriptEntry {
+  type?: string
+  timestamp?: string
+  message?: {
+    id?: string
+    model?: string
+    usage?: {
+      input_tokens?: number
+      output_tokens?: number
+      cache_creation_input_tokens?: number
+      cache_read_input_tokens?: number
+    }
+  }
+}
+
+type ResolveRoute = (model: string) => string | null
+type ChangeCallback = (summary: CostSummary) => void
+
+// Local calendar day, YYYY-MM-DD
+function dayOf(at: number): string {
+  const d = new Date(at)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function usd(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+interface BudgetWarning {
+  scope: string // the day (YYYY-MM-DD) or month (YYYY-MM) it's about
+  text: string
+}
+
+function budgetWarning(todayUsd: number, monthUsd: number, budget: CostBudget, today: string): BudgetWarning | undefined {
+  const checks = [
+    { spent: todayUsd, limit: budget.dailyUsd, scope: today, what: "Today's", kind: 'daily' },
+    { spent: monthUsd, limit: budget.monthlyUsd, scope: today.slice(0, 7), what: "This month's", kind: 'monthly' },
+  ]
+  for (const { spent, limit, scope, what, kind } of checks) {
+    if (!limit || spent < limit * BUDGET_WARN_RATIO) continue
+    const over = spent >= limit ? ' — over budget' : ''
+    return { scope, text: `${what} model spend is ${usd(spent)} of your ${usd(limit)} ${kind} budget${over}.` }
+  }
+  return undefined
+}
+
+function validPrice(price: ModelPrice | undefined): price is ModelPrice {
+  return !!price && Number.isFinite(price.input) && Number.isFinite(price.output) && price.input >= 0 && price.output >= 0
+}
+
+function validLimit(limit: number | undefined): number | undefined {
+  return limit !== undefined && Number.isFinite(limit) && limit > 0 ? limit : undefined
+}
+
+export class CostTracker {
+  private resolveRoute: ResolveRoute
+  private onChange: ChangeCallback
+  private records: CostRecord[] | null = null
+
+  constructor(resolveRoute: ResolveRoute, onChange: ChangeCallback) {
+    this.resolveRoute = resolveRoute
+    this.onChange = onChange
+  }
+
+  private readFile(): CostsFile {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8'))
+      return {
+        prices: parsed?.prices && typeof parsed.prices === 'object' ? parsed.prices : {},
+        budget: parsed?.budget && typeof parsed.budget === 'object' ? parsed.budget : {},
+        transcripts: parsed?.transcripts && typeof parsed.transcripts === 'object' ? parsed.transcripts : {},
+      }
+    } catch {
+      return { prices: {}, budget: {}, transcripts: {} }
+    }
+  }
+
+  private writeFile(file: CostsFile): void {
+    fs.mkdirSync(QC_DIR, { recursive: true })
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(file, null, 2), 'utf8')
+  }
+
+  private loadRecords(): CostRecord[] {
+    if (this.records) return this.records
+    this.records = []
+    try {
+      for (const line of fs.readFileSync(LOG_PATH, 'utf8').split('\n')) {
+        if (!line.trim()) continue
+        try {
+          this.records.push(JSON.parse(line))
+        } catch {
+          // A line cut short by a crash; the rest still count
+        }
+      }
+    } catch {
+      // Nothing recorded yet
+    }
+    return this.records
+  }
+
+  config(): CostConfig {
+    const { prices, budget } = this.readFile()
+    return { prices, budget }
+  }
+
+  setConfig(config: CostConfig): CostSummary {
+    const file = this.readFile()
+    const prices = Object.fromEntries(Object.entries(config.prices).filter(([, price]) => validPrice(price)))
+    const budget = { dailyUsd: validLimit(config.budget.dailyUsd), monthlyUsd: validLimit(config.budget.monthlyUsd) }
+    this.writeFile({ ...file, prices, budget })
+    return this.changed()
+  }
+
+  // Forget what was spent (prices, budgets and read offsets stay)
+  clear(): CostSummary {
+    this.records = []
+    try {
+      fs.writeFileSync(LOG_PATH, '', 'utf8')
+    } catch (error) {
+      logger.warn('costs', 'Failed to clear the cost log', error instanceof Error ? error.message : String(error))
+    }
+    return this.changed()
+  }
+
+  // Credit what a transcript gained since the last turn. Called on every Stop.
+  record(paneId: number, transcriptPath: string, delegate: boolean): void {
+    try {
+      const file = this.readFile()
+      const size = fs.statSync(transcriptPath).size
+      let offset = file.transcripts[transcriptPath] ?? 0
+      if (size < offset) offset = 0 // rewritten since
+      if (size === offset) return
+
+      const buffer = Buffer.alloc(size - offset)
+      const fd = fs.openSync(transcriptPath, 'r')
+      try {
+        fs.readSync(fd, buffer, 0, buffer.length, offset)
+      } finally {
+        fs.closeSync(fd)
+      }
+      // Only whole lines; a line still being written waits for the next turn
+      const end = buffer.lastIndexOf(0x0a)
+      if (end === -1) return
+      const lines = buffer.subarray(0, end).toString('utf8').split('\n')
+
+      // A streamed message is written as several lines sharing its id; the last
+      // one carries the final usage
+      const entries = new Map<string, TranscriptEntry>()
+      lines.forEach((line, i) => {
+        let entry: TranscriptEntry
+        try {
+          entry = JSON.parse(line)
+        } catch {
+          return
+        }
+        if (entry.type === 'assistant' && entry.message?.usage) entries.set(entry.message.id ?? `line-${i}`, entry)
+      })
+
+      // Each message counts on the day it was sent: a transcript first seen now
+      // (an older session resumed, or one from before upgrading) holds history
+      const now = Date.now()
+      const byRouteDay = new Map<string, CostRecord>()
+      for (const { timestamp, message } of entries.values()) {
+        const route = this.resolveRoute(message?.model ?? '')
+        if (!route) continue
+        const sent = timestamp ? Date.parse(timestamp) : NaN
+        const at = Number.isFinite(sent) && sent <= now ? sent : now
+        const key = `${route}\t${dayOf(at)}`
+        const record = byRouteDay.get(key) ?? { at, pane: paneId, route, input: 0, output: 0, ...(delegate ? { delegate: true } : {}) }
+        const usage = message?.usage ?? {}
+        record.at = Math.max(record.at, at)
+        record.input +=
+          (usage.input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0)
+        record.output += usage.output_tokens ?? 0
+        byRouteDay.set(key, record)
+      }
+      const added = [...byRouteDay.values()]
+
+      // Insertion order doubles as age: re-adding moves a transcript to the end
+      const { [transcriptPath]: _previous, ...transcripts } = file.transcripts
+      transcripts[transcriptPath] = offset + end + 1
+      const paths = Object.keys(transcripts)
+      for (const stale of paths.slice(0, Math.max(0, paths.length - MAX_TRANSCRIPTS))) delete transcripts[stale]
+      this.writeFile({ ...file, transcripts })
+
+      if (added.length === 0) return
+      // Loaded before appending, or the first load would read these back too
+      const records = this.loadRecords()
+      fs.appendFileSync(LOG_PATH, added.map((r) => JSON.stringify(r) + '\n').join(''), 'utf8')
+      records.push(...added)
+      this.changed()
+    } catch (error) {
+      logger.warn('costs', `Failed to read transcript for pane ${paneId}`, error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  summary(): CostSummary {
+    return this.summarize().summary
+  }
+
+  private summarize(): { summary: CostSummary; warning?: BudgetWarning } {
+    const config = this.config()
+    const now = Date.now()
+    const today = dayOf(now)
+    const month = today.slice(0, 7)
+    const since = dayOf(now - (SUMMARY_DAYS - 1) * DAY_MS)
+    const byDay = new Map<string, CostRow>()
+    const byModel = new Map<string, CostRow>()
+    const byPane = new Map<string, CostRow>()
+    const unpriced = new Set<string>()
+    let todayUsd = 0
+    let monthUsd = 0
+
+    const add = (rows: Map<string, CostRow>, key: string, record: CostRecord, cost: number) => {
+      const row = rows.get(key) ?? { key, inputTokens: 0, outputTokens: 0, usd: 0, delegatedUsd: 0 }
+      row.inputTokens += record.input
+      row.outputTokens += record.output
+      row.usd += cost
+      if (record.delegate) row.delegatedUsd += cost
+      rows.set(key, row)
+    }
+
+    for (const record of this.loadRecords()) {
+      const price = config.prices[record.route]
+      if (!price) unpriced.add(record.route)
+      const cost = price ? (record.input * price.input + record.output * price.output) / 1_000_000 : 0
+      const day = dayOf(record.at)
+      if (day === today) todayUsd += cost
+      if (day.startsWith(month)) monthUsd += cost
+      if (day < since) continue
+      add(byDay, day, record, cost)
+      add(byModel, record.route, record, cost)
+      add(byPane, String(record.pane), record, cost)
+    }
+
+    const byCost = (a: CostRow, b: CostRow) => b.usd - a.usd || b.outputTokens - a.outputTokens
+    const warning = budgetWarning(todayUsd, monthUsd, config.budget, today)
+    return {
+      summary: {
+        todayUsd,
+        monthUsd,
+        byDay: [...byDay.values()].sort((a, b) => b.key.localeCompare(a.key)),
+        byModel: [...byModel.values()].sort(byCost),
+        byPane: [...byPane.values()].sort(byCost),
+        unpriced: [...unpriced],
+        warning: warning?.text,
+        config,
+      },
+      warning,
+    }
+  }
+
+  // Keep qcdelegate's budget warning current and tell the windows
+  private changed(): CostSummary {
+    const { summary, warning } = this.summarize()
+    this.writeWarning(warning)
+    this.onChange(summary)
+    return summary
+  }
+
+  // Also at startup, for a warning about a budget set or spent while away
+  writeWarning(warning: BudgetWarning | undefined = this.summarize().warning): void {
+    try {
+      if (warning) {
+        fs.mkdirSync(QC_DIR, { recursive: true })
+        fs.writeFileSync(BUDGET_WARNING_PATH, `${warning.scope}\t${warning.text}\n`, 'utf8')
+      } else if (fs.existsSync(BUDGET_WARNING_PATH)) {
+        fs.rmSync(BUDGET_WARNING_PATH)
+      }
+    } catch (error) {
+      logger.warn('costs', 'Failed to update the budget warning', error instanceof Error ? error.message : String(error))
+    }
+  }
+}
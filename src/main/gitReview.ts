@@ -0,0 +1,302 @@
+// Diff review panel backend: reads a pane repo's working-tree diff and stages,
+// unstages, or discards whole files or single hunks. Hunk operations rebuild a
+// one-hunk patch from a fresh diff and feed it to `git apply`, so a stale view
+// can never apply the wrong change - a hunk that no longer exists is an error.
+import { execFile, spawn } from 'child_process'
+import { promisify } from 'util'
+import fs from 'fs'
+import path from 'path'
+import { DiffFile, DiffHunk, GitReview, GitReviewOp, GitReviewResult } from '../shared/types'
+import { logger } from './logger'
+
+const pExecFile = promisify(execFile)
+
+const MAX_DIFF_BYTES = 20 * 1024 * 1024
+const MAX_FILE_LINES = 3000 // per file, per side (staged / unstaged)
+const MAX_UNTRACKED_BYTES = 256 * 1024
+const MAX_TEMPLATE_DIFF_CHARS = 60_000 // {{git_diff}} is typed into a prompt
+
+async function git(cwd: string, command: string[], input?: string): Promise<string> {
+  // Paths come back as they are on disk (not octal-escaped), and the paths we
+  // pass back in are names, never globs
+  const args = ['-c', 'core.quotePath=false', '--literal-pathspecs', ...command]
+  if (input === undefined) {
+    try {
+      const { stdout } = await pExecFile('git', args, { cwd, encoding: 'utf-8', timeout: 15000, maxBuffer: MAX_DIFF_BYTES })
+      return stdout
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim()
+      throw new Error(stderr || (error instanceof Error ? error.message : String(error)))
+    }
+  }
+  // execFile can't write stdin; patches go through spawn
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, { cwd })
+    let stdout = ''
+    let stderr = ''
+    const timer = setTimeout(() => child.kill(), 15000)
+    child.stdout.on('data', (d) => (stdout += d))
+    child.stderr.on('data', (d) => (stderr += d))
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      if (code === 0) resolve(stdout)
+      else reject(new Error(stderr.trim() || `git ${command[0]} exited with ${code}`))
+    })
+    child.stdin.end(input)
+  })
+}
+
+interface ParsedFile {
+  path: string
+  oldPath?: string
+  status: DiffFile['status']
+  binary: boolean
+  header: string[] // "diff --git" through "+++", needed to rebuild a patch
+  hunks: DiffHunk[]
+}
+
+const C_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 }
+
+// A path as git prints it in a diff: bare, or C-quoted ("a/tab\there") when it
+// holds quotes, backslashes or control characters
+function unquotePath(text: string): string {
+  if (!text.startsWith('"') || !text.endsWith('"')) return text
+  const bytes: number[] = []
+  const body = Buffer.from(text.slice(1, -1), 'utf-8')
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== 0x5c) {
+      bytes.push(body[i])
+      continue
+    }
+    const next = String.fromCharCode(body[++i])
+    if (/[0-7]/.test(next)) {
+      bytes.push(parseInt(body.subarray(i, i + 3).toString('latin1'), 8))
+      i += 2
+    } else {
+      bytes.push(C_ESCAPES[next] ?? body[i])
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8')
+}
+
+// "a/x b/x" from a diff --git line. Only a fallback for diffs with no ---/+++
+// lines (binary, mode-only): a path with " b/" in it is ambiguous here.
+function diffGitPath(rest: string): string {
+  const quoted = /^(?:"(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*")$/.exec(rest)
+  if (quoted) return unquotePath(quoted[1]).slice(2)
+  // Unrenamed, both sides are the same path: "a/<p> b/<p>"
+  const half = (rest.length - 5) / 2
+  const same = rest.slice(2, 2 + half)
+  if (Number.isInteger(half) && rest === `a/${same} b/${same}`) return same
+  return /^a\/.* b\/(.*)$/.exec(rest)?.[1] ?? rest
+}
+
+// The path on a ---/+++ line, without its a/ or b/ prefix; null for /dev/null.
+// Git adds a tab after a path that contains spaces.
+function headerPath(line: string): string | null {
+  const name = line.slice(4).replace(/\t$/, '')
+  return name === '/dev/null' ? null : unquotePath(name).slice(2)
+}
+
+// Unified diff (git diff output) → files with their hunks
+function parseDiff(text: string): ParsedFile[] {
+  const files: ParsedFile[] = []
+  let file: ParsedFile | null = null
+  let hunk: DiffHunk | null = null
+  for (const line of text.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      file = { path: diffGitPath(line.slice(11)), status: 'modified', binary: false, header: [line], hunks: [] }
+      hunk = null
+      files.push(file)
+      continue
+    }
+    if (!file) continue
+    if (line.startsWith('@@')) {
+      hunk = { header: line, lines: [] }
+      file.hunks.push(hunk)
+    } else if (hunk) {
+      // Blank context lines are ' ', so a truly empty line is only the split's tail
+      if (line !== '') hunk.lines.push(line)
+    } else {
+      file.header.push(line)
+      if (line.startsWith('new file mode')) file.status = 'added'
+      else if (line.startsWith('deleted file mode')) file.status = 'deleted'
+      else if (line.startsWith('rename from ')) {
+        file.status = 'renamed'
+        file.oldPath = unquotePath(line.slice('rename from '.length))
+      } else if (line.startsWith('rename to ')) file.path = unquotePath(line.slice('rename to '.length))
+      else if (line.startsWith('Binary files ')) file.binary = true
+      // The unambiguous names: the new side, or the old one for a deletion
+      else if (line.startsWith('--- ')) file.path = headerPath(line) ?? file.path
+      else if (line.startsWith('+++ ')) file.path = headerPath(line) ?? file.path
+    }
+  }
+  return files
+}
+
+function diffArgs(staged: boolean, filePath?: string): string[] {
+  return [
+    'diff', '--no-color', '--no-ext-diff', '-M',
+    ...(staged ? ['--cached'] : []),
+    ...(filePath ? ['--', filePath] : []),
+  ]
+}
+
+function capped(hunks: DiffHunk[]): { hunks: DiffHunk[]; truncated: boolean } {
+  let total = 0
+  const kept: DiffHunk[] = []
+  for (const h of hunks) {
+    total += h.lines.length
+    if (total > MAX_FILE_LINES) return { hunks: kept, truncated: true }
+    kept.push(h)
+  }
+  return { hunks: kept, truncated: false }
+}
+
+// Untracked files show as all-added, read straight from disk
+function untrackedFile(repoRoot: string, filePath: string): DiffFile {
+  const file: DiffFile = { path: filePath, status: 'untracked', staged: [], unstaged: [] }
+  try {
+    const full = path.join(repoRoot, filePath)
+    const stat = fs.statSync(full)
+    if (!stat.isFile()) return file
+    if (stat.size > MAX_UNTRACKED_BYTES) {
+      file.truncated = true
+      return file
+    }
+    const buf = fs.readFileSync(full)
+    if (buf.includes(0)) {
+      file.binary = true
+      return file
+    }
+    const lines = buf.toString('utf-8').split('\n')
+    if (lines[lines.length - 1] === '') lines.pop()
+    const { hunks, truncated } = capped([{ header: `@@ -0,0 +1,${lines.length} @@`, lines: lines.map((l) => '+' + l) }])
+    file.unstaged = hunks
+    file.truncated = truncated
+  } catch {
+    // Vanished between listing and reading
+  }
+  return file
+}
+
+export async function loadReview(cwd: string): Promise<GitReview | null> {
+  let repoRoot: string
+  try {
+    repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim()
+  } catch {
+    return null
+  }
+  const [branch, unstagedText, stagedText, untrackedText] = await Promise.all([
+    git(repoRoot, ['symbolic-ref', '--short', 'HEAD']).then((b) => b.trim()).catch(() => 'HEAD'),
+    git(repoRoot, diffArgs(false)),
+    git(repoRoot, diffArgs(true)),
+    git(repoRoot, ['ls-files', '-z', '--others', '--exclude-standard']),
+  ])
+
+  // One entry per path, carrying both its staged and unstaged hunks
+  const byPath = new Map<string, DiffFile>()
+  const add = (parsed: ParsedFile[], staged: boolean) => {
+    for (const p of parsed) {
+      const entry = byPath.get(p.path) ?? { path: p.path, status: p.status, staged: [], unstaged: [] }
+      const { hunks, truncated } = capped(p.hunks)
+      if (staged) {
+        // The staged side knows whether the file is new/renamed relative to HEAD
+        entry.status = p.status
+        entry.oldPath = p.oldPath
+        entry.staged = hunks
+      } else {
+        entry.unstaged = hunks
+      }
+      entry.binary = entry.binary || p.binary
+      entry.truncated = entry.truncated || truncated
+      byPath.set(p.path, entry)
+    }
+  }
+  add(parseDiff(stagedText), true)
+  add(parseDiff(unstagedText), false)
+  for (const filePath of untrackedText.split('\0').filter(Boolean)) {
+    byPath.set(filePath, untrackedFile(repoRoot, filePath))
+  }
+
+  const files = [...byPath.values()].sort((a, b) => a.path.localeCompare(b.path))
+  return { repoRoot, branch, files }
+}
+
+// A one-hunk patch for `git apply`, taken from the current diff of the file
+async function hunkPatch(repoRoot: string, filePath: string, header: string, staged: boolean): Promise<string> {
+  const parsed = parseDiff(await git(repoRoot, diffArgs(staged, filePath)))
+  const file = parsed.find((f) => f.path === filePath)
+  const hunk = file?.hunks.find((h) => h.header === header)
+  if (!file || !hunk) throw new Error('That change is no longer in the diff - refresh and try again')
+  return [...file.header, hunk.header, ...hunk.lines].join('\n') + '\n'
+}
+
+async function isUntracked(repoRoot: string, filePath: string): Promise<boolean> {
+  const out = await git(repoRoot, ['ls-files', '--others', '--exclude-standard', '--', filePath])
+  return out.trim().length > 0
+}
+
+export async function applyReviewOp(cwd: string, op: GitReviewOp): Promise<GitReviewResult> {
+  try {
+    const repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim()
+    const { action, path: filePath, hunk } = op
+    if (hunk) {
+      if (action === 'stage') {
+        await git(repoRoot, ['apply', '--cached', '--recount', '-'], await hunkPatch(repoRoot, filePath, hunk, false))
+      } else if (action === 'unstage') {
+        await git(repoRoot, ['apply', '--cached', '--reverse', '--recount', '-'], await hunkPatch(repoRoot, filePath, hunk, true))
+      } else {
+        await git(repoRoot, ['apply', '--reverse', '--recount', '-'], await hunkPatch(repoRoot, filePath, hunk, false))
+      }
+    } else if (action === 'stage') {
+      await git(repoRoot, ['add', '--', filePath])
+    } else if (action === 'unstage') {
+      await git(repoRoot, ['restore', '--staged', '--', filePath]).catch(() =>
+        // No commits yet: there is no HEAD to restore from
+        git(repoRoot, ['rm', '--cached', '--quiet', '--', filePath]),
+      )
+    } else if (await isUntracked(repoRoot, filePath)) {
+      await fs.promises.rm(path.join(repoRoot, filePath), { force: true })
+    } else {
+      // Unstaged changes only; whatever is staged stays
+      await git(repoRoot, ['restore', '--', filePath])
+    }
+    return { ok: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    logger.warn('git-review', `Failed to ${op.action} ${op.path}`, message)
+    return { ok: false, error: message }
+  }
+}
+
+// Prompt templates: {{repo}} is the repo's folder name, {{git_diff}} its
+// staged and unstaged changes against HEAD (untracked files aren't included)
+export async function repoName(cwd: string): Promise<string> {
+  const root = await git(cwd, ['rev-parse', '--show-toplevel']).then((r) => r.trim()).catch(() => cwd)
+  return path.basename(root)
+}
+
+export async function templateDiff(cwd: string): Promise<string> {
+  const diff = await git(cwd, ['diff', '--no-color', '--no-ext-diff', 'HEAD']).catch(() =>
+    // No commits yet: everything staged is the change
+    git(cwd, ['diff', '--no-color', '--no-ext-diff', '--cached']).catch(() => ''),
+  )
+  const text = diff.trimEnd()
+  return text.length > MAX_TEMPLATE_DIFF_CHARS ? `${text.slice(0, MAX_TEMPLATE_DIFF_CHARS)}\n[diff truncated]` : text
+}
+
+export async function commitStaged(cwd: string, message: string): Promise<GitReviewResult> {
+  if (!message.trim()) return { ok: false, error: 'Commit message is empty' }
+  try {
+    await git(cwd, ['commit', '--quiet', '-m', message])
+    logger.info('git-review', 'Committed staged changes', cwd)
+    return { ok: true }
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) }
+  }
+}
@@ -0,0 +1,191 @@
+import fs from 'fs'
+import path from 'path'
+import { logger } from './logger'
+import { stripAnsi } from './agentState'
+import { OutputSearchMatch, OutputSearchQuery, outputMatcher, DEFAULT_WORKSPACE_ID } from '../shared/types'
+
+// Plain-text output log per pane, much larger than xterm's scrollback, so the
+// output search can find things that scrolled away hours ago. Opt-in
+// (Settings → Extended history): it's a copy of everything the panes print.
+// Each pane rotates between pane-<id>.log and one older pane-<id>.1.log.
+const MAX_FILE_BYTES = 8 * 1024 * 1024
+const FLUSH_INTERVAL_MS = 5000
+const MAX_LINE_CHARS = 2000
+const CONTEXT_LINES = 1
+
+interface PaneLog {
+  partial: string // trailing text not yet ended by a newline
+  lastLine: string // TUIs redraw the same line over and over; keep one copy
+  pending: string[]
+  bytes: number // current file size, for rotation
+}
+
+export class OutputHistory {
+  private baseDir: string
+  private dir: string
+  private enabled = false
+  private logs: Map<number, PaneLog> = new Map()
+  private flushTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(dir: string) {
+    this.baseDir = dir
+    this.dir = dir
+  }
+
+  // Pane ids are reused across named workspaces; each gets its own logs.
+  private dirFor(workspaceId: string): string {
+    return workspaceId === DEFAULT_WORKSPACE_ID ? this.baseDir : path.join(this.baseDir, `ws-${workspaceId}`)
+  }
+
+  setNamespace(workspaceId: string): void {
+    const dir = this.dirFor(workspaceId)
+    if (dir === this.dir) return
+    this.flushSync()
+    this.logs.clear()
+    this.dir = dir
+    if (!this.enabled) return
+    try {
+      fs.mkdirSync(this.dir, { recursive: true })
+    } catch (error) {
+      logger.warn('history', 'Failed to create history dir', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  dropNamespace(workspaceId: string): void {
+    if (workspaceId === DEFAULT_WORKSPACE_ID) return
+    fs.promises.rm(this.dirFor(workspaceId), { recursive: true, force: true }).catch(() => {})
+  }
+
+  private fileFor(paneId: number, rotated = false): string {
+    return path.join(this.dir, rotated ? `pane-${paneId}.1.log` : `pane-${paneId}.log`)
+  }
+
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return
+    this.enabled = enabled
+    if (enabled) {
+      try {
+        fs.mkdirSync(this.dir, { recursive: true })
+      } catch (error) {
+        logger.warn('history', 'Failed to create history dir', error instanceof Error ? error.message : String(error))
+      }
+      this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS)
+      this.flushTimer.unref?.()
+      logger.info('history', 'Extended output history enabled')
+      return
+    }
+    // Turning it off also deletes what was recorded
+    if (this.flushTimer) clearInterval(this.flushTimer)
+    this.flushTimer = null
+    this.logs.clear()
+    fs.promises.rm(this.baseDir, { recursive: true, force: true }).catch(() => {})
+    logger.info('history', 'Extended output history disabled and cleared')
+  }
+
+  append(paneId: number, data: string): void {
+    if (!this.enabled) return
+    let log = this.logs.get(paneId)
+    if (!log) {
+      let bytes = 0
+      try {
+        bytes = fs.statSync(this.fileFor(paneId)).size
+      } catch {
+        // No file yet
+      }
+      log = { partial: '', lastLine: '', pending: [], bytes }
+      this.logs.set(paneId, log)
+    }
+    const parts = (log.partial + stripAnsi(data)).split('\n')
+    log.partial = (parts.pop() ?? '').slice(-MAX_LINE_CHARS)
+    for (const part of parts) {
+      const line = part.trimEnd().slice(0, MAX_LINE_CHARS)
+      if (!line.trim() || line === log.lastLine) continue
+      log.lastLine = line
+      log.pending.push(line)
+    }
+  }
+
+  private takePending(paneId: number, log: PaneLog): string | null {
+    if (log.pending.length === 0) return null
+    const text = log.pending.join('\n') + '\n'
+    log.pending = []
+    if (log.bytes + text.length > MAX_FILE_BYTES) {
+      try {
+        fs.renameSync(this.fileFor(paneId), this.fileFor(paneId, true))
+      } catch {
+        // Nothing to rotate yet
+      }
+      log.bytes = 0
+    }
+    log.bytes += text.length
+    return text
+  }
+
+  private flush(): void {
+    for (const [paneId, log] of this.logs) {
+      const text = this.takePending(paneId, log)
+      if (!text) continue
+      fs.promises.appendFile(this.fileFor(paneId), text, { mode: 0o600 }).catch((error) => {
+        logger.warn('history', `Failed to write history for pane ${paneId}`, error instanceof Error ? error.message : String(error))
+      })
+    }
+  }
+
+  // Synchronous flush for the quit path, where we cannot await.
+  flushSync(): void {
+    if (!this.enabled) return
+    for (const [paneId, log] of this.logs) {
+      const text = this.takePending(paneId, log)
+      if (!text) continue
+      try {
+        fs.appendFileSync(this.fileFor(paneId), text, { mode: 0o600 })
+      } catch (error) {
+        logger.warn('history', `Failed to write history for pane ${paneId}`, error instanceof Error ? error.message : String(error))
+      }
+    }
+  }
+
+  // Pane closed by the user: drop its history with it.
+  discard(paneId: number): void {
+    this.logs.delete(paneId)
+    fs.promises.unlink(this.fileFor(paneId)).catch(() => {})
+    fs.promises.unlink(this.fileFor(paneId, true)).catch(() => {})
+  }
+
+  // Matches per pane, most recent last, at most `limit` per pane.
+  async search(query: OutputSearchQuery, paneIds: number[], limit: number): Promise<Record<number, OutputSearchMatch[]>> {
+    const results: Record<number, OutputSearchMatch[]> = {}
+    const match = outputMatcher(query)
+    if (!this.enabled || !match) return results
+    this.flushSync()
+    for (const paneId of paneIds) {
+      let lines: string[] = []
+      for (const file of [this.fileFor(paneId, true), this.fileFor(paneId)]) {
+        try {
+          lines = lines.concat((await fs.promises.readFile(file, 'utf-8')).split('\n'))
+        } catch {
+          // Missing file = no history for that slot
+        }
+      }
+      const hits: OutputSearchMatch[] = []
+      for (let i = 0; i < lines.length; i++) {
+        const hit = match(lines[i])
+        if (!hit) continue
+        hits.push({
+          line: lines[i],
+          start: hit.start,
+          length: hit.length,
+          before: lines.slice(Math.max(0, i - CONTEXT_LINES), i),
+          after: lines.slice(i + 1, i + 1 + CONTEXT_LINES),
+        })
+      }
+      if (hits.length > 0) results[paneId] = hits.slice(-limit)
+    }
+    return results
+  }
+
+  dispose(): void {
+    if (this.flushTimer) clearInterval(this.flushTimer)
+    this.flushTimer = null
+  }
+}
@@ -1,14 +1,27 @@
-import { app, BrowserWindow, ipcMain, Menu, shell, powerMonitor, dialog, clipboard, nativeImage } from 'electron'
+import { app, BrowserWindow, ipcMain, Menu, shell, powerMonitor, dialog, clipboard, nativeImage, screen } from 'electron'
 import liquidGlass from 'electron-liquid-glass'
 import fs from 'fs'
 import path from 'path'
 import { PtyManager } from './pty'
+import { ScrollbackStore } from './scrollback'
+import { OutputHistory } from './history'
+import { AgentStateTracker } from './agentState'
+import { ClaudeHooksServer, installClaudeHooks } from './claudeHooks'
+import { AttentionNotifier } from './attention'
+import { AutomationServer, installAutomationCli } from './automation'
 import { UsagePoller } from './usage'
 import { WorkspaceManager } from './workspace'
-import { RouterManager } from './router'
+import { RouterManager, SECRET_ENV_PREFIX } from './router'
+import { SecretStore } from './secrets'
+import { CostTracker } from './costs'
+import { PaneWindows } from './windows'
+import { PromptSync, importPromptFiles, exportPromptFiles } from './prompts'
+import { findProjectConfig, projectEnv } from './project'
 import { logger } from './logger'
-import { IPC_CHANNELS, MenuAction, RouterProviderInput, portIsolationEnv } from '../shared/types'
+import { IPC_CHANNELS, MenuAction, RouterProviderInput, AgentDetectorId, AttentionNotification, AutomationResponse, OutputSearchQuery, PaneWorktree, WorktreeFinishAction, GitReviewOp, WindowBounds, WorkspaceState, WorkspaceSync, MAIN_WINDOW_ID, PromptMainVariable, PromptSyncRequest, SavedPrompt, ROUTER_PROXY_URL, CostConfig, SECRET_ENV_KEY, agentSecretName, isRouterProfile, secretRef, secretRefName } from '../shared/types'
 import { loopbackStatus, ensureLoopbackAliases } from './loopback'
+import { createWorktree, inspectWorktree, finishWorktree } from './worktree'
+import { loadReview, applyReviewOp, commitStaged, repoName, templateDiff } from './gitReview'
 import {
   startPerfMonitor,
   stopPerfMonitor,
@@ -28,11 +41,39 @@ try {
 }
 
 let mainWindow: BrowserWindow | null = null
+// Detached pane windows by id; paneWindows says which panes each one shows
+const detachedWindows = new Map<string, BrowserWindow>()
+const paneWindows = new PaneWindows()
+// Set while the main window or the app is going away: detached windows that
+// close then keep their panes, so they reopen with the workspace
+let keepPaneWindows = false
+// Waiting-pane count reported by each window's renderer (by webContents id)
+const badgeCounts = new Map<number, number>()
 let logWindow: BrowserWindow | null = null
 let ptyManager: PtyManager | null = null
+let scrollbackStore: ScrollbackStore | null = null
+let outputHistory: OutputHistory | null = null
+let agentStates: AgentStateTracker | null = null
+let claudeHooks: ClaudeHooksServer | null = null
+let attention: AttentionNotifier | null = null
+let automation: AutomationServer | null = null
 let usagePoller: UsagePoller | null = null
 let workspaceManager: WorkspaceManager | null = null
-const routerManager = new RouterManager()
+const secretStore = new SecretStore()
+const routerManager = new RouterManager(secretStore)
+// Spend on routed models, from the transcripts of turns that end in a pane
+const costTracker = new CostTracker(
+  (model) => routerManager.routeForModel(model),
+  (summary) => {
+    for (const win of allWindows()) win.webContents.send(IPC_CHANNELS.COSTS_UPDATE, summary)
+  }
+)
+// Prompt folders read from disk; every window hears about changes
+const promptSync = new PromptSync((prompts) => {
+  for (const win of allWindows()) win.webContents.send(IPC_CHANNELS.PROMPTS_CHANGED, prompts)
+})
+// Which trusted project version each pane's shell got its env from (null = none)
+const ptyProjectEnv = new Map<number, string | null>()
 const isDev = process.env.QC_FORCE_PROD === '1' ? false : (process.env.NODE_ENV === 'development' || !app.isPackaged)
 
 function openLogViewer() {
@@ -165,6 +206,41 @@ function openLogViewer() {
   logger.info('app', 'Log viewer opened')
 }
 
+// Keys saved before the secret store existed: provider keys in ccr's config and
+// secret-looking agent env values in workspace.json move into the OS store, and
+// ccr profiles get the env var their provider's key is now read from.
+function migratePlaintextSecrets() {
+  if (!workspaceManager || !secretStore.available()) return
+  try {
+    routerManager.migratePlaintextKeys()
+    const preferences = workspaceManager.load().preferences
+    let moved = 0
+    const agentProfiles = (preferences.agentProfiles ?? []).map((profile) => {
+      if (!profile.env) return profile
+      const env = { ...profile.env }
+      if (isRouterProfile(profile)) {
+        if (profile.command !== 'ccr code') return profile
+        Object.assign(env, routerManager.keyEnvFor(env.ANTHROPIC_MODEL?.split(',')[0] ?? ''))
+      } else {
+        for (const [key, value] of Object.entries(env)) {
+          if (!SECRET_ENV_KEY.test(key) || !value || secretRefName(value) !== null) continue
+          const name = agentSecretName(profile.id, key)
+          secretStore.set(name, value)
+          env[key] = secretRef(name)
+          moved++
+        }
+      }
+      return { ...profile, env }
+    })
+    if (JSON.stringify(agentProfiles) !== JSON.stringify(preferences.agentProfiles ?? [])) {
+      workspaceManager.save({ preferences: { ...preferences, agentProfiles } })
+      logger.info('secrets', 'Moved agent env secrets to the secret store', `${moved} values`)
+    }
+  } catch (error) {
+    logger.error('secrets', 'Failed to migrate plaintext secrets', error instanceof Error ? error.message : String(error))
+  }
+}
+
 // Install the statusline script (based on Claude-Usage-Tracker) that renders a
 // rich terminal statusline AND writes context data for QuadClaude's React UI.
 function installStatuslineScript() {
@@ -183,7 +259,8 @@ pct_raw=$(echo "$input" | grep -o '"used_percentage":[0-9.]*' | head -1 | sed 's
 [ -z "$pct_raw" ] && pct_raw=0
 pct_int=\${pct_raw%%.*}
 model_raw=$(echo "$input" | grep -o '"display_name":"[^"]*"' | sed 's/"display_name":"//;s/"$//')
-echo "{\\"context_pct\\":$pct_int,\\"model\\":\\"$model_raw\\",\\"ts\\":$(date +%s)}" > "/tmp/quadclaude-ctx-$PPID.json" 2>/dev/null
+session_raw=$(echo "$input" | grep -o '"session_id":"[^"]*"' | head -1 | sed 's/"session_id":"//;s/"$//')
+echo "{\\"context_pct\\":$pct_int,\\"model\\":\\"$model_raw\\",\\"session_id\\":\\"$session_raw\\",\\"ts\\":$(date +%s)}" > "/tmp/quadclaude-ctx-$PPID.json" 2>/dev/null
 
 # --- Statusline display (Claude-Usage-Tracker style) ---
 config_file="$HOME/.claude/statusline-config.txt"
@@ -555,24 +632,28 @@ PROFILE_NAME=""
   }
 }
 
-function createWindow() {
-  logger.info('window', 'Creating main window')
+// Opens the main window, or (with a windowId) a detached pane window. Both
+// load the same renderer; the ?window= query tells it which panes to show.
+function createWindow(windowId: string = MAIN_WINDOW_ID, bounds?: WindowBounds): BrowserWindow {
+  const isMain = windowId === MAIN_WINDOW_ID
+  logger.info('window', isMain ? 'Creating main window' : `Creating pane window ${windowId}`)
 
   // Load saved window bounds or use defaults
-  const savedBounds = workspaceManager?.getWindowBounds()
+  const savedBounds = isMain ? workspaceManager?.getWindowBounds() : bounds
   logger.info('window', 'Window bounds', savedBounds ? `${savedBounds.width}x${savedBounds.height} at (${savedBounds.x}, ${savedBounds.y})` : 'Using defaults (1400x900)')
 
   const preloadPath = path.join(__dirname, 'preload.js')
   logger.info('window', 'Preload script path', preloadPath)
 
+  let win: BrowserWindow
   try {
-    mainWindow = new BrowserWindow({
-      width: savedBounds?.width ?? 1400,
-      height: savedBounds?.height ?? 900,
+    win = new BrowserWindow({
+      width: savedBounds?.width ?? (isMain ? 1400 : 900),
+      height: savedBounds?.height ?? (isMain ? 900 : 700),
       x: savedBounds?.x,
       y: savedBounds?.y,
-      minWidth: 800,
-      minHeight: 600,
+      minWidth: isMain ? 800 : 400,
+      minHeight: isMain ? 600 : 300,
       transparent: true,
       hasShadow: true,
       titleBarStyle: 'hiddenInset',
@@ -597,63 +678,62 @@ function createWindow() {
 
   // Load the app
   if (isDev) {
-    const devUrl = 'http://localhost:5173'
+    const devUrl = isMain ? 'http://localhost:5173' : `http://localhost:5173/?window=${encodeURIComponent(windowId)}`
     logger.info('window', 'Loading dev URL', devUrl)
-    mainWindow.loadURL(devUrl).catch(err => {
+    win.loadURL(devUrl).catch(err => {
       logger.error('window', 'Failed to load dev URL', err.message)
     })
-    mainWindow.webContents.openDevTools()
+    if (isMain) win.webContents.openDevTools()
   } else {
     const htmlPath = path.join(__dirname, '../renderer/index.html')
     logger.info('window', 'Loading production HTML', htmlPath)
-    mainWindow.loadFile(htmlPath).catch(err => {
+    win.loadFile(htmlPath, isMain ? undefined : { query: { window: windowId } }).catch(err => {
       logger.error('window', 'Failed to load HTML file', err.message)
     })
   }
 
   // Listen for renderer errors
-  mainWindow.webContents.on('did-fail-load', (_, errorCode, errorDescription) => {
+  win.webContents.on('did-fail-load', (_, errorCode, errorDescription) => {
     logger.error('renderer', 'Page failed to load', `Code: ${errorCode}, Description: ${errorDescription}`)
   })
 
-  mainWindow.webContents.on('render-process-gone', (_, details) => {
+  win.webContents.on('render-process-gone', (_, details) => {
     logger.error('renderer', 'Render process crashed', `Reason: ${details.reason}, Exit code: ${details.exitCode}`)
   })
 
-  mainWindow.webContents.on('unresponsive', () => {
+  win.webContents.on('unresponsive', () => {
     logger.warn('renderer', 'Renderer became unresponsive')
   })
 
-  mainWindow.webContents.on('responsive', () => {
+  win.webContents.on('responsive', () => {
     logger.info('renderer', 'Renderer is responsive again')
   })
 
-  mainWindow.webContents.on('did-finish-load', () => {
+  win.webContents.on('did-finish-load', () => {
     logger.info('renderer', 'Page finished loading')
+    if (win.isDestroyed()) return
     // Reveal the window now that content has painted - avoids the empty
     // transparent flash during the Dock launch animation.
-    mainWindow?.show()
+    win.show()
     // Ensure zoom is exactly 1.0 to prevent scaling differences
-    mainWindow?.webContents.setZoomFactor(1.0)
+    win.webContents.setZoomFactor(1.0)
 
     // Enable liquid glass effect (macOS Tahoe+)
     try {
-      if (mainWindow) {
-        mainWindow.setWindowButtonVisibility(true)
-        liquidGlass.addView(mainWindow.getNativeWindowHandle(), {
-          cornerRadius: 12,
-          tintColor: '#20000000',
-          opaque: false,
-        })
-        logger.info('window', 'Liquid glass enabled')
-      }
+      win.setWindowButtonVisibility(true)
+      liquidGlass.addView(win.getNativeWindowHandle(), {
+        cornerRadius: 12,
+        tintColor: '#20000000',
+        opaque: false,
+      })
+      logger.info('window', 'Liquid glass enabled')
     } catch (err) {
       logger.info('window', 'Liquid glass not available', err instanceof Error ? err.message : String(err))
     }
   })
 
   // Block browser-like refresh shortcuts to prevent losing terminal state
-  mainWindow.webContents.on('before-input-event', (event, input) => {
+  win.webContents.on('before-input-event', (event, input) => {
     // Block Cmd+R, Ctrl+R, F5, Cmd+Shift+R, Ctrl+Shift+R
     const keyLower = input.key.toLowerCase()
     const isRefresh =
@@ -667,10 +747,9 @@ function createWindow() {
   })
 
   // Block programmatic navigation/reloads (e.g., from external links or scripts)
-  mainWindow.webContents.on('will-navigate', (event, url) => {
+  win.webContents.on('will-navigate', (event, url) => {
     // In production, only allow navigating to the app's own URL
     // In dev, allow the dev server URL
-    const currentUrl = mainWindow?.webContents.getURL() || ''
     const allowedOrigin = isDev ? 'http://localhost:5173' : 'file://'
 
     if (!url.startsWith(allowedOrigin)) {
@@ -679,10 +758,44 @@ function createWindow() {
     }
   })
 
+  const webContentsId = win.webContents.id
+  win.on('closed', () => {
+    // This window's waiting panes no longer count toward the badge
+    if (badgeCounts.delete(webContentsId)) updateBadge()
+  })
+
+  if (!isMain) {
+    detachedWindows.set(windowId, win)
+    const saveBounds = () => {
+      if (win.isDestroyed()) return
+      paneWindows.setBounds(windowId, win.getBounds())
+      workspaceManager?.saveWindows(paneWindows.list())
+    }
+    win.on('resize', saveBounds)
+    win.on('move', saveBounds)
+    win.on('closed', () => {
+      logger.info('window', `Pane window ${windowId} closed`)
+      if (detachedWindows.get(windowId) === win) detachedWindows.delete(windowId)
+      // Closed by the user: its panes go back to the main window
+      if (!keepPaneWindows && paneWindows.remove(windowId)) paneWindowsChanged()
+    })
+    return win
+  }
+
+  mainWindow = win
+  keepPaneWindows = false
+
   // Save window bounds on resize/move
   mainWindow.on('resize', saveWindowBounds)
   mainWindow.on('move', saveWindowBounds)
 
+  // Detached windows close with the main one but stay in the workspace, so
+  // they come back when it reopens
+  mainWindow.on('close', () => {
+    keepPaneWindows = true
+    closePaneWindows()
+  })
+
   mainWindow.on('closed', () => {
     logger.info('window', 'Main window closed')
     mainWindow = null
@@ -690,6 +803,9 @@ function createWindow() {
 
   // Create application menu
   createApplicationMenu()
+
+  openPaneWindows()
+  return mainWindow
 }
 
 function saveWindowBounds() {
@@ -699,6 +815,90 @@ function saveWindowBounds() {
   }
 }
 
+// The window a pane is shown in, for routing its output and events
+function windowForPane(paneId: number): BrowserWindow | null {
+  const owner = paneWindows.ownerOf(paneId)
+  const win = owner === MAIN_WINDOW_ID ? mainWindow : detachedWindows.get(owner) ?? null
+  return win && !win.isDestroyed() ? win : null
+}
+
+function sendToPaneWindow(paneId: number, channel: string, ...args: unknown[]) {
+  windowForPane(paneId)?.webContents.send(channel, ...args)
+}
+
+function allWindows(): BrowserWindow[] {
+  return [mainWindow, ...detachedWindows.values()].filter((w): w is BrowserWindow => !!w && !w.isDestroyed())
+}
+
+// Somewhere on screen for a pane window: its saved bounds when they still fall
+// on a connected display, otherwise centered on a display other than the main
+// window's (or just offset from the main window when there is only one).
+function paneWindowBounds(saved?: WindowBounds): WindowBounds | undefined {
+  const displays = screen.getAllDisplays()
+  if (saved) {
+    const onScreen = displays.some(({ workArea: a }) =>
+      saved.x < a.x + a.width && saved.x + saved.width > a.x && saved.y < a.y + a.height && saved.y + saved.height > a.y,
+    )
+    if (onScreen) return saved
+  }
+  if (!mainWindow) return undefined
+  const main = mainWindow.getBounds()
+  const mainDisplay = screen.getDisplayMatching(main)
+  const other = displays.find((d) => d.id !== mainDisplay.id)
+  const width = saved?.width ?? 900
+  const height = saved?.height ?? 700
+  if (other) {
+    const a = other.workArea
+    return {
+      x: Math.round(a.x + Math.max(0, (a.width - width) / 2)),
+      y: Math.round(a.y + Math.max(0, (a.height - height) / 2)),
+      width: Math.min(width, a.width),
+      height: Math.min(height, a.height),
+    }
+  }
+  return { x: main.x + 40, y: main.y + 40, width, height }
+}
+
+// Open a window for every detached window in the workspace that isn't open yet
+function openPaneWindows() {
+  if (!mainWindow) return
+  for (const w of paneWindows.list()) {
+    if (!detachedWindows.has(w.id)) createWindow(w.id, paneWindowBounds(w.bounds))
+  }
+}
+
+// Close the detached windows without touching membership (main window going
+// away, workspace switch)
+function closePaneWindows() {
+  const wasKeeping = keepPaneWindows
+  keepPaneWindows = true
+  for (const win of [...detachedWindows.values()]) if (!win.isDestroyed()) win.close()
+  detachedWindows.clear()
+  keepPaneWindows = wasKeeping
+}
+
+// Membership changed: close windows that lost their last pane, open new ones,
+// persist, and tell every renderer which panes are now its own
+function paneWindowsChanged() {
+  const windows = paneWindows.list()
+  for (const [id, win] of [...detachedWindows]) {
+    if (!windows.some((w) => w.id === id)) {
+      detachedWindows.delete(id)
+      if (!win.isDestroyed()) win.close()
+    }
+  }
+  openPaneWindows()
+  workspaceManager?.saveWindows(windows)
+  for (const win of allWindows()) win.webContents.send(IPC_CHANNELS.WINDOWS_CHANGED, windows)
+}
+
+// Every window reports its own waiting panes; the dock shows the total
+function updateBadge() {
+  let total = 0
+  for (const count of badgeCounts.values()) total += count
+  attention?.setBadge(total)
+}
+
 function createApplicationMenu() {
   const template: Electron.MenuItemConstructorOptions[] = [
     {
@@ -742,7 +942,18 @@ function createApplicationMenu() {
         { role: 'cut' },
         { role: 'copy' },
         { role: 'paste' },
-        { role: 'selectAll' }
+        { role: 'selectAll' },
+        { type: 'separator' },
+        {
+          label: 'Find in All Panes...',
+          accelerator: 'CmdOrCtrl+Shift+F',
+          click: () => sendMenuAction('search-output')
+        },
+        {
+          label: 'Command Palette...',
+          accelerator: 'CmdOrCtrl+Shift+P',
+          click: () => sendMenuAction('command-palette')
+        }
       ]
     },
     {
@@ -926,8 +1137,11 @@ function createApplicationMenu() {
   Menu.setApplicationMenu(menu)
 }
 
+// Menu actions go to whichever window is in front
 function sendMenuAction(action: MenuAction) {
-  mainWindow?.webContents.send(IPC_CHANNELS.APP_MENU_ACTION, action)
+  const focused = BrowserWindow.getFocusedWindow()
+  const target = focused && allWindows().includes(focused) ? focused : mainWindow
+  target?.webContents.send(IPC_CHANNELS.APP_MENU_ACTION, action)
 }
 
 // Setup IPC handlers
@@ -936,11 +1150,30 @@ function setupIPC() {
   ipcMain.handle(IPC_CHANNELS.PTY_CREATE, async (_, paneId: number, cwd?: string, env?: Record<string, string>) => {
     logger.info('pty', `Creating PTY for pane ${paneId}`, cwd ? `cwd: ${cwd}` : 'using default cwd')
     try {
-      // Inject per-pane port-isolation env (HOST/PORT) so dev servers don't collide.
-      const isoMode = workspaceManager?.load().preferences.portIsolation
-      const iso = portIsolationEnv(paneId, isoMode)
-      const mergedEnv = Object.keys(iso).length > 0 ? { ...(env || {}), ...iso } : env
+      // Inject per-pane port-isolation env (HOST/PORT) so dev servers don't
+      // collide, and a trusted project's env (under the profile's own)
+      const prefs = workspaceManager?.load().preferences
+      const project = projectEnv(paneId, cwd, { trustedProjects: prefs?.trustedProjects, portIsolation: prefs?.portIsolation })
+      // Pane id + socket so Claude Code hooks can report events for this pane
+      const hookEnv = claudeHooks?.envFor(paneId) ?? {}
+      // A model behind the built-in translation proxy needs it listening first, and
+      // this run's proxy token (profiles saved earlier carry a stale one)
+      const proxyEnv: Record<string, string> = {}
+      if (env?.ANTHROPIC_BASE_URL === ROUTER_PROXY_URL) {
+        await routerManager.proxy.start().catch(() => {
+          // Logged by the proxy; Claude Code shows the connection error in the pane
+        })
+        proxyEnv.ANTHROPIC_AUTH_TOKEN = routerManager.proxy.token
+      }
+      // Secret references become their values only here, in the pane's own env.
+      // A pane running ccr gets every provider key: it may start ccr's daemon.
+      const profileEnv = env ? secretStore.resolveEnv(env) : {}
+      const keyEnv = Object.keys(profileEnv).some((k) => k.startsWith(SECRET_ENV_PREFIX)) ? routerManager.secretEnv() : {}
+      const mergedEnv = { ...project.env, ...keyEnv, ...profileEnv, ...proxyEnv, ...project.port, ...hookEnv }
       const result = await ptyManager?.createPty(paneId, cwd, mergedEnv)
+      ptyProjectEnv.set(paneId, result ? project.key : null)
+      // New shell: the renderer re-assigns a detector when it launches an agent
+      agentStates?.reset(paneId)
       if (result) {
         logger.info('pty', `PTY created successfully for pane ${paneId}`)
       } else {
@@ -957,11 +1190,64 @@ function setupIPC() {
   ipcMain.handle(IPC_CHANNELS.PTY_KILL, async (_, paneId: number) => {
     logger.info('pty', `Killing PTY for pane ${paneId}`)
     ptyManager?.killPty(paneId)
+    // Only the renderer's explicit kill (pane closed) drops history; re-spawns
+    // and quit go through killPty/killAll directly and keep it.
+    scrollbackStore?.discard(paneId)
+    outputHistory?.discard(paneId)
+    attention?.clear(paneId)
+    ptyProjectEnv.delete(paneId)
+  })
+
+  // Recorded output from the previous session, replayed into a fresh xterm
+  ipcMain.handle(IPC_CHANNELS.PTY_LOAD_SCROLLBACK, async (_, paneId: number) => {
+    return (await scrollbackStore?.load(paneId)) ?? null
   })
 
   // Terminal input
   ipcMain.on(IPC_CHANNELS.TERMINAL_INPUT, (_, paneId: number, data: string) => {
     ptyManager?.write(paneId, data)
+    agentStates?.noteInput(paneId)
+  })
+
+  // Which output detector classifies a pane (from its agent profile)
+  ipcMain.on(IPC_CHANNELS.AGENT_SET_DETECTOR, (_, paneId: number, detector: AgentDetectorId | null) => {
+    agentStates?.setDetector(paneId, detector)
+  })
+
+  // Desktop notification for a pane that started waiting (shown only while
+  // the window is in the background); clicking it focuses the pane
+  ipcMain.on(IPC_CHANNELS.ATTENTION_NOTIFY, (_, request: AttentionNotification) => {
+    attention?.notify(request)
+  })
+
+  ipcMain.on(IPC_CHANNELS.ATTENTION_CLEAR, (_, paneId: number) => {
+    attention?.clear(paneId)
+  })
+
+  // Dock/taskbar badge = number of panes waiting on the user, across windows
+  ipcMain.on(IPC_CHANNELS.ATTENTION_SET_BADGE, (event, count: number) => {
+    badgeCounts.set(event.sender.id, Math.max(0, Math.floor(count) || 0))
+    updateBadge()
+  })
+
+  // Extended output history (Settings → Extended history); off clears it
+  ipcMain.on(IPC_CHANNELS.HISTORY_SET_ENABLED, (_, enabled: boolean) => {
+    outputHistory?.setEnabled(!!enabled)
+  })
+
+  // Search the on-disk history of the given panes
+  ipcMain.handle(IPC_CHANNELS.HISTORY_SEARCH, async (_, query: OutputSearchQuery, paneIds: number[], limit: number) => {
+    try {
+      return (await outputHistory?.search(query, paneIds, limit)) ?? {}
+    } catch (error) {
+      logger.warn('history', 'History search failed', error instanceof Error ? error.message : String(error))
+      return {}
+    }
+  })
+
+  // Renderer's answer to a call forwarded from the automation socket
+  ipcMain.on(IPC_CHANNELS.AUTOMATION_RESPONSE, (_, response: AutomationResponse) => {
+    automation?.resolve(response)
   })
 
   // Terminal resize
@@ -984,6 +1270,26 @@ function setupIPC() {
     return ptyManager?.isClaudeRunning(paneId) ?? false
   })
 
+  // Last output line of each shelved pane, for the shelf's preview
+  ipcMain.handle(IPC_CHANNELS.PTY_LAST_LINES, async (_, paneIds: number[]) => {
+    const lines: Record<number, string> = {}
+    for (const paneId of Array.isArray(paneIds) ? paneIds : []) {
+      const line = agentStates?.lastLine(paneId)
+      if (line) lines[paneId] = line
+    }
+    return lines
+  })
+
+  // A window taking over a moved pane reuses its running shell
+  ipcMain.handle(IPC_CHANNELS.PTY_IS_ALIVE, async (_, paneId: number) => {
+    return ptyManager?.isAlive(paneId) ?? false
+  })
+
+  // Session id of the Claude conversation running in a pane (for --resume)
+  ipcMain.handle(IPC_CHANNELS.PTY_CLAUDE_SESSION, async (_, paneId: number) => {
+    return (await ptyManager?.getClaudeSessionId(paneId)) ?? null
+  })
+
   // Workspace operations
   ipcMain.handle(IPC_CHANNELS.WORKSPACE_LOAD, async () => {
     logger.info('workspace', 'Loading workspace state')
@@ -997,15 +1303,111 @@ function setupIPC() {
     }
   })
 
-  ipcMain.handle(IPC_CHANNELS.WORKSPACE_SAVE, async (_, state) => {
+  // Each window saves only what it owns (see saveFromWindow); the others get
+  // the merged panes and preferences so their copies stay current
+  ipcMain.handle(IPC_CHANNELS.WORKSPACE_SAVE, async (event, state: Partial<WorkspaceState>) => {
+    if (!workspaceManager) return
     try {
-      workspaceManager?.save(state)
+      const sender = BrowserWindow.fromWebContents(event.sender)
+      const windowId = sender && sender !== mainWindow
+        ? [...detachedWindows].find(([, w]) => w === sender)?.[0]
+        : MAIN_WINDOW_ID
+      if (!windowId) return
+      const saved = workspaceManager.saveFromWindow(
+        state,
+        windowId === MAIN_WINDOW_ID,
+        (paneId) => paneWindows.ownerOf(paneId) === windowId,
+      )
       logger.info('workspace', 'Workspace saved')
+      if (paneWindows.prune(saved.panes.map((p) => p.id))) paneWindowsChanged()
+      const sync: WorkspaceSync = { panes: saved.panes, preferences: saved.preferences }
+      for (const win of allWindows()) {
+        if (win !== sender) win.webContents.send(IPC_CHANNELS.WORKSPACE_SYNC, sync)
+      }
     } catch (error) {
       logger.error('workspace', 'Failed to save workspace', error instanceof Error ? error.message : String(error))
     }
   })
 
+  // Detached pane windows. Membership lives here; every change goes through
+  // paneWindowsChanged, which opens/closes windows to match and tells the
+  // renderers.
+  ipcMain.handle(IPC_CHANNELS.WINDOW_DETACH_PANES, async (_, paneIds: number[]) => {
+    const ids = (Array.isArray(paneIds) ? paneIds : []).filter((id) => Number.isInteger(id))
+    if (ids.length === 0 || !mainWindow) return null
+    const id = paneWindows.detach(ids, paneWindowBounds())
+    logger.info('window', `Detached pane(s) ${ids.join(', ')} into window ${id}`)
+    paneWindowsChanged()
+    return id
+  })
+
+  ipcMain.handle(IPC_CHANNELS.WINDOW_MOVE_PANE, async (_, paneId: number, windowId: string) => {
+    if (paneWindows.ownerOf(paneId) === windowId) return
+    paneWindows.move(paneId, windowId)
+    paneWindowsChanged()
+    const target = windowId === MAIN_WINDOW_ID ? mainWindow : detachedWindows.get(windowId)
+    target?.focus()
+  })
+
+  // Named workspaces
+  ipcMain.handle(IPC_CHANNELS.WORKSPACES_LIST, async () => {
+    return workspaceManager?.listWorkspaces() ?? null
+  })
+
+  // Switching tears down every PTY (capturing live cwds first) and moves the
+  // per-pane recordings to the incoming workspace; the renderer then mounts
+  // fresh terminals, which spawn new shells.
+  ipcMain.handle(IPC_CHANNELS.WORKSPACES_SWITCH, async (_, id: string) => {
+    if (!workspaceManager) throw new Error('Workspace manager unavailable')
+    if (id === workspaceManager.getActiveWorkspaceId()) return workspaceManager.load()
+    if (ptyManager) {
+      const cwds = ptyManager.getAllCwds()
+      workspaceManager.updatePaneCwds(cwds)
+      for (const paneId of cwds.keys()) agentStates?.reset(paneId)
+      ptyManager.killAll()
+    }
+    // The outgoing workspace's windows close (it keeps their layout); the
+    // incoming one's open once it is live
+    closePaneWindows()
+    badgeCounts.clear()
+    const state = workspaceManager.switchTo(id)
+    scrollbackStore?.setNamespace(id)
+    outputHistory?.setNamespace(id)
+    paneWindows.set(state.windows)
+    openPaneWindows()
+    return state
+  })
+
+  // "Save current as…": the live panes keep running, now under the new name
+  ipcMain.handle(IPC_CHANNELS.WORKSPACES_SAVE_AS, async (_, name: string) => {
+    if (!workspaceManager) throw new Error('Workspace manager unavailable')
+    if (ptyManager) workspaceManager.updatePaneCwds(ptyManager.getAllCwds())
+    const list = workspaceManager.saveAs(String(name ?? ''))
+    scrollbackStore?.setNamespace(list.activeId, true)
+    outputHistory?.setNamespace(list.activeId)
+    return list
+  })
+
+  ipcMain.handle(IPC_CHANNELS.WORKSPACES_DUPLICATE, async (_, id: string) => {
+    if (!workspaceManager) throw new Error('Workspace manager unavailable')
+    return workspaceManager.duplicate(id)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.WORKSPACES_RENAME, async (_, id: string, name: string) => {
+    if (!workspaceManager) throw new Error('Workspace manager unavailable')
+    return workspaceManager.rename(id, String(name ?? ''))
+  })
+
+  ipcMain.handle(IPC_CHANNELS.WORKSPACES_DELETE, async (_, id: string) => {
+    if (!workspaceManager) throw new Error('Workspace manager unavailable')
+    const { list, deleted } = workspaceManager.delete(id)
+    if (deleted) {
+      scrollbackStore?.dropNamespace(id)
+      outputHistory?.dropNamespace(id)
+    }
+    return list
+  })
+
   // Model router (claude-code-router) — write ccr config so a pane can run the real
   // Claude Code TUI against any non-Anthropic model.
   ipcMain.handle(IPC_CHANNELS.ROUTER_STATUS, async () => {
@@ -1024,6 +1426,14 @@ function setupIPC() {
     return routerManager.testConnection(input)
   })
 
+  ipcMain.handle(IPC_CHANNELS.ROUTER_REVEAL_KEY, async (_, name: string) => {
+    return routerManager.revealKey(name)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.ROUTER_ROTATE_KEY, async (_, name: string, key: string) => {
+    return routerManager.rotateKey(name, key)
+  })
+
   ipcMain.handle(IPC_CHANNELS.ROUTER_SET_DELEGATION, async (_, route: string) => {
     return routerManager.setDelegation(route)
   })
@@ -1037,6 +1447,29 @@ function setupIPC() {
     return routerManager.delegationStatus()
   })
 
+  // OS secret store — secret agent env values (provider keys go through the router)
+  ipcMain.handle(IPC_CHANNELS.SECRETS_STATUS, async () => {
+    return secretStore.status()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.SECRETS_REVEAL, async (_, name: string) => {
+    return secretStore.get(name)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.SECRETS_SET, async (_, name: string, value: string) => {
+    try {
+      secretStore.set(name, value)
+      return true
+    } catch (error) {
+      logger.error('secrets', `Failed to store secret ${name}`, error instanceof Error ? error.message : String(error))
+      return false
+    }
+  })
+
+  ipcMain.handle(IPC_CHANNELS.SECRETS_DELETE, async (_, name: string) => {
+    secretStore.delete(name)
+  })
+
   // Per-pane port isolation — macOS loopback alias management.
   ipcMain.handle(IPC_CHANNELS.NET_LOOPBACK_STATUS, async () => {
     return loopbackStatus()
@@ -1046,6 +1479,99 @@ function setupIPC() {
     return ensureLoopbackAliases()
   })
 
+  // Diff review panel: git runs in the pane's tracked cwd
+  ipcMain.handle(IPC_CHANNELS.GIT_REVIEW_LOAD, async (_, paneId: number) => {
+    const cwd = ptyManager?.getTrackedCwd(paneId)
+    return cwd ? loadReview(cwd) : null
+  })
+
+  ipcMain.handle(IPC_CHANNELS.GIT_REVIEW_APPLY, async (_, paneId: number, op: GitReviewOp) => {
+    const cwd = ptyManager?.getTrackedCwd(paneId)
+    if (!cwd) return { ok: false, error: 'Pane has no shell' }
+    return applyReviewOp(cwd, op)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.GIT_REVIEW_COMMIT, async (_, paneId: number, message: string) => {
+    const cwd = ptyManager?.getTrackedCwd(paneId)
+    if (!cwd) return { ok: false, error: 'Pane has no shell' }
+    return commitStaged(cwd, String(message ?? ''))
+  })
+
+  // Prompt template variables only main can read: the pane's repo, its diff,
+  // and the clipboard
+  ipcMain.handle(IPC_CHANNELS.PROMPT_VARIABLES, async (_, paneId: number, names: PromptMainVariable[]) => {
+    const cwd = ptyManager?.getTrackedCwd(paneId)
+    const values: Partial<Record<PromptMainVariable, string>> = {}
+    for (const name of names) {
+      if (name === 'clipboard') values.clipboard = clipboard.readText()
+      else if (name === 'repo' && cwd) values.repo = await repoName(cwd)
+      else if (name === 'git_diff' && cwd) values.git_diff = await templateDiff(cwd)
+    }
+    return values
+  })
+
+  // Prompt library files. Import and export return null when the dialog is
+  // cancelled.
+  ipcMain.handle(IPC_CHANNELS.PROMPTS_IMPORT, async (event) => {
+    const parent = BrowserWindow.fromWebContents(event.sender) ?? mainWindow
+    if (!parent) return null
+    const result = await dialog.showOpenDialog(parent, {
+      title: 'Import Prompts',
+      filters: [{ name: 'Markdown', extensions: ['md', 'markdown'] }],
+      properties: ['openFile', 'multiSelections'],
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    return importPromptFiles(result.filePaths)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.PROMPTS_EXPORT, async (event, prompts: SavedPrompt[]) => {
+    const parent = BrowserWindow.fromWebContents(event.sender) ?? mainWindow
+    if (!parent) return null
+    const result = await dialog.showOpenDialog(parent, {
+      title: 'Export Prompts To Folder',
+      properties: ['openDirectory', 'createDirectory'],
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    return exportPromptFiles(result.filePaths[0], prompts)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.PROMPTS_SYNC, async (_, request: PromptSyncRequest) => {
+    return promptSync.sync(request)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.PROMPTS_WRITE, async (_, file: string, prompt: SavedPrompt) => {
+    return promptSync.write(file, prompt)
+  })
+
+  // Project config for a directory: the nearest .quadclaude.json at or above it
+  ipcMain.handle(IPC_CHANNELS.PROJECT_CONFIG, async (_, cwd: string) => {
+    return findProjectConfig(cwd)
+  })
+
+  // Has the pane's shell moved into a trusted project whose env it doesn't
+  // have (or out of the one it has)? Agent launches re-spawn it then.
+  ipcMain.handle(IPC_CHANNELS.PROJECT_ENV_STALE, async (_, paneId: number) => {
+    const cwd = ptyManager?.getTrackedCwd(paneId)
+    if (!cwd) return false
+    const prefs = workspaceManager?.load().preferences
+    const { key } = projectEnv(paneId, cwd, { trustedProjects: prefs?.trustedProjects, portIsolation: prefs?.portIsolation })
+    return key !== (ptyProjectEnv.get(paneId) ?? null)
+  })
+
+  // Git worktree panes. Create throws (git's message reaches the renderer);
+  // finish reports failure in its result so the dialog can show it.
+  ipcMain.handle(IPC_CHANNELS.WORKTREE_CREATE, async (_, sourceDir: string, branch: string, worktreeDir?: string) => {
+    return createWorktree(sourceDir, branch, worktreeDir)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.WORKTREE_INSPECT, async (_, worktree: PaneWorktree) => {
+    return inspectWorktree(worktree)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.WORKTREE_FINISH, async (_, worktree: PaneWorktree, action: WorktreeFinishAction) => {
+    return finishWorktree(worktree, action)
+  })
+
   ipcMain.handle(IPC_CHANNELS.WORKSPACE_GET_HOME, async () => {
     const home = app.getPath('home')
     logger.info('workspace', 'Home directory requested', home)
@@ -1057,6 +1583,18 @@ function setupIPC() {
   })
 
   // Usage tracking
+  ipcMain.handle(IPC_CHANNELS.COSTS_SUMMARY, async () => {
+    return costTracker.summary()
+  })
+
+  ipcMain.handle(IPC_CHANNELS.COSTS_SET_CONFIG, async (_, config: CostConfig) => {
+    return costTracker.setConfig(config)
+  })
+
+  ipcMain.handle(IPC_CHANNELS.COSTS_CLEAR, async () => {
+    return costTracker.clear()
+  })
+
   ipcMain.handle(IPC_CHANNELS.USAGE_FETCH, async () => {
     return usagePoller?.getLatest() ?? null
   })
@@ -1107,9 +1645,10 @@ function setupIPC() {
   })
 
   // File dialog for background image selection
-  ipcMain.handle(IPC_CHANNELS.DIALOG_OPEN_IMAGE, async () => {
-    if (!mainWindow) return null
-    const result = await dialog.showOpenDialog(mainWindow, {
+  ipcMain.handle(IPC_CHANNELS.DIALOG_OPEN_IMAGE, async (event) => {
+    const parent = BrowserWindow.fromWebContents(event.sender) ?? mainWindow
+    if (!parent) return null
+    const result = await dialog.showOpenDialog(parent, {
       title: 'Choose Background Image',
       filters: [
         { name: 'Images', extensions: ['png', 'jpg', 'jpeg', 'webp', 'svg'] },
@@ -1119,6 +1658,17 @@ function setupIPC() {
     if (result.canceled || result.filePaths.length === 0) return null
     return result.filePaths[0]
   })
+
+  ipcMain.handle(IPC_CHANNELS.DIALOG_OPEN_DIRECTORY, async (event, title?: string) => {
+    const parent = BrowserWindow.fromWebContents(event.sender) ?? mainWindow
+    if (!parent) return null
+    const result = await dialog.showOpenDialog(parent, {
+      title: title ?? 'Choose Folder',
+      properties: ['openDirectory', 'createDirectory'],
+    })
+    if (result.canceled || result.filePaths.length === 0) return null
+    return result.filePaths[0]
+  })
 }
 
 // App lifecycle
@@ -1136,23 +1686,54 @@ app.whenReady().then(() => {
     logger.info('workspace', 'Initializing WorkspaceManager')
     workspaceManager = new WorkspaceManager()
     logger.info('workspace', 'WorkspaceManager initialized')
+    migratePlaintextSecrets()
   } catch (error) {
     logger.error('workspace', 'Failed to initialize WorkspaceManager', error instanceof Error ? error.message : String(error))
   }
 
   try {
     logger.info('pty', 'Initializing PtyManager')
+    scrollbackStore = new ScrollbackStore(path.join(app.getPath('userData'), 'scrollback'))
+    outputHistory = new OutputHistory(path.join(app.getPath('userData'), 'history'))
+    if (workspaceManager) {
+      const workspaceId = workspaceManager.getActiveWorkspaceId()
+      scrollbackStore.setNamespace(workspaceId)
+      outputHistory.setNamespace(workspaceId)
+    }
+    agentStates = new AgentStateTracker((paneId, update) => {
+      sendToPaneWindow(paneId, IPC_CHANNELS.AGENT_STATE, paneId, update)
+    })
+    claudeHooks = new ClaudeHooksServer((paneId, event, payload, delegate) => {
+      // A qcdelegate worker reports through its orchestrator's pane: its turns
+      // cost money but aren't the pane's state
+      if (!delegate) agentStates?.applyHook(paneId, event, payload)
+      if (event === 'Stop' && payload.transcript_path) costTracker.record(paneId, payload.transcript_path, delegate)
+    })
+    claudeHooks.start()
     ptyManager = new PtyManager((paneId, data) => {
-      mainWindow?.webContents.send(IPC_CHANNELS.TERMINAL_OUTPUT, paneId, data)
+      agentStates?.feed(paneId, data)
+      sendToPaneWindow(paneId, IPC_CHANNELS.TERMINAL_OUTPUT, paneId, data)
     }, (paneId, exitCode) => {
       logger.info('pty', `PTY exited for pane ${paneId}`, `Exit code: ${exitCode}`)
-      mainWindow?.webContents.send(IPC_CHANNELS.PTY_EXIT, paneId, exitCode)
-    })
+      sendToPaneWindow(paneId, IPC_CHANNELS.PTY_EXIT, paneId, exitCode)
+    }, scrollbackStore, outputHistory)
     logger.info('pty', 'PtyManager initialized')
   } catch (error) {
     logger.error('pty', 'Failed to initialize PtyManager', error instanceof Error ? error.message : String(error))
   }
 
+  attention = new AttentionNotifier((paneId) => (paneId === undefined ? mainWindow : windowForPane(paneId)))
+  // A call about one pane goes to the window showing it: a detached pane's xterm
+  // and agent state live only there. Everything else is the main window's.
+  automation = new AutomationServer((request) => {
+    const paneId = request.params.paneId
+    const target = (typeof paneId === 'number' ? windowForPane(paneId) : null) ?? mainWindow
+    if (!target || target.isDestroyed()) return false
+    target.webContents.send(IPC_CHANNELS.AUTOMATION_REQUEST, request)
+    return true
+  }, app.getVersion())
+  automation.start()
+
   logger.info('ipc', 'Setting up IPC handlers')
   setupIPC()
   logger.info('ipc', 'IPC handlers registered')
@@ -1165,6 +1746,8 @@ app.whenReady().then(() => {
     () => ptyManager?.getPaneDescendants() ?? Promise.resolve([])
   )
 
+  // Detached windows from last time reopen along with the main one
+  if (workspaceManager) paneWindows.set(workspaceManager.load().windows)
   createWindow()
 
   // Start usage polling
@@ -1175,11 +1758,18 @@ app.whenReady().then(() => {
   // sync FS work (settings.json read/write, /tmp scan + statSync per file)
   // doesn't block the main thread while the renderer is loading its bundle
   // and making its first workspace:load IPC call.
-  setImmediate(() => installStatuslineScript())
+  // Hooks are merged into the same settings.json, so install them after.
+  setImmediate(() => {
+    installStatuslineScript()
+    installClaudeHooks(path.join(app.getPath('home'), '.claude'))
+    installAutomationCli()
+    routerManager.refreshDelegateScript()
+    costTracker.writeWarning()
+  })
 
   app.on('activate', () => {
     logger.info('app', 'App activated')
-    if (BrowserWindow.getAllWindows().length === 0) {
+    if (!mainWindow) {
       logger.info('app', 'No windows open, creating new window')
       createWindow()
     }
@@ -1188,7 +1778,7 @@ app.whenReady().then(() => {
   // Listen for system resume (wake from sleep)
   powerMonitor.on('resume', () => {
     logger.info('app', 'System resumed from sleep')
-    mainWindow?.webContents.send(IPC_CHANNELS.SYSTEM_RESUME)
+    for (const win of allWindows()) win.webContents.send(IPC_CHANNELS.SYSTEM_RESUME)
   })
 })
 
@@ -1200,6 +1790,8 @@ app.on('window-all-closed', () => {
     const cwds = ptyManager.getAllCwds()
     workspaceManager.updatePaneCwds(cwds)
   }
+  scrollbackStore?.flushSync()
+  outputHistory?.flushSync()
 
   ptyManager?.killAll()
   if (process.platform !== 'darwin') {
@@ -1210,6 +1802,8 @@ app.on('window-all-closed', () => {
 
 app.on('before-quit', () => {
   logger.info('app', 'App is quitting')
+  // Windows closing on the way out keep their panes for next launch
+  keepPaneWindows = true
   stopPerfMonitor()
   // Save CWDs before killing PTYs (important when Cmd+Q is used)
   if (ptyManager && workspaceManager) {
@@ -1219,6 +1813,16 @@ app.on('before-quit', () => {
       logger.info('app', 'Saved CWDs on quit', `${cwds.size} pane(s)`)
     }
   }
+  scrollbackStore?.flushSync()
+  scrollbackStore?.dispose()
+  outputHistory?.flushSync()
+  outputHistory?.dispose()
+  agentStates?.dispose()
+  claudeHooks?.stop()
+  attention?.dispose()
+  automation?.stop()
+  routerManager.proxy.stop()
+  promptSync.dispose()
   ptyManager?.killAll()
 })
 
@@ -9,10 +9,10 @@ import { execFile } from 'child_process'
 import os from 'os'
 import fs from 'fs'
 import path from 'path'
-import { LoopbackStatus, MAX_PANES, paneLoopbackIp } from '../shared/types'
+import { LoopbackStatus, MAX_SESSIONS, paneLoopbackIp } from '../shared/types'
 import { logger } from './logger'
 
-const COUNT = MAX_PANES // one loopback alias per possible pane
+const COUNT = MAX_SESSIONS // one loopback alias per possible pane
 const PLIST = '/Library/LaunchDaemons/com.quadclaude.loopback.plist'
 
 function run(cmd: string, args: string[]): Promise<{ code: number; stdout: string }> {
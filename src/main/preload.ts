@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer, webUtils } from 'electron'
-import { IPC_CHANNELS, WorkspaceState, MenuAction, GitStatus, UsageData, ContextUsage, ServerInfo, RouterProviderInput, RouterStatus, RouterSaveResult, RouterTestResult, RouterDelegationStatus, LoopbackStatus } from '../shared/types'
+import { IPC_CHANNELS, WorkspaceState, MenuAction, GitStatus, UsageData, ContextUsage, ServerInfo, RouterProviderInput, RouterStatus, RouterSaveResult, RouterTestResult, RouterDelegationStatus, LoopbackStatus, AgentDetectorId, AgentStateUpdate, AttentionNotification, AutomationRequest, AutomationResponse, OutputSearchQuery, OutputSearchMatch, WorkspaceList, PaneWorktree, WorktreeFinishAction, WorktreeInfo, WorktreeResult, GitReview, GitReviewOp, GitReviewResult, DetachedWindowState, WorkspaceSync, PromptMainVariable, SavedPrompt, PromptSyncRequest, ProjectInfo, SecretStoreStatus, CostConfig, CostSummary } from '../shared/types'
 
 // Expose protected methods to the renderer process
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -19,6 +19,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
   isClaudeRunning: (paneId: number) =>
     ipcRenderer.invoke(IPC_CHANNELS.PTY_IS_CLAUDE_RUNNING, paneId) as Promise<boolean>,
 
+  loadScrollback: (paneId: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PTY_LOAD_SCROLLBACK, paneId) as Promise<string | null>,
+
+  getClaudeSessionId: (paneId: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PTY_CLAUDE_SESSION, paneId) as Promise<string | null>,
+
+  isPtyAlive: (paneId: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PTY_IS_ALIVE, paneId) as Promise<boolean>,
+
+  getLastLines: (paneIds: number[]) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PTY_LAST_LINES, paneIds) as Promise<Record<number, string>>,
+
   // Terminal I/O
   sendInput: (paneId: number, data: string) =>
     ipcRenderer.send(IPC_CHANNELS.TERMINAL_INPUT, paneId, data),
@@ -42,6 +54,50 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return () => ipcRenderer.removeListener(IPC_CHANNELS.PTY_EXIT, handler)
   },
 
+  // Agent activity (classified in main from the output stream)
+  setAgentDetector: (paneId: number, detector: AgentDetectorId | null) =>
+    ipcRenderer.send(IPC_CHANNELS.AGENT_SET_DETECTOR, paneId, detector),
+
+  onAgentState: (callback: (paneId: number, update: AgentStateUpdate) => void) => {
+    const handler = (_: Electron.IpcRendererEvent, paneId: number, update: AgentStateUpdate) => {
+      callback(paneId, update)
+    }
+    ipcRenderer.on(IPC_CHANNELS.AGENT_STATE, handler)
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.AGENT_STATE, handler)
+  },
+
+  // Attention (desktop notifications + dock/taskbar badge)
+  notifyAttention: (request: AttentionNotification) =>
+    ipcRenderer.send(IPC_CHANNELS.ATTENTION_NOTIFY, request),
+  clearAttention: (paneId: number) =>
+    ipcRenderer.send(IPC_CHANNELS.ATTENTION_CLEAR, paneId),
+  setAttentionBadge: (count: number) =>
+    ipcRenderer.send(IPC_CHANNELS.ATTENTION_SET_BADGE, count),
+  onAttentionFocusPane: (callback: (paneId: number) => void) => {
+    const handler = (_: Electron.IpcRendererEvent, paneId: number) => {
+      callback(paneId)
+    }
+    ipcRenderer.on(IPC_CHANNELS.ATTENTION_FOCUS_PANE, handler)
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.ATTENTION_FOCUS_PANE, handler)
+  },
+
+  // Automation API (calls arriving on the local JSON-RPC socket)
+  onAutomationRequest: (callback: (request: AutomationRequest) => void) => {
+    const handler = (_: Electron.IpcRendererEvent, request: AutomationRequest) => {
+      callback(request)
+    }
+    ipcRenderer.on(IPC_CHANNELS.AUTOMATION_REQUEST, handler)
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.AUTOMATION_REQUEST, handler)
+  },
+  respondAutomation: (response: AutomationResponse) =>
+    ipcRenderer.send(IPC_CHANNELS.AUTOMATION_RESPONSE, response),
+
+  // Output search over the on-disk history
+  setHistoryEnabled: (enabled: boolean) =>
+    ipcRenderer.send(IPC_CHANNELS.HISTORY_SET_ENABLED, enabled),
+  searchHistory: (query: OutputSearchQuery, paneIds: number[], limit: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.HISTORY_SEARCH, query, paneIds, limit) as Promise<Record<number, OutputSearchMatch[]>>,
+
   // Workspace
   loadWorkspace: () =>
     ipcRenderer.invoke(IPC_CHANNELS.WORKSPACE_LOAD) as Promise<WorkspaceState>,
@@ -49,6 +105,79 @@ contextBridge.exposeInMainWorld('electronAPI', {
   saveWorkspace: (state: Partial<WorkspaceState>) =>
     ipcRenderer.invoke(IPC_CHANNELS.WORKSPACE_SAVE, state),
 
+  // Another window saved: its panes and the shared preferences
+  onWorkspaceSync: (callback: (sync: WorkspaceSync) => void) => {
+    const handler = (_: Electron.IpcRendererEvent, sync: WorkspaceSync) => callback(sync)
+    ipcRenderer.on(IPC_CHANNELS.WORKSPACE_SYNC, handler)
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.WORKSPACE_SYNC, handler)
+  },
+
+  // Detached pane windows
+  detachPanes: (paneIds: number[]) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WINDOW_DETACH_PANES, paneIds) as Promise<string | null>,
+  movePaneToWindow: (paneId: number, windowId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WINDOW_MOVE_PANE, paneId, windowId) as Promise<void>,
+  onWindowsChanged: (callback: (windows: DetachedWindowState[]) => void) => {
+    const handler = (_: Electron.IpcRendererEvent, windows: DetachedWindowState[]) => callback(windows)
+    ipcRenderer.on(IPC_CHANNELS.WINDOWS_CHANGED, handler)
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.WINDOWS_CHANGED, handler)
+  },
+
+  // Diff review panel
+  loadGitReview: (paneId: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.GIT_REVIEW_LOAD, paneId) as Promise<GitReview | null>,
+  applyGitReview: (paneId: number, op: GitReviewOp) =>
+    ipcRenderer.invoke(IPC_CHANNELS.GIT_REVIEW_APPLY, paneId, op) as Promise<GitReviewResult>,
+  commitGitReview: (paneId: number, message: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.GIT_REVIEW_COMMIT, paneId, message) as Promise<GitReviewResult>,
+
+  // Prompt templates
+  getPromptVariables: (paneId: number, names: PromptMainVariable[]) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPT_VARIABLES, paneId, names) as Promise<Partial<Record<PromptMainVariable, string>>>,
+
+  // Prompt library files
+  importPrompts: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPTS_IMPORT) as Promise<SavedPrompt[] | null>,
+  exportPrompts: (prompts: SavedPrompt[]) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPTS_EXPORT, prompts) as Promise<number | null>,
+  syncPrompts: (request: PromptSyncRequest) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPTS_SYNC, request) as Promise<SavedPrompt[]>,
+  writePromptFile: (file: string, prompt: SavedPrompt) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROMPTS_WRITE, file, prompt) as Promise<boolean>,
+  onPromptsChanged: (callback: (prompts: SavedPrompt[]) => void) => {
+    const handler = (_: Electron.IpcRendererEvent, prompts: SavedPrompt[]) => callback(prompts)
+    ipcRenderer.on(IPC_CHANNELS.PROMPTS_CHANGED, handler)
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.PROMPTS_CHANGED, handler)
+  },
+
+  // Project config (.quadclaude.json)
+  getProjectConfig: (cwd: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROJECT_CONFIG, cwd) as Promise<ProjectInfo | null>,
+  isProjectEnvStale: (paneId: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PROJECT_ENV_STALE, paneId) as Promise<boolean>,
+
+  // Git worktree panes
+  createWorktree: (sourceDir: string, branch: string, worktreeDir?: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_CREATE, sourceDir, branch, worktreeDir) as Promise<PaneWorktree>,
+  inspectWorktree: (worktree: PaneWorktree) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_INSPECT, worktree) as Promise<WorktreeInfo>,
+  finishWorktree: (worktree: PaneWorktree, action: WorktreeFinishAction) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_FINISH, worktree, action) as Promise<WorktreeResult>,
+
+  // Named workspaces
+  listWorkspaces: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.WORKSPACES_LIST) as Promise<WorkspaceList | null>,
+  switchWorkspace: (id: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WORKSPACES_SWITCH, id) as Promise<WorkspaceState>,
+  saveWorkspaceAs: (name: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WORKSPACES_SAVE_AS, name) as Promise<WorkspaceList>,
+  duplicateWorkspace: (id: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WORKSPACES_DUPLICATE, id) as Promise<WorkspaceList>,
+  renameWorkspace: (id: string, name: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WORKSPACES_RENAME, id, name) as Promise<WorkspaceList>,
+  deleteWorkspace: (id: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.WORKSPACES_DELETE, id) as Promise<WorkspaceList>,
+
   getHomeDir: () =>
     ipcRenderer.invoke(IPC_CHANNELS.WORKSPACE_GET_HOME) as Promise<string>,
 
@@ -83,6 +212,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
   fetchUsage: () =>
     ipcRenderer.invoke(IPC_CHANNELS.USAGE_FETCH) as Promise<UsageData | null>,
 
+  // Spend on routed and delegated models
+  costsSummary: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.COSTS_SUMMARY) as Promise<CostSummary>,
+  costsSetConfig: (config: CostConfig) =>
+    ipcRenderer.invoke(IPC_CHANNELS.COSTS_SET_CONFIG, config) as Promise<CostSummary>,
+  costsClear: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.COSTS_CLEAR) as Promise<CostSummary>,
+  onCostsUpdate: (callback: (summary: CostSummary) => void) => {
+    const handler = (_: Electron.IpcRendererEvent, summary: CostSummary) => callback(summary)
+    ipcRenderer.on(IPC_CHANNELS.COSTS_UPDATE, handler)
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.COSTS_UPDATE, handler)
+  },
+
   // Context usage per pane
   getContextUsage: (paneId: number) =>
     ipcRenderer.invoke(IPC_CHANNELS.PTY_CONTEXT_USAGE, paneId) as Promise<ContextUsage | null>,
@@ -100,6 +242,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // File dialogs
   openImageDialog: () =>
     ipcRenderer.invoke(IPC_CHANNELS.DIALOG_OPEN_IMAGE) as Promise<string | null>,
+  openDirectoryDialog: (title?: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.DIALOG_OPEN_DIRECTORY, title) as Promise<string | null>,
 
   // Open a URL in the system default browser
   openExternal: (url: string) =>
@@ -114,12 +258,26 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke(IPC_CHANNELS.ROUTER_DELETE_PROVIDER, name) as Promise<void>,
   routerTest: (input: RouterProviderInput) =>
     ipcRenderer.invoke(IPC_CHANNELS.ROUTER_TEST, input) as Promise<RouterTestResult>,
+  routerRevealKey: (name: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.ROUTER_REVEAL_KEY, name) as Promise<string | null>,
+  routerRotateKey: (name: string, key: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.ROUTER_ROTATE_KEY, name, key) as Promise<boolean>,
   routerSetDelegation: (route: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.ROUTER_SET_DELEGATION, route) as Promise<RouterDelegationStatus>,
   routerDelegationStatus: () =>
     ipcRenderer.invoke(IPC_CHANNELS.ROUTER_DELEGATION_STATUS) as Promise<RouterDelegationStatus>,
   routerClearDelegation: () =>
     ipcRenderer.invoke(IPC_CHANNELS.ROUTER_CLEAR_DELEGATION) as Promise<RouterDelegationStatus>,
+
+  // OS secret store (secret agent env values)
+  secretsStatus: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.SECRETS_STATUS) as Promise<SecretStoreStatus>,
+  secretReveal: (name: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SECRETS_REVEAL, name) as Promise<string | null>,
+  secretSet: (name: string, value: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SECRETS_SET, name, value) as Promise<boolean>,
+  secretDelete: (name: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SECRETS_DELETE, name) as Promise<void>,
   loopbackStatus: () =>
     ipcRenderer.invoke(IPC_CHANNELS.NET_LOOPBACK_STATUS) as Promise<LoopbackStatus>,
   ensureLoopback: () =>
@@ -148,31 +306,80 @@ declare global {
       getCwd: (paneId: number) => Promise<string | null>
       getGitStatus: (paneId: number) => Promise<GitStatus | null>
       isClaudeRunning: (paneId: number) => Promise<boolean>
+      loadScrollback: (paneId: number) => Promise<string | null>
+      getClaudeSessionId: (paneId: number) => Promise<string | null>
+      isPtyAlive: (paneId: number) => Promise<boolean>
+      getLastLines: (paneIds: number[]) => Promise<Record<number, string>>
       sendInput: (paneId: number, data: string) => void
       resizeTerminal: (paneId: number, cols: number, rows: number) => void
       onTerminalOutput: (callback: (paneId: number, data: string) => void) => () => void
       onPtyExit: (callback: (paneId: number, exitCode: number) => void) => () => void
+      setAgentDetector: (paneId: number, detector: AgentDetectorId | null) => void
+      onAgentState: (callback: (paneId: number, update: AgentStateUpdate) => void) => () => void
+      notifyAttention: (request: AttentionNotification) => void
+      clearAttention: (paneId: number) => void
+      setAttentionBadge: (count: number) => void
+      onAttentionFocusPane: (callback: (paneId: number) => void) => () => void
+      onAutomationRequest: (callback: (request: AutomationRequest) => void) => () => void
+      respondAutomation: (response: AutomationResponse) => void
+      setHistoryEnabled: (enabled: boolean) => void
+      searchHistory: (query: OutputSearchQuery, paneIds: number[], limit: number) => Promise<Record<number, OutputSearchMatch[]>>
       loadWorkspace: () => Promise<WorkspaceState>
       saveWorkspace: (state: Partial<WorkspaceState>) => Promise<void>
+      onWorkspaceSync: (callback: (sync: WorkspaceSync) => void) => () => void
+      detachPanes: (paneIds: number[]) => Promise<string | null>
+      movePaneToWindow: (paneId: number, windowId: string) => Promise<void>
+      onWindowsChanged: (callback: (windows: DetachedWindowState[]) => void) => () => void
       getHomeDir: () => Promise<string>
+      loadGitReview: (paneId: number) => Promise<GitReview | null>
+      applyGitReview: (paneId: number, op: GitReviewOp) => Promise<GitReviewResult>
+      commitGitReview: (paneId: number, message: string) => Promise<GitReviewResult>
+      getPromptVariables: (paneId: number, names: PromptMainVariable[]) => Promise<Partial<Record<PromptMainVariable, string>>>
+      importPrompts: () => Promise<SavedPrompt[] | null>
+      exportPrompts: (prompts: SavedPrompt[]) => Promise<number | null>
+      syncPrompts: (request: PromptSyncRequest) => Promise<SavedPrompt[]>
+      writePromptFile: (file: string, prompt: SavedPrompt) => Promise<boolean>
+      onPromptsChanged: (callback: (prompts: SavedPrompt[]) => void) => () => void
+      getProjectConfig: (cwd: string) => Promise<ProjectInfo | null>
+      isProjectEnvStale: (paneId: number) => Promise<boolean>
+      createWorktree: (sourceDir: string, branch: string, worktreeDir?: string) => Promise<PaneWorktree>
+      inspectWorktree: (worktree: PaneWorktree) => Promise<WorktreeInfo>
+      finishWorktree: (worktree: PaneWorktree, action: WorktreeFinishAction) => Promise<WorktreeResult>
+      listWorkspaces: () => Promise<WorkspaceList | null>
+      switchWorkspace: (id: string) => Promise<WorkspaceState>
+      saveWorkspaceAs: (name: string) => Promise<WorkspaceList>
+      duplicateWorkspace: (id: string) => Promise<WorkspaceList>
+      renameWorkspace: (id: string, name: string) => Promise<WorkspaceList>
+      deleteWorkspace: (id: string) => Promise<WorkspaceList>
       onMenuAction: (callback: (action: MenuAction) => void) => () => void
       onSystemResume: (callback: () => void) => () => void
       getAppVersion: () => Promise<string>
       onUsageUpdate: (callback: (data: UsageData) => void) => () => void
       fetchUsage: () => Promise<UsageData | null>
+      costsSummary: () => Promise<CostSummary>
+      costsSetConfig: (config: CostConfig) => Promise<CostSummary>
+      costsClear: () => Promise<CostSummary>
+      onCostsUpdate: (callback: (summary: CostSummary) => void) => () => void
       getContextUsage: (paneId: number) => Promise<ContextUsage | null>
       detectServers: () => Promise<Record<number, ServerInfo[]>>
       killServer: (paneId: number, pid: number) => Promise<boolean>
       pasteImage: (paneId: number, filePath: string) => Promise<boolean>
       openImageDialog: () => Promise<string | null>
+      openDirectoryDialog: (title?: string) => Promise<string | null>
       openExternal: (url: string) => Promise<boolean>
       routerStatus: () => Promise<RouterStatus>
       routerSaveProvider: (input: RouterProviderInput) => Promise<RouterSaveResult>
       routerDeleteProvider: (name: string) => Promise<void>
       routerTest: (input: RouterProviderInput) => Promise<RouterTestResult>
+      routerRevealKey: (name: string) => Promise<string | null>
+      routerRotateKey: (name: string, key: string) => Promise<boolean>
       routerSetDelegation: (route: string) => Promise<RouterDelegationStatus>
       routerDelegationStatus: () => Promise<RouterDelegationStatus>
       routerClearDelegation: () => Promise<RouterDelegationStatus>
+      secretsStatus: () => Promise<SecretStoreStatus>
+      secretReveal: (name: string) => Promise<string | null>
+      secretSet: (name: string, value: string) => Promise<boolean>
+      secretDelete: (name: string) => Promise<void>
       loopbackStatus: () => Promise<LoopbackStatus>
       ensureLoopback: () => Promise<LoopbackStatus>
       getPathForFile: (file: File) => string
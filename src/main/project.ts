@@ -0,0 +1,125 @@
+// Project config: a .quadclaude.json at a repo's root with the settings panes
+// working in it should get (default agent, env, port base, startup commands,
+// prompt folder, pairing). Read here; the renderer asks the user to trust a
+// file before any of it applies, and main only adds env for trusted ones.
+//
+//   {
+//     "agent": "claude",
+//     "env": { "NODE_ENV": "development" },
+//     "portBase": 4000,
+//     "startup": [{ "command": "npm run dev", "label": "dev server" }],
+//     "prompts": "docs/prompts",
+//     "pair": "opencode"
+//   }
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { logger } from './logger'
+import {
+  PROJECT_CONFIG_FILE,
+  ProjectConfig,
+  ProjectInfo,
+  ProjectStartupCommand,
+  WorkspacePreferences,
+  isProjectTrusted,
+  portIsolationEnv,
+  projectPortEnv,
+} from '../shared/types'
+
+const MAX_CONFIG_BYTES = 64 * 1024
+
+// The string entries of an object (numbers and the like are dropped, not coerced)
+function stringEntries(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {}
+  return Object.fromEntries(Object.entries(value).filter((e): e is [string, string] => typeof e[1] === 'string'))
+}
+
+// Keep the fields that have the right shape; anything else is ignored
+export function parseProjectConfig(raw: unknown): ProjectConfig {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {}
+  const r = raw as Record<string, unknown>
+  const config: ProjectConfig = {}
+  if (typeof r.agent === 'string' && r.agent.trim()) config.agent = r.agent.trim()
+  const env = stringEntries(r.env)
+  if (Object.keys(env).length > 0) config.env = env
+  if (typeof r.portBase === 'number' && Number.isInteger(r.portBase) && r.portBase > 0 && r.portBase < 65536) {
+    config.portBase = r.portBase
+  }
+  // "startup": "npm run dev" is the one-command shorthand
+  const startup = typeof r.startup === 'string' ? [r.startup] : Array.isArray(r.startup) ? r.startup : []
+  const commands = startup
+    .map((s): ProjectStartupCommand | null => {
+      if (typeof s === 'string') return s.trim() ? { command: s.trim() } : null
+      if (typeof s !== 'object' || s === null || typeof s.command !== 'string' || !s.command.trim()) return null
+      return { command: s.command.trim(), ...(typeof s.label === 'string' && s.label.trim() ? { label: s.label.trim() } : {}) }
+    })
+    .filter((s): s is ProjectStartupCommand => s !== null)
+  if (commands.length > 0) config.startup = commands
+  if (typeof r.prompts === 'string' && r.prompts.trim()) config.prompts = r.prompts.trim()
+  if (r.pair === true || (typeof r.pair === 'string' && r.pair.trim())) config.pair = r.pair === true ? true : r.pair.trim()
+  return config
+}
+
+// Nearest PROJECT_CONFIG_FILE at or above a directory
+export function findProjectConfig(cwd: string): ProjectInfo | null {
+  let dir = path.resolve(cwd)
+  for (;;) {
+    const file = path.join(dir, PROJECT_CONFIG_FILE)
+    let text: string | null = null
+    try {
+      if (fs.statSync(file).size <= MAX_CONFIG_BYTES) text = fs.readFileSync(file, 'utf-8')
+    } catch {
+      // Not here; keep climbing
+    }
+    if (text !== null) {
+      let raw: unknown
+      try {
+        raw = JSON.parse(text)
+      } catch (error) {
+        logger.warn('project', `Invalid ${file}`, error instanceof Error ? error.message : String(error))
+        return null
+      }
+      const hash = crypto.createHash('sha256').update(text).digest('hex').slice(0, 16)
+      return { root: dir, hash, config: parseProjectConfig(raw) }
+    }
+    const parent = path.dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+// The project's prompt folder, if it names one inside its root
+export function projectPromptDir(cwd: string): string | null {
+  const project = findProjectConfig(cwd)
+  if (!project?.config.prompts) return null
+  const dir = path.resolve(project.root, project.config.prompts)
+  if (dir !== project.root && !dir.startsWith(project.root + path.sep)) return null
+  try {
+    return fs.statSync(dir).isDirectory() ? dir : null
+  } catch {
+    return null
+  }
+}
+
+// Env for a shell spawned in cwd: a trusted project's env, and the port
+// isolation env (from the project's port base, if it has one). `key` names the
+// project version it came from (null = none), so a shell that has since moved
+// into another project can be told apart.
+export function projectEnv(
+  paneId: number,
+  cwd: string | undefined,
+  prefs: Pick<WorkspacePreferences, 'trustedProjects' | 'portIsolation'>,
+): { env: Record<string, string>; port: Record<string, string>; key: string | null } {
+  const project = cwd ? findProjectConfig(cwd) : null
+  if (!project || !isProjectTrusted(project, prefs)) {
+    return { env: {}, port: portIsolationEnv(paneId, prefs.portIsolation), key: null }
+  }
+  const { env, portBase } = project.config
+  return {
+    env: env ?? {},
+    port: portBase !== undefined
+      ? projectPortEnv(paneId, prefs.portIsolation, portBase)
+      : portIsolationEnv(paneId, prefs.portIsolation),
+    key: env || portBase !== undefined ? `${project.root}#${project.hash}` : null,
+  }
+}
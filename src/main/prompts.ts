@@ -0,0 +1,269 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { logger } from './logger'
+import { projectPromptDir } from './project'
+import { SavedPrompt, PromptSyncRequest, PROMPT_SYNC_DIR } from '../shared/types'
+
+// Prompt files: Markdown with a small frontmatter block, one prompt per file.
+//
+//   ---
+//   name: Code review
+//   folder: Review
+//   tags: [git, review]
+//   ---
+//   Review the changes on {{branch}} ...
+//
+// Used for import/export and for prompt folders that are read straight from
+// disk (a repo's .quadclaude/prompts, or folders picked in Settings), so a
+// team can share a prompt set through git.
+const MAX_PROMPT_FILE_BYTES = 256 * 1024
+const MAX_SYNCED_PROMPTS = 500
+const MAX_DIR_DEPTH = 3 // subfolders become prompt folders
+const RESCAN_DEBOUNCE_MS = 300
+
+function unquote(value: string): string {
+  const v = value.trim()
+  if (v.length >= 2 && (v[0] === '"' || v[0] === "'") && v[v.length - 1] === v[0]) return v.slice(1, -1)
+  return v
+}
+
+// A frontmatter value list: "[a, b]" or "a, b"
+function parseList(value: string): string[] {
+  const inner = value.trim().replace(/^\[/, '').replace(/\]$/, '')
+  return inner.split(',').map(unquote).filter(Boolean)
+}
+
+function quoteIfNeeded(value: string): string {
+  return /^[\s'"[]|[:#]|\s$/.test(value) ? JSON.stringify(value) : value
+}
+
+export function parsePromptFile(
+  text: string,
+  fallbackName: string,
+): Pick<SavedPrompt, 'name' | 'text' | 'folder' | 'tags'> {
+  const fields: Record<string, string> = {}
+  let body = text.replace(/^\uFEFF/, '')
+  const m = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(body)
+  if (m) {
+    for (const line of m[1].split(/\r?\n/)) {
+      const kv = /^([A-Za-z_]+)\s*:\s*(.*)$/.exec(line)
+      if (kv) fields[kv[1].toLowerCase()] = kv[2]
+    }
+    body = body.slice(m[0].length)
+  }
+  const folder = fields.folder ? unquote(fields.folder) : ''
+  const tags = fields.tags ? parseList(fields.tags) : []
+  return {
+    name: unquote(fields.name ?? '') || fallbackName,
+    text: body.trim(),
+    ...(folder ? { folder } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+  }
+}
+
+export function serializePrompt(prompt: Pick<SavedPrompt, 'name' | 'text' | 'folder' | 'tags'>): string {
+  const lines = ['---', `name: ${quoteIfNeeded(prompt.name)}`]
+  if (prompt.folder) lines.push(`folder: ${quoteIfNeeded(prompt.folder)}`)
+  if (prompt.tags?.length) lines.push(`tags: [${prompt.tags.map(quoteIfNeeded).join(', ')}]`)
+  lines.push('---', '', prompt.text, '')
+  return lines.join('\n')
+}
+
+function fileNameFor(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+  return slug || 'prompt'
+}
+
+function readPromptFile(file: string): Pick<SavedPrompt, 'name' | 'text' | 'folder' | 'tags'> | null {
+  try {
+    if (fs.statSync(file).size > MAX_PROMPT_FILE_BYTES) return null
+    const parsed = parsePromptFile(fs.readFileSync(file, 'utf-8'), path.basename(file, path.extname(file)))
+    return parsed.text ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// Picked .md files → prompts, fresh ids
+export function importPromptFiles(files: string[]): SavedPrompt[] {
+  const now = Date.now()
+  const prompts: SavedPrompt[] = []
+  for (const file of files) {
+    const parsed = readPromptFile(file)
+    if (parsed) prompts.push({ ...parsed, id: crypto.randomUUID(), createdAt: now })
+  }
+  logger.info('prompts', `Imported ${prompts.length} of ${files.length} prompt files`)
+  return prompts
+}
+
+// One file per prompt, named after it; an existing file of the same name is
+// replaced. Returns how many were written.
+export function exportPromptFiles(dir: string, prompts: SavedPrompt[]): number {
+  const used = new Set<string>()
+  let written = 0
+  for (const prompt of prompts) {
+    let base = fileNameFor(prompt.name)
+    for (let n = 2; used.has(base); n++) base = `${fileNameFor(prompt.name)}-${n}`
+    used.add(base)
+    try {
+      fs.writeFileSync(path.join(dir, `${base}.md`), serializePrompt(prompt))
+      written++
+    } catch (error) {
+      logger.warn('prompts', `Failed to export ${prompt.name}`, error instanceof Error ? error.message : String(error))
+    }
+  }
+  logger.info('prompts', `Exported ${written} prompts`, dir)
+  return written
+}
+
+// The folder a project config names, else the nearest .quadclaude/prompts at
+// or above a directory (a repo's shared set)
+function findRepoPromptDir(cwd: string): string | null {
+  const configured = projectPromptDir(cwd)
+  if (configured) return configured
+  let dir = path.resolve(cwd)
+  for (;;) {
+    const candidate = path.join(dir, PROMPT_SYNC_DIR)
+    try {
+      if (fs.statSync(candidate).isDirectory()) return candidate
+    } catch {
+      // Not here; keep climbing
+    }
+    const parent = path.dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+// Prompt folders read straight from disk and watched for changes. Their
+// prompts aren't stored in the workspace: ids are "file:<path>", the folder is
+// the subfolder (or the repo / folder name), and edits write back to the file.
+export class PromptSync {
+  private dirs: string[] = []
+  private watchers = new Map<string, fs.FSWatcher>()
+  private prompts: SavedPrompt[] = []
+  private rescanTimer: ReturnType<typeof setTimeout> | null = null
+  private onChange: (prompts: SavedPrompt[]) => void
+
+  constructor(onChange: (prompts: SavedPrompt[]) => void) {
+    this.onChange = onChange
+  }
+
+  // Set the folders to read (configured ones, plus each pane's repo set) and
+  // return their prompts
+  sync(request: PromptSyncRequest): SavedPrompt[] {
+    const dirs = new Set<string>()
+    for (const dir of request.directories) {
+      if (dir.trim()) dirs.add(path.resolve(dir.replace(/^~(?=$|\/)/, process.env.HOME ?? '~')))
+    }
+    for (const cwd of request.cwds) {
+      const found = findRepoPromptDir(cwd)
+      if (found) dirs.add(found)
+    }
+    const next = [...dirs].sort()
+    if (next.join('\n') !== this.dirs.join('\n')) {
+      this.dirs = next
+      this.watch()
+      this.prompts = this.scan()
+    }
+    return this.prompts
+  }
+
+  list(): SavedPrompt[] {
+    return this.prompts
+  }
+
+  // Edits to a synced prompt go back to its file - only files we read
+  write(file: string, prompt: Pick<SavedPrompt, 'name' | 'text' | 'folder' | 'tags'>): boolean {
+    if (!this.prompts.some((p) => p.file === file)) return false
+    try {
+      fs.writeFileSync(file, serializePrompt(prompt))
+      return true
+    } catch (error) {
+      logger.warn('prompts', `Failed to write ${file}`, error instanceof Error ? error.message : String(error))
+      return false
+    }
+  }
+
+  dispose(): void {
+    for (const w of this.watchers.values()) w.close()
+    this.watchers.clear()
+    if (this.rescanTimer) clearTimeout(this.rescanTimer)
+  }
+
+  private watch(): void {
+    for (const [dir, w] of this.watchers) {
+      if (this.dirs.includes(dir)) continue
+      w.close()
+      this.watchers.delete(dir)
+    }
+    for (const dir of this.dirs) {
+      if (this.watchers.has(dir)) continue
+      try {
+        const watcher = fs.watch(dir, { recursive: true }, () => this.scheduleRescan())
+        watcher.on('error', () => {
+          watcher.close()
+          this.watchers.delete(dir)
+        })
+        this.watchers.set(dir, watcher)
+      } catch (error) {
+        logger.warn('prompts', `Cannot watch ${dir}`, error instanceof Error ? error.message : String(error))
+      }
+    }
+  }
+
+  private scheduleRescan(): void {
+    if (this.rescanTimer) clearTimeout(this.rescanTimer)
+    this.rescanTimer = setTimeout(() => {
+      this.rescanTimer = null
+      this.prompts = this.scan()
+      this.onChange(this.prompts)
+    }, RESCAN_DEBOUNCE_MS)
+  }
+
+  private scan(): SavedPrompt[] {
+    const prompts: SavedPrompt[] = []
+    for (const root of this.dirs) {
+      // A repo's shared set is labelled with the repo's name
+      const label = root.endsWith(PROMPT_SYNC_DIR)
+        ? path.basename(root.slice(0, -PROMPT_SYNC_DIR.length - 1))
+        : path.basename(root)
+      const walk = (dir: string, depth: number) => {
+        let entries: fs.Dirent[]
+        try {
+          entries = fs.readdirSync(dir, { withFileTypes: true })
+        } catch {
+          return
+        }
+        for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+          if (prompts.length >= MAX_SYNCED_PROMPTS || entry.name.startsWith('.')) continue
+          const full = path.join(dir, entry.name)
+          if (entry.isDirectory()) {
+            if (depth < MAX_DIR_DEPTH) walk(full, depth + 1)
+            continue
+          }
+          if (!entry.name.endsWith('.md')) continue
+          const parsed = readPromptFile(full)
+          if (!parsed) continue
+          const sub = path.relative(root, dir)
+          let createdAt = 0
+          try {
+            createdAt = fs.statSync(full).mtimeMs
+          } catch {
+            // Vanished mid-scan
+          }
+          prompts.push({
+            ...parsed,
+            id: `file:${full}`,
+            folder: parsed.folder ?? (sub ? `${label}/${sub.split(path.sep).join('/')}` : label),
+            file: full,
+            createdAt,
+          })
+        }
+      }
+      walk(root, 0)
+    }
+    return prompts
+  }
+}
@@ -0,0 +1,578 @@
+// TranslationProxy — the built-in alternative to claude-code-router. A small HTTP
+// server on loopback that speaks Anthropic's Messages API (what the real `claude`
+// CLI sends when ANTHROPIC_BASE_URL points here) and forwards each request to an
+// OpenAI-compatible chat/completions endpoint, translating text, images, tool_use /
+// tool_result and streaming both ways. Which endpoint, key and model a request goes
+// to is the resolver's call (RouterManager reads the same providers and routing
+// slots the ccr config holds), so a saved model works with zero external installs.
+import http from 'http'
+import crypto from 'crypto'
+import { logger } from './logger'
+import { ROUTER_PROXY_PORT, ROUTER_PROXY_URL, RouterProxyStatus } from '../shared/types'
+
+const MAX_BODY_BYTES = 50 * 1024 * 1024 // requests carry whole conversations (and images)
+const UPSTREAM_TIMEOUT_MS = 10 * 60_000
+
+// --- Anthropic Messages API (the subset Claude Code sends) --------------------
+
+export interface AnthropicBlock {
+  type: string // text | image | tool_use | tool_result | thinking | ...
+  text?: string
+  source?: { type: string; media_type?: string; data?: string; url?: string }
+  id?: string
+  name?: string
+  input?: unknown
+  tool_use_id?: string
+  content?: string | AnthropicBlock[]
+  is_error?: boolean
+}
+
+export interface AnthropicRequest {
+  model: string
+  messages?: { role: 'user' | 'assistant'; content: string | AnthropicBlock[] }[]
+  system?: string | AnthropicBlock[]
+  max_tokens?: number
+  temperature?: number
+  top_p?: number
+  stop_sequences?: string[]
+  stream?: boolean
+  tools?: { name: string; description?: string; input_schema?: unknown; type?: string }[]
+  tool_choice?: { type: string; name?: string }
+  thinking?: unknown
+}
+
+// --- OpenAI chat/completions ----------------------------------------------------
+
+export interface OpenAIToolCall {
+  index?: number
+  id?: string
+  type?: 'function'
+  function?: { name?: string; arguments?: string }
+}
+
+type OpenAIPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | OpenAIPart[] | null
+  tool_calls?: OpenAIToolCall[]
+  tool_call_id?: string
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+}
+
+export interface OpenAIResponse {
+  choices?: { message?: { content?: string | null; tool_calls?: OpenAIToolCall[] }; finish_reason?: string | null }[]
+  usage?: OpenAIUsage
+}
+
+export interface OpenAIChunk {
+  choices?: { delta?: { content?: string | null; tool_calls?: OpenAIToolCall[] }; finish_reason?: string | null }[]
+  usage?: OpenAIUsage | null
+}
+
+// Where one request goes: a chat/completions endpoint and the model id there
+export interface ProxyUpstream {
+  url: string
+  apiKey: string
+  model: string
+}
+
+type ResolveFn = (request: AnthropicRequest) => ProxyUpstream | null
+
+function blocksOf(content: string | AnthropicBlock[] | undefined): AnthropicBlock[] {
+  if (typeof content === 'string') return [{ type: 'text', text: content }]
+  return Array.isArray(content) ? content : []
+}
+
+function imageUrl(block: AnthropicBlock): string | null {
+  const source = block.source
+  if (source?.type === 'base64' && source.data) return `data:${source.media_type ?? 'image/png'};base64,${source.data}`
+  if (source?.type === 'url' && source.url) return source.url
+  return null
+}
+
+// Tool results go back as plain text; chat/completions tool messages can't hold images
+function toolResultText(block: AnthropicBlock): string {
+  const text = blocksOf(block.content)
+    .map((b) => (b.type === 'text' ? b.text ?? '' : b.type === 'image' ? '[image omitted]' : ''))
+    .filter(Boolean)
+    .join('\n')
+  return block.is_error ? `Error: ${text}` : text
+}
+
+export function toOpenAIRequest(body: AnthropicRequest, model: string): Record<string, unknown> {
+  const messages: OpenAIMessage[] = []
+  const system = blocksOf(body.system).map((b) => b.text ?? '').filter(Boolean).join('\n\n')
+  if (system) messages.push({ role: 'system', content: system })
+
+  for (const message of body.messages ?? []) {
+    const blocks = blocksOf(message.content)
+    if (message.role === 'assistant') {
+      const text = blocks.filter((b) => b.type === 'text').map((b) => b.text ?? '').join('')
+      const toolCalls: OpenAIToolCall[] = blocks
+        .filter((b) => b.type === 'tool_use')
+        .map((b) => ({
+          id: b.id,
+          type: 'function',
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+        }))
+      // Thinking blocks stay behind: other providers can't verify their signatures
+      if (!text && toolCalls.length === 0) continue
+      messages.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) })
+      continue
+    }
+    // Tool results answer the previous assistant turn's calls, so they come first
+    for (const block of blocks) {
+      if (block.type === 'tool_result') {
+        messages.push({ role: 'tool', tool_call_id: block.tool_use_id, content: toolResultText(block) })
+      }
+    }
+    const parts: OpenAIPart[] = []
+    for (const block of blocks) {
+      if (block.type === 'text' && block.text) parts.push({ type: 'text', text: block.text })
+      const url = block.type === 'image' ? imageUrl(block) : null
+      if (url) parts.push({ type: 'image_url', image_url: { url } })
+    }
+    if (parts.length === 0) continue
+    // Plain strings where possible; not every compatible server takes part arrays
+    const textOnly = parts.every((p) => p.type === 'text')
+    messages.push({
+      role: 'user',
+      content: textOnly ? parts.map((p) => (p.type === 'text' ? p.text : '')).join('\n') : parts,
+    })
+  }
+
+  // Server-side tools (web search, ...) have no schema to offer a function-calling model
+  const tools = (body.tools ?? [])
+    .filter((t) => t.input_schema)
+    .map((t) => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.input_schema } }))
+
+  const request: Record<string, unknown> = { model, messages }
+  if (body.max_tokens !== undefined) request.max_tokens = body.max_tokens
+  if (body.temperature !== undefined) request.temperature = body.temperature
+  if (body.top_p !== undefined) request.top_p = body.top_p
+  if (body.stop_sequences?.length) request.stop = body.stop_sequences
+  if (tools.length > 0) {
+    request.tools = tools
+    const choice = body.tool_choice
+    if (choice?.type === 'any') request.tool_choice = 'required'
+    else if (choice?.type === 'none') request.tool_choice = 'none'
+    else if (choice?.type === 'tool' && choice.name) request.tool_choice = { type: 'function', function: { name: choice.name } }
+  }
+  if (body.stream) {
+    request.stream = true
+    request.stream_options = { include_usage: true }
+  }
+  return request
+}
+
+function stopReason(finish: string | null | undefined): string {
+  if (finish === 'length') return 'max_tokens'
+  if (finish === 'tool_calls' || finish === 'function_call') return 'tool_use'
+  return 'end_turn'
+}
+
+function messageId(): string {
+  return `msg_${crypto.randomBytes(12).toString('hex')}`
+}
+
+function toolUseId(): string {
+  return `toolu_${crypto.randomBytes(12).toString('hex')}`
+}
+
+function parseArguments(args: string | undefined): unknown {
+  if (!args) return {}
+  try {
+    return JSON.parse(args)
+  } catch {
+    return {}
+  }
+}
+
+function isArgumentsObject(args: string): boolean {
+  try {
+    const parsed = JSON.parse(args)
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+  } catch {
+    return false
+  }
+}
+
+export function fromOpenAIResponse(response: OpenAIResponse, model: string): Record<string, unknown> {
+  const choice = response.choices?.[0]
+  const content: Record<string, unknown>[] = []
+  if (choice?.message?.content) content.push({ type: 'text', text: choice.message.content })
+  for (const call of choice?.message?.tool_calls ?? []) {
+    content.push({
+      type: 'tool_use',
+      id: call.id || toolUseId(),
+      name: call.function?.name ?? '',
+      input: parseArguments(call.function?.arguments),
+    })
+  }
+  const hasTools = content.some((c) => c.type === 'tool_use')
+  return {
+    id: messageId(),
+    type: 'message',
+    role: 'assistant',
+    model,
+    content,
+    // Some servers say "stop" after tool calls; Claude Code only runs tools on tool_use
+    stop_reason: hasTools ? 'tool_use' : stopReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: { input_tokens: response.usage?.prompt_tokens ?? 0, output_tokens: response.usage?.completion_tokens ?? 0 },
+  }
+}
+
+function sse(event: string, data: Record<string, unknown>): string {
+  return `event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`
+}
+
+// One streamed tool call, gathered until the stream ends
+interface PendingToolCall {
+  id: string
+  name: string
+  args: string
+}
+
+// Turns a chat.completion.chunk stream into Anthropic's event stream. Text streams
+// as it comes; tool calls are gathered whole (providers interleave parallel calls'
+// fragments, or leave out `index`) and each becomes a tool_use block at the end.
+export class StreamTranslator {
+  private readonly id = messageId()
+  private started = false
+  private index = -1 // current content block
+  private open = false
+  private calls: PendingToolCall[] = []
+  private callsByIndex: Map<number, PendingToolCall> = new Map() // OpenAI tool_call index -> its latest call
+  private finish: string | null = null
+  private usage = { input_tokens: 0, output_tokens: 0 }
+
+  constructor(private readonly model: string) {}
+
+  private start(): string[] {
+    if (this.started) return []
+    this.started = true
+    return [
+      sse('message_start', {
+        message: {
+          id: this.id,
+          type: 'message',
+          role: 'assistant',
+          model: this.model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 },
+        },
+      }),
+    ]
+  }
+
+  private closeBlock(): string[] {
+    if (!this.open) return []
+    this.open = false
+    return [sse('content_block_stop', { index: this.index })]
+  }
+
+  private openBlock(block: Record<string, unknown>): string[] {
+    const events = this.closeBlock()
+    this.index += 1
+    this.open = true
+    events.push(sse('content_block_start', { index: this.index, content_block: block }))
+    return events
+  }
+
+  // The call a fragment belongs to: a new id starts a call; otherwise its index
+  // names one, and with neither it continues the latest
+  private callFor(fragment: OpenAIToolCall): PendingToolCall {
+    let call = fragment.id ? this.calls.find((c) => c.id === fragment.id) : undefined
+    if (!call && !fragment.id && fragment.index !== undefined) call = this.callsByIndex.get(fragment.index)
+    if (!call && !fragment.id && fragment.index === undefined) call = this.calls[this.calls.length - 1]
+    if (!call) {
+      call = { id: fragment.id || toolUseId(), name: '', args: '' }
+      this.calls.push(call)
+    }
+    if (fragment.index !== undefined) this.callsByIndex.set(fragment.index, call)
+    return call
+  }
+
+  chunk(data: OpenAIChunk): string[] {
+    const events = this.start()
+    if (data.usage) {
+      this.usage = {
+        input_tokens: data.usage.prompt_tokens ?? this.usage.input_tokens,
+        output_tokens: data.usage.completion_tokens ?? this.usage.output_tokens,
+      }
+    }
+    const choice = data.choices?.[0]
+    const delta = choice?.delta
+    if (delta?.content) {
+      if (!this.open) events.push(...this.openBlock({ type: 'text', text: '' }))
+      events.push(sse('content_block_delta', { index: this.index, delta: { type: 'text_delta', text: delta.content } }))
+    }
+    for (const fragment of delta?.tool_calls ?? []) {
+      const call = this.callFor(fragment)
+      if (fragment.function?.name && !call.name) call.name = fragment.function.name
+      call.args += fragment.function?.arguments ?? ''
+    }
+    if (choice?.finish_reason) this.finish = choice.finish_reason
+    return events
+  }
+
+  end(): string[] {
+    const events = [...this.start(), ...this.closeBlock()]
+    for (const call of this.calls) {
+      events.push(...this.openBlock({ type: 'tool_use', id: call.id, name: call.name, input: {} }))
+      // Arguments that never became valid JSON go through as {} rather than break the turn
+      const args = isArgumentsObject(call.args) ? call.args : '{}'
+      events.push(sse('content_block_delta', { index: this.index, delta: { type: 'input_json_delta', partial_json: args } }))
+      events.push(...this.closeBlock())
+    }
+    const reason = this.calls.length > 0 ? 'tool_use' : stopReason(this.finish)
+    events.push(sse('message_delta', { delta: { stop_reason: reason, stop_sequence: null }, usage: this.usage }))
+    events.push(sse('message_stop', {}))
+    return events
+  }
+}
+
+// A whole (non-streamed) completion as one chunk, for servers that ignore stream
+export function responseAsChunk(response: OpenAIResponse): OpenAIChunk {
+  const choice = response.choices?.[0]
+  return {
+    choices: [{
+      delta: {
+        content: choice?.message?.content,
+        tool_calls: choice?.message?.tool_calls?.map((call, index) => ({ ...call, index })),
+      },
+      finish_reason: choice?.finish_reason,
+    }],
+    usage: response.usage,
+  }
+}
+
+function errorType(status: number): string {
+  if (status === 400) return 'invalid_request_error'
+  if (status === 401) return 'authentication_error'
+  if (status === 403) return 'permission_error'
+  if (status === 404) return 'not_found_error'
+  if (status === 429) return 'rate_limit_error'
+  return 'api_error'
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  if (res.headersSent) {
+    res.end(sse('error', { error: { type: errorType(status), message } }))
+    return
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ type: 'error', error: { type: errorType(status), message } }))
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
+
+// The bearer token Claude Code sends, as `x-api-key` or `Authorization: Bearer`
+function requestToken(req: http.IncomingMessage): string {
+  const apiKey = req.headers['x-api-key']
+  if (typeof apiKey === 'string' && apiKey) return apiKey
+  const auth = req.headers.authorization ?? ''
+  return auth.toLowerCase().startsWith('bearer ') ? auth.slice(7).trim() : ''
+}
+
+function tokenMatches(given: string, expected: string): boolean {
+  const a = Buffer.from(given)
+  const b = Buffer.from(expected)
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+export class TranslationProxy {
+  // Fresh each run and handed only to the panes QuadClaude launches (PTY env).
+  // Loopback alone isn't enough: any web page can POST to 127.0.0.1.
+  readonly token = crypto.randomBytes(24).toString('hex')
+  private server: http.Server | null = null
+  private starting: Promise<void> | null = null
+  private lastError: string | undefined
+  private resolve: ResolveFn
+  private port: number
+
+  constructor(resolve: ResolveFn, port: number = ROUTER_PROXY_PORT) {
+    this.resolve = resolve
+    this.port = port
+  }
+
+  get url(): string {
+    return this.port === ROUTER_PROXY_PORT ? ROUTER_PROXY_URL : `http://127.0.0.1:${this.port}`
+  }
+
+  status(): RouterProxyStatus {
+    return { running: !!this.server?.listening, url: this.url, error: this.lastError }
+  }
+
+  // Idempotent; panes launching a proxy-backed agent call it first
+  start(): Promise<void> {
+    if (this.server?.listening) return Promise.resolve()
+    if (this.starting) return this.starting
+    this.starting = new Promise<void>((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch((error) => {
+          sendError(res, 500, error instanceof Error ? error.message : String(error))
+        })
+      })
+      server.once('error', (error: NodeJS.ErrnoException) => {
+        this.lastError = error.code === 'EADDRINUSE' ? `Port ${this.port} is already in use.` : error.message
+        logger.error('proxy', 'Translation proxy failed to start', this.lastError)
+        this.starting = null
+        reject(new Error(this.lastError))
+      })
+      // Loopback only: the proxy holds provider keys
+      server.listen(this.port, '127.0.0.1', () => {
+        this.server = server
+        this.starting = null
+        this.lastError = undefined
+        logger.info('proxy', 'Translation proxy listening', this.url)
+        resolve()
+      })
+    })
+    return this.starting
+  }
+
+  stop(): void {
+    this.server?.close()
+    this.server = null
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const route = (req.url ?? '').split('?')[0].replace(/\/+$/, '')
+    if (req.method === 'GET' && (route === '' || route === '/health')) {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ ok: true }))
+      return
+    }
+    if (req.method !== 'POST' || (!route.endsWith('/v1/messages') && !route.endsWith('/v1/messages/count_tokens'))) {
+      sendError(res, 404, `Not found: ${req.method} ${route}`)
+      return
+    }
+
+    // Browsers always send Origin on cross-site POSTs, and a "simple" request can't
+    // set a JSON Content-Type; Claude Code does neither
+    if (req.headers.origin !== undefined) {
+      sendError(res, 403, 'Browser requests are not allowed.')
+      return
+    }
+    if (!(req.headers['content-type'] ?? '').toLowerCase().startsWith('application/json')) {
+      sendError(res, 400, 'Content-Type must be application/json.')
+      return
+    }
+    if (!tokenMatches(requestToken(req), this.token)) {
+      sendError(res, 401, 'Invalid proxy token. Relaunch the pane from QuadClaude.')
+      return
+    }
+
+    let body: AnthropicRequest
+    try {
+      body = JSON.parse(await readBody(req))
+    } catch (error) {
+      sendError(res, 400, error instanceof Error ? error.message : 'Invalid JSON body')
+      return
+    }
+    // No tokenizer for other models; a rough count keeps Claude Code's context meter moving
+    if (route.endsWith('/count_tokens')) {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ input_tokens: Math.ceil(JSON.stringify([body.system, body.messages, body.tools]).length / 4) }))
+      return
+    }
+
+    const upstream = this.resolve(body)
+    if (!upstream) {
+      sendError(res, 400, `No model configured for "${body.model}". Add one in QuadClaude → Settings → Models.`)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS)
+    // Claude Code interrupted (Esc) or went away: stop paying for the completion
+    res.on('close', () => controller.abort())
+    try {
+      const response = await fetch(upstream.url, {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(upstream.apiKey ? { Authorization: `Bearer ${upstream.apiKey}` } : {}),
+        },
+        body: JSON.stringify(toOpenAIRequest(body, upstream.model)),
+      })
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 500)
+        logger.warn('proxy', `Upstream returned ${response.status}`, `${upstream.model}: ${detail}`)
+        sendError(res, response.status, `Upstream ${response.status}${detail ? `: ${detail}` : ''}`)
+        return
+      }
+      const isJson = (response.headers.get('content-type') ?? '').includes('json')
+      if (!body.stream) {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(fromOpenAIResponse((await response.json()) as OpenAIResponse, body.model)))
+        return
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' })
+      const translator = new StreamTranslator(body.model)
+      const write = (events: string[]) => {
+        for (const event of events) res.write(event)
+      }
+      if (isJson) {
+        write(translator.chunk(responseAsChunk((await response.json()) as OpenAIResponse)))
+      } else if (response.body) {
+        const reader = response.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+        for (;;) {
+          const { done, value } = await reader.read()
+          if (done) break
+          buffer += decoder.decode(value, { stream: true })
+          let nl: number
+          while ((nl = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, nl).trim()
+            buffer = buffer.slice(nl + 1)
+            if (!line.startsWith('data:')) continue
+            const payload = line.slice(5).trim()
+            if (!payload || payload === '[DONE]') continue
+            try {
+              write(translator.chunk(JSON.parse(payload) as OpenAIChunk))
+            } catch {
+              // A malformed keep-alive or vendor line; the stream goes on
+            }
+          }
+        }
+      }
+      write(translator.end())
+      res.end()
+    } catch (error) {
+      if (res.destroyed) return
+      const msg = error instanceof Error ? error.message : String(error)
+      sendError(res, 502, controller.signal.aborted ? 'Upstream request timed out.' : msg)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
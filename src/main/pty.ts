@@ -6,11 +6,13 @@ import { execFile } from 'child_process'
 import { promisify } from 'util'
 import { logger } from './logger'
 import { markActivity, logPerfEvent } from './perfMonitor'
+import { ScrollbackStore } from './scrollback'
+import { OutputHistory } from './history'
 
 // Async, non-blocking command runner. Critically, this does NOT block the
 // Electron main thread the way the old execSync calls did.
 const pExecFile = promisify(execFile)
-import { GitStatus, ContextUsage, ServerInfo } from '../shared/types'
+import { GitStatus, ContextUsage, ServerInfo, isClaudeSessionId } from '../shared/types'
 
 type OutputCallback = (paneId: number, data: string) => void
 type ExitCallback = (paneId: number, exitCode: number) => void
@@ -135,15 +137,21 @@ export class PtyManager {
   private ptys: Map<number, PtyInstance> = new Map()
   private onOutput: OutputCallback
   private onExit: ExitCallback
+  // Optional on-disk recorder of each pane's output, replayed after a restart.
+  private scrollback: ScrollbackStore | null
+  // Optional plain-text log of each pane's output for search (opt-in).
+  private history: OutputHistory | null
 
   // Throughput accounting for the performance monitor. Cumulative bytes
   // emitted by PTYs since app start, total and per pane.
   private totalBytesOut = 0
   private perPaneBytesOut: Map<number, number> = new Map()
 
-  constructor(onOutput: OutputCallback, onExit: ExitCallback) {
+  constructor(onOutput: OutputCallback, onExit: ExitCallback, scrollback?: ScrollbackStore, history?: OutputHistory) {
     this.onOutput = onOutput
     this.onExit = onExit
+    this.scrollback = scrollback ?? null
+    this.history = history ?? null
   }
 
   async createPty(paneId: number, cwd?: string, env?: Record<string, string>): Promise<boolean> {
@@ -177,6 +185,8 @@ export class PtyManager {
         this.totalBytesOut += len
         this.perPaneBytesOut.set(paneId, (this.perPaneBytesOut.get(paneId) || 0) + len)
 
+        this.scrollback?.append(paneId, data)
+        this.history?.append(paneId, data)
         this.onOutput(paneId, data)
       })
 
@@ -350,12 +360,31 @@ export class PtyManager {
         // Ignore errors
       }
 
+      // In a linked worktree the git dir lives under the main repo's
+      // .git/worktrees/<name> instead of being the common dir
+      let worktree: string | undefined
+      try {
+        const { stdout } = await pExecFile(
+          'git',
+          ['rev-parse', '--path-format=absolute', '--git-dir', '--git-common-dir'],
+          { cwd, encoding: 'utf-8', timeout: 1000 }
+        )
+        const [gitDir, commonDir] = stdout.trim().split('\n')
+        if (gitDir && commonDir && gitDir !== commonDir) {
+          const top = await pExecFile('git', ['rev-parse', '--show-toplevel'], { cwd, encoding: 'utf-8', timeout: 1000 })
+          worktree = path.basename(top.stdout.trim())
+        }
+      } catch {
+        // Older git without --path-format; no worktree indicator
+      }
+
       const result: GitStatus = {
         isGitRepo: true,
         branch,
         ahead,
         behind,
         dirty,
+        worktree,
       }
       gitStatusCache.set(cwd, { status: result, timestamp: Date.now() })
 
@@ -411,6 +440,44 @@ export class PtyManager {
     }
   }
 
+  // Session id of the Claude conversation in this pane. The statusline script
+  // records it per Claude pid; before the first statusline render (or with a
+  // foreign statusline) fall back to the newest transcript for the pane's cwd —
+  // but only when no other pane runs Claude there, or they'd all resume one
+  // conversation.
+  async getClaudeSessionId(paneId: number): Promise<string | null> {
+    const instance = this.ptys.get(paneId)
+    const claudePid = await this.getClaudePid(paneId)
+    if (!instance || !claudePid) return null
+    try {
+      const data = await fs.promises.readFile(`/tmp/quadclaude-ctx-${claudePid}.json`, 'utf-8')
+      const parsed = JSON.parse(data)
+      if (isClaudeSessionId(parsed?.session_id)) return parsed.session_id
+    } catch {
+      // No statusline data yet - try the transcript directory
+    }
+    for (const [otherId, other] of this.ptys) {
+      if (otherId !== paneId && other.cwd === instance.cwd && (await this.getClaudePid(otherId))) return null
+    }
+    try {
+      // Claude keys project transcripts by cwd with non-alphanumerics as '-'
+      const projectDir = path.join(os.homedir(), '.claude', 'projects', instance.cwd.replace(/[^a-zA-Z0-9]/g, '-'))
+      const entries = await fs.promises.readdir(projectDir)
+      let newest: { id: string; mtime: number } | null = null
+      for (const name of entries) {
+        const id = name.endsWith('.jsonl') ? name.slice(0, -'.jsonl'.length) : ''
+        if (!isClaudeSessionId(id)) continue
+        const stat = await fs.promises.stat(path.join(projectDir, name))
+        if (!newest || stat.mtimeMs > newest.mtime) {
+          newest = { id, mtime: stat.mtimeMs }
+        }
+      }
+      return newest?.id ?? null
+    } catch {
+      return null
+    }
+  }
+
   // Read context usage from statusline temp file for this pane
   async getContextUsage(paneId: number): Promise<ContextUsage | null> {
     const claudePid = await this.getClaudePid(paneId)
@@ -575,6 +642,12 @@ export class PtyManager {
     }
   }
 
+  // A shell is running for the pane (a window taking over a moved pane adopts
+  // it instead of spawning a new one)
+  isAlive(paneId: number): boolean {
+    return this.ptys.has(paneId)
+  }
+
   killAll(): void {
     for (const [paneId] of this.ptys) {
       this.killPty(paneId)
@@ -709,6 +782,11 @@ export class PtyManager {
     }
   }
 
+  // The pane's tracked cwd without another lsof/readlink (see getAllCwds)
+  getTrackedCwd(paneId: number): string | null {
+    return this.ptys.get(paneId)?.cwd ?? null
+  }
+
   // Synchronous + cheap: returns the tracked cwd (kept fresh by the periodic
   // async getCwd poll during the session). Used on quit, where we must not
   // block on lsof and cannot await.
@@ -2,16 +2,34 @@
 // the REAL `claude` TUI against any non-Anthropic model. QuadClaude never speaks an
 // LLM API itself: it only writes ccr's local config file. ccr (launched as `ccr code`
 // inside the pane's own shell) translates Anthropic's Messages API to/from the user's
-// hosted provider, so the pane looks and behaves 100% like Claude Code.
+// hosted provider, so the pane looks and behaves 100% like Claude Code. Without ccr,
+// the built-in TranslationProxy (proxy.ts) does the same translation in-process for
+// profiles saved with the 'builtin' backend, reading the providers from this config.
 //
 // Config lives at ~/.claude-code-router/config.json (ccr's documented location).
+// API keys don't: they're in the OS secret store (secrets.ts), and a provider's
+// api_key is an env var reference ccr interpolates, e.g. "$QC_SECRET_OPENROUTER".
+// Panes running ccr get those vars at spawn (secretEnv); the proxy reads the
+// store directly.
 import os from 'os'
 import fs from 'fs'
 import path from 'path'
 import { execFile } from 'child_process'
 import { logger } from './logger'
-import { RouterProviderInput, RouterStatus, RouterSaveResult, RouterTestResult, RouterDelegationStatus } from '../shared/types'
+import {
+  RouterProviderInput,
+  RouterRoutes,
+  ROUTER_PROXY_URL,
+  RouterStatus,
+  RouterSaveResult,
+  RouterTestResult,
+  RouterDelegationStatus,
+  secretRef,
+} from '../shared/types'
 import { MERGE_PLUGIN_B64 } from './ccr-plugins/merge-system.b64'
+import { AnthropicRequest, ProxyUpstream, TranslationProxy } from './proxy'
+import { diagnoseProvider } from './routerTest'
+import { SecretStore } from './secrets'
 
 const CONFIG_DIR = path.join(os.homedir(), '.claude-code-router')
 const CONFIG_PATH = path.join(CONFIG_DIR, 'config.json')
@@ -71,6 +89,14 @@ if ! command -v claude >/dev/null 2>&1; then
   echo "qcdelegate: the 'claude' CLI was not found on PATH." >&2
   exit 127
 fi
+# Spend at or near a budget set in QuadClaude (Cost dashboard): warn, then go on.
+budget_file="$HOME/.quadclaude/budget-warning"
+if [ -s "$budget_file" ]; then
+  IFS="$(printf '\\t')" read -r bscope bmsg < "$budget_file"
+  if [ "$bscope" = "$(date +%Y-%m-%d)" ] || [ "$bscope" = "$(date +%Y-%m)" ]; then
+    printf '\\033[33mqcdelegate: %s\\033[0m\\n' "$bmsg" | tee -a "$log" >&2
+  fi
+fi
 # Ensure ccr's local router is up. Start it DETACHED only if the port is down —
 # a foreground ccr start would hang this worker.
 if ! curl -s -o /dev/null "http://127.0.0.1:3456" 2>/dev/null; then
@@ -93,6 +119,7 @@ pchars=$(printf %s "$prompt" | wc -c | tr -d ' ')
 printf %s "$prompt" | ANTHROPIC_BASE_URL="http://127.0.0.1:3456" \\
 ANTHROPIC_AUTH_TOKEN="ccr" \\
 ANTHROPIC_MODEL="$route" \\
+QUADCLAUDE_DELEGATE=1 \\
   claude -p --dangerously-skip-permissions --allowedTools "Read Write Edit MultiEdit Bash Glob Grep LS TodoWrite" 2>&1 | tee -a "$log"
 rc=$?
 dur=$((SECONDS - t0))
@@ -111,6 +138,40 @@ if command -v qctrace >/dev/null 2>&1; then
 fi
 `
 
+// Per-profile routing slots. ccr's Router block is global, and a pane's
+// "provider,model" ANTHROPIC_MODEL skips it, so each saved provider's slots also
+// go into a generated custom router: requests for the provider's default model
+// are sent on to its think / long-context / web-search model. Background
+// requests need no router — Claude Code sends them to its small-model env var.
+const ROUTER_SCRIPT_PATH = path.join(PLUGIN_DIR, 'quadclaude-router.js')
+const ROUTES_KEY = 'QuadClaudeRoutes' // provider slug -> RouterRoutes, kept in ccr's config
+const LONG_CONTEXT_THRESHOLD = 60000 // ccr's default longContextThreshold
+
+const routerScriptBody = (routes: Record<string, RouterRoutes>) => `// QuadClaude routing — GENERATED by QuadClaude (edits may be overwritten).
+// Picks the model a pane's agent profile assigned to this kind of request;
+// returning null leaves the request to ccr's own routing.
+const ROUTES = ${JSON.stringify(routes, null, 2)}
+
+module.exports = async function router(req, config) {
+  const body = (req && req.body) || {}
+  const model = String(body.model || '')
+  const provider = model.split(',')[0]
+  const routes = ROUTES[provider]
+  if (!routes || model !== provider + ',' + routes.default) return null
+  const pick = (slot) => (routes[slot] ? provider + ',' + routes[slot] : null)
+  const threshold = (config && config.Router && config.Router.longContextThreshold) || ${LONG_CONTEXT_THRESHOLD}
+  if (routes.longContext && JSON.stringify([body.system, body.messages, body.tools]).length / 4 > threshold) {
+    return pick('longContext')
+  }
+  const tools = Array.isArray(body.tools) ? body.tools : []
+  if (routes.webSearch && tools.some((t) => t && typeof t.type === 'string' && t.type.startsWith('web_search'))) {
+    return pick('webSearch')
+  }
+  if (routes.think && body.thinking) return pick('think')
+  return null
+}
+`
+
 // Minimal shape of ccr's config we touch. We preserve any other keys the user set.
 interface CcrProvider {
   name: string
@@ -124,9 +185,25 @@ interface CcrConfig {
   Providers?: CcrProvider[]
   Router?: Record<string, string>
   transformers?: Array<{ path: string; options?: Record<string, unknown> }>
+  CUSTOM_ROUTER_PATH?: string
+  [ROUTES_KEY]?: Record<string, RouterRoutes>
   [key: string]: unknown
 }
 
+// --- Keys ------------------------------------------------------------------------
+// A provider's key is stored under its slug; ccr reads it from this env var
+export const SECRET_ENV_PREFIX = 'QC_SECRET_'
+
+export function secretEnvVar(name: string): string {
+  return SECRET_ENV_PREFIX + name.toUpperCase().replace(/[^A-Z0-9]/g, '_')
+}
+
+// The env var a config api_key refers to ("$QC_SECRET_X"), or null for a plaintext key
+function keyEnvVar(apiKey: string | undefined): string | null {
+  const match = /^\$\{?(QC_SECRET_[A-Z0-9_]+)\}?$/.exec(apiKey ?? '')
+  return match ? match[1] : null
+}
+
 function slugify(s: string): string {
   return (
     s
@@ -137,7 +214,36 @@ function slugify(s: string): string {
   )
 }
 
+// Which of a provider's routing slots a request falls in (what the generated
+// custom router does for ccr)
+function slotFor(request: AnthropicRequest, routes: RouterRoutes, threshold: number): keyof RouterRoutes {
+  const tokens = JSON.stringify([request.system, request.messages, request.tools]).length / 4
+  if (routes.longContext && tokens > threshold) return 'longContext'
+  if (routes.webSearch && request.tools?.some((t) => t.type?.startsWith('web_search'))) return 'webSearch'
+  if (routes.think && request.thinking) return 'think'
+  return 'default'
+}
+
+// Blank model ids dropped, duplicates once; slots only keep models in the list
+function normalizeModels(input: RouterProviderInput): { models: string[]; routes: RouterRoutes } {
+  const models = [...new Set(input.models.map((m) => m.trim()).filter(Boolean))]
+  const routes: RouterRoutes = {}
+  for (const [slot, model] of Object.entries(input.routes ?? {}) as [keyof RouterRoutes, string | undefined][]) {
+    if (model && models.includes(model.trim())) routes[slot] = model.trim()
+  }
+  if (models.length > 0 && !routes.default) routes.default = models[0]
+  return { models, routes }
+}
+
 export class RouterManager {
+  // Started on demand, when a pane launches a proxy-backed profile
+  readonly proxy = new TranslationProxy((request) => this.resolveUpstream(request))
+  private secrets: SecretStore
+
+  constructor(secrets: SecretStore) {
+    this.secrets = secrets
+  }
+
   private readConfig(): CcrConfig {
     try {
       if (!fs.existsSync(CONFIG_PATH)) return {}
@@ -155,6 +261,93 @@ export class RouterManager {
     fs.writeFileSync(CONFIG_PATH, JSON.stringify(cfg, null, 2), { encoding: 'utf8', mode: 0o600 })
   }
 
+  // The secret a "$QC_SECRET_X" api_key refers to
+  private secretNameFor(apiKey: string | undefined): string | null {
+    const envVar = keyEnvVar(apiKey)
+    return envVar ? (this.secrets.names().find((name) => secretEnvVar(name) === envVar) ?? null) : null
+  }
+
+  // A provider's real key, from the secret store or (not yet migrated) plaintext
+  private keyOf(provider: CcrProvider | undefined): string {
+    if (!provider) return ''
+    const name = this.secretNameFor(provider.api_key)
+    if (name) return this.secrets.get(name) ?? ''
+    return keyEnvVar(provider.api_key) ? '' : provider.api_key
+  }
+
+  // Store a provider's key and return what its api_key becomes. Without an OS
+  // secret store the key stays in config.json, as before.
+  private storeKey(name: string, key: string): string {
+    if (!key || !this.secrets.available()) return key
+    this.secrets.set(name, key)
+    return `$${secretEnvVar(name)}`
+  }
+
+  // Env for a pane running ccr: every stored provider key, since whichever pane
+  // starts ccr's daemon decides which keys it can read
+  secretEnv(): Record<string, string> {
+    const env: Record<string, string> = {}
+    for (const provider of this.readConfig().Providers ?? []) {
+      const envVar = keyEnvVar(provider.api_key)
+      const key = envVar && this.keyOf(provider)
+      if (envVar && key) env[envVar] = key
+    }
+    return env
+  }
+
+  // The env a ccr profile carries for its provider's stored key: ccr reads the
+  // key from that var, and the reference is resolved at spawn
+  keyEnvFor(name: string): Record<string, string> {
+    const apiKey = this.readConfig().Providers?.find((p) => p.name === name)?.api_key
+    const envVar = keyEnvVar(apiKey)
+    const secretName = this.secretNameFor(apiKey)
+    return envVar && secretName ? { [envVar]: secretRef(secretName) } : {}
+  }
+
+  // Move plaintext keys from config.json into the secret store. Returns the
+  // slugs of the providers that moved.
+  migratePlaintextKeys(): string[] {
+    if (!this.secrets.available()) return []
+    const cfg = this.readConfig()
+    const moved: string[] = []
+    const stored = new Map<string, string>() // plaintext key -> its reference, for "-delegate" siblings
+    for (const provider of cfg.Providers ?? []) {
+      if (!provider.api_key || keyEnvVar(provider.api_key)) continue
+      const ref = stored.get(provider.api_key) ?? this.storeKey(provider.name, provider.api_key)
+      stored.set(provider.api_key, ref)
+      provider.api_key = ref
+      moved.push(provider.name)
+    }
+    if (moved.length === 0) return []
+    this.writeConfig(cfg)
+    logger.info('router', 'Moved provider keys to the secret store', moved.join(', '))
+    return moved
+  }
+
+  revealKey(name: string): string | null {
+    const provider = this.readConfig().Providers?.find((p) => p.name === name)
+    return provider ? this.keyOf(provider) : null
+  }
+
+  // Replace a saved provider's key (and its "-delegate" sibling's). ccr's daemon
+  // keeps the old one until it restarts.
+  rotateKey(name: string, key: string): boolean {
+    const cfg = this.readConfig()
+    const provider = cfg.Providers?.find((p) => p.name === name)
+    if (!provider || !key) return false
+    const secretName = this.secretNameFor(provider.api_key)
+    const previous = provider.api_key
+    let next = previous
+    if (secretName) this.secrets.set(secretName, key)
+    else next = this.storeKey(name, key)
+    for (const p of cfg.Providers ?? []) {
+      if (p === provider || (p.name === `${name}${DELEGATE_PROVIDER_SUFFIX}` && p.api_key === previous)) p.api_key = next
+    }
+    this.writeConfig(cfg)
+    logger.info('router', 'Rotated provider key', name)
+    return true
+  }
+
   // Is a command resolvable from the user's real login shell? We check via a login
   // shell (not main's process.env) so nvm/global-npm/~/.local PATHs are honored.
   private commandOnPath(cmd: string): Promise<boolean> {
@@ -174,61 +367,150 @@ export class RouterManager {
   async status(): Promise<RouterStatus> {
     const cfg = this.readConfig()
     const ccrInstalled = await this.detectCcr()
-    const providers = (cfg.Providers ?? []).map((p) => ({
-      name: p.name,
-      model: p.models?.[0] ?? '',
-      baseUrl: p.api_base_url,
-    }))
+    const providers = (cfg.Providers ?? []).map((p) => {
+      const routes = cfg[ROUTES_KEY]?.[p.name] ?? { default: p.models?.[0] }
+      const use = (p.transformer as { use?: unknown[] } | undefined)?.use?.[0]
+      return {
+        name: p.name,
+        model: routes.default ?? '',
+        models: p.models ?? [],
+        routes,
+        baseUrl: p.api_base_url,
+        transformer: typeof use === 'string' ? use : undefined,
+        keyStored: !!this.secretNameFor(p.api_key),
+      }
+    })
     return {
       configPath: CONFIG_PATH,
       ccrInstalled,
       installHint: 'npm install -g @musistudio/claude-code-router',
       command: ROUTER_COMMAND,
       providers,
+      proxy: this.proxy.status(),
+      secrets: this.secrets.status(),
+    }
+  }
+
+  // Where the built-in proxy sends a request. A "provider,model" model (a pane's
+  // ANTHROPIC_MODEL) goes to that provider, through its routing slots; a bare
+  // Claude model name (Claude Code's own defaults) follows the Router block.
+  resolveUpstream(request: AnthropicRequest): ProxyUpstream | null {
+    const cfg = this.readConfig()
+    const router = cfg.Router ?? {}
+    let route = String(request.model ?? '')
+    if (!route.includes(',')) {
+      route = (route.includes('haiku') && router.background) || (request.thinking ? router.think : '') || router.default || ''
+    }
+    const [slug, ...rest] = route.split(',')
+    let model = rest.join(',')
+    const routes = cfg[ROUTES_KEY]?.[slug]
+    if (routes && model === routes.default) {
+      const threshold = Number(router.longContextThreshold) || LONG_CONTEXT_THRESHOLD
+      model = routes[slotFor(request, routes, threshold)] ?? model
+    }
+    const provider = cfg.Providers?.find((p) => p.name === slug)
+    if (!provider || !model) return null
+    return { url: provider.api_base_url, apiKey: this.keyOf(provider), model }
+  }
+
+  // The saved route ("slug,model") a transcript's model belongs to: the route itself
+  // (what Claude Code asked for), or a bare model id a provider reported back. A
+  // "-delegate" sibling counts as its provider, so they share a price.
+  routeForModel(model: string): string | null {
+    const providers = this.readConfig().Providers ?? []
+    if (model.includes(',')) {
+      const [slug, ...rest] = model.split(',')
+      const id = rest.join(',')
+      const name = slug.endsWith(DELEGATE_PROVIDER_SUFFIX) ? slug.slice(0, -DELEGATE_PROVIDER_SUFFIX.length) : slug
+      return providers.some((p) => p.name === name && p.models?.includes(id)) ? `${name},${id}` : null
     }
+    const provider = providers.find((p) => !p.name.endsWith(DELEGATE_PROVIDER_SUFFIX) && p.models?.includes(model))
+    return provider ? `${provider.name},${model}` : null
   }
 
-  // Merge one provider into ccr's config and return the env + command a pane needs.
-  // Idempotent per provider `name` (re-saving the same model updates it in place).
+  // Rewrite the custom router from the saved slots. A custom router the user set
+  // up themselves stays; the global Router block still routes for them.
+  private writeRoutes(cfg: CcrConfig): void {
+    const routes = cfg[ROUTES_KEY] ?? {}
+    const routed = Object.values(routes).some((r) => r.think || r.longContext || r.webSearch)
+    if (cfg.CUSTOM_ROUTER_PATH && cfg.CUSTOM_ROUTER_PATH !== ROUTER_SCRIPT_PATH) {
+      if (routed) logger.warn('router', 'Custom router already set; per-profile slots use the Router block only', cfg.CUSTOM_ROUTER_PATH)
+      return
+    }
+    if (!routed) {
+      delete cfg.CUSTOM_ROUTER_PATH
+      return
+    }
+    fs.mkdirSync(PLUGIN_DIR, { recursive: true })
+    fs.writeFileSync(ROUTER_SCRIPT_PATH, routerScriptBody(routes), { encoding: 'utf8' })
+    cfg.CUSTOM_ROUTER_PATH = ROUTER_SCRIPT_PATH
+  }
+
+  // Merge one provider (and its models' routing slots) into ccr's config and return
+  // the env + command a pane needs. Idempotent per provider `name` (re-saving the
+  // same provider updates it in place).
   async saveProvider(input: RouterProviderInput): Promise<RouterSaveResult> {
     try {
-      const name = slugify(input.label || input.model)
-      const model = input.model.trim()
-      if (!input.baseUrl.trim() || !model) {
-        return { ok: false, route: '', command: ROUTER_COMMAND, env: {}, ccrInstalled: false, error: 'Base URL and model are required.' }
+      const { models, routes } = normalizeModels(input)
+      const name = slugify(input.label || models[0] || '')
+      if (!input.baseUrl.trim() || models.length === 0) {
+        return { ok: false, route: '', command: ROUTER_COMMAND, env: {}, ccrInstalled: false, error: 'Base URL and a model are required.' }
       }
 
+      const cfg = this.readConfig()
+      const previous = cfg.Providers?.find((p) => p.name === name)
       const provider: CcrProvider = {
         name,
         api_base_url: input.baseUrl.trim(),
-        api_key: input.apiKey ?? '',
-        models: [model],
+        // Editing a provider without retyping its key keeps the saved one
+        api_key: input.apiKey ? this.storeKey(name, input.apiKey) : previous?.api_key || '',
+        models,
         ...(input.transformer ? { transformer: { use: [input.transformer] } } : {}),
       }
-
-      const cfg = this.readConfig()
       const providers = (cfg.Providers ?? []).filter((p) => p.name !== name)
       providers.push(provider)
       cfg.Providers = providers
 
-      const route = `${name},${model}`
-      // Route Claude Code's requests to this model. `default` is the fallback the
-      // single-model case always hits; per-pane selection rides on ANTHROPIC_MODEL.
-      cfg.Router = { ...(cfg.Router ?? {}), default: route }
+      const route = `${name},${routes.default}`
+      // Route Claude Code's requests to this provider's models. `default` is the
+      // fallback the single-model case always hits; per-pane selection rides on
+      // ANTHROPIC_MODEL (and the custom router for the other slots). The Router
+      // block follows the provider saved last, for plain `ccr code`.
+      const router: Record<string, string> = { ...(cfg.Router ?? {}), default: route }
+      for (const slot of ['background', 'think', 'longContext', 'webSearch'] as const) {
+        const model = routes[slot]
+        if (model) router[slot] = `${name},${model}`
+        else if (router[slot]?.startsWith(`${name},`)) delete router[slot]
+      }
+      cfg.Router = router
+      cfg[ROUTES_KEY] = { ...(cfg[ROUTES_KEY] ?? {}), [name]: routes }
+      this.writeRoutes(cfg)
       // Quieter logs by default; users can flip this in the file.
       if (cfg.LOG === undefined) cfg.LOG = false
 
       this.writeConfig(cfg)
-      logger.info('router', 'Saved ccr provider', `${name} -> ${model}`)
+      logger.info('router', 'Saved ccr provider', `${name} -> ${models.join(', ')}`)
+
+      // ANTHROPIC_MODEL lets different panes target different providers concurrently:
+      // ccr (or the built-in proxy) routes a "name,model"-formatted model directly to
+      // that provider entry. Claude Code sends background requests to its small/fast
+      // model instead.
+      const builtin = input.backend === 'builtin'
+      const env: Record<string, string> = builtin
+        ? { ANTHROPIC_BASE_URL: ROUTER_PROXY_URL, ANTHROPIC_MODEL: route }
+        : { ANTHROPIC_MODEL: route, ...this.keyEnvFor(name) }
+      if (routes.background) {
+        env.ANTHROPIC_SMALL_FAST_MODEL = `${name},${routes.background}`
+        env.ANTHROPIC_DEFAULT_HAIKU_MODEL = `${name},${routes.background}`
+      }
 
       const ccrInstalled = await this.detectCcr()
       return {
         ok: true,
         route,
-        command: ROUTER_COMMAND,
-        // ANTHROPIC_MODEL lets different panes target different providers concurrently:
-        // ccr routes a "name,model"-formatted model directly to that provider entry.
-        env: { ANTHROPIC_MODEL: route },
+        // Behind the proxy the pane runs the plain claude CLI
+        command: builtin ? 'claude' : ROUTER_COMMAND,
+        env,
         ccrInstalled,
       }
     } catch (error) {
@@ -241,84 +523,56 @@ export class RouterManager {
   deleteProvider(name: string): void {
     const cfg = this.readConfig()
     if (!cfg.Providers) return
+    const secretName = this.secretNameFor(cfg.Providers.find((p) => p.name === name)?.api_key)
     cfg.Providers = cfg.Providers.filter((p) => p.name !== name)
+    // Its "-delegate" sibling may still use the key
+    if (secretName && !cfg.Providers.some((p) => this.secretNameFor(p.api_key) === secretName)) {
+      this.secrets.delete(secretName)
+    }
+    if (cfg[ROUTES_KEY]) {
+      const { [name]: _removed, ...routes } = cfg[ROUTES_KEY]
+      cfg[ROUTES_KEY] = routes
+      this.writeRoutes(cfg)
+    }
     this.writeConfig(cfg)
     logger.info('router', 'Deleted ccr provider', name)
   }
 
-  // Direct, lightweight reachability check: one tiny chat completion straight to the
-  // provider (NOT through ccr), so the wizard can confirm the URL+key+model before a
-  // pane is ever launched. Uses global fetch (Node 18+/Electron).
+  // Multi-step diagnostic (routerTest.ts) straight to the provider, NOT through ccr,
+  // so the wizard can tell whether the default model can drive Claude Code before a
+  // pane is ever launched.
   async testConnection(input: RouterProviderInput): Promise<RouterTestResult> {
     const url = input.baseUrl.trim()
-    if (!url) return { ok: false, error: 'Base URL is required.' }
-    let host = ''
+    if (!url) return { ok: false, error: 'Base URL is required.', steps: [] }
     try {
-      host = new URL(url).host
+      new URL(url)
     } catch {
-      return { ok: false, error: 'Base URL is not a valid URL.' }
+      return { ok: false, error: 'Base URL is not a valid URL.', steps: [] }
     }
-    try {
-      const controller = new AbortController()
-      const timer = setTimeout(() => controller.abort(), 15000)
-      const res = await fetch(url, {
-        method: 'POST',
-        redirect: 'manual', // don't silently follow into a login page
-        signal: controller.signal,
-        headers: {
-          'Content-Type': 'application/json',
-          ...(input.apiKey ? { Authorization: `Bearer ${input.apiKey}` } : {}),
-        },
-        body: JSON.stringify({
-          model: input.model,
-          max_tokens: 8,
-          messages: [{ role: 'user', content: 'ping' }],
-        }),
-      }).finally(() => clearTimeout(timer))
-
-      // A redirect — especially to another host — is almost always an auth/SSO gateway.
-      if (res.status >= 300 && res.status < 400) {
-        const loc = res.headers.get('location') || ''
-        let locHost = ''
-        try {
-          locHost = loc ? new URL(loc, url).host : ''
-        } catch {
-          /* unparseable location */
-        }
-        const where = locHost && locHost !== host ? ` to ${locHost}` : ''
-        return {
-          ok: false,
-          error: `Endpoint redirected${where} — it's behind a login/SSO gateway. Check the URL, your API key, or your VPN session.`,
-        }
-      }
+    const { models, routes } = normalizeModels(input)
+    if (!routes.default) return { ok: false, error: 'A model is required.', steps: [] }
+    // Testing a saved provider without retyping its key uses the saved one
+    const saved = this.readConfig().Providers?.find((p) => p.name === slugify(input.label || models[0] || ''))
+    const result = await diagnoseProvider({ url, apiKey: input.apiKey || this.keyOf(saved), model: routes.default })
+    logger.info(
+      'router',
+      `Connection test ${result.ok ? 'passed' : 'failed'}`,
+      `${routes.default}: ${result.steps.map((s) => `${s.id}=${s.status}`).join(' ')}`
+    )
+    return result
+  }
 
-      const ctype = res.headers.get('content-type') || ''
-      if (res.ok && ctype.includes('json')) return { ok: true }
+  // --- Delegation ------------------------------------------------------------
 
-      let detail = ''
-      try {
-        detail = (await res.text()).slice(0, 300)
-      } catch {
-        /* ignore body read errors */
-      }
-      // An HTML body means a web page, not an API.
-      if (ctype.includes('html') || detail.trimStart().startsWith('<')) {
-        return {
-          ok: false,
-          error:
-            'Endpoint returned a web page, not JSON — it may be behind a login/SSO gateway, or the URL is wrong (it should be the /v1/chat/completions endpoint).',
-        }
-      }
-      if (res.ok) return { ok: true }
-      return { ok: false, error: `HTTP ${res.status}${detail ? `: ${detail}` : ''}` }
+  // Keep an installed worker current with this version's script
+  refreshDelegateScript(): void {
+    try {
+      if (fs.existsSync(DELEGATE_SCRIPT)) this.writeDelegateScript()
     } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error)
-      return { ok: false, error: msg.includes('abort') ? 'Request timed out.' : msg }
+      logger.warn('router', 'Failed to refresh the delegation worker', error instanceof Error ? error.message : String(error))
     }
   }
 
-  // --- Delegation ------------------------------------------------------------
-
   private writeDelegateScript(): void {
     fs.mkdirSync(DELEGATE_BIN_DIR, { recursive: true })
     fs.writeFileSync(DELEGATE_SCRIPT, DELEGATE_SCRIPT_BODY, { encoding: 'utf8', mode: 0o755 })
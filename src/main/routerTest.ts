@@ -0,0 +1,337 @@
+// Connection diagnostics for a bring-your-own model. A few small requests go straight
+// to the provider (NOT through ccr or the built-in proxy) and check what Claude Code
+// will need from it: a working key, a known model id, streaming, a tool-call round
+// trip and room for its large prompt. The wizard shows each step with its latency, so
+// a model that can't drive Claude Code is caught before a pane is ever launched.
+// Uses global fetch (Node 18+/Electron).
+import { RouterTestResult, RouterTestStep, RouterTestStepId } from '../shared/types'
+import { OpenAIChunk, OpenAIResponse, ProxyUpstream } from './proxy'
+
+const STEP_TIMEOUT_MS = 30_000
+// Claude Code's system prompt and tool definitions alone come to ~20k tokens
+const CONTEXT_PROBE_TOKENS = 24_000
+const CONTEXT_FILLER = 'The quick brown fox jumps over the lazy dog. ' // ~10 tokens
+
+const WEATHER_TOOL = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Get the current weather for a city.',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string', description: 'City name, e.g. Paris' } },
+      required: ['city'],
+    },
+  },
+}
+
+interface StepOutcome {
+  status: 'pass' | 'warn' | 'skip'
+  detail?: string
+}
+
+// A step's requests; throwing fails the step with the error's message
+type StepRun = (upstream: ProxyUpstream, signal: AbortSignal) => Promise<StepOutcome>
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return ''
+  }
+}
+
+// One request to the provider. Redirects, web pages and error statuses throw with
+// a message the wizard can show as is.
+async function call(
+  url: string,
+  apiKey: string,
+  signal: AbortSignal,
+  body?: Record<string, unknown>
+): Promise<Response> {
+  const res = await fetch(url, {
+    method: body ? 'POST' : 'GET',
+    redirect: 'manual', // don't silently follow into a login page
+    signal,
+    headers: {
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  })
+
+  // A redirect — especially to another host — is almost always an auth/SSO gateway.
+  if (res.status >= 300 && res.status < 400) {
+    const loc = res.headers.get('location') || ''
+    let locHost = ''
+    try {
+      locHost = loc ? new URL(loc, url).host : ''
+    } catch {
+      /* unparseable location */
+    }
+    const where = locHost && locHost !== hostOf(url) ? ` to ${locHost}` : ''
+    throw new Error(
+      `Endpoint redirected${where} — it's behind a login/SSO gateway. Check the URL, your API key, or your VPN session.`
+    )
+  }
+
+  const ctype = res.headers.get('content-type') || ''
+  if (res.ok && !ctype.includes('html')) return res
+
+  let detail = ''
+  try {
+    detail = (await res.text()).slice(0, 300)
+  } catch {
+    /* ignore body read errors */
+  }
+  if (ctype.includes('html') || detail.trimStart().startsWith('<')) throw webPageError()
+  if (res.status === 401 || res.status === 403) {
+    throw new Error(`The provider rejected the API key (HTTP ${res.status})${detail ? `: ${detail}` : ''}`)
+  }
+  throw new Error(`HTTP ${res.status}${detail ? `: ${detail}` : ''}`)
+}
+
+// An HTML body means a web page, not an API.
+function webPageError(): Error {
+  return new Error(
+    'Endpoint returned a web page, not JSON — it may be behind a login/SSO gateway, or the URL is wrong (it should be the /v1/chat/completions endpoint).'
+  )
+}
+
+async function readJson<T>(res: Response): Promise<T> {
+  const text = await res.text()
+  if (text.trimStart().startsWith('<')) throw webPageError()
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    throw new Error(`The reply isn't JSON: ${text.slice(0, 120)}`)
+  }
+}
+
+// The chunks of a streamed completion, and how long the first one took
+async function readStream(res: Response, started: number): Promise<{ chunks: OpenAIChunk[]; firstMs: number }> {
+  if ((res.headers.get('content-type') || '').includes('json')) {
+    throw new Error('The provider answered with a single JSON reply instead of a stream; Claude Code streams every request.')
+  }
+  const chunks: OpenAIChunk[] = []
+  let firstMs = 0
+  if (!res.body) return { chunks, firstMs }
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    let nl: number
+    while ((nl = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, nl).trim()
+      buffer = buffer.slice(nl + 1)
+      if (!line.startsWith('data:')) continue
+      const payload = line.slice(5).trim()
+      if (!payload || payload === '[DONE]') continue
+      let chunk: OpenAIChunk & { error?: { message?: string } }
+      try {
+        chunk = JSON.parse(payload)
+      } catch {
+        throw new Error(`Malformed stream event: ${payload.slice(0, 120)}`)
+      }
+      // Some providers report errors mid-stream, after a 200
+      if (chunk.error) throw new Error(chunk.error.message || JSON.stringify(chunk.error).slice(0, 200))
+      if (chunks.length === 0) firstMs = Date.now() - started
+      chunks.push(chunk)
+    }
+  }
+  return { chunks, firstMs }
+}
+
+// The key works and the model answers a one-word prompt
+const checkAuth: StepRun = async ({ url, apiKey, model }, signal) => {
+  const res = await call(url, apiKey, signal, {
+    model,
+    max_tokens: 8,
+    messages: [{ role: 'user', content: 'ping' }],
+  })
+  await readJson<OpenAIResponse>(res)
+  return { status: 'pass' }
+}
+
+// The model id is one the provider lists. Plenty of providers don't list models
+// (or list them elsewhere), so this only ever warns.
+const checkModels: StepRun = async ({ url, apiKey, model }, signal) => {
+  const modelsUrl = url.replace(/\/chat\/completions\/?$/, '/models')
+  if (modelsUrl === url) return { status: 'skip', detail: 'Not a /chat/completions URL; no model list to check.' }
+  let ids: string[]
+  try {
+    const list = await readJson<{ data?: { id?: string }[] }>(await call(modelsUrl, apiKey, signal))
+    ids = (list.data ?? []).map((m) => String(m.id ?? ''))
+  } catch (error) {
+    if (signal.aborted) throw error
+    return { status: 'warn', detail: `The provider doesn't list its models (${error instanceof Error ? error.message : String(error)}).` }
+  }
+  if (ids.includes(model)) return { status: 'pass', detail: `${model} is one of ${ids.length} models.` }
+  return { status: 'warn', detail: `${model} isn't among the provider's ${ids.length} listed models — check the id.` }
+}
+
+const checkStreaming: StepRun = async ({ url, apiKey, model }, signal) => {
+  const started = Date.now()
+  const res = await call(url, apiKey, signal, {
+    model,
+    max_tokens: 32,
+    stream: true,
+    messages: [{ role: 'user', content: 'Count from 1 to 5.' }],
+  })
+  const { chunks, firstMs } = await readStream(res, started)
+  if (chunks.length === 0) throw new Error('The stream ended without any events.')
+  return { status: 'pass', detail: `First event after ${firstMs} ms · ${chunks.length} event${chunks.length === 1 ? '' : 's'}` }
+}
+
+// Claude Code drives everything through tools: the model has to call one (streamed,
+// with valid JSON arguments) and then answer from its result
+const checkToolCall: StepRun = async ({ url, apiKey, model }, signal) => {
+  const question = { role: 'user', content: 'What is the weather in Paris right now? Use the get_weather tool.' }
+  let res: Response
+  try {
+    res = await call(url, apiKey, signal, {
+      model,
+      max_tokens: 256,
+      stream: true,
+      tools: [WEATHER_TOOL],
+      tool_choice: 'auto',
+      messages: [question],
+    })
+  } catch (error) {
+    if (signal.aborted) throw error
+    throw new Error(`The provider rejected the tools parameter: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const { chunks } = await readStream(res, Date.now())
+  let text = ''
+  const calls: { id: string; name: string; args: string }[] = []
+  for (const chunk of chunks) {
+    const delta = chunk.choices?.[0]?.delta
+    if (delta?.content) text += delta.content
+    for (const tc of delta?.tool_calls ?? []) {
+      const i = tc.index ?? 0
+      calls[i] ??= { id: '', name: '', args: '' }
+      if (tc.id) calls[i].id = tc.id
+      if (tc.function?.name) calls[i].name ||= tc.function.name
+      if (tc.function?.arguments) calls[i].args += tc.function.arguments
+    }
+  }
+  const toolCall = calls.find(Boolean)
+  if (!toolCall) {
+    throw new Error(`The model answered in text instead of calling the tool${text.trim() ? `: "${text.trim().slice(0, 80)}"` : '.'}`)
+  }
+  if (toolCall.name !== WEATHER_TOOL.function.name) throw new Error(`The model called a tool that doesn't exist: "${toolCall.name}".`)
+  let args: { city?: unknown }
+  try {
+    args = JSON.parse(toolCall.args || '{}')
+  } catch {
+    throw new Error(`Malformed tool-call arguments: ${toolCall.args.slice(0, 120)}`)
+  }
+  if (typeof args.city !== 'string') throw new Error(`Tool-call arguments are missing "city": ${toolCall.args.slice(0, 120)}`)
+
+  const id = toolCall.id || 'call_0'
+  let reply: OpenAIResponse
+  try {
+    reply = await readJson<OpenAIResponse>(
+      await call(url, apiKey, signal, {
+        model,
+        max_tokens: 128,
+        tools: [WEATHER_TOOL],
+        messages: [
+          question,
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id, type: 'function', function: { name: toolCall.name, arguments: toolCall.args } }],
+          },
+          { role: 'tool', tool_call_id: id, content: JSON.stringify({ city: args.city, temperature_c: 18, conditions: 'sunny' }) },
+        ],
+      })
+    )
+  } catch (error) {
+    if (signal.aborted) throw error
+    throw new Error(`The provider rejected the tool result: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  const called = `get_weather(${JSON.stringify(args.city)})`
+  const answer = reply.choices?.[0]?.message?.content?.trim()
+  if (!answer) return { status: 'warn', detail: `${called} worked, but the model didn't answer from the result.` }
+  return { status: 'pass', detail: `${called} → “${answer.slice(0, 60)}${answer.length > 60 ? '…' : ''}”` }
+}
+
+const checkContext: StepRun = async ({ url, apiKey, model }, signal) => {
+  const filler = CONTEXT_FILLER.repeat(CONTEXT_PROBE_TOKENS / 10)
+  let reply: OpenAIResponse
+  try {
+    reply = await readJson<OpenAIResponse>(
+      await call(url, apiKey, signal, {
+        model,
+        max_tokens: 8,
+        messages: [{ role: 'user', content: `${filler}\nIgnore the text above and reply with OK.` }],
+      })
+    )
+  } catch (error) {
+    if (signal.aborted) throw error
+    throw new Error(
+      `A ~${CONTEXT_PROBE_TOKENS / 1000}k-token prompt was rejected; Claude Code's own prompt is about that size. ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    )
+  }
+  const tokens = reply.usage?.prompt_tokens
+  return { status: 'pass', detail: tokens ? `Accepted ${tokens.toLocaleString()} prompt tokens.` : undefined }
+}
+
+const STEPS: { id: RouterTestStepId; label: string; run: StepRun }[] = [
+  { id: 'auth', label: 'Authentication', run: checkAuth },
+  { id: 'models', label: 'Model id', run: checkModels },
+  { id: 'stream', label: 'Streaming', run: checkStreaming },
+  { id: 'tools', label: 'Tool-call round trip', run: checkToolCall },
+  { id: 'context', label: `Context (~${CONTEXT_PROBE_TOKENS / 1000}k tokens)`, run: checkContext },
+]
+
+async function runStep(
+  step: (typeof STEPS)[number],
+  upstream: ProxyUpstream
+): Promise<RouterTestStep> {
+  const started = Date.now()
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), STEP_TIMEOUT_MS)
+  try {
+    const outcome = await step.run(upstream, controller.signal)
+    return { id: step.id, label: step.label, ms: Date.now() - started, ...outcome }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error)
+    return {
+      id: step.id,
+      label: step.label,
+      status: 'fail',
+      ms: Date.now() - started,
+      detail: controller.signal.aborted ? `Timed out after ${STEP_TIMEOUT_MS / 1000}s.` : msg,
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Runs the steps one after another. Nothing past a failed auth can work, so the
+// rest are skipped then.
+export async function diagnoseProvider(upstream: ProxyUpstream): Promise<RouterTestResult> {
+  const steps: RouterTestStep[] = []
+  for (const step of STEPS) {
+    if (steps[0]?.status === 'fail') {
+      steps.push({ id: step.id, label: step.label, status: 'skip', ms: 0 })
+      continue
+    }
+    steps.push(await runStep(step, upstream))
+  }
+  const failed = steps.find((s) => s.status === 'fail')
+  return {
+    ok: !failed,
+    model: upstream.model,
+    error: failed ? `${failed.label}: ${failed.detail}` : undefined,
+    steps,
+  }
+}
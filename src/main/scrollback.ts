@@ -0,0 +1,184 @@
+import fs from 'fs'
+import path from 'path'
+import zlib from 'zlib'
+import { promisify } from 'util'
+import { logger } from './logger'
+import { DEFAULT_WORKSPACE_ID } from '../shared/types'
+
+const gzip = promisify(zlib.gzip)
+const gunzip = promisify(zlib.gunzip)
+
+// Raw output kept per pane. Comfortably more than xterm's 1000-line scrollback
+// for a typical Claude session, while keeping the gzip'd file small.
+const MAX_PANE_BYTES = 512 * 1024
+// Periodic flush so a crash / forced reboot still leaves recent history on disk.
+// Quit paths flush synchronously on top of this.
+const FLUSH_INTERVAL_MS = 30_000
+
+interface PaneBuffer {
+  chunks: string[]
+  bytes: number
+  dirty: boolean
+}
+
+// Records each pane's PTY output stream (bounded, gzip'd under userData) so the
+// renderer can replay it into a fresh xterm after an app restart.
+export class ScrollbackStore {
+  private baseDir: string
+  private dir: string
+  private buffers: Map<number, PaneBuffer> = new Map()
+  private flushTimer: ReturnType<typeof setInterval> | null = null
+  private flushing = false
+
+  constructor(dir: string) {
+    this.baseDir = dir
+    this.dir = dir
+    try {
+      fs.mkdirSync(this.dir, { recursive: true })
+    } catch (error) {
+      logger.warn('scrollback', 'Failed to create scrollback dir', error instanceof Error ? error.message : String(error))
+    }
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(() => {})
+    }, FLUSH_INTERVAL_MS)
+    this.flushTimer.unref?.()
+  }
+
+  // Pane ids are reused across named workspaces, so each workspace records
+  // into its own subdirectory. The default workspace keeps the base dir, which
+  // is where history from before named workspaces already lives.
+  private dirFor(workspaceId: string): string {
+    return workspaceId === DEFAULT_WORKSPACE_ID ? this.baseDir : path.join(this.baseDir, `ws-${workspaceId}`)
+  }
+
+  // Switch workspaces. carryLive keeps the live buffers and re-homes them in the
+  // new namespace ("save as", where the same panes keep running); otherwise the
+  // outgoing workspace's history is flushed and dropped from memory.
+  setNamespace(workspaceId: string, carryLive = false): void {
+    const dir = this.dirFor(workspaceId)
+    if (dir === this.dir) return
+    if (carryLive) {
+      for (const buf of this.buffers.values()) buf.dirty = true
+    } else {
+      this.flushSync()
+      this.buffers.clear()
+    }
+    this.dir = dir
+    try {
+      fs.mkdirSync(this.dir, { recursive: true })
+    } catch (error) {
+      logger.warn('scrollback', 'Failed to create scrollback dir', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  // A deleted workspace's recorded output goes with it.
+  dropNamespace(workspaceId: string): void {
+    if (workspaceId === DEFAULT_WORKSPACE_ID) return
+    fs.promises.rm(this.dirFor(workspaceId), { recursive: true, force: true }).catch(() => {})
+  }
+
+  private fileFor(paneId: number): string {
+    return path.join(this.dir, `pane-${paneId}.gz`)
+  }
+
+  append(paneId: number, data: string): void {
+    let buf = this.buffers.get(paneId)
+    if (!buf) {
+      buf = { chunks: [], bytes: 0, dirty: false }
+      this.buffers.set(paneId, buf)
+    }
+    buf.chunks.push(data)
+    buf.bytes += data.length
+    buf.dirty = true
+    if (buf.bytes > MAX_PANE_BYTES * 1.25) this.trim(buf)
+  }
+
+  // Collapse to one string and drop the oldest output down to the cap. The cut
+  // lands on a line boundary so replay never starts mid-escape-sequence.
+  private trim(buf: PaneBuffer): void {
+    let joined = buf.chunks.join('')
+    if (joined.length > MAX_PANE_BYTES) {
+      let cut = joined.length - MAX_PANE_BYTES
+      const nl = joined.indexOf('\n', cut)
+      if (nl !== -1) cut = nl + 1
+      joined = joined.slice(cut)
+    }
+    buf.chunks = [joined]
+    buf.bytes = joined.length
+  }
+
+  // The pane's recorded output: this session's buffer if it has one (renderer
+  // reload), otherwise whatever the previous app session left on disk. The
+  // result seeds the live buffer so history carries across repeated restarts.
+  async load(paneId: number): Promise<string | null> {
+    const live = this.buffers.get(paneId)
+    if (live && live.bytes > 0) {
+      this.trim(live)
+      return live.chunks[0]
+    }
+    try {
+      const raw = await fs.promises.readFile(this.fileFor(paneId))
+      const text = (await gunzip(raw)).toString('utf-8')
+      if (!text) return null
+      const buf: PaneBuffer = { chunks: [text], bytes: text.length, dirty: false }
+      this.trim(buf)
+      this.buffers.set(paneId, buf)
+      return buf.chunks[0]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('scrollback', `Failed to read scrollback for pane ${paneId}`, error instanceof Error ? error.message : String(error))
+      }
+      return null
+    }
+  }
+
+  // Pane closed by the user: its history shouldn't resurface in a reused slot.
+  discard(paneId: number): void {
+    this.buffers.delete(paneId)
+    fs.promises.unlink(this.fileFor(paneId)).catch(() => {})
+  }
+
+  // Async flush of every pane with unsaved output (periodic timer).
+  async flush(): Promise<void> {
+    if (this.flushing) return
+    this.flushing = true
+    try {
+      for (const [paneId, buf] of this.buffers) {
+        if (!buf.dirty) continue
+        buf.dirty = false
+        this.trim(buf)
+        try {
+          const data = await gzip(Buffer.from(buf.chunks[0], 'utf-8'))
+          await fs.promises.writeFile(this.fileFor(paneId), data, { mode: 0o600 })
+        } catch (error) {
+          buf.dirty = true
+          logger.warn('scrollback', `Failed to write scrollback for pane ${paneId}`, error instanceof Error ? error.message : String(error))
+        }
+      }
+    } finally {
+      this.flushing = false
+    }
+  }
+
+  // Synchronous flush for the quit path, where we cannot await.
+  flushSync(): void {
+    let written = 0
+    for (const [paneId, buf] of this.buffers) {
+      if (!buf.dirty) continue
+      buf.dirty = false
+      this.trim(buf)
+      try {
+        fs.writeFileSync(this.fileFor(paneId), zlib.gzipSync(Buffer.from(buf.chunks[0], 'utf-8')), { mode: 0o600 })
+        written++
+      } catch (error) {
+        logger.warn('scrollback', `Failed to write scrollback for pane ${paneId}`, error instanceof Error ? error.message : String(error))
+      }
+    }
+    if (written > 0) logger.info('scrollback', 'Saved scrollback on quit', `${written} pane(s)`)
+  }
+
+  dispose(): void {
+    if (this.flushTimer) clearInterval(this.flushTimer)
+    this.flushTimer = null
+  }
+}
@@ -0,0 +1,115 @@
+// SecretStore — API keys and secret env values, encrypted with Electron's safeStorage
+// (macOS Keychain, Windows DPAPI, libsecret/kwallet on Linux) and kept in
+// ~/.quadclaude/secrets.json. Config files hold `$QC_SECRET:<name>` references
+// instead; resolve() swaps them for the real values when a pane launches.
+//
+// On Linux without a keyring safeStorage falls back to a hardcoded key
+// ('basic_text'), which is no better than plaintext: the store reports itself
+// unavailable and callers keep their old plaintext behavior.
+import os from 'os'
+import fs from 'fs'
+import path from 'path'
+import { safeStorage } from 'electron'
+import { logger } from './logger'
+import { SecretStoreStatus, secretRefName } from '../shared/types'
+
+const SECRETS_PATH = path.join(os.homedir(), '.quadclaude', 'secrets.json')
+
+interface SecretsFile {
+  version: 1
+  secrets: Record<string, string> // name -> base64 safeStorage ciphertext
+}
+
+export class SecretStore {
+  private filePath: string
+  private cache: SecretsFile | null = null
+
+  constructor(filePath: string = SECRETS_PATH) {
+    this.filePath = filePath
+  }
+
+  // Only meaningful once the app is ready
+  available(): boolean {
+    try {
+      if (!safeStorage.isEncryptionAvailable()) return false
+      return process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text'
+    } catch {
+      return false
+    }
+  }
+
+  status(): SecretStoreStatus {
+    let backend = process.platform === 'darwin' ? 'keychain' : process.platform === 'win32' ? 'dpapi' : 'unknown'
+    if (process.platform === 'linux') {
+      try {
+        backend = safeStorage.getSelectedStorageBackend()
+      } catch {
+        /* app not ready */
+      }
+    }
+    return { available: this.available(), backend }
+  }
+
+  private read(): SecretsFile {
+    if (this.cache) return this.cache
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+      this.cache = { version: 1, secrets: parsed?.secrets && typeof parsed.secrets === 'object' ? parsed.secrets : {} }
+    } catch {
+      this.cache = { version: 1, secrets: {} }
+    }
+    return this.cache
+  }
+
+  private write(file: SecretsFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), { encoding: 'utf8', mode: 0o600 })
+    this.cache = file
+  }
+
+  names(): string[] {
+    return Object.keys(this.read().secrets)
+  }
+
+  get(name: string): string | null {
+    const encrypted = this.read().secrets[name]
+    if (!encrypted || !this.available()) return null
+    try {
+      return safeStorage.decryptString(Buffer.from(encrypted, 'base64'))
+    } catch (error) {
+      logger.error('secrets', `Failed to decrypt secret ${name}`, error instanceof Error ? error.message : String(error))
+      return null
+    }
+  }
+
+  // Throws when there's no OS secret store; check available() first
+  set(name: string, value: string): void {
+    if (!this.available()) throw new Error('No OS secret store is available.')
+    const file = this.read()
+    const encrypted = safeStorage.encryptString(value).toString('base64')
+    this.write({ ...file, secrets: { ...file.secrets, [name]: encrypted } })
+    logger.info('secrets', 'Stored secret', name)
+  }
+
+  delete(name: string): void {
+    const file = this.read()
+    if (!(name in file.secrets)) return
+    const { [name]: _removed, ...secrets } = file.secrets
+    this.write({ ...file, secrets })
+    logger.info('secrets', 'Deleted secret', name)
+  }
+
+  // A `$QC_SECRET:<name>` reference becomes its value ('' when it's missing);
+  // anything else passes through
+  resolve(value: string): string {
+    const name = secretRefName(value)
+    if (name === null) return value
+    const secret = this.get(name)
+    if (secret === null) logger.warn('secrets', 'Secret referenced but not stored', name)
+    return secret ?? ''
+  }
+
+  resolveEnv(env: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(env).map(([key, value]) => [key, this.resolve(value)]))
+  }
+}
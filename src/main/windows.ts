@@ -0,0 +1,80 @@
+import crypto from 'crypto'
+import { DetachedWindowState, WindowBounds, MAIN_WINDOW_ID, windowOwningPane } from '../shared/types'
+
+// Which window shows which pane. Panes live in the main window unless a
+// detached window lists them; a detached window left with no panes is dropped.
+// This is only the membership - index.ts opens and closes the BrowserWindows
+// to match it, and persists it with the workspace.
+export class PaneWindows {
+  private windows: DetachedWindowState[] = []
+
+  // Replace the whole set (startup, workspace switch)
+  set(windows: DetachedWindowState[] | undefined): void {
+    this.windows = (windows ?? [])
+      .filter((w) => w && typeof w.id === 'string' && Array.isArray(w.paneIds))
+      .map((w) => ({ ...w, paneIds: [...w.paneIds] }))
+    this.dropEmpty()
+  }
+
+  list(): DetachedWindowState[] {
+    return this.windows.map((w) => ({ ...w, paneIds: [...w.paneIds] }))
+  }
+
+  ownerOf(paneId: number): string {
+    return windowOwningPane(this.windows, paneId)
+  }
+
+  // Open the panes in a new window of their own. Returns its id.
+  detach(paneIds: number[], bounds?: WindowBounds): string {
+    const id = crypto.randomUUID()
+    this.release(paneIds)
+    this.windows.push({ id, paneIds: [...new Set(paneIds)], bounds })
+    this.dropEmpty()
+    return id
+  }
+
+  // Move a pane into another window (MAIN_WINDOW_ID for the main one)
+  move(paneId: number, windowId: string): void {
+    const target = this.windows.find((w) => w.id === windowId)
+    if (windowId !== MAIN_WINDOW_ID && !target) return
+    this.release([paneId])
+    target?.paneIds.push(paneId)
+    this.dropEmpty()
+  }
+
+  // A detached window went away: its panes return to the main window
+  remove(windowId: string): boolean {
+    const before = this.windows.length
+    this.windows = this.windows.filter((w) => w.id !== windowId)
+    return this.windows.length !== before
+  }
+
+  setBounds(windowId: string, bounds: WindowBounds): void {
+    const win = this.windows.find((w) => w.id === windowId)
+    if (win) win.bounds = bounds
+  }
+
+  // Forget panes that no longer exist in the workspace
+  prune(paneIds: number[]): boolean {
+    const live = new Set(paneIds)
+    let changed = false
+    for (const w of this.windows) {
+      const kept = w.paneIds.filter((id) => live.has(id))
+      if (kept.length !== w.paneIds.length) {
+        w.paneIds = kept
+        changed = true
+      }
+    }
+    return this.dropEmpty() || changed
+  }
+
+  private release(paneIds: number[]): void {
+    for (const w of this.windows) w.paneIds = w.paneIds.filter((id) => !paneIds.includes(id))
+  }
+
+  private dropEmpty(): boolean {
+    const before = this.windows.length
+    this.windows = this.windows.filter((w) => w.paneIds.length > 0)
+    return this.windows.length !== before
+  }
+}
@@ -1,7 +1,11 @@
 import Store from 'electron-store'
 import os from 'os'
 import fs from 'fs'
-import { WorkspaceState, PaneConfig, WindowBounds, DEFAULT_HOTKEYS, LayoutMode, MIN_PANES, MAX_PANES, FOCUS_SMALL_RATIO_DEFAULT } from '../shared/types'
+import crypto from 'crypto'
+import {
+  WorkspaceState, PaneConfig, WindowBounds, DEFAULT_HOTKEYS, LayoutMode, MIN_PANES, MAX_SESSIONS, FOCUS_SMALL_RATIO_DEFAULT,
+  NamedWorkspace, WorkspaceLayoutState, WorkspaceList, DEFAULT_WORKSPACE_ID, DetachedWindowState,
+} from '../shared/types'
 import { logger } from './logger'
 
 const DEFAULT_PREFERENCES = {
@@ -36,8 +40,36 @@ function createDefaultWorkspace(): WorkspaceState {
   }
 }
 
+// The per-workspace part of a WorkspaceState
+function layoutOf(state: WorkspaceLayoutState): WorkspaceLayoutState {
+  const { layout, focusPaneId, activePaneId, panes, focusSmallRatio, layoutTree, windows } = state
+  return { layout, focusPaneId, activePaneId, panes, focusSmallRatio, layoutTree, windows }
+}
+
+// Workspace ids name directories (scrollback, history): the default one, or a UUID
+const WORKSPACE_UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function isWorkspaceId(id: unknown): id is string {
+  return id === DEFAULT_WORKSPACE_ID || (typeof id === 'string' && WORKSPACE_UUID.test(id))
+}
+
+// A copied workspace must not resume the same Claude conversations as its
+// source - two panes can't drive one session.
+function withoutSessions(panes: PaneConfig[]): PaneConfig[] {
+  return panes.map(({ claudeSessionId: _s, ...rest }) => rest)
+}
+
+interface WorkspaceStoreSchema {
+  workspace: WorkspaceState
+  windowBounds?: WindowBounds
+  // Named workspaces. The active one's snapshot goes stale while it's live;
+  // `workspace` is its truth until the next switch.
+  workspaces?: Record<string, NamedWorkspace>
+  activeWorkspaceId?: string
+}
+
 export class WorkspaceManager {
-  private store: Store<{ workspace: WorkspaceState; windowBounds?: WindowBounds }>
+  private store: Store<WorkspaceStoreSchema>
 
   constructor() {
     try {
@@ -53,6 +85,21 @@ export class WorkspaceManager {
       logger.error('workspace', 'Failed to create electron-store', error instanceof Error ? error.message : String(error))
       throw error
     }
+    this.migrateToNamedWorkspaces()
+  }
+
+  // Stores from before named workspaces: the single workspace becomes "Default".
+  private migrateToNamedWorkspaces(): void {
+    const workspaces = this.store.get('workspaces')
+    const activeId = this.store.get('activeWorkspaceId')
+    if (workspaces && activeId && workspaces[activeId]) return
+    const current = this.store.get('workspace', createDefaultWorkspace())
+    const id = DEFAULT_WORKSPACE_ID
+    this.store.set('workspaces', {
+      ...(workspaces ?? {}),
+      [id]: { id, name: 'Default', updatedAt: Date.now(), ...layoutOf(current) },
+    })
+    this.store.set('activeWorkspaceId', id)
   }
 
   load(): WorkspaceState {
@@ -77,11 +124,12 @@ export class WorkspaceManager {
       }
 
       // Keep the pane count within bounds: at least MIN_PANES (the app's
-      // permanent quad), at most MAX_PANES (extra user-added panes persist).
+      // permanent quad), at most MAX_SESSIONS (extra user-added panes persist,
+      // shelved ones included).
       while (workspace.panes.length < MIN_PANES) {
         workspace.panes.push(createDefaultPaneConfig(workspace.panes.length))
       }
-      workspace.panes = workspace.panes.slice(0, MAX_PANES)
+      workspace.panes = workspace.panes.slice(0, MAX_SESSIONS)
 
       // Ensure hotkeys exist (backwards compatibility)
       if (!workspace.preferences.hotkeys) {
@@ -94,11 +142,14 @@ export class WorkspaceManager {
       }
 
       // Migrate removed layouts to 'grid' (horizontal, vertical, fullscreen, split removed)
-      const validLayouts: LayoutMode[] = ['grid', 'focus', 'focus-right']
+      const validLayouts: LayoutMode[] = ['grid', 'focus', 'focus-right', 'custom']
       if (!validLayouts.includes(workspace.layout as LayoutMode)) {
         logger.info('workspace', `Migrating removed layout '${workspace.layout}' to 'grid'`)
         workspace.layout = 'grid'
       }
+      if (workspace.layout === 'custom' && !workspace.layoutTree) {
+        workspace.layout = 'grid'
+      }
 
       logger.info('workspace', 'Workspace loaded', `Layout: ${workspace.layout}, Theme: ${workspace.preferences.theme}`)
       return workspace
@@ -116,6 +167,154 @@ export class WorkspaceManager {
     this.store.set('workspace', { ...current, ...state })
   }
 
+  // A save from one of several windows. Each window only has the final say over
+  // the panes it shows: the main window's save keeps the stored config of panes
+  // that live in other windows, and a detached window writes its own panes
+  // (dropping any it closed) and the shared preferences, nothing else. Window
+  // membership is main's and never comes from a renderer. Returns what was
+  // written, for the other windows to pick up.
+  saveFromWindow(state: Partial<WorkspaceState>, isMain: boolean, owns: (paneId: number) => boolean): WorkspaceState {
+    const current = this.store.get('workspace', createDefaultWorkspace())
+    const { windows: _w, ...incoming } = state
+    const stored = new Map(current.panes.map((p) => [p.id, p]))
+    const sent = new Map((incoming.panes ?? []).map((p) => [p.id, p]))
+    let next: WorkspaceState
+    if (isMain) {
+      const panes = incoming.panes
+        ? incoming.panes.map((p) => (!owns(p.id) && stored.get(p.id)) || p)
+        : current.panes
+      next = { ...current, ...incoming, panes }
+    } else {
+      const panes = current.panes
+        .filter((p) => !owns(p.id) || sent.has(p.id))
+        .map((p) => (owns(p.id) ? sent.get(p.id) ?? p : p))
+      next = { ...current, panes, preferences: incoming.preferences ?? current.preferences }
+    }
+    this.store.set('workspace', next)
+    return next
+  }
+
+  saveWindows(windows: DetachedWindowState[]): void {
+    const current = this.store.get('workspace', createDefaultWorkspace())
+    this.store.set('workspace', { ...current, windows })
+  }
+
+  getActiveWorkspaceId(): string {
+    return this.store.get('activeWorkspaceId') ?? DEFAULT_WORKSPACE_ID
+  }
+
+  listWorkspaces(): WorkspaceList {
+    const activeId = this.getActiveWorkspaceId()
+    const live = this.store.get('workspace', createDefaultWorkspace())
+    const workspaces = Object.values(this.store.get('workspaces') ?? {})
+      .map((w) => ({
+        id: w.id,
+        name: w.name,
+        paneCount: (w.id === activeId ? live.panes : w.panes).length,
+        updatedAt: w.updatedAt,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+    return { activeId, workspaces }
+  }
+
+  // Write the live workspace back into its named slot
+  private snapshotActive(): Record<string, NamedWorkspace> {
+    const workspaces = { ...(this.store.get('workspaces') ?? {}) }
+    const activeId = this.getActiveWorkspaceId()
+    const live = this.store.get('workspace', createDefaultWorkspace())
+    const existing = workspaces[activeId]
+    workspaces[activeId] = {
+      id: activeId,
+      name: existing?.name ?? 'Default',
+      updatedAt: Date.now(),
+      ...layoutOf(live),
+    }
+    this.store.set('workspaces', workspaces)
+    return workspaces
+  }
+
+  private uniqueName(name: string, workspaces: Record<string, NamedWorkspace>): string {
+    const taken = new Set(Object.values(workspaces).map((w) => w.name))
+    const base = name.trim() || 'Workspace'
+    if (!taken.has(base)) return base
+    let n = 2
+    while (taken.has(`${base} ${n}`)) n++
+    return `${base} ${n}`
+  }
+
+  // Make `id` the live workspace. Preferences stay as they are; the layout and
+  // panes come from the target's snapshot. Returns the state to render.
+  switchTo(id: string): WorkspaceState {
+    const workspaces = this.snapshotActive()
+    const target = workspaces[id]
+    if (!target) throw new Error(`No workspace with id ${id}`)
+    const live = this.store.get('workspace', createDefaultWorkspace())
+    // Every per-workspace field comes from the target, missing ones included:
+    // a snapshot without a split tree or windows (never had one, or stored
+    // without the key) must not keep the outgoing workspace's.
+    this.store.set('workspace', { ...live, ...layoutOf(target), windows: target.windows ?? [] })
+    this.store.set('activeWorkspaceId', id)
+    logger.info('workspace', 'Switched workspace', target.name)
+    return this.load()
+  }
+
+  // Save the live workspace under a new name and keep working in the copy.
+  saveAs(name: string): WorkspaceList {
+    const workspaces = this.snapshotActive()
+    const live = this.store.get('workspace', createDefaultWorkspace())
+    const id = crypto.randomUUID()
+    workspaces[id] = { id, name: this.uniqueName(name, workspaces), updatedAt: Date.now(), ...layoutOf(live) }
+    // The running Claude sessions move with the live panes into the copy
+    const source = workspaces[this.getActiveWorkspaceId()]
+    workspaces[source.id] = { ...source, panes: withoutSessions(source.panes) }
+    this.store.set('workspaces', workspaces)
+    this.store.set('activeWorkspaceId', id)
+    return this.listWorkspaces()
+  }
+
+  duplicate(id: string): WorkspaceList {
+    const workspaces = this.snapshotActive()
+    const source = workspaces[id]
+    if (!source) throw new Error(`No workspace with id ${id}`)
+    const copyId = crypto.randomUUID()
+    workspaces[copyId] = {
+      ...source,
+      id: copyId,
+      name: this.uniqueName(`${source.name} copy`, workspaces),
+      updatedAt: Date.now(),
+      panes: withoutSessions(source.panes),
+    }
+    this.store.set('workspaces', workspaces)
+    return this.listWorkspaces()
+  }
+
+  rename(id: string, name: string): WorkspaceList {
+    const workspaces = { ...(this.store.get('workspaces') ?? {}) }
+    const target = workspaces[id]
+    if (target && name.trim() && name.trim() !== target.name) {
+      const others = { ...workspaces }
+      delete others[id]
+      workspaces[id] = { ...target, name: this.uniqueName(name, others) }
+      this.store.set('workspaces', workspaces)
+    }
+    return this.listWorkspaces()
+  }
+
+  // The live workspace can't be deleted - switch away from it first. `deleted`
+  // says whether there was one to delete (and so data of its own to drop).
+  delete(id: string): { list: WorkspaceList; deleted: boolean } {
+    if (!isWorkspaceId(id)) throw new Error(`Invalid workspace id ${id}`)
+    const workspaces = { ...(this.store.get('workspaces') ?? {}) }
+    if (id === this.getActiveWorkspaceId()) throw new Error('Cannot delete the open workspace')
+    const deleted = !!workspaces[id]
+    if (deleted) {
+      logger.info('workspace', 'Deleted workspace', workspaces[id].name)
+      delete workspaces[id]
+      this.store.set('workspaces', workspaces)
+    }
+    return { list: this.listWorkspaces(), deleted }
+  }
+
   getWindowBounds(): WindowBounds | undefined {
     return this.store.get('windowBounds')
   }
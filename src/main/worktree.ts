@@ -0,0 +1,128 @@
+// Git worktrees for "New worktree pane": each agent gets its own checkout of the
+// repo on a fresh branch, so parallel sessions never share a working tree.
+// Worktrees live under the configured directory as <dir>/<repo>/<branch>; when
+// the pane is done its branch can be merged back, pushed, or thrown away.
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import os from 'os'
+import fs from 'fs'
+import path from 'path'
+import { PaneWorktree, WorktreeFinishAction, WorktreeInfo, WorktreeResult, WORKTREE_DIR_DEFAULT } from '../shared/types'
+import { logger } from './logger'
+
+const pExecFile = promisify(execFile)
+
+async function git(cwd: string, args: string[], timeout = 15000): Promise<string> {
+  try {
+    const { stdout } = await pExecFile('git', args, { cwd, encoding: 'utf-8', timeout })
+    return stdout.trim()
+  } catch (error) {
+    // git's own message (stderr) is what the user needs to see
+    const stderr = (error as { stderr?: string }).stderr?.trim()
+    throw new Error(stderr || (error instanceof Error ? error.message : String(error)))
+  }
+}
+
+function expandHome(dir: string): string {
+  return dir === '~' || dir.startsWith('~/') ? path.join(os.homedir(), dir.slice(1)) : dir
+}
+
+// Current branch of a checkout, or null when HEAD is detached
+async function currentBranch(cwd: string): Promise<string | null> {
+  try {
+    return await git(cwd, ['symbolic-ref', '--short', 'HEAD'])
+  } catch {
+    return null
+  }
+}
+
+// Create `branch` off whatever `sourceDir` has checked out, in a new worktree.
+export async function createWorktree(sourceDir: string, branch: string, worktreeDir?: string): Promise<PaneWorktree> {
+  const repoRoot = await git(sourceDir, ['rev-parse', '--show-toplevel'])
+  const name = branch.trim()
+  await git(repoRoot, ['check-ref-format', '--branch', name])
+  const baseBranch = (await currentBranch(repoRoot)) ?? (await git(repoRoot, ['rev-parse', 'HEAD']))
+
+  const dir = path.join(
+    expandHome(worktreeDir?.trim() || WORKTREE_DIR_DEFAULT),
+    path.basename(repoRoot),
+    name.replace(/\//g, '-'),
+  )
+  if (fs.existsSync(dir)) throw new Error(`${dir} already exists`)
+  fs.mkdirSync(path.dirname(dir), { recursive: true })
+
+  await git(repoRoot, ['worktree', 'add', '-b', name, dir, baseBranch], 60000)
+  logger.info('worktree', `Created worktree ${dir}`, `branch ${name} from ${baseBranch}`)
+  return { path: dir, branch: name, repoRoot, baseBranch }
+}
+
+export async function inspectWorktree(worktree: PaneWorktree): Promise<WorktreeInfo> {
+  if (!fs.existsSync(worktree.path)) return { exists: false, dirty: 0, ahead: 0 }
+  let dirty = 0
+  let ahead = 0
+  try {
+    const status = await git(worktree.path, ['status', '--porcelain'])
+    dirty = status.split('\n').filter((line) => line.trim().length > 0).length
+  } catch {
+    // Not a checkout anymore; treat as clean
+  }
+  try {
+    ahead = parseInt(await git(worktree.repoRoot, ['rev-list', '--count', `${worktree.baseBranch}..${worktree.branch}`]), 10) || 0
+  } catch {
+    // Base or branch gone
+  }
+  return { exists: true, dirty, ahead }
+}
+
+async function removeWorktree(worktree: PaneWorktree, force: boolean): Promise<void> {
+  if (fs.existsSync(worktree.path)) {
+    await git(worktree.repoRoot, ['worktree', 'remove', ...(force ? ['--force'] : []), worktree.path], 60000)
+  } else {
+    // Deleted by hand: just drop git's record of it
+    await git(worktree.repoRoot, ['worktree', 'prune'])
+  }
+}
+
+// Wrap up a pane's worktree. The worktree itself is removed in every case;
+// the branch is kept only by 'push'.
+//  - merge:  merge the branch into baseBranch in the main checkout, then delete it
+//  - push:   push the branch to origin (tracking it) and keep it
+//  - delete: discard the worktree and branch, uncommitted changes included
+export async function finishWorktree(worktree: PaneWorktree, action: WorktreeFinishAction): Promise<WorktreeResult> {
+  try {
+    if (action !== 'delete') {
+      const info = await inspectWorktree(worktree)
+      if (info.dirty > 0) {
+        return { ok: false, error: `${info.dirty} uncommitted file${info.dirty === 1 ? '' : 's'} in the worktree - commit or discard them first` }
+      }
+    }
+
+    if (action === 'merge') {
+      const checkedOut = await currentBranch(worktree.repoRoot)
+      if (checkedOut !== worktree.baseBranch) {
+        return { ok: false, error: `${worktree.repoRoot} has ${checkedOut ?? 'a detached HEAD'} checked out - switch it to ${worktree.baseBranch} to merge` }
+      }
+      try {
+        await git(worktree.repoRoot, ['merge', '--no-edit', worktree.branch], 60000)
+      } catch (error) {
+        // Don't leave the main checkout mid-merge; the branch stays for a manual merge
+        await git(worktree.repoRoot, ['merge', '--abort']).catch(() => {})
+        throw error
+      }
+      await removeWorktree(worktree, false)
+      await git(worktree.repoRoot, ['branch', '-d', worktree.branch])
+    } else if (action === 'push') {
+      await git(worktree.path, ['push', '-u', 'origin', worktree.branch], 120000)
+      await removeWorktree(worktree, false)
+    } else {
+      await removeWorktree(worktree, true)
+      await git(worktree.repoRoot, ['branch', '-D', worktree.branch])
+    }
+    logger.info('worktree', `Finished worktree ${worktree.path}`, action)
+    return { ok: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    logger.warn('worktree', `Failed to ${action} worktree ${worktree.path}`, message)
+    return { ok: false, error: message }
+  }
+}
@@ -4,22 +4,40 @@ import { SettingsModal } from './components/SettingsModal'
 import { PromptToolbar } from './components/PromptToolbar'
 import { LayoutSelector } from './components/LayoutSelector'
 import { UsageIndicator } from './components/UsageIndicator'
-import { clearTerminal, sendToTerminal, focusTerminal, scrollAllTerminalsToBottom, disposeAllTerminals } from './components/TerminalPane'
-import { useWorkspaceStore } from './store/workspace'
+import { CostIndicator } from './components/CostIndicator'
+import { CostDashboard } from './components/CostDashboard'
+import { AttentionQueue } from './components/AttentionQueue'
+import { SearchPalette } from './components/SearchPalette'
+import { CommandPalette } from './components/CommandPalette'
+import { PaneShelf, promotePane } from './components/PaneShelf'
+import { BroadcastMenu } from './components/BroadcastMenu'
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher'
+import { ProjectTrustDialog } from './components/ProjectTrustDialog'
+import { clearTerminal, sendToTerminal, focusTerminal, scrollAllTerminalsToBottom, disposeAllTerminals, disposeTerminalForPane } from './components/TerminalPane'
+import { useWorkspaceStore, shownPaneIds } from './store/workspace'
 import { useHotkeys } from './hooks/useHotkeys'
-import { MenuAction, SavedPrompt, MAX_PANES } from '../shared/types'
+import { useAttention } from './hooks/useAttention'
+import { useAutomation } from './hooks/useAutomation'
+import { usePromptQueue } from './hooks/usePromptQueue'
+import { usePromptSync } from './hooks/usePromptSync'
+import { useProjectConfig } from './hooks/useProjectConfig'
+import { resolvePromptTemplate, templateInputs } from './promptTemplate'
+import { Command, registerCommands, windowPanes } from './commands'
+import { MenuAction, SavedPrompt, MAX_PANES, MAX_SESSIONS, MAIN_WINDOW_ID } from '../shared/types'
 
 // Toolbar "+" to add a pane — works in every layout (the in-grid ghost tile
-// only appears when the grid has a blank cell). Hidden at the pane cap.
+// only appears when the grid has a blank cell). Once the grid is full new
+// panes go to the shelf; hidden at the session cap.
 function AddPaneButton() {
   const count = useWorkspaceStore((s) => s.panes.length)
+  const gridFull = useWorkspaceStore((s) => shownPaneIds(s).length >= MAX_PANES)
   const addPane = useWorkspaceStore((s) => s.addPane)
-  if (count >= MAX_PANES) return null
+  if (count >= MAX_SESSIONS) return null
   return (
     <button
       onClick={() => addPane()}
       className="flex items-center gap-1 px-2 py-1 text-[--ui-text-dimmed] hover:text-[--ui-text-primary] transition-colors titlebar-no-drag"
-      title={`Add terminal (${count}/${MAX_PANES})`}
+      title={gridFull ? `Add terminal to the shelf (${count}/${MAX_SESSIONS})` : `Add terminal (${count}/${MAX_SESSIONS})`}
       aria-label="Add terminal"
     >
       <svg width="12" height="12" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.6">
@@ -30,6 +48,11 @@ function AddPaneButton() {
   )
 }
 
+function changeFontSize(delta: number) {
+  const store = useWorkspaceStore.getState()
+  store.updatePreferences({ fontSize: Math.min(24, Math.max(10, store.preferences.fontSize + delta)) })
+}
+
 function App() {
   // Atomic selectors: App is the root, so a whole-store subscription here
   // re-renders the entire tree on every pane git/state/cwd update during
@@ -39,13 +62,31 @@ function App() {
   const activePaneId = useWorkspaceStore((s) => s.activePaneId)
   const setActivePaneId = useWorkspaceStore((s) => s.setActivePaneId)
   const setFocusPaneId = useWorkspaceStore((s) => s.setFocusPaneId)
+  const workspaceId = useWorkspaceStore((s) => s.workspaceId)
+  // Detached pane windows get a slimmer title bar: workspaces, layouts and
+  // adding panes are the main window's
+  const isMainWindow = useWorkspaceStore((s) => s.windowId === MAIN_WINDOW_ID)
 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false)
+  const [isCostsOpen, setIsCostsOpen] = useState(false)
+  const extendedHistory = useWorkspaceStore((s) => !!s.preferences.extendedHistory)
 
   // Handle prompt injection (no newline - just inject text)
-  const handlePromptClick = useCallback((prompt: SavedPrompt) => {
-    sendToTerminal(activePaneId, prompt.text)
-    focusTerminal(activePaneId)
+  const handlePromptClick = useCallback(async (prompt: SavedPrompt, inputs: Record<string, string>) => {
+    const paneId = activePaneId
+    // Broadcast mode: every picked pane gets the prompt, filled in for that pane
+    const targets = useWorkspaceStore.getState().broadcastPaneIds
+    if (targets && targets.length > 0) {
+      for (const id of targets) {
+        window.electronAPI.sendInput(id, await resolvePromptTemplate(id, prompt.text, inputs))
+      }
+      focusTerminal(paneId)
+      return
+    }
+    sendToTerminal(paneId, await resolvePromptTemplate(paneId, prompt.text, inputs))
+    focusTerminal(paneId)
   }, [activePaneId])
 
   // Initialize workspace on mount
@@ -91,12 +132,44 @@ function App() {
     }
   }, [])
 
-  // Enable global hotkeys (disabled when settings modal is open)
-  useHotkeys(!isSettingsOpen)
+  // Pane windows: take in membership changes and the other windows' saves. A
+  // pane that left this window is still running elsewhere; only its xterm
+  // here goes (after the grid has unmounted it).
+  useEffect(() => {
+    const offWindows = window.electronAPI.onWindowsChanged((windows) => {
+      const store = useWorkspaceStore.getState()
+      const before = shownPaneIds(store)
+      store.setWindows(windows)
+      const after = new Set(shownPaneIds(useWorkspaceStore.getState()))
+      const left = before.filter((id) => !after.has(id))
+      if (left.length > 0) setTimeout(() => left.forEach(disposeTerminalForPane), 0)
+    })
+    const offSync = window.electronAPI.onWorkspaceSync((sync) => {
+      useWorkspaceStore.getState().applyWorkspaceSync(sync)
+    })
+    return () => {
+      offWindows()
+      offSync()
+    }
+  }, [])
+
+  // Main records the on-disk output history only while the preference is on
+  useEffect(() => {
+    window.electronAPI.setHistoryEnabled(extendedHistory)
+  }, [extendedHistory])
+
+  // Enable global hotkeys (disabled while a modal is open)
+  useHotkeys(!isSettingsOpen && !isSearchOpen && !isPaletteOpen && !isCostsOpen)
 
   // Shared logic for focusing a terminal (used by both menu actions and hotkeys)
   const handleTerminalFocus = useCallback(
     (paneId: number) => {
+      // A shelved pane comes into the grid first; its xterm mounts on the
+      // next render
+      if (useWorkspaceStore.getState().panes.find((p) => p.id === paneId)?.shelved) {
+        promotePane(paneId)
+        setTimeout(() => focusTerminal(paneId), 50)
+      }
       setActivePaneId(paneId)
 
       if (layout === 'focus' || layout === 'focus-right') {
@@ -108,11 +181,22 @@ function App() {
     [layout, setActivePaneId, setFocusPaneId]
   )
 
+  // Desktop notifications + dock badge for waiting panes; a clicked
+  // notification focuses its pane the same way the menu hotkeys do
+  useAttention(handleTerminalFocus)
+
+  // Answer calls from the local automation socket / `quadclaude` CLI
+  useAutomation()
+  usePromptQueue()
+  usePromptSync()
+  useProjectConfig()
+
   // Listen for menu actions
   // Uses getState() inside handler to always read latest values, avoiding re-subscriptions
   useEffect(() => {
     const unsubscribe = window.electronAPI.onMenuAction((action: MenuAction) => {
       const store = useWorkspaceStore.getState()
+      if (action.startsWith('layout-') && store.windowId !== MAIN_WINDOW_ID) return
       switch (action) {
         case 'layout-grid':
           store.setLayout('grid')
@@ -142,10 +226,10 @@ function App() {
           sendToTerminal(store.activePaneId, 'claude\n')
           break
         case 'increase-font':
-          store.updatePreferences({ fontSize: Math.min(24, store.preferences.fontSize + 1) })
+          changeFontSize(1)
           break
         case 'decrease-font':
-          store.updatePreferences({ fontSize: Math.max(10, store.preferences.fontSize - 1) })
+          changeFontSize(-1)
           break
         case 'open-settings':
           setIsSettingsOpen(true)
@@ -153,12 +237,75 @@ function App() {
         case 'toggle-prompt-bar':
           store.updatePreferences({ showPromptBar: store.preferences.showPromptBar === false })
           break
+        case 'search-output':
+          setIsSearchOpen(true)
+          break
+        case 'command-palette':
+          setIsPaletteOpen(true)
+          break
       }
     })
 
     return unsubscribe
   }, [handleTerminalFocus])
 
+  // App-level commands for the palette: the modals, panes and prompts
+  useEffect(() => registerCommands('app', (ctx) => {
+    const store = useWorkspaceStore.getState()
+    const commands: Command[] = [
+      { id: 'app:settings', title: 'Open Settings', category: 'App', hotkey: 'Cmd+,', run: () => setIsSettingsOpen(true) },
+      { id: 'app:search', title: 'Find in All Panes', category: 'App', hotkey: 'Cmd+Shift+F', run: () => setIsSearchOpen(true) },
+      { id: 'app:costs', title: 'Open Model Costs', category: 'App', run: () => setIsCostsOpen(true) },
+      { id: 'app:font-increase', title: 'Increase Font Size', category: 'App', hotkey: 'Cmd+Plus', run: () => changeFontSize(1) },
+      { id: 'app:font-decrease', title: 'Decrease Font Size', category: 'App', hotkey: 'Cmd+-', run: () => changeFontSize(-1) },
+    ]
+    if (store.windowId === MAIN_WINDOW_ID && store.panes.length < MAX_SESSIONS) {
+      commands.push({ id: 'app:add-pane', title: 'Add Terminal', category: 'Pane', run: () => { store.addPane() } })
+    }
+    for (const pane of windowPanes()) {
+      if (pane.id === ctx.paneId) continue
+      commands.push({
+        id: `app:focus:${pane.id}`,
+        title: `Go to ${pane.label}`,
+        category: 'Pane',
+        detail: pane.shelved ? 'on the shelf' : pane.workingDirectory,
+        run: () => handleTerminalFocus(pane.id),
+      })
+    }
+    // Prompts with {{input:…}} fields ask for them first, like the prompt bar
+    const askPromptInputs = (prompt: SavedPrompt) => {
+      const labels = templateInputs(prompt.text)
+      return labels.length > 0 ? ctx.askInputs(prompt.name, labels) : Promise.resolve({})
+    }
+    for (const prompt of [...store.preferences.savedPrompts, ...store.syncedPrompts]) {
+      commands.push(
+        {
+          id: `app:prompt:${prompt.id}`,
+          title: `Insert ${prompt.name}`,
+          category: 'Prompt',
+          detail: prompt.folder,
+          run: async () => {
+            const inputs = await askPromptInputs(prompt)
+            if (inputs) handlePromptClick(prompt, inputs)
+          },
+        },
+        {
+          id: `app:queue-prompt:${prompt.id}`,
+          title: `Queue ${prompt.name}`,
+          category: 'Prompt',
+          detail: prompt.folder,
+          run: async () => {
+            const inputs = await askPromptInputs(prompt)
+            if (!inputs) return
+            const text = await resolvePromptTemplate(ctx.paneId, prompt.text, inputs)
+            useWorkspaceStore.getState().enqueuePrompt(ctx.paneId, { text, name: prompt.name })
+          },
+        },
+      )
+    }
+    return commands
+  }), [handleTerminalFocus, handlePromptClick])
+
   // Scroll all terminals to bottom when system resumes from sleep
   useEffect(() => {
     const unsubscribe = window.electronAPI.onSystemResume(() => {
@@ -197,17 +344,28 @@ function App() {
           </span>
           <span className="text-[--ui-text-faint]">│</span>
           <span className="text-[10px] text-[--ui-text-faint]">v1.19.0</span>
+          {isMainWindow && (
+            <>
+              <span className="text-[--ui-text-faint]">│</span>
+              <WorkspaceSwitcher />
+            </>
+          )}
         </div>
 
         {/* Center - layout selector + add pane */}
-        <div className="flex items-center gap-1">
-          <LayoutSelector />
-          <AddPaneButton />
-        </div>
+        {isMainWindow && (
+          <div className="flex items-center gap-1">
+            <LayoutSelector />
+            <AddPaneButton />
+          </div>
+        )}
 
         {/* Right side - usage + utility buttons */}
         <div className="flex items-center gap-0.5">
-          <UsageIndicator />
+          <AttentionQueue onFocusPane={handleTerminalFocus} />
+          <BroadcastMenu />
+          {isMainWindow && <CostIndicator onOpen={() => setIsCostsOpen(true)} />}
+          {isMainWindow && <UsageIndicator />}
           <span className="text-[--ui-text-faint] text-xs px-1">│</span>
           {/* Settings */}
           <button
@@ -230,13 +388,29 @@ function App() {
       {/* Main content area */}
       <div className="flex-1 overflow-hidden flex">
         {/* Terminal grid - always mounted to preserve terminal state */}
-        <div className="overflow-hidden flex-1">
-          <TerminalGrid />
+        <div className="overflow-hidden flex-1 flex flex-col">
+          <div className="flex-1 min-h-0">
+            <TerminalGrid key={workspaceId} />
+          </div>
+          {/* Headless panes beyond the grid */}
+          <PaneShelf key={`shelf-${workspaceId}`} />
         </div>
       </div>
 
       {/* Settings modal */}
       <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+
+      {/* Asks before a repo's .quadclaude.json applies */}
+      <ProjectTrustDialog />
+
+      {/* Output search across all panes (Cmd+Shift+F) */}
+      <SearchPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} onFocusPane={handleTerminalFocus} />
+
+      {/* Every registered action (Cmd+Shift+P) */}
+      <CommandPalette isOpen={isPaletteOpen} onClose={() => setIsPaletteOpen(false)} />
+
+      {/* Routed model spend, prices and budgets */}
+      <CostDashboard isOpen={isCostsOpen} onClose={() => setIsCostsOpen(false)} />
     </div>
   )
 }
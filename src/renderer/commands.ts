@@ -0,0 +1,71 @@
+// Command registry for the command palette (Cmd+Shift+P). Each feature
+// registers its actions once, next to the code that owns them; the palette
+// asks every provider for its commands when it opens, so they can depend on
+// the active pane and the current state.
+import { PaneConfig, windowOwningPane } from '../shared/types'
+import { useWorkspaceStore } from './store/workspace'
+import { fuzzyScore } from './fuzzy'
+
+// What commands are built against: the pane that was active when the palette
+// opened
+export interface CommandContext {
+  paneId: number
+  pane: PaneConfig | undefined
+  // Ask the user for values (e.g. a prompt's {{input:…}} fields); null = cancelled
+  askInputs: (title: string, labels: string[]) => Promise<Record<string, string> | null>
+}
+
+export interface Command {
+  id: string // stable across openings; recent commands are listed first
+  title: string
+  category: string // "Layout", "Agent", "Pane", ...
+  detail?: string // dimmed after the title, and searched too (a path, a pane)
+  hotkey?: string
+  run: (ctx: CommandContext) => void | Promise<void>
+}
+
+export type CommandProvider = (ctx: CommandContext) => Command[]
+
+const providers = new Map<string, CommandProvider>()
+
+// Re-registering a source replaces its provider. The returned function
+// unregisters it, for providers that live in a component.
+export function registerCommands(source: string, provider: CommandProvider): () => void {
+  providers.set(source, provider)
+  return () => {
+    if (providers.get(source) === provider) providers.delete(source)
+  }
+}
+
+// The panes this window shows (grid and shelf); pane commands only offer these
+export function windowPanes(): PaneConfig[] {
+  const { panes, windows, windowId } = useWorkspaceStore.getState()
+  return panes.filter((p) => windowOwningPane(windows, p.id) === windowId)
+}
+
+export function collectCommands(ctx: CommandContext): Command[] {
+  const commands: Command[] = []
+  for (const [source, provider] of providers) {
+    try {
+      commands.push(...provider(ctx))
+    } catch (error) {
+      // One broken provider shouldn't empty the palette
+      console.error(`Command provider ${source} failed:`, error)
+    }
+  }
+  return commands
+}
+
+// Every word has to match the category, title or detail; lower is better
+export function commandScore(command: Command, words: string[]): number | null {
+  const text = `${command.category}: ${command.title} ${command.detail ?? ''}`
+  let total = 0
+  for (const word of words) {
+    const titleScore = fuzzyScore(word, command.title)
+    const anyScore = fuzzyScore(word, text)
+    if (anyScore === null) return null
+    // Title hits rank above category/detail ones
+    total += titleScore ?? anyScore + 3
+  }
+  return total
+}
@@ -1,12 +1,93 @@
 import { memo, useCallback, useEffect, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
 import { useWorkspaceStore } from '../store/workspace'
-import { launchAgent, resolvePaneProfile, sendToTerminal } from './TerminalPane'
+import { AgentActivity, AGENT_ACTIVITY_LABELS, DEFAULT_AGENT_PROFILES } from '../../shared/types'
+import { registerCommands, windowPanes } from '../commands'
+import { launchAgent, resolvePaneProfile, sendToTerminal, supportsClaudeResume } from './TerminalPane'
 
 interface AgentBadgeProps {
   paneId: number
 }
 
+// Status dot per classified activity: green = working, yellow = needs you,
+// cyan = turn finished, red = error, dim = idle.
+const ACTIVITY_COLORS: Record<AgentActivity, string> = {
+  'idle-at-prompt': 'var(--ui-text-dimmed)',
+  thinking: 'var(--git-green)',
+  'running-tool': 'var(--git-green)',
+  'awaiting-permission': 'var(--git-yellow)',
+  'awaiting-free-text': 'var(--git-yellow)',
+  errored: '#f87171',
+  'finished-task': 'var(--git-cyan)',
+}
+
+// Pair two panes (the first drives). Make the pairing functional: stream the
+// live delegation feed into the worker pane so the worker's output actually
+// shows up there (which is what people expect). Only when it's an idle shell —
+// never type into a running agent.
+function pairWith(orchestratorId: number, workerId: number) {
+  useWorkspaceStore.getState().pairPanes(orchestratorId, workerId)
+  const w = useWorkspaceStore.getState().panes.find((p) => p.id === workerId)
+  if (w && w.state === 'shell') {
+    sendToTerminal(
+      workerId,
+      'clear; mkdir -p ~/.quadclaude && touch ~/.quadclaude/delegation.log && tail -F ~/.quadclaude/delegation.log\n',
+    )
+  }
+}
+
+// Launching an agent picks it for the pane too, like the badge menu
+registerCommands('agent', (ctx) => {
+  const store = useWorkspaceStore.getState()
+  const profiles = store.preferences.agentProfiles ?? DEFAULT_AGENT_PROFILES
+  const panes = windowPanes()
+  const launches = panes.flatMap((pane) =>
+    profiles.map((profile) => ({
+      id: `agent:launch:${profile.id}:${pane.id}`,
+      title: pane.id === ctx.paneId ? `Launch ${profile.name}` : `Launch ${profile.name} in ${pane.label}`,
+      category: 'Agent',
+      detail: pane.id === ctx.paneId ? pane.label : undefined,
+      run: () => {
+        useWorkspaceStore.getState().setPaneAgent(pane.id, profile.id)
+        launchAgent(pane.id, profile, pane.workingDirectory)
+      },
+    })),
+  )
+  const pane = ctx.pane
+  if (!pane) return launches
+  if (pane.pairId) {
+    return [
+      ...launches,
+      {
+        id: 'agent:unpair',
+        title: 'Unpair',
+        category: 'Pair',
+        detail: pane.label,
+        run: () => useWorkspaceStore.getState().unpairPane(pane.id),
+      },
+      {
+        id: 'agent:swap-pair-roles',
+        title: 'Swap Pair Roles',
+        category: 'Pair',
+        detail: pane.label,
+        run: () => useWorkspaceStore.getState().swapPairRoles(pane.id),
+      },
+    ]
+  }
+  return [
+    ...launches,
+    ...panes
+      .filter((p) => p.id !== pane.id)
+      .map((worker) => ({
+        id: `agent:pair:${worker.id}`,
+        title: `Pair with ${worker.label}`,
+        category: 'Pair',
+        detail: `${pane.label} drives`,
+        run: () => pairWith(pane.id, worker.id),
+      })),
+  ]
+})
+
 // The always-visible model identity for a pane. Doubles as the launcher:
 // the label shows which agent the pane runs (Claude / Qwen / Codex / ...),
 // clicking it launches that agent, and the caret switches the assigned agent.
@@ -19,9 +100,9 @@ export const AgentBadge = memo(function AgentBadge({ paneId }: AgentBadgeProps)
   const agentProfiles = useWorkspaceStore((s) => s.preferences.agentProfiles)
   const defaultAgentId = useWorkspaceStore((s) => s.preferences.defaultAgentId)
   const setPaneAgent = useWorkspaceStore((s) => s.setPaneAgent)
-  const pairPanes = useWorkspaceStore((s) => s.pairPanes)
   const unpairPane = useWorkspaceStore((s) => s.unpairPane)
   const swapPairRoles = useWorkspaceStore((s) => s.swapPairRoles)
+  const setPaneResumeClaude = useWorkspaceStore((s) => s.setPaneResumeClaude)
 
   // Snapshot of pairing candidates, captured when entering "pair with" mode so
   // this badge doesn't have to subscribe to the whole panes array.
@@ -51,6 +132,9 @@ export const AgentBadge = memo(function AgentBadge({ paneId }: AgentBadgeProps)
   const claudeRunning =
     paneProfile.builtin === 'claude' &&
     (pane?.state === 'claude-active' || pane?.state === 'claude-waiting')
+  // Detector output applies to any agent (opencode/aider panes get states too)
+  const activity = pane?.activity
+  const working = claudeRunning || activity === 'thinking' || activity === 'running-tool'
 
   const launch = useCallback(() => {
     if (!pane) return
@@ -76,21 +160,11 @@ export const AgentBadge = memo(function AgentBadge({ paneId }: AgentBadgeProps)
 
   const doPair = useCallback(
     (workerId: number) => {
-      pairPanes(paneId, workerId) // this pane is the orchestrator
-      // Make the pairing functional: stream the live delegation feed into the worker
-      // pane so the worker's output actually shows up there (which is what people
-      // expect). Only when it's an idle shell — never type into a running agent.
-      const w = useWorkspaceStore.getState().panes.find((p) => p.id === workerId)
-      if (w && w.state === 'shell') {
-        sendToTerminal(
-          workerId,
-          'clear; mkdir -p ~/.quadclaude && touch ~/.quadclaude/delegation.log && tail -F ~/.quadclaude/delegation.log\n',
-        )
-      }
+      pairWith(paneId, workerId) // this pane is the orchestrator
       setPairMode(false)
       setOpen(false)
     },
-    [paneId, pairPanes],
+    [paneId],
   )
 
   const closeMenu = useCallback(() => {
@@ -118,17 +192,23 @@ export const AgentBadge = memo(function AgentBadge({ paneId }: AgentBadgeProps)
             : 'text-[--ui-text-dimmed] hover:text-[--ui-text-primary]'
         }`}
         title={
-          claudeRunning
-            ? `${paneProfile.name} is running in this pane`
-            : `Launch ${paneProfile.name}`
+          activity
+            ? `${paneProfile.name}: ${AGENT_ACTIVITY_LABELS[activity]}${pane.activityDetail ? ` — ${pane.activityDetail}` : ''}`
+            : claudeRunning
+              ? `${paneProfile.name} is running in this pane`
+              : `Launch ${paneProfile.name}`
         }
       >
         <span
-          className={`w-1.5 h-1.5 rounded-full shrink-0 ${claudeRunning ? 'animate-pulse' : ''}`}
-          style={{ backgroundColor: claudeRunning ? 'var(--git-green)' : 'var(--ui-text-dimmed)' }}
+          className={`w-1.5 h-1.5 rounded-full shrink-0 ${working ? 'animate-pulse' : ''}`}
+          style={{
+            backgroundColor: activity
+              ? ACTIVITY_COLORS[activity]
+              : claudeRunning ? 'var(--git-green)' : 'var(--ui-text-dimmed)',
+          }}
         />
         <span className="text-[10px] leading-none max-w-[110px] truncate">
-          {claudeRunning ? 'Running' : paneProfile.name}
+          {activity ? AGENT_ACTIVITY_LABELS[activity] : claudeRunning ? 'Running' : paneProfile.name}
         </span>
       </button>
       {/* Switch agent */}
@@ -173,6 +253,25 @@ export const AgentBadge = memo(function AgentBadge({ paneId }: AgentBadgeProps)
             })}
           </div>
 
+          {/* Restore: relaunch this pane's Claude conversation on next app start */}
+          {supportsClaudeResume(paneProfile) && (
+            <>
+              <div className="border-t border-[#444]" />
+              <button
+                onClick={() => setPaneResumeClaude(paneId, pane.resumeClaude === false)}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left hover:bg-[--ui-bg-active]/50 text-[--ui-text-primary]"
+                title={
+                  pane.claudeSessionId
+                    ? `Session ${pane.claudeSessionId.slice(0, 8)}… resumes with claude --resume`
+                    : 'No conversation recorded yet'
+                }
+              >
+                <span className="w-3 text-center text-[--accent]">{pane.resumeClaude !== false ? '✓' : ''}</span>
+                <span className="flex-1">Resume conversation on restore</span>
+              </button>
+            </>
+          )}
+
           {/* Pairing */}
           <div className="border-t border-[#444]" />
           {pane.pairId ? (
@@ -1,11 +1,20 @@
 import { memo, useState } from 'react'
 import { useWorkspaceStore } from '../store/workspace'
-import { AgentProfile, CLAUDE_PROFILE_ID } from '../../shared/types'
+import {
+  AgentProfile,
+  AgentDetectorId,
+  CLAUDE_PROFILE_ID,
+  SECRET_ENV_KEY,
+  agentSecretName,
+  isRouterProfile,
+  secretRef,
+  secretRefName,
+} from '../../shared/types'
 
-// A value is treated as secret (masked) when its KEY looks credential-ish.
-const SECRET_KEY = /key|token|secret|password|pass/i
-
-type EnvRow = { key: string; value: string }
+// A value is treated as secret (masked, and kept in the OS secret store) when its
+// KEY looks credential-ish (SECRET_ENV_KEY).
+// `secret` names the stored value; an empty `value` then leaves it unchanged.
+type EnvRow = { key: string; value: string; secret?: string }
 
 // Pure-data presets covering the two real config styles: tools that read their
 // own config file (opencode) vs tools driven by env vars (aider). No per-provider
@@ -37,11 +46,22 @@ const AGENT_PRESETS: Array<{
   { label: 'Other (custom)', name: '', command: '', env: [] },
 ]
 
+// Status detection choices for the editor. '' = infer from the command.
+const DETECTOR_OPTIONS: Array<{ value: AgentDetectorId | ''; label: string }> = [
+  { value: '', label: 'Auto (from command)' },
+  { value: 'claude', label: 'Claude Code' },
+  { value: 'opencode', label: 'opencode' },
+  { value: 'aider', label: 'aider' },
+  { value: 'generic', label: 'Generic (y/n prompts, busy/idle)' },
+  { value: 'none', label: 'Off' },
+]
+
 interface EditorState {
   id?: string // present when editing an existing profile
   name: string
   command: string
   env: EnvRow[]
+  detector: AgentDetectorId | ''
   note?: string // per-tool setup guidance from the chosen preset (not persisted)
 }
 
@@ -55,27 +75,49 @@ function genId(): string {
 }
 
 function envRecordToRows(env?: Record<string, string>): EnvRow[] {
-  return Object.entries(env ?? {}).map(([key, value]) => ({ key, value }))
+  return Object.entries(env ?? {}).map(([key, value]) => {
+    const secret = secretRefName(value)
+    return secret === null ? { key, value } : { key, value: '', secret }
+  })
 }
 
-function envRowsToRecord(rows: EnvRow[]): Record<string, string> {
+// Secret-looking values go to the OS secret store and the profile keeps a
+// reference. Without a store they stay inline, as before.
+async function envRowsToRecord(profileId: string, rows: EnvRow[]): Promise<Record<string, string>> {
+  const { available } = await window.electronAPI.secretsStatus()
   const out: Record<string, string> = {}
-  for (const { key, value } of rows) {
+  for (const { key, value, secret } of rows) {
     const k = key.trim()
-    if (k) out[k] = value
+    if (!k) continue
+    if (secret && !value) {
+      out[k] = secretRef(secret)
+      continue
+    }
+    if (available && value && SECRET_ENV_KEY.test(k)) {
+      const name = secret ?? agentSecretName(profileId, k)
+      if (await window.electronAPI.secretSet(name, value)) {
+        out[k] = secretRef(name)
+        continue
+      }
+    }
+    out[k] = value
   }
   return out
 }
 
+function storedSecrets(env?: Record<string, string>): string[] {
+  return Object.values(env ?? {})
+    .map(secretRefName)
+    .filter((name): name is string => name !== null)
+}
+
 // Router-backed "Claude Code · <model>" profiles are created and managed by the
 // "Run any model as Claude Code" section; keep them out of this raw-agent list.
-const ROUTER_PANE_COMMAND = 'ccr code'
-
 export const AgentsSettings = memo(function AgentsSettings() {
   // `profiles` stays the full list so save/remove never drop other entries; the
   // visible list hides router-backed profiles (managed in their own section).
   const profiles = useWorkspaceStore((s) => s.preferences.agentProfiles ?? [])
-  const visibleProfiles = profiles.filter((p) => p.command !== ROUTER_PANE_COMMAND)
+  const visibleProfiles = profiles.filter((p) => !isRouterProfile(p))
   const defaultAgentId = useWorkspaceStore((s) => s.preferences.defaultAgentId)
   const updatePreferences = useWorkspaceStore((s) => s.updatePreferences)
 
@@ -90,13 +132,14 @@ export const AgentsSettings = memo(function AgentsSettings() {
       name: preset.name,
       command: preset.command,
       env: preset.env.map((e) => ({ ...e })),
+      detector: '',
       note: preset.note,
     })
   }
 
   const startEdit = (p: AgentProfile) => {
     setRevealed({})
-    setEditor({ id: p.id, name: p.name, command: p.command, env: envRecordToRows(p.env) })
+    setEditor({ id: p.id, name: p.name, command: p.command, env: envRecordToRows(p.env), detector: p.detector ?? '' })
   }
 
   const cancel = () => {
@@ -104,26 +147,40 @@ export const AgentsSettings = memo(function AgentsSettings() {
     setChoosingPreset(false)
   }
 
-  const save = () => {
+  const save = async () => {
     if (!editor) return
     const name = editor.name.trim()
     const command = editor.command.trim()
     if (!name || !command) return
-    const env = envRowsToRecord(editor.env)
+    const id = editor.id ?? genId()
+    const env = await envRowsToRecord(id, editor.env)
+    // Stored values the edited profile no longer uses
+    const previous = profiles.find((p) => p.id === editor.id)
+    const kept = storedSecrets(env)
+    for (const secret of storedSecrets(previous?.env)) {
+      if (!kept.includes(secret)) window.electronAPI.secretDelete(secret)
+    }
     const profile: AgentProfile = {
-      id: editor.id ?? genId(),
+      id,
       name,
       command,
       ...(Object.keys(env).length > 0 ? { env } : {}),
+      ...(editor.detector ? { detector: editor.detector } : {}),
     }
+    // Spread-merge would keep a stale env/detector the user just cleared
     const next = editor.id
-      ? profiles.map((p) => (p.id === editor.id ? { ...p, ...profile } : p))
+      ? profiles.map((p) => {
+          if (p.id !== editor.id) return p
+          const { env: _e, detector: _d, ...base } = p
+          return { ...base, ...profile }
+        })
       : [...profiles, profile]
     updatePreferences({ agentProfiles: next })
     setEditor(null)
   }
 
   const remove = (id: string) => {
+    for (const secret of storedSecrets(profiles.find((p) => p.id === id)?.env)) window.electronAPI.secretDelete(secret)
     const next = profiles.filter((p) => p.id !== id)
     const updates: Parameters<typeof updatePreferences>[0] = { agentProfiles: next }
     // If the deleted profile was the default, fall back to the Claude builtin.
@@ -141,6 +198,13 @@ export const AgentsSettings = memo(function AgentsSettings() {
   const addEnvRow = () => setEditor((e) => (e ? { ...e, env: [...e.env, { key: '', value: '' }] } : e))
   const removeEnvRow = (i: number) =>
     setEditor((e) => (e ? { ...e, env: e.env.filter((_, idx) => idx !== i) } : e))
+  // A stored value is fetched from the secret store only when revealed
+  const toggleReveal = async (i: number, row: EnvRow) => {
+    if (!revealed[i] && row.secret && !row.value) {
+      updateEnvRow(i, { value: (await window.electronAPI.secretReveal(row.secret)) ?? '' })
+    }
+    setRevealed((r) => ({ ...r, [i]: !r[i] }))
+  }
 
   return (
     <div role="group" aria-labelledby="agents-heading" className="mb-6">
@@ -260,12 +324,27 @@ export const AgentsSettings = memo(function AgentsSettings() {
             />
           </div>
 
+          <div className="flex flex-col gap-1">
+            <label className="text-[11px] text-[--ui-text-dimmed]">Status detection</label>
+            <select
+              value={editor.detector}
+              onChange={(e) => setEditor({ ...editor, detector: e.target.value as AgentDetectorId | '' })}
+              className="bg-[--ui-bg-input] border border-[#444] rounded px-2 py-1 text-sm text-[--ui-text-primary] outline-none focus:border-[--accent]"
+            >
+              {DETECTOR_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="flex flex-col gap-1.5">
             <label className="text-[11px] text-[--ui-text-dimmed]">
-              Environment variables (injected at launch, never echoed)
+              Environment variables (injected at launch, never echoed; keys and tokens are kept in the OS secret store)
             </label>
             {editor.env.map((row, i) => {
-              const secret = SECRET_KEY.test(row.key)
+              const secret = SECRET_ENV_KEY.test(row.key) || !!row.secret
               const show = revealed[i]
               return (
                 <div key={i} className="flex items-center gap-1.5">
@@ -279,12 +358,12 @@ export const AgentsSettings = memo(function AgentsSettings() {
                     type={secret && !show ? 'password' : 'text'}
                     value={row.value}
                     onChange={(e) => updateEnvRow(i, { value: e.target.value })}
-                    placeholder="value"
+                    placeholder={row.secret ? 'Stored securely · type to replace' : 'value'}
                     className="flex-1 bg-[--ui-bg-input] border border-[#444] rounded px-2 py-1 text-xs font-mono text-[--ui-text-primary] outline-none focus:border-[--accent]"
                   />
                   {secret && (
                     <button
-                      onClick={() => setRevealed((r) => ({ ...r, [i]: !r[i] }))}
+                      onClick={() => toggleReveal(i, row)}
                       className="shrink-0 text-[10px] text-[--ui-text-dimmed] hover:text-[--ui-text-primary] px-1"
                       title={show ? 'Hide' : 'Reveal'}
                     >
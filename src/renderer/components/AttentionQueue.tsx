@@ -0,0 +1,135 @@
+import { memo, useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useWorkspaceStore } from '../store/workspace'
+import { paneAttentionText, paneRepoName } from '../hooks/useAttention'
+import { PaneConfig, paneNeedsAttention, paneAttentionSince } from '../../shared/types'
+
+interface AttentionQueueProps {
+  onFocusPane: (paneId: number) => void
+}
+
+const NO_PANES: PaneConfig[] = []
+
+function formatWait(since: number, now: number): string {
+  if (!since) return ''
+  const sec = Math.max(0, Math.floor((now - since) / 1000))
+  if (sec < 60) return `${sec}s`
+  const min = Math.floor(sec / 60)
+  if (min < 60) return `${min}m`
+  return `${Math.floor(min / 60)}h ${min % 60}m`
+}
+
+// Title-bar list of every pane waiting on the user, longest wait first.
+// Clicking an entry jumps to that pane.
+export const AttentionQueue = memo(function AttentionQueue({ onFocusPane }: AttentionQueueProps) {
+  const [open, setOpen] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+  const buttonRef = useRef<HTMLButtonElement>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  // Only the count while closed, so pane churn doesn't re-render the title bar
+  const count = useWorkspaceStore((s) => s.panes.filter(paneNeedsAttention).length)
+  const panes = useWorkspaceStore((s) => (open ? s.panes : NO_PANES))
+
+  // Close on click outside
+  useEffect(() => {
+    if (!open) return
+    const handler = (e: MouseEvent) => {
+      if (
+        panelRef.current && !panelRef.current.contains(e.target as Node) &&
+        buttonRef.current && !buttonRef.current.contains(e.target as Node)
+      ) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [open])
+
+  // Keep the wait times ticking while the list is showing
+  useEffect(() => {
+    if (!open) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 5000)
+    return () => clearInterval(interval)
+  }, [open])
+
+  useEffect(() => {
+    if (count === 0) setOpen(false)
+  }, [count])
+
+  const queue = panes
+    .filter(paneNeedsAttention)
+    .sort((a, b) => paneAttentionSince(a) - paneAttentionSince(b))
+
+  const getPosition = () => {
+    if (!buttonRef.current) return { top: 0, left: 0 }
+    const rect = buttonRef.current.getBoundingClientRect()
+    return { top: rect.bottom + 4, left: rect.right - 280 }
+  }
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={() => count > 0 && setOpen(!open)}
+        className={`relative px-1.5 py-1 transition-colors titlebar-no-drag ${
+          count > 0 ? 'text-[--git-yellow] hover:text-[--ui-text-primary]' : 'text-[--ui-text-faint] cursor-default'
+        }`}
+        title={count > 0 ? `${count} pane${count === 1 ? '' : 's'} waiting on you` : 'No panes waiting'}
+        aria-label="Attention queue"
+      >
+        <svg width="13" height="13" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.4">
+          <path d="M4 6.5a4 4 0 0 1 8 0c0 3 1.2 4.3 1.7 4.8H2.3C2.8 10.8 4 9.5 4 6.5Z" strokeLinejoin="round" />
+          <path d="M6.5 13.5a1.6 1.6 0 0 0 3 0" strokeLinecap="round" />
+        </svg>
+        {count > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[13px] h-[13px] px-[3px] rounded-full bg-[--git-yellow] text-black text-[9px] leading-[13px] font-medium tabular-nums">
+            {count}
+          </span>
+        )}
+      </button>
+
+      {open && createPortal(
+        <div
+          ref={panelRef}
+          className="fixed z-50 w-[280px] bg-[--ui-bg-elevated] border border-[#444] rounded-md shadow-lg overflow-hidden"
+          style={getPosition()}
+        >
+          <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-[--ui-text-muted]">
+            Waiting on you
+          </div>
+          <div className="max-h-[320px] overflow-y-auto">
+            {queue.map((pane) => (
+              <button
+                key={pane.id}
+                onClick={() => {
+                  setOpen(false)
+                  onFocusPane(pane.id)
+                }}
+                className="w-full flex flex-col gap-0.5 px-3 py-1.5 text-left hover:bg-[--ui-bg-active]/50 transition-colors"
+              >
+                <div className="flex items-center gap-2 w-full">
+                  <span
+                    className="w-1.5 h-1.5 rounded-full shrink-0"
+                    style={{ backgroundColor: pane.activity === 'finished-task' ? 'var(--git-cyan)' : 'var(--git-yellow)' }}
+                  />
+                  <span className="text-xs text-[--ui-text-primary] truncate flex-1">
+                    {pane.label} · {paneRepoName(pane)}
+                  </span>
+                  <span className="text-[10px] text-[--ui-text-muted] tabular-nums shrink-0">
+                    {formatWait(paneAttentionSince(pane), now)}
+                  </span>
+                </div>
+                <div className="pl-3.5 text-[10px] text-[--ui-text-dimmed] truncate w-full">
+                  {paneAttentionText(pane).replace('\n', ' · ')}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>,
+        document.body,
+      )}
+    </>
+  )
+})
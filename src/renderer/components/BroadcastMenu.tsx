@@ -0,0 +1,194 @@
+import { memo, useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useShallow } from 'zustand/react/shallow'
+import { useWorkspaceStore } from '../store/workspace'
+import { paneRepoName } from '../hooks/useAttention'
+import { Command, registerCommands, windowPanes } from '../commands'
+import { BROADCAST_CONFIRM_OVER, windowOwningPane } from '../../shared/types'
+
+// Pick the panes to broadcast to. Growing the set past BROADCAST_CONFIRM_OVER
+// panes asks first; everything typed or sent goes to the whole set after that.
+export function setBroadcastTargets(ids: number[]): void {
+  const store = useWorkspaceStore.getState()
+  const before = store.broadcastPaneIds?.length ?? 0
+  if (
+    ids.length > BROADCAST_CONFIRM_OVER &&
+    before <= BROADCAST_CONFIRM_OVER &&
+    !window.confirm(`Broadcast to ${ids.length} panes? Whatever you type in one of them, and any prompt you pick, goes to all ${ids.length}.`)
+  ) {
+    return
+  }
+  store.setBroadcastPanes(ids)
+}
+
+// Add or drop one pane (the pane header toggle)
+export function toggleBroadcastTarget(paneId: number): void {
+  const ids = useWorkspaceStore.getState().broadcastPaneIds ?? []
+  setBroadcastTargets(ids.includes(paneId) ? ids.filter((id) => id !== paneId) : [...ids, paneId])
+}
+
+registerCommands('broadcast', ({ paneId, pane }) => {
+  const targets = useWorkspaceStore.getState().broadcastPaneIds
+  const panes = windowPanes()
+  const claudePanes = panes.filter((p) => p.state !== 'shell').map((p) => p.id)
+  const pair = pane?.pairId ? panes.filter((p) => p.pairId === pane.pairId).map((p) => p.id) : []
+  const commands: Command[] = []
+  if (claudePanes.length > 0) {
+    commands.push({
+      id: 'broadcast:claude',
+      title: 'Broadcast to All Claude Panes',
+      category: 'Broadcast',
+      run: () => setBroadcastTargets(claudePanes),
+    })
+  }
+  if (pair.length > 0) {
+    commands.push({ id: 'broadcast:pair', title: 'Broadcast to This Pair', category: 'Broadcast', run: () => setBroadcastTargets(pair) })
+  }
+  if (pane) {
+    const included = !!targets?.includes(paneId)
+    commands.push({
+      id: 'broadcast:toggle-pane',
+      title: included ? 'Stop Broadcasting to This Pane' : 'Broadcast to This Pane Too',
+      category: 'Broadcast',
+      detail: pane.label,
+      run: () => toggleBroadcastTarget(paneId),
+    })
+  }
+  if (targets) {
+    commands.push({
+      id: 'broadcast:off',
+      title: 'Turn Broadcast Off',
+      category: 'Broadcast',
+      run: () => useWorkspaceStore.getState().setBroadcastPanes(null),
+    })
+  }
+  return commands
+})
+
+// Title-bar broadcast control: turns broadcast mode on and off and picks its
+// panes - one by one, the active pane's pair, or every Claude pane. While on,
+// each pane header also has a toggle.
+export const BroadcastMenu = memo(function BroadcastMenu() {
+  const [open, setOpen] = useState(false)
+  const buttonRef = useRef<HTMLButtonElement>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  const targets = useWorkspaceStore((s) => s.broadcastPaneIds)
+  const setBroadcastPanes = useWorkspaceStore((s) => s.setBroadcastPanes)
+  // This window's panes; only read while the menu is open
+  const panes = useWorkspaceStore(
+    useShallow((s) => (open ? s.panes.filter((p) => windowOwningPane(s.windows, p.id) === s.windowId) : [])),
+  )
+  const activePane = useWorkspaceStore((s) => s.panes.find((p) => p.id === s.activePaneId))
+
+  // Close on click outside
+  useEffect(() => {
+    if (!open) return
+    const handler = (e: MouseEvent) => {
+      if (
+        panelRef.current && !panelRef.current.contains(e.target as Node) &&
+        buttonRef.current && !buttonRef.current.contains(e.target as Node)
+      ) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [open])
+
+  const on = targets !== null
+  const selected = targets ?? []
+  const claudePanes = panes.filter((p) => p.state !== 'shell').map((p) => p.id)
+  const pair = activePane?.pairId ? panes.filter((p) => p.pairId === activePane.pairId).map((p) => p.id) : []
+
+  const getPosition = () => {
+    if (!buttonRef.current) return { top: 0, left: 0 }
+    const rect = buttonRef.current.getBoundingClientRect()
+    return { top: rect.bottom + 4, left: rect.right - 260 }
+  }
+
+  const quickPick = (label: string, ids: number[]) => (
+    <button
+      onClick={() => setBroadcastTargets(ids)}
+      disabled={ids.length === 0}
+      className="px-2 py-0.5 text-[11px] rounded border border-white/[0.08] text-[--ui-text-secondary] hover:border-[--git-orange]/60 hover:text-[--ui-text-primary] disabled:opacity-40 disabled:pointer-events-none transition-colors"
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={() => {
+          // Opening the menu turns broadcast mode on, so headers show their toggles
+          if (!on) setBroadcastPanes([])
+          setOpen(!open)
+        }}
+        className={`flex items-center gap-1 px-1.5 py-1 transition-colors titlebar-no-drag ${
+          on ? 'text-[--git-orange]' : 'text-[--ui-text-dimmed] hover:text-[--ui-text-primary]'
+        }`}
+        title={on ? `Broadcasting to ${selected.length} pane${selected.length === 1 ? '' : 's'}` : 'Broadcast input to several panes'}
+        aria-label="Broadcast"
+      >
+        <svg width="13" height="13" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.4">
+          <circle cx="8" cy="8" r="1.5" />
+          <path d="M5 5a4.2 4.2 0 0 0 0 6M11 5a4.2 4.2 0 0 1 0 6M3 3a7 7 0 0 0 0 10M13 3a7 7 0 0 1 0 10" strokeLinecap="round" />
+        </svg>
+        {on && <span className="text-[10px] leading-none tabular-nums">{selected.length}</span>}
+      </button>
+
+      {open && createPortal(
+        <div
+          ref={panelRef}
+          className="fixed z-50 w-[260px] bg-[--ui-bg-elevated] border border-[#444] rounded-md shadow-lg overflow-hidden"
+          style={getPosition()}
+        >
+          <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-[--ui-text-muted]">
+            Broadcast to
+          </div>
+          <div className="flex flex-wrap gap-1 px-3 pb-1.5">
+            {quickPick('All Claude panes', claudePanes)}
+            {quickPick('This pair', pair)}
+            {quickPick('None', [])}
+          </div>
+          <div className="max-h-[280px] overflow-y-auto">
+            {panes.map((pane) => (
+              <label
+                key={pane.id}
+                className="flex items-center gap-2 px-3 py-1 hover:bg-[--ui-bg-active]/50 transition-colors cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(pane.id)}
+                  onChange={() => toggleBroadcastTarget(pane.id)}
+                  className="accent-[--git-orange]"
+                />
+                <span className="text-xs text-[--ui-text-secondary] truncate flex-1">
+                  {pane.label} · {paneRepoName(pane)}
+                </span>
+                {pane.state !== 'shell' && <span className="text-[10px] text-[--ui-text-muted]">Claude</span>}
+              </label>
+            ))}
+          </div>
+          <div className="border-t border-white/[0.06] px-3 py-1.5 flex items-center gap-2">
+            <span className="text-[10px] text-[--ui-text-dimmed] flex-1">
+              Typing in a picked pane, or picking a prompt, reaches all of them.
+            </span>
+            <button
+              onClick={() => {
+                setBroadcastPanes(null)
+                setOpen(false)
+              }}
+              className="text-xs text-[--ui-text-dimmed] hover:text-[#f87171] shrink-0"
+            >
+              Stop
+            </button>
+          </div>
+        </div>,
+        document.body,
+      )}
+    </>
+  )
+})
@@ -0,0 +1,182 @@
+import { memo, useEffect, useMemo, useRef, useState } from 'react'
+import { useWorkspaceStore } from '../store/workspace'
+import { Command, CommandContext, collectCommands, commandScore } from '../commands'
+import { PromptInputsDialog } from './PromptInputsDialog'
+
+interface CommandPaletteProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface PendingInputs {
+  title: string
+  labels: string[]
+  resolve: (inputs: Record<string, string> | null) => void
+}
+
+const MAX_RESULTS = 100
+const MAX_RECENT = 8
+
+// Most recently run command ids, newest first (this session)
+let recentIds: string[] = []
+
+// Cmd+Shift+P: fuzzy-search every registered action (see ../commands.ts) and
+// run it against the active pane. Recently run commands come first.
+export const CommandPalette = memo(function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [selected, setSelected] = useState(0)
+  const [commands, setCommands] = useState<Command[]>([])
+  const [context, setContext] = useState<CommandContext | null>(null)
+  // Lives on after the palette closes, for commands that ask for values
+  const [pendingInputs, setPendingInputs] = useState<PendingInputs | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const activePane = useWorkspaceStore((s) => s.panes.find((p) => p.id === s.activePaneId))
+
+  // Commands are built when the palette opens, against the active pane
+  useEffect(() => {
+    if (!isOpen) return
+    const { activePaneId, panes } = useWorkspaceStore.getState()
+    const ctx: CommandContext = {
+      paneId: activePaneId,
+      pane: panes.find((p) => p.id === activePaneId),
+      askInputs: (title, labels) =>
+        new Promise((resolve) => setPendingInputs({ title, labels, resolve })),
+    }
+    setContext(ctx)
+    setCommands(collectCommands(ctx))
+    setQuery('')
+    setSelected(0)
+    requestAnimationFrame(() => inputRef.current?.focus())
+  }, [isOpen])
+
+  const results = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+    const recency = (c: Command) => {
+      const i = recentIds.indexOf(c.id)
+      return i === -1 ? MAX_RECENT : i
+    }
+    if (words.length === 0) {
+      return [...commands].sort((a, b) => recency(a) - recency(b)).slice(0, MAX_RESULTS)
+    }
+    return commands
+      .map((c) => ({ c, score: commandScore(c, words) }))
+      .filter((r): r is { c: Command; score: number } => r.score !== null)
+      .sort((a, b) => a.score - b.score || recency(a.c) - recency(b.c))
+      .slice(0, MAX_RESULTS)
+      .map(({ c }) => c)
+  }, [commands, query])
+
+  useEffect(() => setSelected(0), [query])
+
+  // Keep the keyboard selection scrolled into view
+  useEffect(() => {
+    document.querySelector('[data-command-selected="true"]')?.scrollIntoView({ block: 'nearest' })
+  }, [selected])
+
+  const run = (command: Command | undefined) => {
+    if (!command || !context) return
+    recentIds = [command.id, ...recentIds.filter((id) => id !== command.id)].slice(0, MAX_RECENT)
+    onClose()
+    Promise.resolve()
+      .then(() => command.run(context))
+      .catch((error) => console.error(`Command ${command.id} failed:`, error))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setSelected((i) => Math.min(i + 1, Math.max(0, results.length - 1)))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setSelected((i) => Math.max(i - 1, 0))
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      run(results[selected])
+    }
+  }
+
+  const inputsDialog = pendingInputs && (
+    <PromptInputsDialog
+      title={pendingInputs.title}
+      labels={pendingInputs.labels}
+      onSubmit={(inputs) => {
+        pendingInputs.resolve(inputs)
+        setPendingInputs(null)
+      }}
+      onClose={() => {
+        pendingInputs.resolve(null)
+        setPendingInputs(null)
+      }}
+    />
+  )
+
+  if (!isOpen) return inputsDialog || null
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-start justify-center pt-[12vh] z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      role="presentation"
+    >
+      <div
+        className="glass-elevated glass-border rounded-xl shadow-2xl w-full max-w-xl mx-4 max-h-[60vh] flex flex-col backdrop-blur-xl overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-white/[0.06]">
+          <span className="text-[--ui-text-dimmed] text-sm shrink-0">›</span>
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Type a command"
+            className="flex-1 bg-transparent text-sm text-[--ui-text-primary] placeholder-[--ui-text-faint] outline-none"
+            spellCheck={false}
+            aria-label="Command"
+          />
+          {activePane && (
+            <span className="text-[10px] text-[--ui-text-muted] shrink-0 truncate max-w-[40%]" title={activePane.workingDirectory}>
+              {activePane.label}
+            </span>
+          )}
+        </div>
+        <div className="overflow-y-auto py-1" role="listbox">
+          {results.length === 0 && (
+            <div className="px-3 py-2 text-xs text-[--ui-text-dimmed]">No matching commands</div>
+          )}
+          {results.map((command, i) => (
+            <div
+              key={command.id}
+              role="option"
+              aria-selected={i === selected}
+              data-command-selected={i === selected}
+              onClick={() => run(command)}
+              onMouseMove={() => setSelected(i)}
+              className={`flex items-center gap-2 px-3 py-1.5 cursor-pointer ${
+                i === selected ? 'bg-[--accent]/20' : ''
+              }`}
+            >
+              <span className="text-[11px] text-[--ui-text-muted] shrink-0">{command.category}:</span>
+              <span className="text-xs text-[--ui-text-primary] truncate">{command.title}</span>
+              {command.detail && (
+                <span className="text-[11px] text-[--ui-text-dimmed] truncate min-w-0">{command.detail}</span>
+              )}
+              <span className="flex-1" />
+              {recentIds.includes(command.id) && !query && (
+                <span className="text-[10px] text-[--ui-text-faint] shrink-0">recent</span>
+              )}
+              {command.hotkey && (
+                <kbd className="text-[10px] text-[--ui-text-dimmed] font-mono shrink-0">{command.hotkey}</kbd>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,347 @@
+import { memo, useEffect, useState } from 'react'
+import { useWorkspaceStore } from '../store/workspace'
+import { BUDGET_WARN_RATIO, CostConfig, CostRow, CostSummary } from '../../shared/types'
+
+interface CostDashboardProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+type Breakdown = 'day' | 'model' | 'pane'
+
+const BREAKDOWNS: { id: Breakdown; label: string }[] = [
+  { id: 'day', label: 'By day' },
+  { id: 'model', label: 'By model' },
+  { id: 'pane', label: 'By pane' },
+]
+
+// Prices and budgets as typed; parsed on save
+interface Draft {
+  prices: Record<string, { input: string; output: string }>
+  dailyUsd: string
+  monthlyUsd: string
+}
+
+export function formatUsd(amount: number): string {
+  if (amount > 0 && amount < 0.01) return '<$0.01'
+  return `$${amount.toFixed(2)}`
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`
+  return String(count)
+}
+
+function draftOf(config: CostConfig): Draft {
+  return {
+    prices: Object.fromEntries(
+      Object.entries(config.prices).map(([route, p]) => [route, { input: String(p.input), output: String(p.output) }])
+    ),
+    dailyUsd: config.budget.dailyUsd ? String(config.budget.dailyUsd) : '',
+    monthlyUsd: config.budget.monthlyUsd ? String(config.budget.monthlyUsd) : '',
+  }
+}
+
+// Empty or invalid input = not set
+function parseAmount(text: string): number | undefined {
+  const value = parseFloat(text)
+  return Number.isFinite(value) && value >= 0 ? value : undefined
+}
+
+function BudgetBar({ label, spent, limit }: { label: string; spent: number; limit?: number }) {
+  const ratio = limit ? spent / limit : 0
+  const color = ratio >= 1 ? 'var(--git-orange)' : ratio >= BUDGET_WARN_RATIO ? 'var(--git-yellow)' : 'var(--git-green)'
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-[11px] text-[--ui-text-muted]">{label}</span>
+        <span className="text-sm font-medium tabular-nums text-[--ui-text-primary]">
+          {formatUsd(spent)}
+          {limit ? <span className="text-[11px] text-[--ui-text-dimmed]"> / {formatUsd(limit)}</span> : null}
+        </span>
+      </div>
+      {limit ? (
+        <div className="mt-1 h-1 rounded bg-[--ui-border] overflow-hidden">
+          <div className="h-full rounded" style={{ width: `${Math.min(100, ratio * 100)}%`, backgroundColor: color }} />
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+// Spend on routed models (ccr, the built-in proxy) and qcdelegate workers: totals
+// against budgets, 30-day breakdowns, and the price table they're computed from
+export const CostDashboard = memo(function CostDashboard({ isOpen, onClose }: CostDashboardProps) {
+  const panes = useWorkspaceStore((s) => s.panes)
+  const [summary, setSummary] = useState<CostSummary | null>(null)
+  const [routes, setRoutes] = useState<string[]>([])
+  const [breakdown, setBreakdown] = useState<Breakdown>('day')
+  const [draft, setDraft] = useState<Draft>({ prices: {}, dailyUsd: '', monthlyUsd: '' })
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    window.electronAPI.costsSummary().then((s) => {
+      setSummary(s)
+      setDraft(draftOf(s.config))
+    })
+    // Every saved model gets a price row, spent on yet or not
+    window.electronAPI
+      .routerStatus()
+      .then((status) => setRoutes(status.providers.flatMap((p) => p.models.map((m) => `${p.name},${m}`))))
+      .catch(() => setRoutes([]))
+    setSaved(false)
+    return window.electronAPI.onCostsUpdate(setSummary)
+  }, [isOpen])
+
+  useEffect(() => {
+    if (!isOpen) return
+    const onKey = (e: globalThis.KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', onKey)
+    return () => document.removeEventListener('keydown', onKey)
+  }, [isOpen, onClose])
+
+  if (!isOpen) return null
+
+  const priceRoutes = [
+    ...new Set([...routes, ...(summary?.unpriced ?? []), ...Object.keys(summary?.config.prices ?? {})]),
+  ].sort()
+  const rows: CostRow[] =
+    (breakdown === 'day' ? summary?.byDay : breakdown === 'model' ? summary?.byModel : summary?.byPane) ?? []
+  const rowLabel = (row: CostRow) => {
+    if (breakdown !== 'pane') return row.key
+    const id = Number(row.key)
+    return panes.find((p) => p.id === id)?.label ?? `Terminal ${id + 1}`
+  }
+
+  const setPrice = (route: string, field: 'input' | 'output', value: string) => {
+    setSaved(false)
+    setDraft((d) => ({
+      ...d,
+      prices: { ...d.prices, [route]: { ...(d.prices[route] ?? { input: '', output: '' }), [field]: value } },
+    }))
+  }
+
+  const save = async () => {
+    const prices: CostConfig['prices'] = {}
+    for (const [route, p] of Object.entries(draft.prices)) {
+      const input = parseAmount(p.input)
+      const output = parseAmount(p.output)
+      // A row with only one side filled in prices the other at $0
+      if (input !== undefined || output !== undefined) prices[route] = { input: input ?? 0, output: output ?? 0 }
+    }
+    const next = await window.electronAPI.costsSetConfig({
+      prices,
+      budget: { dailyUsd: parseAmount(draft.dailyUsd), monthlyUsd: parseAmount(draft.monthlyUsd) },
+    })
+    setSummary(next)
+    setDraft(draftOf(next.config))
+    setSaved(true)
+  }
+
+  const clear = async () => {
+    if (!window.confirm('Forget all recorded model spend? Prices and budgets stay.')) return
+    setSummary(await window.electronAPI.costsClear())
+  }
+
+  const inputClass =
+    'w-20 bg-[--ui-bg-input] border border-[#444] rounded px-1.5 py-0.5 text-xs tabular-nums text-[--ui-text-primary] outline-none focus:border-[--accent]'
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      role="presentation"
+    >
+      <div
+        className="glass-elevated glass-border rounded-xl shadow-2xl w-full max-w-2xl mx-4 max-h-[88vh] flex flex-col backdrop-blur-xl overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="costs-title"
+      >
+        <div className="flex items-center justify-between px-5 py-3.5 border-b glass-border shrink-0">
+          <h2 id="costs-title" className="text-base font-semibold text-[--ui-text-primary]">
+            Model costs
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-[--ui-text-muted] hover:text-[--ui-text-primary] hover:bg-[--ui-bg-active]/50 rounded-lg transition-all"
+            aria-label="Close model costs"
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M4 4l8 8M12 4l-8 8" strokeLinecap="round" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-5">
+          <p className="text-[11px] text-[--ui-text-dimmed]">
+            What models run through Settings → Models cost, in their panes and as qcdelegate workers. Tokens are
+            read from Claude Code's transcripts when a turn ends, and priced with the table below.
+          </p>
+
+          {summary?.warning && (
+            <div className="text-[11px] text-[--git-yellow] border border-[--git-yellow]/40 rounded px-2.5 py-1.5">
+              {summary.warning} qcdelegate shows this before it runs a task.
+            </div>
+          )}
+
+          {/* Totals against budgets */}
+          <div className="flex gap-6">
+            <BudgetBar label="Today" spent={summary?.todayUsd ?? 0} limit={summary?.config.budget.dailyUsd} />
+            <BudgetBar label="This month" spent={summary?.monthUsd ?? 0} limit={summary?.config.budget.monthlyUsd} />
+          </div>
+
+          {/* Breakdowns */}
+          <div>
+            <div className="flex items-center gap-1.5 mb-2">
+              <span className="text-[11px] text-[--ui-text-dimmed] mr-1">Last 30 days:</span>
+              {BREAKDOWNS.map((b) => (
+                <button
+                  key={b.id}
+                  onClick={() => setBreakdown(b.id)}
+                  className={`text-xs px-2 py-0.5 rounded glass-control ${
+                    breakdown === b.id ? 'text-[--accent] border border-[--accent]/50' : 'text-[--ui-text-primary]'
+                  }`}
+                >
+                  {b.label}
+                </button>
+              ))}
+            </div>
+            {rows.length === 0 ? (
+              <p className="text-xs text-[--ui-text-dimmed]">Nothing spent on routed models yet.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[10px] text-[--ui-text-muted] text-right">
+                    <th className="text-left font-normal pb-1">
+                      {breakdown === 'day' ? 'Day' : breakdown === 'model' ? 'Model' : 'Pane'}
+                    </th>
+                    <th className="font-normal pb-1">Input</th>
+                    <th className="font-normal pb-1">Output</th>
+                    <th className="font-normal pb-1">Delegated</th>
+                    <th className="font-normal pb-1">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.key} className="text-right tabular-nums border-t border-white/[0.06]">
+                      <td className="text-left py-1 text-[--ui-text-primary] truncate max-w-[16rem] font-mono">
+                        {rowLabel(row)}
+                      </td>
+                      <td className="text-[--ui-text-secondary]">{formatTokens(row.inputTokens)}</td>
+                      <td className="text-[--ui-text-secondary]">{formatTokens(row.outputTokens)}</td>
+                      <td className="text-[--ui-text-dimmed]">{row.delegatedUsd > 0 ? formatUsd(row.delegatedUsd) : '—'}</td>
+                      <td className="text-[--ui-text-primary]">{formatUsd(row.usd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Price table */}
+          <div>
+            <h3 className="text-sm font-medium text-[--ui-text-muted] uppercase tracking-wide mb-1">Prices</h3>
+            <p className="text-[11px] text-[--ui-text-dimmed] mb-2">
+              USD per million tokens, from your provider's pricing page. Changing a price re-prices past spend too.
+              {summary && summary.unpriced.length > 0 && (
+                <span className="text-[--git-yellow]">
+                  {' '}
+                  {summary.unpriced.length === 1 ? '1 model has' : `${summary.unpriced.length} models have`} spent
+                  tokens without a price.
+                </span>
+              )}
+            </p>
+            {priceRoutes.length === 0 ? (
+              <p className="text-xs text-[--ui-text-dimmed]">Add a model in Settings → Models to price it.</p>
+            ) : (
+              <div className="space-y-1">
+                {priceRoutes.map((route) => (
+                  <div key={route} className="flex items-center gap-2">
+                    <span className="flex-1 min-w-0 truncate font-mono text-xs text-[--ui-text-primary]" title={route}>
+                      {route}
+                    </span>
+                    <label className="flex items-center gap-1 text-[10px] text-[--ui-text-dimmed]">
+                      in $
+                      <input
+                        value={draft.prices[route]?.input ?? ''}
+                        onChange={(e) => setPrice(route, 'input', e.target.value)}
+                        inputMode="decimal"
+                        placeholder="0.00"
+                        className={inputClass}
+                        aria-label={`${route} input price`}
+                      />
+                    </label>
+                    <label className="flex items-center gap-1 text-[10px] text-[--ui-text-dimmed]">
+                      out $
+                      <input
+                        value={draft.prices[route]?.output ?? ''}
+                        onChange={(e) => setPrice(route, 'output', e.target.value)}
+                        inputMode="decimal"
+                        placeholder="0.00"
+                        className={inputClass}
+                        aria-label={`${route} output price`}
+                      />
+                    </label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Budgets */}
+          <div>
+            <h3 className="text-sm font-medium text-[--ui-text-muted] uppercase tracking-wide mb-1">Budgets</h3>
+            <p className="text-[11px] text-[--ui-text-dimmed] mb-2">
+              Optional. From {Math.round(BUDGET_WARN_RATIO * 100)}% of a budget, qcdelegate warns before running
+              another task.
+            </p>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-1.5 text-xs text-[--ui-text-secondary]">
+                Daily $
+                <input
+                  value={draft.dailyUsd}
+                  onChange={(e) => {
+                    setSaved(false)
+                    setDraft((d) => ({ ...d, dailyUsd: e.target.value }))
+                  }}
+                  inputMode="decimal"
+                  placeholder="none"
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center gap-1.5 text-xs text-[--ui-text-secondary]">
+                Monthly $
+                <input
+                  value={draft.monthlyUsd}
+                  onChange={(e) => {
+                    setSaved(false)
+                    setDraft((d) => ({ ...d, monthlyUsd: e.target.value }))
+                  }}
+                  inputMode="decimal"
+                  placeholder="none"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 px-5 py-3 border-t glass-border shrink-0">
+          <button onClick={save} className="text-xs px-3 py-1 rounded bg-[--accent] text-white">
+            Save prices &amp; budgets
+          </button>
+          {saved && <span className="text-[11px] text-emerald-400">Saved</span>}
+          <span className="flex-1" />
+          <button onClick={clear} className="text-xs px-3 py-1 rounded glass-control text-[--ui-text-dimmed] hover:text-red-400">
+            Clear history
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,41 @@
+import { useState, useEffect, memo } from 'react'
+import { BUDGET_WARN_RATIO, CostSummary } from '../../shared/types'
+import { formatUsd } from './CostDashboard'
+
+interface CostIndicatorProps {
+  onOpen: () => void
+}
+
+// Today's spend on routed models; hidden until there's something to show
+export const CostIndicator = memo(function CostIndicator({ onOpen }: CostIndicatorProps) {
+  const [summary, setSummary] = useState<CostSummary | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.costsSummary().then(setSummary)
+    return window.electronAPI.onCostsUpdate(setSummary)
+  }, [])
+
+  if (!summary) return null
+  if (summary.byDay.length === 0 && Object.keys(summary.config.prices).length === 0) return null
+
+  const { dailyUsd } = summary.config.budget
+  const color = !dailyUsd
+    ? 'var(--ui-text-muted)'
+    : summary.todayUsd >= dailyUsd
+      ? 'var(--git-orange)'
+      : summary.todayUsd >= dailyUsd * BUDGET_WARN_RATIO
+        ? 'var(--git-yellow)'
+        : 'var(--git-green)'
+
+  return (
+    <button
+      onClick={onOpen}
+      className="px-2 py-1 titlebar-no-drag rounded-md text-[11px] font-medium tabular-nums hover:bg-[--ui-bg-active]/50 transition-colors"
+      style={{ color }}
+      title={summary.warning ?? `Routed model spend today: ${formatUsd(summary.todayUsd)}. Click for details.`}
+      aria-label="Open model costs"
+    >
+      {formatUsd(summary.todayUsd)}
+    </button>
+  )
+})
@@ -0,0 +1,389 @@
+import { memo, ReactNode, useCallback, useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useWorkspaceStore } from '../store/workspace'
+import { DiffFile, DiffHunk, GitReview, GitReviewAction, GitReviewOp } from '../../shared/types'
+
+interface DiffReviewPanelProps {
+  paneId: number
+  onClose: () => void
+}
+
+const STATUS_LETTERS: Record<DiffFile['status'], { letter: string; color: string }> = {
+  modified: { letter: 'M', color: 'var(--git-yellow)' },
+  added: { letter: 'A', color: 'var(--git-green)' },
+  deleted: { letter: 'D', color: '#f87171' },
+  renamed: { letter: 'R', color: 'var(--git-cyan)' },
+  untracked: { letter: 'U', color: 'var(--git-green)' },
+}
+
+// --- Syntax highlighting ----------------------------------------------------------
+// Deliberately small: comments, strings, numbers and keywords, picked by file
+// extension. Enough to read a diff; not a parser.
+
+const C_LIKE = 'break case catch class const continue default do else enum export extends false finally for function if import in instanceof interface let new null return static super switch this throw true try type typeof undefined var void while yield async await from as of implements private protected public readonly struct fn impl mut pub use mod match package func go defer chan map range select nil'
+const PYTHON = 'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield self'
+const SHELL = 'if then else elif fi for while do done case esac in function return export local echo exit'
+
+interface Language {
+  keywords: Set<string>
+  token: RegExp // groups: comment, string, number, word
+}
+
+function language(keywords: string, comment: string): Language {
+  return {
+    keywords: new Set(keywords.split(' ')),
+    token: new RegExp(
+      `(${comment})|("(?:[^"\\\\]|\\\\.)*"?|'(?:[^'\\\\]|\\\\.)*'?|\`(?:[^\`\\\\]|\\\\.)*\`?)|(\\b\\d[\\d_.]*\\b|\\b0x[\\da-f]+\\b)|([A-Za-z_$][\\w$]*)`,
+      'gi',
+    ),
+  }
+}
+
+const LANGUAGES: Record<string, Language> = {
+  c: language(C_LIKE, '\\/\\/.*$|\\/\\*.*?(?:\\*\\/|$)'),
+  py: language(PYTHON, '#.*$'),
+  sh: language(SHELL, '#.*$'),
+}
+
+function languageFor(filePath: string): Language | null {
+  const ext = filePath.split('.').pop()?.toLowerCase() ?? ''
+  if (['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'java', 'c', 'h', 'cpp', 'cc', 'hpp', 'cs', 'go', 'rs', 'swift', 'kt', 'scala', 'dart', 'php'].includes(ext)) return LANGUAGES.c
+  if (['py', 'rb'].includes(ext)) return LANGUAGES.py
+  if (['sh', 'bash', 'zsh', 'yml', 'yaml', 'toml'].includes(ext)) return LANGUAGES.sh
+  return null
+}
+
+function highlight(code: string, lang: Language | null): ReactNode {
+  if (!lang) return code
+  const out: ReactNode[] = []
+  let last = 0
+  let m: RegExpExecArray | null
+  lang.token.lastIndex = 0
+  while ((m = lang.token.exec(code))) {
+    const [text, comment, str, num, word] = m
+    let color: string | null = null
+    if (comment) color = 'var(--ui-text-muted)'
+    else if (str) color = '#a5d6a7'
+    else if (num) color = '#f9a875'
+    else if (word && lang.keywords.has(word)) color = '#c4a7e7'
+    if (!color) continue
+    if (m.index > last) out.push(code.slice(last, m.index))
+    out.push(<span key={m.index} style={{ color }}>{text}</span>)
+    last = m.index + text.length
+  }
+  if (last < code.length) out.push(code.slice(last))
+  return out
+}
+
+// --- Panel --------------------------------------------------------------------------
+
+// One review panel at a time: opening another pane's closes this one
+let closeOpenPanel: (() => void) | null = null
+
+function HunkView({
+  file,
+  hunk,
+  staged,
+  busy,
+  confirming,
+  onAction,
+}: {
+  file: DiffFile
+  hunk: DiffHunk
+  staged: boolean
+  busy: boolean
+  confirming: boolean
+  onAction: (action: GitReviewAction, hunk: string) => void
+}) {
+  const lang = languageFor(file.path)
+  const hunkActions = file.status !== 'untracked'
+  return (
+    <div className="border-t border-white/[0.04]">
+      <div className="group flex items-center gap-2 px-3 py-0.5 bg-white/[0.03] text-[10px] text-[--ui-text-muted]">
+        <span className="truncate flex-1">{hunk.header}</span>
+        {hunkActions && (
+          <span className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+            {staged ? (
+              <button disabled={busy} onClick={() => onAction('unstage', hunk.header)} className="hover:text-[--ui-text-primary]">
+                Unstage hunk
+              </button>
+            ) : (
+              <>
+                <button disabled={busy} onClick={() => onAction('stage', hunk.header)} className="hover:text-[--ui-text-primary]">
+                  Stage hunk
+                </button>
+                <button
+                  disabled={busy}
+                  onClick={() => onAction('discard', hunk.header)}
+                  className={confirming ? 'text-[#f87171] opacity-100' : 'hover:text-[#f87171]'}
+                >
+                  {confirming ? 'Discard?' : 'Discard hunk'}
+                </button>
+              </>
+            )}
+          </span>
+        )}
+      </div>
+      <div className="font-mono text-[11px] leading-[16px]">
+        {hunk.lines.map((line, i) => {
+          const sign = line[0]
+          const bg = sign === '+' ? 'bg-[#4ade80]/[0.10]' : sign === '-' ? 'bg-[#f87171]/[0.10]' : ''
+          const signColor = sign === '+' ? 'text-[--git-green]' : sign === '-' ? 'text-[#f87171]' : 'text-[--ui-text-faint]'
+          if (sign === '\\') {
+            return <div key={i} className="px-3 text-[10px] text-[--ui-text-faint] italic">{line.slice(2)}</div>
+          }
+          return (
+            <div key={i} className={`flex whitespace-pre ${bg}`}>
+              <span className={`w-5 shrink-0 text-center select-none ${signColor}`}>{sign}</span>
+              <span className="text-[--ui-text-secondary] pr-3">{highlight(line.slice(1), lang)}</span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+// Slide-out review of a pane's working-tree changes: staged and unstaged diffs
+// per file, hunk-level stage/unstage/discard, and a commit box.
+export const DiffReviewPanel = memo(function DiffReviewPanel({ paneId, onClose }: DiffReviewPanelProps) {
+  const [review, setReview] = useState<GitReview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  // Discards need a second click; this is the op awaiting it
+  const [confirmKey, setConfirmKey] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const label = useWorkspaceStore((s) => s.panes.find((p) => p.id === paneId)?.label ?? '')
+  // Re-read when the pane's git status ticks over (the agent keeps editing)
+  const statusKey = useWorkspaceStore((s) => {
+    const g = s.panes.find((p) => p.id === paneId)?.gitStatus
+    return g ? `${g.branch}/${g.dirty}/${g.ahead}` : ''
+  })
+
+  const load = useCallback(async () => {
+    try {
+      setReview(await window.electronAPI.loadGitReview(paneId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [paneId])
+
+  useEffect(() => {
+    load()
+  }, [load, statusKey])
+
+  const onCloseRef = useRef(onClose)
+  onCloseRef.current = onClose
+  useEffect(() => {
+    closeOpenPanel?.()
+    const close = () => onCloseRef.current()
+    closeOpenPanel = close
+    return () => {
+      if (closeOpenPanel === close) closeOpenPanel = null
+    }
+  }, [])
+
+  const apply = async (op: GitReviewOp) => {
+    const key = `${op.path}\n${op.hunk ?? ''}`
+    if (op.action === 'discard' && confirmKey !== key) {
+      setConfirmKey(key)
+      return
+    }
+    setConfirmKey(null)
+    setBusy(true)
+    setError(null)
+    const result = await window.electronAPI.applyGitReview(paneId, op)
+    if (!result.ok) setError(result.error ?? 'Failed')
+    await load()
+    setBusy(false)
+  }
+
+  const commit = async () => {
+    if (!message.trim() || busy) return
+    setBusy(true)
+    setError(null)
+    const result = await window.electronAPI.commitGitReview(paneId, message)
+    if (result.ok) setMessage('')
+    else setError(result.error ?? 'Commit failed')
+    await load()
+    setBusy(false)
+  }
+
+  const toggle = (key: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+
+  const files = review?.files ?? []
+  const stagedFiles = files.filter((f) => f.staged.length > 0)
+  // Untracked, binary and too-large files show here too, with no hunks
+  const unstagedFiles = files.filter((f) => f.unstaged.length > 0 || f.staged.length === 0)
+
+  const renderFile = (file: DiffFile, staged: boolean) => {
+    const key = `${staged ? 's' : 'u'}:${file.path}`
+    const isCollapsed = collapsed.has(key)
+    const hunks = staged ? file.staged : file.unstaged
+    const { letter, color } = STATUS_LETTERS[file.status]
+    const fileConfirmKey = `${file.path}\n`
+    return (
+      <div key={key} className="border-b border-white/[0.06]">
+        <div className="group flex items-center gap-2 px-3 py-1.5 text-xs">
+          <button onClick={() => toggle(key)} className="flex items-center gap-2 flex-1 min-w-0 text-left">
+            <span className="text-[9px] text-[--ui-text-faint] w-2">{isCollapsed ? '▸' : '▾'}</span>
+            <span className="font-mono text-[10px] w-3" style={{ color }}>{letter}</span>
+            <span className="truncate text-[--ui-text-primary]" title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}>
+              {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+            </span>
+          </button>
+          <span className="flex items-center gap-2 text-[10px] text-[--ui-text-dimmed] opacity-0 group-hover:opacity-100 transition-opacity">
+            {staged ? (
+              <button disabled={busy} onClick={() => apply({ action: 'unstage', path: file.path })} className="hover:text-[--ui-text-primary]">
+                Unstage
+              </button>
+            ) : (
+              <>
+                <button disabled={busy} onClick={() => apply({ action: 'stage', path: file.path })} className="hover:text-[--ui-text-primary]">
+                  Stage
+                </button>
+                <button
+                  disabled={busy}
+                  onClick={() => apply({ action: 'discard', path: file.path })}
+                  className={confirmKey === fileConfirmKey ? 'text-[#f87171] opacity-100' : 'hover:text-[#f87171]'}
+                >
+                  {confirmKey === fileConfirmKey ? (file.status === 'untracked' ? 'Delete file?' : 'Discard?') : 'Discard'}
+                </button>
+              </>
+            )}
+          </span>
+        </div>
+        {!isCollapsed && (
+          <>
+            {hunks.length === 0 && (
+              <div className="px-8 pb-1.5 text-[10px] text-[--ui-text-muted]">
+                {file.binary ? 'Binary file' : file.truncated ? 'Too large to show' : 'No content changes'}
+              </div>
+            )}
+            {hunks.map((hunk, i) => (
+              <HunkView
+                key={`${i}:${hunk.header}`}
+                file={file}
+                hunk={hunk}
+                staged={staged}
+                busy={busy}
+                confirming={confirmKey === `${file.path}\n${hunk.header}`}
+                onAction={(action, header) => apply({ action, path: file.path, hunk: header })}
+              />
+            ))}
+            {file.truncated && hunks.length > 0 && (
+              <div className="px-8 py-1 text-[10px] text-[--ui-text-muted]">Diff truncated - too large to show in full</div>
+            )}
+          </>
+        )}
+      </div>
+    )
+  }
+
+  const sectionTitle = (title: string, count: number, action?: ReactNode) => (
+    <div className="sticky top-0 z-10 flex items-center justify-between px-3 py-1 bg-[--ui-bg-elevated] border-b border-white/[0.06] text-[10px] uppercase tracking-wide text-[--ui-text-muted]">
+      <span>{title} · {count}</span>
+      {action}
+    </div>
+  )
+
+  return createPortal(
+    <div
+      className="fixed top-9 bottom-0 right-0 z-40 w-[min(760px,65vw)] flex flex-col bg-[--ui-bg-elevated] border-l border-[#444] shadow-2xl font-mono"
+      // Only while focus is in the panel: Esc in a terminal belongs to the agent
+      onKeyDown={(e) => e.key === 'Escape' && onClose()}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 h-9 border-b border-white/[0.06] shrink-0">
+        <span className="text-xs text-[--ui-text-primary]">Review</span>
+        <span className="text-xs text-[--ui-text-muted] truncate">
+          {label}{review ? ` · ${review.repoRoot.split('/').pop()} · ${review.branch}` : ''}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => load()}
+            className="px-1.5 py-1 text-[11px] text-[--ui-text-dimmed] hover:text-[--ui-text-primary] transition-colors"
+            title="Refresh"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={onClose}
+            className="px-1.5 py-1 text-[--ui-text-dimmed] hover:text-[--ui-text-primary] transition-colors"
+            title="Close (Esc)"
+            aria-label="Close review"
+          >
+            <svg width="12" height="12" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <path d="M4 4l8 8M12 4l-8 8" strokeLinecap="round" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Diff */}
+      <div className="flex-1 overflow-y-auto">
+        {loading && <div className="px-4 py-6 text-center text-xs text-[--ui-text-muted]">Loading…</div>}
+        {!loading && !review && (
+          <div className="px-4 py-6 text-center text-xs text-[--ui-text-muted]">This pane isn't in a git repository</div>
+        )}
+        {review && files.length === 0 && (
+          <div className="px-4 py-6 text-center text-xs text-[--ui-text-muted]">No changes</div>
+        )}
+        {stagedFiles.length > 0 && (
+          <>
+            {sectionTitle('Staged', stagedFiles.length)}
+            {stagedFiles.map((f) => renderFile(f, true))}
+          </>
+        )}
+        {unstagedFiles.length > 0 && (
+          <>
+            {sectionTitle('Changes', unstagedFiles.length)}
+            {unstagedFiles.map((f) => renderFile(f, false))}
+          </>
+        )}
+      </div>
+
+      {/* Commit */}
+      <div className="shrink-0 border-t border-white/[0.06] p-3 space-y-2">
+        {error && <div className="text-[11px] text-[#f87171] whitespace-pre-wrap break-words max-h-24 overflow-y-auto">{error}</div>}
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault()
+              commit()
+            }
+          }}
+          placeholder="Commit message"
+          rows={2}
+          className="w-full resize-none bg-[--ui-bg-base] border border-[#444] rounded px-2 py-1 text-xs text-[--ui-text-primary] outline-none focus:border-[--accent]"
+          spellCheck={false}
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] text-[--ui-text-muted]">Cmd+Enter to commit</span>
+          <button
+            onClick={commit}
+            disabled={busy || !message.trim() || stagedFiles.length === 0}
+            className="px-3 py-1 rounded text-xs bg-[--accent] text-white disabled:opacity-40"
+            title={stagedFiles.length === 0 ? 'Stage some changes first' : undefined}
+          >
+            Commit {stagedFiles.length > 0 ? `${stagedFiles.length} file${stagedFiles.length === 1 ? '' : 's'}` : ''}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  )
+})
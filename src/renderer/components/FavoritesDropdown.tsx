@@ -1,6 +1,7 @@
 import { memo, useCallback, useEffect, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
 import { useWorkspaceStore } from '../store/workspace'
+import { registerCommands } from '../commands'
 import { sendToTerminal } from './TerminalPane'
 
 interface FavoritesDropdownProps {
@@ -20,6 +21,37 @@ function getFolderName(path: string): string {
   return name || path
 }
 
+registerCommands('favorites', ({ paneId, pane }) => {
+  if (!pane) return []
+  const { favoriteDirectories } = useWorkspaceStore.getState().preferences
+  const cwd = normalizePath(pane.workingDirectory)
+  const starred = favoriteDirectories.some((f) => normalizePath(f) === cwd)
+  return [
+    ...favoriteDirectories.map((path) => ({
+      id: `favorites:open:${path}`,
+      title: `Open ${getFolderName(path)}`,
+      category: 'Favorites',
+      detail: path,
+      run: () => sendToTerminal(paneId, `cd "${path}"\n`),
+    })),
+    {
+      id: starred ? 'favorites:remove' : 'favorites:add',
+      title: starred ? 'Remove Directory from Favorites' : 'Add Directory to Favorites',
+      category: 'Favorites',
+      detail: pane.workingDirectory,
+      run: () => {
+        const store = useWorkspaceStore.getState()
+        const favorites = store.preferences.favoriteDirectories
+        store.updatePreferences({
+          favoriteDirectories: starred
+            ? favorites.filter((f) => normalizePath(f) !== cwd)
+            : [...favorites, cwd],
+        })
+      },
+    },
+  ]
+})
+
 export const FavoritesDropdown = memo(function FavoritesDropdown({ paneId, currentDirectory }: FavoritesDropdownProps) {
   const [open, setOpen] = useState(false)
   const buttonRef = useRef<HTMLButtonElement>(null)
@@ -0,0 +1,175 @@
+import { memo, useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useWorkspaceStore } from '../store/workspace'
+import { LAYOUTS } from '../layouts'
+import { MAX_LAYOUT_PRESETS } from '../../shared/types'
+
+// Shown when a new preset is refused at the cap (here and in the command palette)
+export const PRESET_LIMIT_MESSAGE = `${MAX_LAYOUT_PRESETS} presets saved. Delete one, or use an existing name to replace it.`
+
+// Layout selector menu of saved presets: apply one, cycle through them, or save
+// the current arrangement. Hotkeys are assigned in Settings → Shortcuts.
+export const LayoutPresetMenu = memo(function LayoutPresetMenu() {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [draft, setDraft] = useState('')
+  const buttonRef = useRef<HTMLButtonElement>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  const presets = useWorkspaceStore((s) => s.preferences.layoutPresets)
+  const presetHotkeys = useWorkspaceStore((s) => s.preferences.hotkeys.layoutPresets)
+  const layoutPresetId = useWorkspaceStore((s) => s.layoutPresetId)
+  const saveLayoutPreset = useWorkspaceStore((s) => s.saveLayoutPreset)
+  const applyLayoutPreset = useWorkspaceStore((s) => s.applyLayoutPreset)
+  const cycleLayoutPreset = useWorkspaceStore((s) => s.cycleLayoutPreset)
+  const deleteLayoutPreset = useWorkspaceStore((s) => s.deleteLayoutPreset)
+
+  // Close on click outside
+  useEffect(() => {
+    if (!open) return
+    const handler = (e: MouseEvent) => {
+      if (
+        panelRef.current && !panelRef.current.contains(e.target as Node) &&
+        buttonRef.current && !buttonRef.current.contains(e.target as Node)
+      ) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [open])
+
+  useEffect(() => {
+    if (!open) setSaving(false)
+  }, [open])
+
+  const list = presets ?? []
+  const current = list.find((p) => p.id === layoutPresetId)
+  // At the cap only an existing name (replacing that preset) can be saved
+  const full = list.length >= MAX_LAYOUT_PRESETS && !list.some((p) => p.name === draft.trim())
+
+  // Prefilled with the current preset's name, so re-saving updates it in place
+  const startSaving = () => {
+    setDraft(current?.name ?? '')
+    setSaving(true)
+  }
+
+  const submit = () => {
+    const name = draft.trim()
+    if (!name || !saveLayoutPreset(name)) return
+    setOpen(false)
+  }
+
+  const getPosition = () => {
+    if (!buttonRef.current) return { top: 0, left: 0 }
+    const rect = buttonRef.current.getBoundingClientRect()
+    return { top: rect.bottom + 4, left: rect.left }
+  }
+
+  return (
+    <>
+      <div className="flex items-center titlebar-no-drag">
+        <button
+          ref={buttonRef}
+          onClick={() => setOpen(!open)}
+          className={`flex items-center gap-1 px-2 py-1 text-[11px] leading-none transition-colors ${
+            current ? 'text-[--ui-text-primary]' : 'text-[--ui-text-dimmed] hover:text-[--ui-text-secondary]'
+          }`}
+          title="Layout presets"
+          aria-label="Layout presets"
+        >
+          <span className="truncate max-w-[120px]">{current?.name ?? 'Presets'}</span>
+          <svg width="8" height="8" viewBox="0 0 10 10" fill="none" stroke="currentColor" strokeWidth="1.5" className="shrink-0">
+            <path d="M2 3.5L5 6.5L8 3.5" strokeLinecap="round" strokeLinejoin="round" />
+          </svg>
+        </button>
+        {list.length > 1 && (
+          <button
+            onClick={cycleLayoutPreset}
+            className="px-1 py-1 text-[--ui-text-dimmed] hover:text-[--ui-text-primary] transition-colors"
+            title="Next layout preset"
+            aria-label="Next layout preset"
+          >
+            <svg width="10" height="10" viewBox="0 0 10 10" fill="none" stroke="currentColor" strokeWidth="1.5">
+              <path d="M3.5 2L6.5 5L3.5 8" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {open && createPortal(
+        <div
+          ref={panelRef}
+          className="fixed z-50 w-[240px] bg-[--ui-bg-elevated] border border-[#444] rounded-md shadow-lg overflow-hidden"
+          style={getPosition()}
+        >
+          <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-[--ui-text-muted]">
+            Layout presets
+          </div>
+          <div className="max-h-[320px] overflow-y-auto">
+            {list.length === 0 && (
+              <div className="px-3 py-1.5 text-[11px] text-[--ui-text-dimmed]">
+                Arrange the panes, then save the arrangement here.
+              </div>
+            )}
+            {list.map((preset) => (
+              <div
+                key={preset.id}
+                className="group flex items-center gap-2 px-3 py-1.5 hover:bg-[--ui-bg-active]/50 transition-colors cursor-pointer"
+                onClick={() => {
+                  applyLayoutPreset(preset.id)
+                  setOpen(false)
+                }}
+              >
+                <span className="w-3 shrink-0 text-[--accent] text-xs">{preset.id === layoutPresetId ? '✓' : ''}</span>
+                <span className="text-xs truncate flex-1 text-[--ui-text-secondary]">{preset.name}</span>
+                <span className="text-[10px] text-[--ui-text-muted] group-hover:hidden">
+                  {presetHotkeys?.[preset.id] || LAYOUTS[preset.layout].name}
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    deleteLayoutPreset(preset.id)
+                  }}
+                  className="hidden group-hover:block text-[10px] text-[--ui-text-dimmed] hover:text-[#f87171]"
+                  title="Delete preset"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t border-white/[0.06] px-3 py-1.5">
+            {saving ? (
+              <>
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submit()
+                    if (e.key === 'Escape') setSaving(false)
+                  }}
+                  placeholder="Preset name"
+                  className="w-full bg-[--ui-bg-base] border border-[#444] rounded px-1.5 py-0.5 text-xs text-[--ui-text-primary] outline-none focus:border-[--accent]"
+                  spellCheck={false}
+                />
+                {full && (
+                  <div className="mt-1 text-[10px] text-[--git-yellow]">
+                    {PRESET_LIMIT_MESSAGE}
+                  </div>
+                )}
+              </>
+            ) : (
+              <button onClick={startSaving} className="text-xs text-[--ui-text-dimmed] hover:text-[--ui-text-primary]">
+                Save current as…
+              </button>
+            )}
+          </div>
+        </div>,
+        document.body,
+      )}
+    </>
+  )
+})
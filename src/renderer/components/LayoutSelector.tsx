@@ -1,6 +1,8 @@
 import { memo } from 'react'
 import { useWorkspaceStore } from '../store/workspace'
-import { LayoutMode } from '../../shared/types'
+import { HotkeyBindings, LayoutMode, MAIN_WINDOW_ID, MAX_LAYOUT_PRESETS } from '../../shared/types'
+import { registerCommands } from '../commands'
+import { LayoutPresetMenu, PRESET_LIMIT_MESSAGE } from './LayoutPresetMenu'
 
 // Minimal layout icons - smaller for terminal aesthetic
 const GridIcon = () => (
@@ -30,28 +32,84 @@ const FocusRightIcon = () => (
   </svg>
 )
 
+const CustomIcon = () => (
+  <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
+    <rect x="1" y="1" width="5" height="9.5" rx="0.5" opacity="0.9"/>
+    <rect x="7.5" y="1" width="7.5" height="4" rx="0.5" opacity="0.5"/>
+    <rect x="7.5" y="6.5" width="7.5" height="4" rx="0.5" opacity="0.5"/>
+    <rect x="1" y="12" width="14" height="3" rx="0.5" opacity="0.9"/>
+  </svg>
+)
+
 const layoutIcons: Record<LayoutMode, React.ReactNode> = {
   grid: <GridIcon />,
   focus: <FocusIcon />,
   'focus-right': <FocusRightIcon />,
+  custom: <CustomIcon />,
 }
 
 const layoutLabels: Record<LayoutMode, string> = {
   grid: 'Grid',
   focus: 'Left Focus',
   'focus-right': 'Right Focus',
+  custom: 'Custom',
 }
 
 const layoutTitles: Record<LayoutMode, string> = {
   grid: 'Grid (Cmd+1)',
   focus: 'Focus Left (Cmd+2)',
   'focus-right': 'Focus Right (Cmd+3)',
+  custom: 'Custom split layout - drag a pane onto another pane\'s edge to split it',
 }
 
+const layoutHotkeys: Partial<Record<LayoutMode, keyof HotkeyBindings>> = {
+  grid: 'layoutGrid',
+  focus: 'layoutFocus',
+  'focus-right': 'layoutFocusRight',
+}
+
+// Layouts are the main window's
+registerCommands('layout', (ctx) => {
+  const store = useWorkspaceStore.getState()
+  if (store.windowId !== MAIN_WINDOW_ID) return []
+  const { hotkeys, layoutPresets = [] } = store.preferences
+  const modes: LayoutMode[] = ['grid', 'focus', 'focus-right', 'custom']
+  return [
+    ...modes.map((mode) => {
+      const hotkey = layoutHotkeys[mode]
+      return {
+        id: `layout:${mode}`,
+        title: `${layoutLabels[mode]} Layout`,
+        category: 'Layout',
+        hotkey: hotkey ? (hotkeys[hotkey] as string) : undefined,
+        run: () => store.setLayout(mode),
+      }
+    }),
+    ...layoutPresets.map((preset) => ({
+      id: `layout:preset:${preset.id}`,
+      title: `Apply Preset ${preset.name}`,
+      category: 'Layout',
+      hotkey: hotkeys.layoutPresets?.[preset.id],
+      run: () => useWorkspaceStore.getState().applyLayoutPreset(preset.id),
+    })),
+    {
+      id: 'layout:save-preset',
+      title: 'Save Layout as Preset…',
+      category: 'Layout',
+      detail: layoutPresets.length >= MAX_LAYOUT_PRESETS ? `${MAX_LAYOUT_PRESETS} saved: only an existing name replaces one` : undefined,
+      run: async () => {
+        const inputs = await ctx.askInputs('Save Layout Preset', ['Name'])
+        const name = inputs?.Name?.trim()
+        if (name && !useWorkspaceStore.getState().saveLayoutPreset(name)) window.alert(PRESET_LIMIT_MESSAGE)
+      },
+    },
+  ]
+})
+
 export const LayoutSelector = memo(function LayoutSelector() {
   const { layout, setLayout } = useWorkspaceStore()
 
-  const layouts: LayoutMode[] = ['grid', 'focus', 'focus-right']
+  const layouts: LayoutMode[] = ['grid', 'focus', 'focus-right', 'custom']
 
   return (
     <div className="flex items-center gap-0">
@@ -78,6 +136,8 @@ export const LayoutSelector = memo(function LayoutSelector() {
           </div>
         )
       })}
+      <span className="text-[--ui-text-faint] text-xs px-1">│</span>
+      <LayoutPresetMenu />
     </div>
   )
 })
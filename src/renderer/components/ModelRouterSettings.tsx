@@ -1,14 +1,26 @@
 import { memo, useEffect, useState, useCallback } from 'react'
 import { useWorkspaceStore } from '../store/workspace'
-import { AgentProfile, RouterStatus, RouterProviderInput, RouterDelegationStatus } from '../../shared/types'
+import {
+  AgentProfile,
+  RouterStatus,
+  RouterProviderInput,
+  RouterDelegationStatus,
+  RouterBackend,
+  RouterRoutes,
+  RouterTestResult,
+  RouterTestStep,
+  ROUTER_SLOTS,
+  isRouterProfile,
+} from '../../shared/types'
 
 // "Run any model as Claude Code." This is NOT a generic agent — it stands up the
 // real `claude` TUI pointed at a non-Anthropic model via claude-code-router, so the
 // pane looks and behaves 100% like Claude Code. The wizard writes ccr's local config
-// (main process) AND auto-creates the launchable AgentProfile (`ccr code`).
+// (main process) AND auto-creates the launchable AgentProfile (`ccr code`, or plain
+// `claude` pointed at QuadClaude's built-in translation proxy when ccr isn't wanted).
 
-// Router-backed profiles are the ones we launch through ccr. We tag them by command
-// so they can be listed/managed separately from hand-rolled agent profiles.
+// ccr-backed profiles run this command; proxy-backed ones run plain `claude` with
+// ANTHROPIC_BASE_URL on the proxy (isRouterProfile tells both from hand-rolled ones).
 export const ROUTER_PANE_COMMAND = 'ccr code'
 
 type Preset = {
@@ -49,10 +61,15 @@ interface FormState {
   label: string
   baseUrl: string
   apiKey: string
-  model: string
+  models: string[]
+  routes: RouterRoutes
+  backend: RouterBackend
   transformer?: string
+  editingId?: string // the router profile being edited
 }
 
+const PROFILE_NAME_PREFIX = 'Claude Code · '
+
 function genId(): string {
   try {
     return crypto.randomUUID()
@@ -61,8 +78,35 @@ function genId(): string {
   }
 }
 
-function emptyForm(): FormState {
-  return { preset: 'OpenRouter', label: '', baseUrl: PRESETS[0].baseUrl, apiKey: '', model: '', transformer: PRESETS[0].transformer }
+const BACKENDS: { id: RouterBackend; label: string; hint: string }[] = [
+  { id: 'ccr', label: 'claude-code-router', hint: 'Runs `ccr code` · needs the router installed' },
+  { id: 'builtin', label: 'Built-in proxy', hint: 'QuadClaude translates to the provider itself · nothing to install' },
+]
+
+// How each connection-test step's outcome shows
+const STEP_MARKS: Record<RouterTestStep['status'], { mark: string; color: string }> = {
+  pass: { mark: '✓', color: 'text-emerald-400' },
+  warn: { mark: '!', color: 'text-amber-400' },
+  fail: { mark: '✕', color: 'text-red-400' },
+  skip: { mark: '–', color: 'text-[--ui-text-faint]' },
+}
+
+function emptyForm(backend: RouterBackend): FormState {
+  return {
+    preset: 'OpenRouter',
+    label: '',
+    baseUrl: PRESETS[0].baseUrl,
+    apiKey: '',
+    models: [''],
+    routes: {},
+    backend,
+    transformer: PRESETS[0].transformer,
+  }
+}
+
+// ccr provider slug of a router profile (the part before the comma in ANTHROPIC_MODEL)
+function profileSlug(profile: AgentProfile): string | undefined {
+  return profile.env?.ANTHROPIC_MODEL?.split(',')[0]
 }
 
 export const ModelRouterSettings = memo(function ModelRouterSettings() {
@@ -71,14 +115,25 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
 
   const [status, setStatus] = useState<RouterStatus | null>(null)
   const [adding, setAdding] = useState(false)
-  const [form, setForm] = useState<FormState>(emptyForm)
+  const [form, setForm] = useState<FormState>(() => emptyForm('ccr'))
   const [revealKey, setRevealKey] = useState(false)
-  const [testState, setTestState] = useState<{ kind: 'idle' | 'testing' | 'ok' | 'err'; msg?: string }>({ kind: 'idle' })
+  const [testState, setTestState] = useState<{
+    kind: 'idle' | 'testing' | 'ok' | 'err'
+    msg?: string
+    result?: RouterTestResult
+  }>({ kind: 'idle' })
   const [saving, setSaving] = useState(false)
   const [delegation, setDelegation] = useState<RouterDelegationStatus | null>(null)
   const [copied, setCopied] = useState(false)
+  // The saved model whose key is open for reveal/rotate
+  const [keyPanel, setKeyPanel] = useState<{
+    profileId: string
+    revealed?: string
+    rotating: string
+    note?: string
+  } | null>(null)
 
-  const routerProfiles = profiles.filter((p) => p.command === ROUTER_PANE_COMMAND)
+  const routerProfiles = profiles.filter(isRouterProfile)
 
   const refreshStatus = useCallback(() => {
     window.electronAPI.routerStatus().then(setStatus).catch(() => setStatus(null))
@@ -147,7 +202,30 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
   }
 
   const startAdd = () => {
-    setForm(emptyForm())
+    // Without ccr installed, the built-in proxy is the one that works out of the box
+    setForm(emptyForm(status && !status.ccrInstalled ? 'builtin' : 'ccr'))
+    setTestState({ kind: 'idle' })
+    setRevealKey(false)
+    setAdding(true)
+  }
+
+  // Edit a saved model: the wizard reopens with its provider's models and slots.
+  // The API key isn't read back; leaving it blank keeps the saved one.
+  const startEdit = (profile: AgentProfile) => {
+    const provider = status?.providers.find((p) => p.name === profileSlug(profile))
+    if (!provider) return
+    const preset = PRESETS.find((p) => p.baseUrl && p.baseUrl === provider.baseUrl)
+    setForm({
+      preset: preset?.label ?? 'Custom',
+      label: profile.name.startsWith(PROFILE_NAME_PREFIX) ? profile.name.slice(PROFILE_NAME_PREFIX.length) : profile.name,
+      baseUrl: provider.baseUrl,
+      apiKey: '',
+      models: provider.models.length > 0 ? provider.models : [''],
+      routes: provider.routes,
+      backend: profile.command === ROUTER_PANE_COMMAND ? 'ccr' : 'builtin',
+      transformer: provider.transformer,
+      editingId: profile.id,
+    })
     setTestState({ kind: 'idle' })
     setRevealKey(false)
     setAdding(true)
@@ -158,20 +236,33 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
     setTestState({ kind: 'idle' })
   }
 
+  const models = [...new Set(form.models.map((m) => m.trim()).filter(Boolean))]
+  // A slot pointing at a model that was since removed falls back to default
+  const slotModel = (slot: keyof RouterRoutes) => {
+    const model = form.routes[slot]
+    return model && models.includes(model) ? model : ''
+  }
+  const defaultModel = slotModel('default') || models[0] || ''
+
   const asInput = (): RouterProviderInput => ({
-    label: form.label.trim() || form.model.trim(),
+    label: form.label.trim() || defaultModel,
     baseUrl: form.baseUrl.trim(),
     apiKey: form.apiKey,
-    model: form.model.trim(),
+    models,
+    routes: Object.fromEntries(ROUTER_SLOTS.map((s) => [s.id, slotModel(s.id) || undefined])),
+    backend: form.backend,
     transformer: form.transformer,
   })
 
-  const canSubmit = !!form.baseUrl.trim() && !!form.model.trim() && !saving
+  const setModel = (i: number, value: string) =>
+    setForm((f) => ({ ...f, models: f.models.map((m, j) => (j === i ? value : m)) }))
+
+  const canSubmit = !!form.baseUrl.trim() && models.length > 0 && !saving
 
   const test = async () => {
     setTestState({ kind: 'testing' })
     const res = await window.electronAPI.routerTest(asInput())
-    setTestState(res.ok ? { kind: 'ok' } : { kind: 'err', msg: res.error })
+    setTestState({ kind: res.ok ? 'ok' : 'err', msg: res.error, result: res })
   }
 
   const save = async () => {
@@ -183,9 +274,14 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
         setTestState({ kind: 'err', msg: res.error ?? 'Failed to save.' })
         return
       }
-      // Auto-create (or update) the launchable Claude Code profile for this model.
-      const displayName = `Claude Code · ${form.label.trim() || form.model.trim()}`
-      const existing = routerProfiles.find((p) => p.env?.ANTHROPIC_MODEL === res.route)
+      // Auto-create (or update) the launchable Claude Code profile for this provider.
+      const displayName = `${PROFILE_NAME_PREFIX}${form.label.trim() || defaultModel}`
+      const slug = res.route.split(',')[0]
+      const existing =
+        routerProfiles.find((p) => p.id === form.editingId) ?? routerProfiles.find((p) => profileSlug(p) === slug)
+      // Renaming an edited model saves it as a new provider; drop the old one
+      const oldSlug = existing && profileSlug(existing)
+      if (oldSlug && oldSlug !== slug) window.electronAPI.routerDeleteProvider(oldSlug)
       const profile: AgentProfile = {
         id: existing?.id ?? genId(),
         name: displayName,
@@ -205,8 +301,8 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
   }
 
   const remove = (profile: AgentProfile) => {
-    // Drop the ccr provider too (slug is the part before the comma in ANTHROPIC_MODEL).
-    const slug = profile.env?.ANTHROPIC_MODEL?.split(',')[0]
+    // Drop the ccr provider too
+    const slug = profileSlug(profile)
     if (slug) window.electronAPI.routerDeleteProvider(slug).then(refreshStatus)
     updatePreferences({ agentProfiles: profiles.filter((p) => p.id !== profile.id) })
   }
@@ -222,8 +318,8 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
         Code (it applies edits instead of dumping code). Bring your own API key.
       </p>
 
-      {/* ccr install state */}
-      {status && !status.ccrInstalled && (
+      {/* ccr install state (only matters when a model runs through ccr) */}
+      {status && !status.ccrInstalled && (adding ? form.backend === 'ccr' : routerProfiles.some((p) => p.command === ROUTER_PANE_COMMAND)) && (
         <div className="mb-3 text-[11px] text-[--ui-text-primary] bg-amber-500/10 border border-amber-500/30 rounded px-2 py-1.5">
           <span className="font-medium">Router not installed.</span> Run this once in any pane:
           <div className="mt-1 flex items-center gap-2">
@@ -235,27 +331,115 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
               Copy
             </button>
           </div>
+          <div className="mt-1 text-[--ui-text-dimmed]">Or run models through the built-in proxy — nothing to install.</div>
         </div>
       )}
+      {status?.proxy.error && (
+        <div className="mb-3 text-[11px] text-red-400 break-words">Built-in proxy: {status.proxy.error}</div>
+      )}
 
       {/* Existing router-backed profiles */}
       <div className="space-y-1.5 mb-3">
-        {routerProfiles.map((p) => (
-          <div key={p.id} className="flex items-center gap-2 px-2.5 py-1.5 rounded glass-control">
-            <div className="flex flex-col min-w-0 flex-1">
-              <span className="text-sm text-[--ui-text-primary] truncate">{p.name}</span>
-              <span className="text-[11px] text-[--ui-text-dimmed] truncate font-mono">
-                {p.env?.ANTHROPIC_MODEL ?? p.command}
-              </span>
+        {routerProfiles.map((p) => {
+          const provider = status?.providers.find((x) => x.name === profileSlug(p))
+          const slots = ROUTER_SLOTS.filter((s) => s.id !== 'default' && provider?.routes[s.id])
+          const panel = keyPanel?.profileId === p.id ? keyPanel : null
+          return (
+            <div key={p.id}>
+              <div className="flex items-center gap-2 px-2.5 py-1.5 rounded glass-control">
+                <div className="flex flex-col min-w-0 flex-1">
+                  <span className="text-sm text-[--ui-text-primary] truncate">{p.name}</span>
+                  <span className="text-[11px] text-[--ui-text-dimmed] truncate font-mono">
+                    {p.env?.ANTHROPIC_MODEL ?? p.command}
+                    {p.command !== ROUTER_PANE_COMMAND && <span className="font-sans"> · built-in proxy</span>}
+                  </span>
+                  {slots.length > 0 && (
+                    <span className="text-[10px] text-[--ui-text-dimmed] truncate">
+                      {slots.map((s) => `${s.label}: ${provider?.routes[s.id]}`).join(' · ')}
+                    </span>
+                  )}
+                </div>
+                {provider && (
+                  <button
+                    onClick={() => setKeyPanel(panel ? null : { profileId: p.id, rotating: '' })}
+                    className="shrink-0 text-[11px] text-[--ui-text-dimmed] hover:text-[--ui-text-primary] px-1.5 py-0.5"
+                    title={provider.keyStored ? 'API key · in the OS secret store' : 'API key · plaintext in ccr’s config'}
+                  >
+                    Key
+                  </button>
+                )}
+                {provider && (
+                  <button
+                    onClick={() => startEdit(p)}
+                    className="shrink-0 text-[11px] text-[--ui-text-dimmed] hover:text-[--ui-text-primary] px-1.5 py-0.5"
+                  >
+                    Edit
+                  </button>
+                )}
+                <button
+                  onClick={() => remove(p)}
+                  className="shrink-0 text-[11px] text-[--ui-text-dimmed] hover:text-red-400 px-1.5 py-0.5"
+                >
+                  Delete
+                </button>
+              </div>
+              {panel && provider && (
+                <div className="mx-2.5 mt-1 mb-2 flex flex-col gap-1.5 text-[11px]">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[--ui-text-dimmed] shrink-0">
+                      {provider.keyStored ? 'Key (OS secret store):' : 'Key (plaintext in config.json):'}
+                    </span>
+                    <span className="font-mono text-[--ui-text-primary] truncate min-w-0 select-text">
+                      {panel.revealed ?? '••••••••••••'}
+                    </span>
+                    <button
+                      onClick={async () => {
+                        const revealed =
+                          panel.revealed === undefined
+                            ? ((await window.electronAPI.routerRevealKey(provider.name)) ?? '')
+                            : undefined
+                        setKeyPanel({ ...panel, revealed })
+                      }}
+                      className="shrink-0 text-[10px] text-[--ui-text-dimmed] hover:text-[--ui-text-primary] px-1"
+                    >
+                      {panel.revealed === undefined ? 'Reveal' : 'Hide'}
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    <input
+                      type="password"
+                      value={panel.rotating}
+                      onChange={(e) => setKeyPanel({ ...panel, rotating: e.target.value })}
+                      placeholder="New key"
+                      className="flex-1 bg-[--ui-bg-input] border border-[#444] rounded px-2 py-1 text-xs font-mono text-[--ui-text-primary] outline-none focus:border-[--accent]"
+                    />
+                    <button
+                      onClick={async () => {
+                        const ok = await window.electronAPI.routerRotateKey(provider.name, panel.rotating)
+                        setKeyPanel({
+                          profileId: p.id,
+                          rotating: '',
+                          // ccr's daemon read the old key from its environment
+                          note: !ok
+                            ? 'Couldn’t save the key.'
+                            : p.command === ROUTER_PANE_COMMAND
+                              ? 'Key rotated. Run `ccr restart` in a new pane of this model to pick it up.'
+                              : 'Key rotated.',
+                        })
+                        refreshStatus()
+                      }}
+                      disabled={!panel.rotating}
+                      className="shrink-0 text-xs px-2 py-1 rounded glass-control text-[--ui-text-primary] disabled:opacity-40"
+                    >
+                      Rotate key
+                    </button>
+                  </div>
+                  {panel.note && <span className="text-[--ui-text-dimmed]">{panel.note}</span>}
+                </div>
+              )}
             </div>
-            <button
-              onClick={() => remove(p)}
-              className="shrink-0 text-[11px] text-[--ui-text-dimmed] hover:text-red-400 px-1.5 py-0.5"
-            >
-              Delete
-            </button>
-          </div>
-        ))}
+          )
+        })}
       </div>
 
       {!adding && (
@@ -266,6 +450,23 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
 
       {adding && (
         <div className="rounded-md border border-[#444] p-3 space-y-3">
+          {/* Backend: ccr or the built-in proxy */}
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-[11px] text-[--ui-text-dimmed] mr-1">Run through:</span>
+            {BACKENDS.map((backend) => (
+              <button
+                key={backend.id}
+                onClick={() => setForm((f) => ({ ...f, backend: backend.id }))}
+                title={backend.hint}
+                className={`text-xs px-2 py-1 rounded glass-control ${
+                  form.backend === backend.id ? 'text-[--accent] border border-[--accent]/50' : 'text-[--ui-text-primary]'
+                }`}
+              >
+                {backend.label}
+              </button>
+            ))}
+          </div>
+
           {/* Preset chips */}
           <div className="flex flex-wrap items-center gap-1.5">
             <span className="text-[11px] text-[--ui-text-dimmed] mr-1">Provider:</span>
@@ -303,23 +504,70 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
           </div>
 
           <div className="flex flex-col gap-1">
-            <label className="text-[11px] text-[--ui-text-dimmed]">Model id</label>
-            <input
-              value={form.model}
-              onChange={(e) => setForm({ ...form, model: e.target.value })}
-              placeholder={PRESETS.find((p) => p.label === form.preset)?.modelPlaceholder || 'model-id'}
-              className="bg-[--ui-bg-input] border border-[#444] rounded px-2 py-1 text-xs font-mono text-[--ui-text-primary] outline-none focus:border-[--accent]"
-            />
+            <label className="text-[11px] text-[--ui-text-dimmed]">Model ids</label>
+            {form.models.map((model, i) => (
+              <div key={i} className="flex items-center gap-1.5">
+                <input
+                  value={model}
+                  onChange={(e) => setModel(i, e.target.value)}
+                  placeholder={PRESETS.find((p) => p.label === form.preset)?.modelPlaceholder || 'model-id'}
+                  className="flex-1 bg-[--ui-bg-input] border border-[#444] rounded px-2 py-1 text-xs font-mono text-[--ui-text-primary] outline-none focus:border-[--accent]"
+                />
+                {form.models.length > 1 && (
+                  <button
+                    onClick={() => setForm((f) => ({ ...f, models: f.models.filter((_, j) => j !== i) }))}
+                    className="shrink-0 text-[10px] text-[--ui-text-dimmed] hover:text-red-400 px-1"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => setForm((f) => ({ ...f, models: [...f.models, ''] }))}
+              className="self-start text-[11px] text-[--accent] hover:underline"
+            >
+              + Another model
+            </button>
           </div>
 
+          {/* Routing slots: which of this provider's models gets which requests */}
+          {models.length > 1 && (
+            <div className="flex flex-col gap-1.5">
+              <label className="text-[11px] text-[--ui-text-dimmed]">Routing</label>
+              {ROUTER_SLOTS.map((slot) => (
+                <div key={slot.id} className="flex items-center justify-between gap-3" title={slot.hint}>
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-xs text-[--ui-text-primary]">{slot.label}</span>
+                    <span className="text-[10px] text-[--ui-text-dimmed] truncate">{slot.hint}</span>
+                  </div>
+                  <select
+                    value={slot.id === 'default' ? defaultModel : slotModel(slot.id)}
+                    onChange={(e) => setForm((f) => ({ ...f, routes: { ...f.routes, [slot.id]: e.target.value || undefined } }))}
+                    className="bg-[--ui-bg-input] border border-[#444] rounded px-2 py-1 text-xs font-mono text-[--ui-text-primary] outline-none focus:border-[--accent] max-w-[50%]"
+                  >
+                    {slot.id !== 'default' && <option value="">Default model</option>}
+                    {models.map((m) => (
+                      <option key={m} value={m}>{m}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="flex flex-col gap-1">
-            <label className="text-[11px] text-[--ui-text-dimmed]">API key (stored locally, never echoed)</label>
+            <label className="text-[11px] text-[--ui-text-dimmed]">
+              {status?.secrets.available === false
+                ? 'API key (no OS secret store — saved in ccr’s config file, never echoed)'
+                : 'API key (kept in the OS secret store, never echoed)'}
+            </label>
             <div className="flex items-center gap-1.5">
               <input
                 type={revealKey ? 'text' : 'password'}
                 value={form.apiKey}
                 onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
-                placeholder="sk-..."
+                placeholder={form.editingId ? 'Unchanged' : 'sk-...'}
                 className="flex-1 bg-[--ui-bg-input] border border-[#444] rounded px-2 py-1 text-xs font-mono text-[--ui-text-primary] outline-none focus:border-[--accent]"
               />
               <button
@@ -331,10 +579,42 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
             </div>
           </div>
 
-          {/* Test feedback */}
-          {testState.kind === 'ok' && <p className="text-[11px] text-emerald-400">✓ Connected — the provider answered.</p>}
+          {/* Test feedback: one row per diagnostic step */}
+          {testState.kind === 'testing' && (
+            <p className="text-[11px] text-[--ui-text-dimmed]">
+              Checking auth, streaming, tool calls and context length — this takes a few seconds…
+            </p>
+          )}
+          {testState.kind === 'ok' && (
+            <p className="text-[11px] text-emerald-400">
+              ✓ {testState.result?.steps.some((s) => s.status === 'warn')
+                ? 'Ready to drive Claude Code, with warnings below.'
+                : 'Ready to drive Claude Code — every check passed.'}
+            </p>
+          )}
           {testState.kind === 'err' && (
-            <p className="text-[11px] text-red-400 break-words">✕ {testState.msg || 'Connection failed.'}</p>
+            <p className="text-[11px] text-red-400 break-words">
+              ✕ {testState.result?.steps.length ? 'Not ready — see the failed check below.' : testState.msg || 'Connection failed.'}
+            </p>
+          )}
+          {testState.kind !== 'testing' && !!testState.result?.steps.length && (
+            <div className="flex flex-col gap-1 rounded border border-[#333] px-2 py-1.5">
+              {testState.result.model && (
+                <span className="text-[10px] text-[--ui-text-dimmed]">
+                  Tested <span className="font-mono">{testState.result.model}</span>
+                </span>
+              )}
+              {testState.result.steps.map((step) => (
+                <div key={step.id} className="flex items-baseline gap-2 text-[11px]">
+                  <span className={`w-3 shrink-0 ${STEP_MARKS[step.status].color}`}>{STEP_MARKS[step.status].mark}</span>
+                  <span className="shrink-0 text-[--ui-text-primary]">{step.label}</span>
+                  <span className="flex-1 min-w-0 break-words text-[--ui-text-dimmed]">{step.detail}</span>
+                  {step.status !== 'skip' && (
+                    <span className="shrink-0 font-mono text-[10px] text-[--ui-text-faint]">{step.ms} ms</span>
+                  )}
+                </div>
+              ))}
+            </div>
           )}
 
           <div className="flex items-center gap-2 pt-1">
@@ -347,7 +627,7 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
             </button>
             <button
               onClick={test}
-              disabled={!form.baseUrl.trim() || !form.model.trim() || testState.kind === 'testing'}
+              disabled={!form.baseUrl.trim() || models.length === 0 || testState.kind === 'testing'}
               className="text-xs px-3 py-1 rounded glass-control text-[--ui-text-primary] disabled:opacity-40"
             >
               {testState.kind === 'testing' ? 'Testing…' : 'Test connection'}
@@ -359,6 +639,7 @@ export const ModelRouterSettings = memo(function ModelRouterSettings() {
           <p className="text-[10px] text-[--ui-text-dimmed]">
             Saving writes the model to claude-code-router's local config and creates a launchable “{`Claude Code · …`}”
             agent. Pick it on any pane to run that model as Claude Code.
+            {form.backend === 'builtin' && ' The built-in proxy starts when such a pane launches and listens on this machine only.'}
           </p>
         </div>
       )}
@@ -1,6 +1,7 @@
 import { memo, useCallback, useEffect, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
 import { useWorkspaceStore } from '../store/workspace'
+import { AgentActivity, AGENT_ACTIVITY_LABELS, PaneWorktree } from '../../shared/types'
 import { focusTerminal, launchAgent, resolvePaneProfile } from './TerminalPane'
 
 interface OpenInPaneButtonProps {
@@ -8,36 +9,56 @@ interface OpenInPaneButtonProps {
 }
 
 // Short human status for the picker (shown only when no pane is free)
-function paneStatus(state: string, serverCount: number): string {
+function paneStatus(state: string, serverCount: number, activity?: AgentActivity): string {
+  if (activity && activity !== 'idle-at-prompt') return `agent — ${AGENT_ACTIVITY_LABELS[activity].toLowerCase()}`
   if (state === 'claude-waiting') return 'Claude — needs you'
   if (state === 'claude-active') return 'Claude running'
   if (serverCount > 0) return `server${serverCount > 1 ? 's' : ''} running`
   return 'idle'
 }
 
+// Suggested branch for a new worktree: qc/<folder>-<short random suffix>
+function suggestBranch(dir: string): string {
+  const folder = (dir.split('/').filter(Boolean).pop() ?? 'work').toLowerCase().replace(/[^a-z0-9._-]+/g, '-')
+  return `qc/${folder}-${Math.random().toString(36).slice(2, 6)}`
+}
+
 /**
  * Opens THIS pane's project folder in another pane and auto-starts Claude
  * there. Uses the next free (idle shell, no server) pane in one click; if
  * none are free, shows a picker so you can deliberately override a busy pane.
+ * The caret next to it does the same on a new git worktree (own branch, own
+ * checkout) so parallel agents don't share a working tree.
  */
 export const OpenInPaneButton = memo(function OpenInPaneButton({ paneId }: OpenInPaneButtonProps) {
   const [pickerOpen, setPickerOpen] = useState(false)
+  const [worktreeFormOpen, setWorktreeFormOpen] = useState(false)
+  const [branch, setBranch] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [worktreeError, setWorktreeError] = useState<string | null>(null)
+  // Worktree waiting for the user to pick a pane (none were free)
+  const pendingWorktree = useRef<PaneWorktree | null>(null)
   const buttonRef = useRef<HTMLButtonElement>(null)
+  const caretRef = useRef<HTMLButtonElement>(null)
   const panelRef = useRef<HTMLDivElement>(null)
+  const isGitRepo = useWorkspaceStore((s) => !!s.panes.find((p) => p.id === paneId)?.gitStatus?.isGitRepo)
 
   useEffect(() => {
-    if (!pickerOpen) return
+    if (!pickerOpen && !worktreeFormOpen) return
     const handler = (e: MouseEvent) => {
       if (
         panelRef.current && !panelRef.current.contains(e.target as Node) &&
-        buttonRef.current && !buttonRef.current.contains(e.target as Node)
+        buttonRef.current && !buttonRef.current.contains(e.target as Node) &&
+        !caretRef.current?.contains(e.target as Node)
       ) {
         setPickerOpen(false)
+        setWorktreeFormOpen(false)
+        pendingWorktree.current = null
       }
     }
     document.addEventListener('mousedown', handler)
     return () => document.removeEventListener('mousedown', handler)
-  }, [pickerOpen])
+  }, [pickerOpen, worktreeFormOpen])
 
   // Resolve the freshest folder for the source pane (real cwd, then tracked)
   const resolveDir = useCallback(async (): Promise<string | null> => {
@@ -53,7 +74,9 @@ export const OpenInPaneButton = memo(function OpenInPaneButton({ paneId }: OpenI
 
   const launchIn = useCallback(async (targetId: number) => {
     setPickerOpen(false)
-    const dir = await resolveDir()
+    const worktree = pendingWorktree.current
+    pendingWorktree.current = null
+    const dir = worktree?.path ?? (await resolveDir())
     if (!dir) return
     const store = useWorkspaceStore.getState()
     // Launch the TARGET pane's assigned agent (Claude / local model / ...) in a
@@ -62,16 +85,19 @@ export const OpenInPaneButton = memo(function OpenInPaneButton({ paneId }: OpenI
     const targetPane = store.panes.find((p) => p.id === targetId)
     const profile = resolvePaneProfile(targetPane, store.preferences)
     await launchAgent(targetId, profile, dir, dir)
+    // The target now belongs to this worktree (or to none, for a plain fork)
+    store.updatePane(targetId, { worktree: worktree ?? undefined })
     store.setActivePaneId(targetId)
     focusTerminal(targetId)
   }, [resolveDir])
 
-  const handleClick = useCallback(() => {
+  const openTarget = useCallback(() => {
     const store = useWorkspaceStore.getState()
     const free = store.panes.find(
       (p) =>
         p.id !== paneId &&
         p.state === 'shell' &&
+        !p.activity && // no agent classified as running there either
         (!p.servers || p.servers.length === 0)
     )
     if (free) {
@@ -82,10 +108,45 @@ export const OpenInPaneButton = memo(function OpenInPaneButton({ paneId }: OpenI
     }
   }, [paneId, launchIn])
 
+  const handleClick = useCallback(() => {
+    pendingWorktree.current = null
+    openTarget()
+  }, [openTarget])
+
+  const openWorktreeForm = async () => {
+    if (worktreeFormOpen) {
+      setWorktreeFormOpen(false)
+      return
+    }
+    setPickerOpen(false)
+    setWorktreeError(null)
+    setBranch(suggestBranch((await resolveDir()) ?? ''))
+    setWorktreeFormOpen(true)
+  }
+
+  // Create the worktree, then place it like a fork: free pane, else picker
+  const createWorktree = async () => {
+    const dir = await resolveDir()
+    if (!dir || !branch.trim() || creating) return
+    setCreating(true)
+    setWorktreeError(null)
+    try {
+      const { preferences } = useWorkspaceStore.getState()
+      pendingWorktree.current = await window.electronAPI.createWorktree(dir, branch.trim(), preferences.worktreeDirectory)
+      setWorktreeFormOpen(false)
+      openTarget()
+    } catch (error) {
+      // ipcRenderer.invoke prefixes "Error invoking remote method ...: Error: "
+      setWorktreeError((error instanceof Error ? error.message : String(error)).replace(/^.*?Error: /, ''))
+    } finally {
+      setCreating(false)
+    }
+  }
+
   const getPosition = () => {
     if (!buttonRef.current) return { top: 0, left: 0 }
     const rect = buttonRef.current.getBoundingClientRect()
-    return { top: rect.bottom + 4, left: rect.right - 200 }
+    return { top: rect.bottom + 4, left: rect.right - (worktreeFormOpen ? 260 : 200) }
   }
 
   const others = useWorkspaceStore.getState().panes.filter((p) => p.id !== paneId)
@@ -105,6 +166,54 @@ export const OpenInPaneButton = memo(function OpenInPaneButton({ paneId }: OpenI
         </svg>
         <span className="text-[10px] leading-none">Fork</span>
       </button>
+      {isGitRepo && (
+        <button
+          ref={caretRef}
+          onClick={openWorktreeForm}
+          className="-ml-1.5 px-0.5 py-0.5 text-[--ui-text-dimmed] hover:text-[--ui-text-primary] transition-colors rounded"
+          title="New worktree pane — fork onto a new branch in its own git worktree"
+          aria-label="New worktree pane"
+        >
+          <svg width="8" height="8" viewBox="0 0 10 10" fill="none" stroke="currentColor" strokeWidth="1.5">
+            <path d="M2 3.5L5 6.5L8 3.5" strokeLinecap="round" strokeLinejoin="round" />
+          </svg>
+        </button>
+      )}
+
+      {worktreeFormOpen && createPortal(
+        <div
+          ref={panelRef}
+          className="fixed z-50 w-[260px] bg-[--ui-bg-elevated] border border-[#444] rounded-md shadow-lg overflow-hidden"
+          style={getPosition()}
+        >
+          <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-[--ui-text-dimmed] border-b border-[#444]">
+            New worktree pane
+          </div>
+          <div className="px-3 py-2 space-y-2">
+            <input
+              autoFocus
+              value={branch}
+              onChange={(e) => setBranch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') createWorktree()
+                if (e.key === 'Escape') setWorktreeFormOpen(false)
+              }}
+              placeholder="Branch name"
+              className="w-full bg-[--ui-bg-base] border border-[#444] rounded px-1.5 py-1 text-xs text-[--ui-text-primary] outline-none focus:border-[--accent]"
+              spellCheck={false}
+            />
+            {worktreeError && <div className="text-[10px] text-[#f87171] break-words">{worktreeError}</div>}
+            <button
+              onClick={createWorktree}
+              disabled={creating || !branch.trim()}
+              className="w-full px-2 py-1 rounded text-xs bg-[--accent] text-white disabled:opacity-50"
+            >
+              {creating ? 'Creating…' : 'Create branch and open'}
+            </button>
+          </div>
+        </div>,
+        document.body
+      )}
 
       {pickerOpen && createPortal(
         <div
@@ -124,7 +233,7 @@ export const OpenInPaneButton = memo(function OpenInPaneButton({ paneId }: OpenI
             >
               <span className="text-[--ui-text-primary] truncate">{p.label}</span>
               <span className="text-[10px] text-[--ui-text-dimmed] shrink-0">
-                {paneStatus(p.state, p.servers?.length ?? 0)}
+                {paneStatus(p.state, p.servers?.length ?? 0, p.activity)}
               </span>
             </button>
           ))}
@@ -1,13 +1,22 @@
-import { DragEvent, memo } from 'react'
-import { MIN_PANES } from '../../shared/types'
-import { useWorkspaceStore } from '../store/workspace'
+import { DragEvent, memo, useState } from 'react'
+import { MIN_PANES, MAIN_WINDOW_ID } from '../../shared/types'
+import { useWorkspaceStore, shownPaneIds } from '../store/workspace'
+import { Command, registerCommands } from '../commands'
 import { clearTerminal, disposeTerminalForPane, restartShell } from './TerminalPane'
 import { FavoritesDropdown } from './FavoritesDropdown'
 import { OpenInPaneButton } from './OpenInPaneButton'
 import { AgentBadge } from './AgentBadge'
+import { PromptQueueButton } from './PromptQueue'
+import { toggleBroadcastTarget } from './BroadcastMenu'
+import { WorktreeFinishDialog } from './WorktreeFinishDialog'
+import { DiffReviewPanel } from './DiffReviewPanel'
 
 // Custom MIME type for pane drag operations
 export const PANE_DRAG_TYPE = 'application/x-quadclaude-pane'
+// Set alongside it, suffixed with the source window's id. Only the type names
+// are readable during dragover, so this is how a window tells its own panes
+// from ones dragged in from another window.
+export const PANE_WINDOW_DRAG_PREFIX = 'application/x-quadclaude-window-'
 
 interface PaneHeaderProps {
   paneId: number
@@ -41,6 +50,76 @@ function getFolderName(path: string): string {
   return name || 'Terminal'
 }
 
+// Off to the shelf: the xterm goes, the shell keeps running headless
+function shelve(paneId: number) {
+  const shelved = useWorkspaceStore.getState().shelvePane(paneId)
+  if (shelved !== null) disposeTerminalForPane(shelved)
+}
+
+// Into a window of its own (a paired pane takes its partner along), or back
+// to the main window from a detached one
+function moveToWindow(paneId: number) {
+  const { panes, windowId } = useWorkspaceStore.getState()
+  if (windowId !== MAIN_WINDOW_ID) {
+    window.electronAPI.movePaneToWindow(paneId, MAIN_WINDOW_ID)
+    return
+  }
+  const pairId = panes.find((p) => p.id === paneId)?.pairId
+  const group = pairId ? panes.filter((p) => p.pairId === pairId).map((p) => p.id) : [paneId]
+  window.electronAPI.detachPanes(group)
+}
+
+async function stopServer(paneId: number, pid: number) {
+  await window.electronAPI.killServer(paneId, pid)
+  const store = useWorkspaceStore.getState()
+  const servers = store.panes.find((p) => p.id === paneId)?.servers ?? []
+  store.setPaneServers(paneId, servers.filter((x) => x.pid !== pid))
+}
+
+// The header's buttons, for the active pane
+registerCommands('pane', ({ paneId, pane }) => {
+  if (!pane) return []
+  const store = useWorkspaceStore.getState()
+  const detail = pane.label
+  const commands: Command[] = [
+    { id: 'pane:clear', title: 'Clear', category: 'Pane', detail, hotkey: 'Cmd+K', run: () => clearTerminal(paneId) },
+    {
+      id: 'pane:restart-shell',
+      title: 'Stop and Reset Shell',
+      category: 'Pane',
+      detail,
+      run: () => restartShell(paneId, pane.workingDirectory),
+    },
+    store.windowId !== MAIN_WINDOW_ID
+      ? { id: 'pane:move-to-main', title: 'Move to Main Window', category: 'Pane', detail, run: () => moveToWindow(paneId) }
+      : { id: 'pane:move-to-window', title: 'Open in New Window', category: 'Pane', detail, run: () => moveToWindow(paneId) },
+  ]
+  if (!pane.shelved && shownPaneIds(store).length > 1) {
+    commands.push({ id: 'pane:shelve', title: 'Move to Shelf', category: 'Pane', detail, run: () => shelve(paneId) })
+  }
+  for (const s of pane.servers ?? []) {
+    commands.push(
+      {
+        id: `pane:open-port:${s.port}`,
+        title: `Open localhost:${s.port}`,
+        category: 'Server',
+        detail: s.command,
+        run: () => {
+          void window.electronAPI.openExternal(`http://localhost:${s.port}`)
+        },
+      },
+      {
+        id: `pane:stop-server:${s.port}`,
+        title: `Stop Server on Port ${s.port}`,
+        category: 'Server',
+        detail: s.command,
+        run: () => stopServer(paneId, s.pid),
+      },
+    )
+  }
+  return commands
+})
+
 export const PaneHeader = memo(function PaneHeader({ paneId }: PaneHeaderProps) {
   // Atomic selectors so this header only re-renders for its own pane's
   // changes, not every other pane's state/git/cwd churn.
@@ -49,9 +128,18 @@ export const PaneHeader = memo(function PaneHeader({ paneId }: PaneHeaderProps)
   const isActive = useWorkspaceStore((s) => s.activePaneId === paneId)
   const setActivePaneId = useWorkspaceStore((s) => s.setActivePaneId)
   const removePane = useWorkspaceStore((s) => s.removePane)
+  const windowId = useWorkspaceStore((s) => s.windowId)
+  // The grid keeps at least one pane, so the last one can't go to the shelf
+  const canShelve = useWorkspaceStore((s) => shownPaneIds(s).length > 1)
+  // Broadcast mode on: true/false for whether this pane receives; null = off
+  const broadcasting = useWorkspaceStore((s) => (s.broadcastPaneIds ? s.broadcastPaneIds.includes(paneId) : null))
   // The original four panes (slots 0-3) are permanent; only extras (slot 4+)
   // can be closed, and the store floor keeps the count from dropping below 4.
   const canClose = paneIndex >= MIN_PANES
+  // Worktree dialog: 'close' when closing the pane asked first, 'finish' when
+  // opened from the worktree chip (the pane stays, back in the main checkout)
+  const [finishingWorktree, setFinishingWorktree] = useState<'close' | 'finish' | null>(null)
+  const [reviewOpen, setReviewOpen] = useState(false)
 
   const paneColor = PANE_COLORS[paneIndex % PANE_COLORS.length]
 
@@ -65,18 +153,36 @@ export const PaneHeader = memo(function PaneHeader({ paneId }: PaneHeaderProps)
   // Close an extra pane: drop it from the layout, then tear down its PTY and
   // xterm instance so the slot id can be reused by a future add.
   const closePane = () => {
+    if (pane.worktree && finishingWorktree !== 'close') {
+      setFinishingWorktree('close')
+      return
+    }
+    setFinishingWorktree(null)
     const removed = removePane(paneId)
     if (removed === null) return
     window.electronAPI.killPty(removed)
     disposeTerminalForPane(removed)
   }
 
+  const finishWorktree = (removed: boolean) => {
+    setFinishingWorktree(null)
+    const worktree = pane.worktree
+    if (!worktree) return
+    const store = useWorkspaceStore.getState()
+    store.updatePane(paneId, { worktree: undefined })
+    if (removed) {
+      store.setPaneCwd(paneId, worktree.repoRoot)
+      restartShell(paneId, worktree.repoRoot)
+    }
+  }
+
   // Display name is the folder/repo name from working directory
   const displayName = getFolderName(pane.workingDirectory)
 
   // Drag handlers for pane reordering
   const handleDragStart = (e: DragEvent<HTMLDivElement>) => {
     e.dataTransfer.setData(PANE_DRAG_TYPE, paneId.toString())
+    e.dataTransfer.setData(PANE_WINDOW_DRAG_PREFIX + windowId, windowId)
     e.dataTransfer.effectAllowed = 'move'
     // Make the dragged pane the active pane
     setActivePaneId(paneId)
@@ -132,11 +238,7 @@ export const PaneHeader = memo(function PaneHeader({ paneId }: PaneHeaderProps)
                 </button>
                 <span className="text-[--git-orange]/30 mx-0.5">|</span>
                 <button
-                  onClick={async () => {
-                    await window.electronAPI.killServer(paneId, s.pid)
-                    const remaining = servers.filter((x) => x.pid !== s.pid)
-                    useWorkspaceStore.getState().setPaneServers(paneId, remaining)
-                  }}
+                  onClick={() => stopServer(paneId, s.pid)}
                   className="text-[--git-orange]/60 hover:text-[--git-orange] transition-colors"
                   title={`Stop ${s.command} (pid ${s.pid})`}
                 >
@@ -150,6 +252,20 @@ export const PaneHeader = memo(function PaneHeader({ paneId }: PaneHeaderProps)
         {/* Git status - compact inline */}
         {pane.gitStatus?.isGitRepo && (
           <div className="flex items-center gap-1.5 font-mono text-[10px] mr-1">
+            {pane.gitStatus.worktree && (
+              <button
+                onClick={() => pane.worktree && setFinishingWorktree('finish')}
+                className={`flex items-center gap-0.5 text-[--git-cyan] ${pane.worktree ? 'hover:text-[--ui-text-primary] transition-colors' : 'cursor-default'}`}
+                title={
+                  pane.worktree
+                    ? `Worktree ${pane.gitStatus.worktree} (from ${pane.worktree.baseBranch}) — merge, push, or delete it`
+                    : `Worktree ${pane.gitStatus.worktree}`
+                }
+              >
+                <span>⎇</span>
+                <span>{pane.gitStatus.worktree}</span>
+              </button>
+            )}
             <span className="flex items-center gap-1">
               <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor" className="text-[--git-green]">
                 <path d="M8 0C3.58 0 0 3.58 0 8c0 3.54 2.29 6.53 5.47 7.59.4.07.55-.17.55-.38 0-.19-.01-.82-.01-1.49-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82.64-.18 1.32-.27 2-.27.68 0 1.36.09 2 .27 1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48 0 1.07-.01 1.93-.01 2.2 0 .21.15.46.55.38A8.013 8.013 0 0016 8c0-4.42-3.58-8-8-8z"/>
@@ -165,10 +281,30 @@ export const PaneHeader = memo(function PaneHeader({ paneId }: PaneHeaderProps)
             {(pane.gitStatus.dirty ?? 0) > 0 && (
               <span className="text-[--git-orange]">●{pane.gitStatus.dirty}</span>
             )}
+            <button
+              onClick={() => setReviewOpen(!reviewOpen)}
+              className={`px-1 py-0.5 rounded transition-colors ${reviewOpen ? 'text-[--ui-text-primary] bg-white/[0.06]' : 'text-[--ui-text-dimmed] hover:text-[--ui-text-primary]'}`}
+              title="Review changes — diff, stage, commit"
+            >
+              Diff
+            </button>
           </div>
         )}
         <FavoritesDropdown paneId={paneId} currentDirectory={pane.workingDirectory} />
         <OpenInPaneButton paneId={paneId} />
+        {broadcasting !== null && (
+          <button
+            onClick={() => toggleBroadcastTarget(paneId)}
+            className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] leading-none shrink-0 transition-colors ${
+              broadcasting
+                ? 'text-[--git-orange] bg-[--git-orange]/10'
+                : 'text-[--ui-text-dimmed] hover:text-[--ui-text-primary] border border-dashed border-white/[0.12]'
+            }`}
+            title={broadcasting ? 'Receiving broadcast input — click to leave out' : 'Click to include in the broadcast'}
+          >
+            {broadcasting ? 'Broadcast' : '+ Broadcast'}
+          </button>
+        )}
         {pane.pairId && (
           <span
             className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] leading-none capitalize shrink-0"
@@ -180,6 +316,39 @@ export const PaneHeader = memo(function PaneHeader({ paneId }: PaneHeaderProps)
           </span>
         )}
         <AgentBadge paneId={paneId} />
+        <PromptQueueButton paneId={paneId} />
+        {canShelve && (
+          <button
+            onClick={() => shelve(paneId)}
+            className="flex items-center px-1 py-0.5 text-[--ui-text-dimmed] hover:text-[--ui-text-primary] transition-colors rounded"
+            title="Shelve — keep it running off the grid"
+            aria-label="Shelve terminal"
+          >
+            <svg width="12" height="12" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.4">
+              <path d="M3 3h10v6H3zM2 13h12" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          </button>
+        )}
+        <button
+          onClick={() => moveToWindow(paneId)}
+          className="flex items-center px-1 py-0.5 text-[--ui-text-dimmed] hover:text-[--ui-text-primary] transition-colors rounded"
+          title={
+            windowId !== MAIN_WINDOW_ID
+              ? 'Move back to the main window'
+              : pane.pairId
+                ? 'Move this pair to a new window'
+                : 'Move to a new window — drag a pane onto another window to move it there'
+          }
+          aria-label={windowId !== MAIN_WINDOW_ID ? 'Move to main window' : 'Move to new window'}
+        >
+          <svg width="12" height="12" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.4">
+            {windowId !== MAIN_WINDOW_ID ? (
+              <path d="M9 3H3v10h10V7M13 3L7 9M7 5v4h4" strokeLinecap="round" strokeLinejoin="round" />
+            ) : (
+              <path d="M9 3H3v10h10V7M7 9l6-6M9 3h4v4" strokeLinecap="round" strokeLinejoin="round" />
+            )}
+          </svg>
+        </button>
         <button
           onClick={() => restartShell(paneId, pane.workingDirectory)}
           className="flex items-center gap-1 px-1 py-0.5 text-[--ui-text-dimmed] hover:text-red-400 transition-colors rounded"
@@ -215,6 +384,17 @@ export const PaneHeader = memo(function PaneHeader({ paneId }: PaneHeaderProps)
           </button>
         )}
       </div>
+
+      {reviewOpen && <DiffReviewPanel paneId={paneId} onClose={() => setReviewOpen(false)} />}
+
+      {finishingWorktree && pane.worktree && (
+        <WorktreeFinishDialog
+          worktree={pane.worktree}
+          closing={finishingWorktree === 'close'}
+          onCancel={() => setFinishingWorktree(null)}
+          onFinished={finishingWorktree === 'close' ? closePane : finishWorktree}
+        />
+      )}
     </div>
   )
 })
@@ -0,0 +1,114 @@
+import { memo, useEffect, useState } from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import { useWorkspaceStore, shelvedPaneIds } from '../store/workspace'
+import { AGENT_ACTIVITY_LABELS, PaneConfig, isAwaitingUser } from '../../shared/types'
+import { disposeTerminalForPane, startHeadlessPty } from './TerminalPane'
+import { paneRepoName } from '../hooks/useAttention'
+
+// How often the shelf refreshes its last-line previews
+const PREVIEW_INTERVAL_MS = 2000
+
+// Bring a shelved pane into the grid. In a full grid this shelves another
+// pane, whose xterm goes (its shell keeps running).
+export function promotePane(paneId: number) {
+  const swappedOut = useWorkspaceStore.getState().unshelvePane(paneId)
+  if (swappedOut !== null) disposeTerminalForPane(swappedOut)
+}
+
+function statusColor(pane: PaneConfig): string {
+  if (pane.activity) {
+    if (isAwaitingUser(pane.activity)) return 'var(--git-yellow)'
+    if (pane.activity === 'finished-task') return 'var(--git-cyan)'
+    if (pane.activity === 'errored') return '#f87171'
+    if (pane.activity === 'thinking' || pane.activity === 'running-tool') return 'var(--git-green)'
+    return 'var(--ui-text-dimmed)'
+  }
+  if (pane.state === 'claude-waiting') return 'var(--git-yellow)'
+  if (pane.state === 'claude-active') return 'var(--git-green)'
+  return 'var(--ui-text-dimmed)'
+}
+
+function statusLabel(pane: PaneConfig): string {
+  if (pane.activity) return AGENT_ACTIVITY_LABELS[pane.activity]
+  return pane.state === 'shell' ? 'Shell' : 'Claude'
+}
+
+// Strip under the grid listing the panes that run headless: status, name and
+// the last line they printed. Click one to bring it into the grid. Only
+// rendered while this window has shelved panes.
+export const PaneShelf = memo(function PaneShelf() {
+  const shelvedIds = useWorkspaceStore(useShallow(shelvedPaneIds))
+  const shelved = useWorkspaceStore(
+    useShallow((s) => s.panes.filter((p) => shelvedIds.includes(p.id))),
+  )
+  const [lastLines, setLastLines] = useState<Record<number, string>>({})
+
+  // Shelved panes with no shell yet (restored onto the shelf) get one
+  useEffect(() => {
+    for (const id of shelvedIds) startHeadlessPty(id)
+  }, [shelvedIds])
+
+  // No TerminalPane listens for these panes, so the shelf keeps their agent
+  // state current and respawns a shell that exits
+  useEffect(() => {
+    if (shelvedIds.length === 0) return
+    const offState = window.electronAPI.onAgentState((paneId, update) => {
+      if (!shelvedIds.includes(paneId)) return
+      const store = useWorkspaceStore.getState()
+      store.setPaneActivity(paneId, update)
+      if (update.sessionId && update.activity) {
+        store.setPaneClaudeSession(paneId, update.sessionId)
+        if (store.panes.find((p) => p.id === paneId)?.state === 'shell') store.setPaneState(paneId, 'claude-active')
+      }
+    })
+    const offExit = window.electronAPI.onPtyExit((paneId) => {
+      if (!shelvedIds.includes(paneId)) return
+      useWorkspaceStore.getState().setPaneState(paneId, 'shell')
+      startHeadlessPty(paneId)
+    })
+    return () => {
+      offState()
+      offExit()
+    }
+  }, [shelvedIds])
+
+  // Previews come from main's output tail; paused while the window is hidden
+  useEffect(() => {
+    if (shelvedIds.length === 0) return
+    let cancelled = false
+    const poll = async () => {
+      if (document.hidden) return
+      const lines = await window.electronAPI.getLastLines(shelvedIds).catch(() => null)
+      if (!cancelled && lines) setLastLines(lines)
+    }
+    poll()
+    const interval = setInterval(poll, PREVIEW_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [shelvedIds])
+
+  if (shelved.length === 0) return null
+
+  return (
+    <div className="shrink-0 flex items-stretch gap-1 px-2 pb-2 overflow-x-auto font-mono glass" role="list" aria-label="Shelved terminals">
+      {shelved.map((pane) => (
+        <button
+          key={pane.id}
+          onClick={() => promotePane(pane.id)}
+          className="group flex flex-col gap-0.5 min-w-[160px] max-w-[260px] px-2.5 py-1.5 rounded glass-control border border-white/[0.06] hover:border-[--accent]/60 text-left transition-colors"
+          title={`${pane.label} — ${statusLabel(pane)}${pane.activityDetail ? ` — ${pane.activityDetail}` : ''}\nClick to bring into the grid`}
+          role="listitem"
+        >
+          <div className="flex items-center gap-1.5 min-w-0">
+            <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: statusColor(pane) }} />
+            <span className="text-[11px] text-[--ui-text-secondary] truncate">{paneRepoName(pane)}</span>
+            <span className="ml-auto text-[10px] text-[--ui-text-muted] shrink-0">{statusLabel(pane)}</span>
+          </div>
+          <div className="text-[10px] text-[--ui-text-dimmed] truncate">{lastLines[pane.id] ?? ' '}</div>
+        </button>
+      ))}
+    </div>
+  )
+})
@@ -0,0 +1,70 @@
+import { memo } from 'react'
+import { useWorkspaceStore } from '../store/workspace'
+import { dismissProject, trustProject } from '../hooks/useProjectConfig'
+import { PROJECT_CONFIG_FILE } from '../../shared/types'
+
+// Asks before a project's .quadclaude.json applies: it can run commands and
+// set env, so the user sees what it wants first. Trust is for this version of
+// the file; changing it asks again.
+export const ProjectTrustDialog = memo(function ProjectTrustDialog() {
+  const request = useWorkspaceStore((s) => s.projectTrustRequest)
+  if (!request) return null
+  const { paneId, project } = request
+  const { agent, env, portBase, startup, prompts, pair } = project.config
+  const name = project.root.split('/').pop() || project.root
+
+  const row = (label: string, value: React.ReactNode) => (
+    <div className="flex gap-3 text-xs">
+      <span className="w-24 shrink-0 text-[--ui-text-muted]">{label}</span>
+      <span className="flex-1 min-w-0 text-[--ui-text-primary] break-words">{value}</span>
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/40">
+      <div className="bg-[--ui-bg-elevated] border border-[--ui-border] rounded-xl shadow-2xl w-[480px] max-w-[90vw]">
+        <div className="px-5 pt-4 pb-3 border-b border-white/[0.06]">
+          <h2 className="text-sm font-medium text-[--ui-text-primary] truncate">Project settings for {name}</h2>
+          <p className="text-[11px] text-[--ui-text-dimmed] mt-1 truncate" title={project.root}>
+            {project.root}/{PROJECT_CONFIG_FILE}
+          </p>
+        </div>
+        <div className="p-5 space-y-2 max-h-[50vh] overflow-y-auto">
+          {agent && row('Agent', agent)}
+          {env && row('Environment', <span className="font-mono">{Object.keys(env).join(', ')}</span>)}
+          {portBase !== undefined && row('Port base', portBase)}
+          {startup && row('Startup', (
+            <div className="space-y-0.5">
+              {startup.map((s) => (
+                <div key={s.command} className="font-mono">
+                  {s.command}
+                  {s.label && <span className="text-[--ui-text-dimmed] font-sans"> · {s.label}</span>}
+                </div>
+              ))}
+            </div>
+          ))}
+          {pair && row('Pairing', pair === true ? 'Worker pane' : `Worker pane running ${pair}`)}
+          {prompts && row('Prompts', <span className="font-mono">{prompts}</span>)}
+          <p className="text-[11px] text-[--ui-text-dimmed] pt-2">
+            Startup commands run in new panes, and the environment reaches every shell started in this project.
+            Only trust projects you know.
+          </p>
+        </div>
+        <div className="px-5 pb-4 flex gap-2 justify-end">
+          <button
+            onClick={() => dismissProject(project)}
+            className="px-4 py-2 text-xs bg-[--ui-bg-active] text-[--ui-text-secondary] rounded-lg hover:bg-[--ui-border] transition-all"
+          >
+            Not Now
+          </button>
+          <button
+            onClick={() => trustProject(paneId, project)}
+            className="px-4 py-2 text-xs bg-[--accent] text-white rounded-lg hover:opacity-90 transition-all"
+          >
+            Trust & Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,59 @@
+import { useState, useRef, useEffect, memo } from 'react'
+
+interface PromptInputsDialogProps {
+  title: string
+  labels: string[]
+  onSubmit: (inputs: Record<string, string>) => void
+  onClose: () => void
+}
+
+// Fill-in form for a prompt template's {{input:Label}} fields, shown before
+// the prompt is sent or queued
+export const PromptInputsDialog = memo(function PromptInputsDialog({ title, labels, onSubmit, onClose }: PromptInputsDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const firstRef = useRef<HTMLInputElement>(null)
+  const backdropRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => { firstRef.current?.focus() }, [])
+
+  const submit = () => onSubmit(values)
+
+  return (
+    <div
+      ref={backdropRef}
+      className="fixed inset-0 z-[200] flex items-center justify-center bg-black/40"
+      onClick={(e) => { if (e.target === backdropRef.current) onClose() }}
+    >
+      <div className="bg-[--ui-bg-elevated] border border-[--ui-border] rounded-xl shadow-2xl w-[400px] max-w-[90vw]">
+        <div className="px-5 pt-4 pb-3 border-b border-white/[0.06]">
+          <h2 className="text-sm font-medium text-[--ui-text-primary] truncate">{title}</h2>
+        </div>
+        <div className="p-5 space-y-3">
+          {labels.map((label, i) => (
+            <div key={label}>
+              <label className="block text-xs text-[--ui-text-muted] mb-1.5">{label}</label>
+              <input
+                ref={i === 0 ? firstRef : undefined}
+                type="text"
+                value={values[label] ?? ''}
+                onChange={(e) => setValues({ ...values, [label]: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submit()
+                  if (e.key === 'Escape') onClose()
+                }}
+                className="w-full px-3 py-2 text-sm bg-[--ui-bg-primary] border border-[--ui-border] text-[--ui-text-primary] rounded-lg focus:border-[--accent] focus:outline-none"
+                spellCheck={false}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="px-5 pb-4 flex gap-2 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-xs bg-[--ui-bg-active] text-[--ui-text-secondary] rounded-lg hover:bg-[--ui-border] transition-all">Cancel</button>
+          <button onClick={submit} className="px-4 py-2 text-xs bg-[--accent] text-white rounded-lg hover:opacity-90 transition-all">
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,201 @@
+import { memo, useEffect, useMemo, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useWorkspaceStore } from '../store/workspace'
+import { SavedPrompt } from '../../shared/types'
+import { fuzzyScore } from '../fuzzy'
+
+interface PromptLibraryProps {
+  anchor: HTMLElement | null
+  onChoose: (prompt: SavedPrompt, queue: boolean) => void
+  onClose: () => void
+}
+
+const MAX_RESULTS = 50
+
+// Words match name, folder or tags fuzzily (or the text, as a plain
+// substring); "#tag" words must match a tag
+function matchScore(prompt: SavedPrompt, words: string[]): number | null {
+  let total = 0
+  for (const word of words) {
+    if (word.startsWith('#')) {
+      const tag = word.slice(1)
+      if (!prompt.tags?.some((t) => t.toLowerCase().startsWith(tag))) return null
+      continue
+    }
+    const scores = [
+      fuzzyScore(word, prompt.name),
+      prompt.folder ? ((fuzzyScore(word, prompt.folder) ?? Infinity) + 5) : null,
+      prompt.tags?.length ? ((fuzzyScore(word, prompt.tags.join(' ')) ?? Infinity) + 5) : null,
+      prompt.text.toLowerCase().includes(word) ? 30 : null,
+    ].filter((s): s is number => s !== null && s !== Infinity)
+    if (scores.length === 0) return null
+    total += Math.min(...scores)
+  }
+  return total
+}
+
+// The prompt library: every saved and synced prompt by folder, fuzzy search
+// ("#tag" narrows by tag), and Markdown import/export. Enter sends the top
+// hit to the active pane; Shift+Enter queues it.
+export const PromptLibrary = memo(function PromptLibrary({ anchor, onChoose, onClose }: PromptLibraryProps) {
+  const [query, setQuery] = useState('')
+  const [selected, setSelected] = useState(0)
+  const [status, setStatus] = useState<string | null>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  const savedPrompts = useWorkspaceStore((s) => s.preferences.savedPrompts)
+  const syncedPrompts = useWorkspaceStore((s) => s.syncedPrompts)
+  const importSavedPrompts = useWorkspaceStore((s) => s.importSavedPrompts)
+
+  // Close on click outside
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (
+        panelRef.current && !panelRef.current.contains(e.target as Node) &&
+        !(anchor && anchor.contains(e.target as Node))
+      ) {
+        onClose()
+      }
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [anchor, onClose])
+
+  const results = useMemo(() => {
+    const all = [...savedPrompts, ...syncedPrompts]
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+    if (words.length === 0) {
+      // Unfiled first, then by folder
+      return all
+        .map((p, i) => ({ p, i }))
+        .sort((a, b) => (a.p.folder ?? '').localeCompare(b.p.folder ?? '') || a.i - b.i)
+        .map(({ p }) => p)
+    }
+    return all
+      .map((p) => ({ p, score: matchScore(p, words) }))
+      .filter((r): r is { p: SavedPrompt; score: number } => r.score !== null)
+      .sort((a, b) => a.score - b.score)
+      .slice(0, MAX_RESULTS)
+      .map(({ p }) => p)
+  }, [query, savedPrompts, syncedPrompts])
+
+  useEffect(() => setSelected(0), [query])
+
+  const choose = (prompt: SavedPrompt | undefined, queue: boolean) => {
+    if (!prompt) return
+    onChoose(prompt, queue)
+    onClose()
+  }
+
+  const importPrompts = async () => {
+    const prompts = await window.electronAPI.importPrompts()
+    if (!prompts) return
+    const count = importSavedPrompts(prompts)
+    setStatus(`Imported ${count} prompt${count === 1 ? '' : 's'}`)
+  }
+
+  const exportPrompts = async () => {
+    const count = await window.electronAPI.exportPrompts(savedPrompts)
+    if (count !== null) setStatus(`Exported ${count} prompt${count === 1 ? '' : 's'}`)
+  }
+
+  const rect = anchor?.getBoundingClientRect()
+  const grouped = query.trim() === ''
+
+  return createPortal(
+    <div
+      ref={panelRef}
+      className="fixed z-50 w-[360px] bg-[--ui-bg-elevated] border border-[#444] rounded-md shadow-lg overflow-hidden"
+      style={{ top: (rect?.bottom ?? 0) + 4, left: rect?.left ?? 0 }}
+    >
+      <div className="px-3 py-2 border-b border-white/[0.06]">
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowDown') {
+              e.preventDefault()
+              setSelected((i) => Math.min(i + 1, results.length - 1))
+            } else if (e.key === 'ArrowUp') {
+              e.preventDefault()
+              setSelected((i) => Math.max(i - 1, 0))
+            } else if (e.key === 'Enter') {
+              choose(results[selected], e.shiftKey)
+            } else if (e.key === 'Escape') {
+              onClose()
+            }
+          }}
+          placeholder="Search prompts — #tag to filter"
+          className="w-full bg-[--ui-bg-base] border border-[#444] rounded px-2 py-1 text-xs text-[--ui-text-primary] outline-none focus:border-[--accent]"
+          spellCheck={false}
+        />
+      </div>
+      <div className="max-h-[360px] overflow-y-auto py-1">
+        {results.length === 0 && (
+          <div className="px-3 py-1.5 text-[11px] text-[--ui-text-dimmed]">
+            {query ? 'No matching prompts' : 'No prompts yet — add one with + or import Markdown files'}
+          </div>
+        )}
+        {results.map((prompt, i) => (
+          <div key={prompt.id}>
+            {grouped && (prompt.folder ?? '') !== (results[i - 1]?.folder ?? (i === 0 ? null : '')) && (
+              <div className="px-3 pt-1.5 pb-0.5 text-[10px] uppercase tracking-wide text-[--ui-text-muted] truncate">
+                {prompt.folder ?? 'Unfiled'}
+              </div>
+            )}
+            <div
+              onClick={() => choose(prompt, false)}
+              onMouseEnter={() => setSelected(i)}
+              className={`group flex items-center gap-2 px-3 py-1 cursor-pointer transition-colors ${
+                i === selected ? 'bg-[--ui-bg-active]/60' : ''
+              }`}
+              title={prompt.file ? `${prompt.text}\n\n${prompt.file}` : prompt.text}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-[--ui-text-secondary] truncate">
+                  {prompt.name}
+                  {!grouped && prompt.folder && <span className="text-[--ui-text-muted]"> · {prompt.folder}</span>}
+                </div>
+                {prompt.tags && prompt.tags.length > 0 && (
+                  <div className="flex gap-1 mt-0.5 overflow-hidden">
+                    {prompt.tags.map((tag) => (
+                      <span key={tag} className="text-[9px] px-1 rounded bg-white/[0.06] text-[--ui-text-dimmed] shrink-0">#{tag}</span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {prompt.file && <span className="text-[9px] text-[--ui-text-muted] shrink-0" title={prompt.file}>file</span>}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  choose(prompt, true)
+                }}
+                className="hidden group-hover:block text-[10px] text-[--ui-text-dimmed] hover:text-[--ui-text-primary] shrink-0"
+                title="Queue in the active pane (Shift+Enter)"
+              >
+                Queue
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="border-t border-white/[0.06] px-3 py-1.5 flex items-center gap-3">
+        <button onClick={importPrompts} className="text-xs text-[--ui-text-dimmed] hover:text-[--ui-text-primary]">
+          Import…
+        </button>
+        <button
+          onClick={exportPrompts}
+          disabled={savedPrompts.length === 0}
+          className="text-xs text-[--ui-text-dimmed] hover:text-[--ui-text-primary] disabled:opacity-40"
+        >
+          Export…
+        </button>
+        <span className="flex-1 text-right text-[10px] text-[--ui-text-muted] truncate">
+          {status ?? `${savedPrompts.length + syncedPrompts.length} prompts`}
+        </span>
+      </div>
+    </div>,
+    document.body,
+  )
+})
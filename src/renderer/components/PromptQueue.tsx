@@ -0,0 +1,240 @@
+import { memo, useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useWorkspaceStore } from '../store/workspace'
+import { QueuedPrompt } from '../../shared/types'
+import { resolvePromptTemplate, templateInputs } from '../promptTemplate'
+import { PromptInputsDialog } from './PromptInputsDialog'
+
+type When = 'idle' | 'time' | 'usage-reset'
+
+// "14:00" → the next time the clock reads that: today, or tomorrow if it's past
+function nextTimeOfDay(hhmm: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm)
+  if (!m) return null
+  const at = new Date()
+  at.setHours(Number(m[1]), Number(m[2]), 0, 0)
+  if (at.getTime() <= Date.now()) at.setDate(at.getDate() + 1)
+  return at.getTime()
+}
+
+function formatSendAt(sendAt: number): string {
+  const d = new Date(sendAt)
+  const time = d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  return d.toDateString() === new Date().toDateString() ? time : `tomorrow ${time}`
+}
+
+function scheduleLabel(prompt: QueuedPrompt): string {
+  if (!prompt.sendAt || prompt.sendAt <= Date.now()) return 'when idle'
+  if (prompt.schedule === 'usage-reset') return `after usage reset (${formatSendAt(prompt.sendAt)})`
+  return `at ${formatSendAt(prompt.sendAt)}`
+}
+
+// Pane header button for the pane's prompt queue: what's lined up, and a form
+// to add a prompt - sent when the agent is next idle, at a time of day, or
+// once the 5-hour usage window resets.
+export const PromptQueueButton = memo(function PromptQueueButton({ paneId }: { paneId: number }) {
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState('')
+  const [name, setName] = useState<string | undefined>()
+  const [when, setWhen] = useState<When>('idle')
+  const [time, setTime] = useState('')
+  const [usageResetAt, setUsageResetAt] = useState<number | null>(null)
+  const [askingInputs, setAskingInputs] = useState<string[] | null>(null)
+  const buttonRef = useRef<HTMLButtonElement>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  const queue = useWorkspaceStore((s) => s.panes.find((p) => p.id === paneId)?.promptQueue)
+  const savedPrompts = useWorkspaceStore((s) => s.preferences.savedPrompts)
+  const syncedPrompts = useWorkspaceStore((s) => s.syncedPrompts)
+  const enqueuePrompt = useWorkspaceStore((s) => s.enqueuePrompt)
+  const dequeuePrompt = useWorkspaceStore((s) => s.dequeuePrompt)
+
+  // Close on click outside
+  useEffect(() => {
+    if (!open) return
+    const handler = (e: MouseEvent) => {
+      if (
+        panelRef.current && !panelRef.current.contains(e.target as Node) &&
+        buttonRef.current && !buttonRef.current.contains(e.target as Node)
+      ) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [open])
+
+  // The usage-reset option needs to know when the window resets
+  useEffect(() => {
+    if (!open) return
+    window.electronAPI.fetchUsage().then((usage) => {
+      const resetsAt = usage?.fiveHour.resetsAt ? new Date(usage.fiveHour.resetsAt).getTime() : NaN
+      setUsageResetAt(resetsAt > Date.now() ? resetsAt : null)
+    }).catch(() => setUsageResetAt(null))
+  }, [open])
+
+  const count = queue?.length ?? 0
+  const allPrompts = [...savedPrompts, ...syncedPrompts]
+  const folders = [...new Set(allPrompts.map((p) => p.folder ?? ''))].sort()
+  const sendAt = when === 'time' ? nextTimeOfDay(time) : when === 'usage-reset' ? usageResetAt : null
+  const canAdd = text.trim().length > 0 && (when === 'idle' || sendAt !== null)
+
+  // Templates are filled in now, against this pane; {{input:…}} fields ask first
+  const add = async (inputs?: Record<string, string>) => {
+    if (!canAdd) return
+    const labels = templateInputs(text)
+    if (labels.length > 0 && !inputs) {
+      setAskingInputs(labels)
+      return
+    }
+    setAskingInputs(null)
+    const resolved = await resolvePromptTemplate(paneId, text.trim(), inputs)
+    enqueuePrompt(paneId, {
+      text: resolved,
+      name,
+      ...(when !== 'idle' && sendAt !== null ? { sendAt, schedule: when } : {}),
+    })
+    setText('')
+    setName(undefined)
+  }
+
+  const getPosition = () => {
+    if (!buttonRef.current) return { top: 0, left: 0 }
+    const rect = buttonRef.current.getBoundingClientRect()
+    return { top: rect.bottom + 4, left: Math.max(8, Math.min(rect.left, window.innerWidth - 328)) }
+  }
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-0.5 px-1 py-0.5 rounded transition-colors ${
+          count > 0 ? 'text-[--accent]' : 'text-[--ui-text-dimmed] hover:text-[--ui-text-primary]'
+        }`}
+        title={count > 0 ? `${count} queued prompt${count > 1 ? 's' : ''}` : 'Queue a prompt for when the agent is idle'}
+        aria-label="Prompt queue"
+      >
+        <svg width="12" height="12" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.4">
+          <path d="M2 4h9M2 8h9M2 12h6M12.5 10v4M10.5 12h4" strokeLinecap="round" />
+        </svg>
+        {count > 0 && <span className="text-[10px] leading-none">{count}</span>}
+      </button>
+
+      {open && createPortal(
+        <div
+          ref={panelRef}
+          className="fixed z-50 w-[320px] bg-[--ui-bg-elevated] border border-[#444] rounded-md shadow-lg overflow-hidden font-mono"
+          style={getPosition()}
+        >
+          <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-[--ui-text-muted]">
+            Prompt queue
+          </div>
+          <div className="max-h-[240px] overflow-y-auto">
+            {count === 0 && (
+              <div className="px-3 py-1.5 text-[11px] text-[--ui-text-dimmed]">
+                Nothing queued. Prompts are sent one at a time, each when the agent is next idle.
+              </div>
+            )}
+            {queue?.map((prompt, i) => (
+              <div key={prompt.id} className="group flex items-start gap-2 px-3 py-1.5 hover:bg-[--ui-bg-active]/50 transition-colors">
+                <span className="w-3 shrink-0 text-[10px] text-[--ui-text-muted] pt-0.5">{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs truncate text-[--ui-text-secondary]" title={prompt.text}>
+                    {prompt.name ?? prompt.text}
+                  </div>
+                  <div className="text-[10px] text-[--ui-text-muted]">{scheduleLabel(prompt)}</div>
+                </div>
+                <button
+                  onClick={() => dequeuePrompt(paneId, prompt.id)}
+                  className="hidden group-hover:block text-[10px] text-[--ui-text-dimmed] hover:text-[#f87171]"
+                  title="Remove from queue"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t border-white/[0.06] px-3 py-2 space-y-1.5">
+            {allPrompts.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const saved = allPrompts.find((p) => p.id === e.target.value)
+                  if (!saved) return
+                  setText(saved.text)
+                  setName(saved.name)
+                }}
+                className="w-full bg-[--ui-bg-base] border border-[#444] rounded px-1 py-0.5 text-xs text-[--ui-text-secondary] outline-none focus:border-[--accent]"
+              >
+                <option value="">From a saved prompt…</option>
+                {folders.map((folder) => {
+                  const options = allPrompts.filter((p) => (p.folder ?? '') === folder).map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))
+                  return folder ? <optgroup key={folder} label={folder}>{options}</optgroup> : options
+                })}
+              </select>
+            )}
+            <textarea
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value)
+                setName(undefined)
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && e.metaKey) add()
+                if (e.key === 'Escape') setOpen(false)
+              }}
+              rows={3}
+              placeholder="Prompt to send"
+              className="w-full bg-[--ui-bg-base] border border-[#444] rounded px-1.5 py-1 text-xs text-[--ui-text-primary] outline-none focus:border-[--accent] resize-y"
+              spellCheck={false}
+            />
+            <div className="flex items-center gap-1.5">
+              <select
+                value={when}
+                onChange={(e) => setWhen(e.target.value as When)}
+                className="bg-[--ui-bg-base] border border-[#444] rounded px-1 py-0.5 text-xs text-[--ui-text-secondary] outline-none focus:border-[--accent]"
+              >
+                <option value="idle">When idle</option>
+                <option value="time">At time</option>
+                <option value="usage-reset" disabled={usageResetAt === null}>
+                  {usageResetAt === null ? 'After usage reset (unknown)' : `After usage reset (${formatSendAt(usageResetAt)})`}
+                </option>
+              </select>
+              {when === 'time' && (
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className="bg-[--ui-bg-base] border border-[#444] rounded px-1 py-0.5 text-xs text-[--ui-text-primary] outline-none focus:border-[--accent]"
+                />
+              )}
+              <div className="flex-1" />
+              <button
+                onClick={() => add()}
+                disabled={!canAdd}
+                className="px-2 py-0.5 text-xs bg-[--accent] text-white rounded hover:opacity-90 disabled:opacity-50 transition-all"
+              >
+                Queue
+              </button>
+            </div>
+          </div>
+
+          {/* Inside the panel, so clicks in it don't count as outside */}
+          {askingInputs && (
+            <PromptInputsDialog
+              title={name ?? 'Prompt inputs'}
+              labels={askingInputs}
+              onSubmit={(inputs) => add(inputs)}
+              onClose={() => setAskingInputs(null)}
+            />
+          )}
+        </div>,
+        document.body,
+      )}
+    </>
+  )
+})
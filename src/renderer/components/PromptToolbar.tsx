@@ -1,9 +1,13 @@
 import { useState, useRef, useEffect, memo, useCallback } from 'react'
 import { useWorkspaceStore } from '../store/workspace'
-import { SavedPrompt } from '../../shared/types'
+import { SavedPrompt, PROMPT_TEMPLATE_VARIABLES, MAX_PROMPT_NAME_LENGTH } from '../../shared/types'
+import { resolvePromptTemplate, templateInputs } from '../promptTemplate'
+import { PromptInputsDialog } from './PromptInputsDialog'
+import { PromptLibrary } from './PromptLibrary'
 
 interface PromptToolbarProps {
-  onSelectPrompt: (prompt: SavedPrompt) => void
+  // inputs: values for the prompt's {{input:…}} fields, by label
+  onSelectPrompt: (prompt: SavedPrompt, inputs: Record<string, string>) => void
 }
 
 interface ContextMenuState {
@@ -12,16 +16,24 @@ interface ContextMenuState {
   y: number
 }
 
-const MAX_PROMPT_NAME_LENGTH = 18
+type PromptFields = Pick<SavedPrompt, 'name' | 'text' | 'folder' | 'tags'>
+
+// "a, #b , a" → ['a', 'b']
+function parseTags(value: string): string[] {
+  return [...new Set(value.split(',').map((t) => t.trim().replace(/^#/, '')).filter(Boolean))]
+}
 
 // Modal for creating or editing a prompt
-function PromptModal({ prompt, onSave, onClose }: {
+function PromptModal({ prompt, folders, onSave, onClose }: {
   prompt?: SavedPrompt
-  onSave: (name: string, text: string) => void
+  folders: string[]
+  onSave: (fields: PromptFields) => void
   onClose: () => void
 }) {
   const [name, setName] = useState(prompt?.name ?? '')
   const [text, setText] = useState(prompt?.text ?? '')
+  const [folder, setFolder] = useState(prompt?.folder ?? '')
+  const [tags, setTags] = useState(prompt?.tags?.join(', ') ?? '')
   const nameRef = useRef<HTMLInputElement>(null)
   const backdropRef = useRef<HTMLDivElement>(null)
 
@@ -29,7 +41,13 @@ function PromptModal({ prompt, onSave, onClose }: {
 
   const handleSave = () => {
     if (name.trim() && text.trim()) {
-      onSave(name.trim(), text.trim())
+      const tagList = parseTags(tags)
+      onSave({
+        name: name.trim(),
+        text: text.trim(),
+        ...(folder.trim() ? { folder: folder.trim() } : {}),
+        ...(tagList.length > 0 ? { tags: tagList } : {}),
+      })
     }
   }
 
@@ -60,10 +78,38 @@ function PromptModal({ prompt, onSave, onClose }: {
             />
             <div className="text-[10px] text-[--ui-text-faint] mt-1 text-right">{name.length}/{MAX_PROMPT_NAME_LENGTH}</div>
           </div>
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className="block text-xs text-[--ui-text-muted] mb-1.5">Folder</label>
+              <input
+                type="text"
+                list="prompt-folders"
+                placeholder="e.g. Review"
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') onClose() }}
+                className="w-full px-3 py-2 text-sm bg-[--ui-bg-primary] border border-[--ui-border] text-[--ui-text-primary] placeholder-[--ui-text-faint] rounded-lg focus:border-[--accent] focus:outline-none"
+              />
+              <datalist id="prompt-folders">
+                {folders.map((f) => <option key={f} value={f} />)}
+              </datalist>
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs text-[--ui-text-muted] mb-1.5">Tags</label>
+              <input
+                type="text"
+                placeholder="e.g. git, review"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') onClose() }}
+                className="w-full px-3 py-2 text-sm bg-[--ui-bg-primary] border border-[--ui-border] text-[--ui-text-primary] placeholder-[--ui-text-faint] rounded-lg focus:border-[--accent] focus:outline-none"
+              />
+            </div>
+          </div>
           <div>
             <label className="block text-xs text-[--ui-text-muted] mb-1.5">Prompt Text</label>
             <textarea
-              placeholder="The text that will be injected into the active terminal..."
+              placeholder="The text that will be injected into the active terminal... e.g. Review {{branch}} for {{input:Ticket id}}"
               value={text}
               onChange={(e) => setText(e.target.value)}
               onKeyDown={(e) => {
@@ -74,7 +120,15 @@ function PromptModal({ prompt, onSave, onClose }: {
               className="w-full px-3 py-2 text-sm bg-[--ui-bg-primary] border border-[--ui-border] text-[--ui-text-primary] placeholder-[--ui-text-faint] rounded-lg focus:border-[--accent] focus:outline-none resize-y font-mono"
               style={{ minHeight: '120px', maxHeight: '50vh' }}
             />
+            <div className="text-[10px] text-[--ui-text-faint] mt-1 font-mono">
+              {PROMPT_TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(' ')} {'{{input:Label}}'}
+            </div>
           </div>
+          {prompt?.file && (
+            <div className="text-[10px] text-[--ui-text-faint] truncate" title={prompt.file}>
+              Saved to {prompt.file}
+            </div>
+          )}
         </div>
         <div className="px-5 pb-4 flex gap-2 justify-end">
           <button onClick={onClose} className="px-4 py-2 text-xs bg-[--ui-bg-active] text-[--ui-text-secondary] rounded-lg hover:bg-[--ui-border] transition-all">Cancel</button>
@@ -88,19 +142,26 @@ function PromptModal({ prompt, onSave, onClose }: {
 }
 
 export const PromptToolbar = memo(function PromptToolbar({ onSelectPrompt }: PromptToolbarProps) {
-  const { preferences, updatePreferences } = useWorkspaceStore()
+  const { preferences, updatePreferences, activePaneId, enqueuePrompt, syncedPrompts } = useWorkspaceStore()
   const { savedPrompts } = preferences
   const showPromptBar = preferences.showPromptBar !== false
+  // Prompts from synced folders come after the workspace's own
+  const allPrompts = [...savedPrompts, ...syncedPrompts]
+  const folders = [...new Set(allPrompts.map((p) => p.folder).filter((f): f is string => !!f))].sort()
 
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [editingPrompt, setEditingPrompt] = useState<SavedPrompt | null>(null)
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null)
   const [showOverflow, setShowOverflow] = useState(false)
+  const [showLibrary, setShowLibrary] = useState(false)
   const [visibleCount, setVisibleCount] = useState(savedPrompts.length)
+  // A template waiting on its {{input:…}} fields before it's sent or queued
+  const [pendingPrompt, setPendingPrompt] = useState<{ prompt: SavedPrompt; queue: boolean } | null>(null)
 
   const contextMenuRef = useRef<HTMLDivElement>(null)
   const overflowRef = useRef<HTMLDivElement>(null)
   const barRef = useRef<HTMLDivElement>(null)
+  const libraryButtonRef = useRef<HTMLButtonElement>(null)
 
   // Measure how many prompts fit in the bar
   useEffect(() => {
@@ -108,8 +169,8 @@ export const PromptToolbar = memo(function PromptToolbar({ onSelectPrompt }: Pro
     const observer = new ResizeObserver(() => {
       if (!barRef.current) return
       const barWidth = barRef.current.clientWidth
-      // Reserve space for: add button (~32px) + overflow button (~28px) + hide button (~20px) + padding (~16px)
-      const reserved = 96
+      // Reserve space for: library button (~28px) + add button (~32px) + overflow button (~28px) + hide button (~20px) + padding (~16px)
+      const reserved = 124
       const available = barWidth - reserved
       // Each prompt button is roughly 120px average
       const fits = Math.max(1, Math.floor(available / 120))
@@ -119,8 +180,8 @@ export const PromptToolbar = memo(function PromptToolbar({ onSelectPrompt }: Pro
     return () => observer.disconnect()
   }, [])
 
-  const visiblePrompts = savedPrompts.slice(0, visibleCount)
-  const overflowPrompts = savedPrompts.slice(visibleCount)
+  const visiblePrompts = allPrompts.slice(0, visibleCount)
+  const overflowPrompts = allPrompts.slice(visibleCount)
   const hasOverflow = overflowPrompts.length > 0
 
   // Close popups on outside click
@@ -137,25 +198,32 @@ export const PromptToolbar = memo(function PromptToolbar({ onSelectPrompt }: Pro
     return () => document.removeEventListener('mousedown', handle)
   }, [contextMenu, showOverflow])
 
-  const handleCreate = (name: string, text: string) => {
+  const handleCreate = (fields: PromptFields) => {
     updatePreferences({
       savedPrompts: [...savedPrompts, {
+        ...fields,
         id: crypto.randomUUID(),
-        name: name.slice(0, MAX_PROMPT_NAME_LENGTH),
-        text,
+        name: fields.name.slice(0, MAX_PROMPT_NAME_LENGTH),
         createdAt: Date.now(),
       }]
     })
     setShowCreateModal(false)
   }
 
-  const handleSaveEdit = (name: string, text: string) => {
+  const handleSaveEdit = (fields: PromptFields) => {
     if (!editingPrompt) return
-    updatePreferences({
-      savedPrompts: savedPrompts.map(p =>
-        p.id === editingPrompt.id ? { ...p, name: name.slice(0, MAX_PROMPT_NAME_LENGTH), text } : p
-      )
-    })
+    const edited = { ...fields, name: fields.name.slice(0, MAX_PROMPT_NAME_LENGTH) }
+    if (editingPrompt.file) {
+      // Synced prompts live in their file; the folder watcher picks the change up
+      window.electronAPI.writePromptFile(editingPrompt.file, { ...editingPrompt, ...edited })
+    } else {
+      updatePreferences({
+        // Cleared folder/tags come through as undefined and drop out on save
+        savedPrompts: savedPrompts.map(p =>
+          p.id === editingPrompt.id ? { ...p, folder: undefined, tags: undefined, ...edited } : p
+        )
+      })
+    }
     setEditingPrompt(null)
   }
 
@@ -164,6 +232,24 @@ export const PromptToolbar = memo(function PromptToolbar({ onSelectPrompt }: Pro
     setContextMenu(null)
   }
 
+  // Queued prompts are resolved now, against the pane they're queued for
+  const finishPrompt = async (prompt: SavedPrompt, inputs: Record<string, string>, queue: boolean) => {
+    if (!queue) {
+      onSelectPrompt(prompt, inputs)
+      return
+    }
+    const paneId = activePaneId
+    const text = await resolvePromptTemplate(paneId, prompt.text, inputs)
+    enqueuePrompt(paneId, { text, name: prompt.name })
+  }
+
+  const choosePrompt = (prompt: SavedPrompt, queue: boolean) => {
+    if (templateInputs(prompt.text).length > 0) setPendingPrompt({ prompt, queue })
+    else finishPrompt(prompt, {}, queue)
+  }
+
+  const closeLibrary = useCallback(() => setShowLibrary(false), [])
+
   const handleContextMenu = useCallback((e: React.MouseEvent, prompt: SavedPrompt) => {
     e.preventDefault()
     setContextMenu({ promptId: prompt.id, x: e.clientX, y: e.clientY })
@@ -174,24 +260,39 @@ export const PromptToolbar = memo(function PromptToolbar({ onSelectPrompt }: Pro
   const promptButton = (prompt: SavedPrompt, inDropdown = false) => (
     <button
       key={prompt.id}
-      onClick={() => { onSelectPrompt(prompt); setShowOverflow(false) }}
+      onClick={() => { choosePrompt(prompt, false); setShowOverflow(false) }}
       onContextMenu={(e) => handleContextMenu(e, prompt)}
       className={inDropdown
         ? "flex items-center gap-2.5 w-full px-3 py-2 text-[13px] text-[--ui-text-primary] hover:bg-white/[0.06] text-left transition-colors"
         : "flex items-center gap-1.5 px-2.5 py-0.5 text-[12px] text-white/80 hover:text-white bg-white/[0.08] hover:bg-white/[0.14] rounded-[4px] transition-all shrink-0"
       }
-      title={prompt.text}
+      title={prompt.folder ? `${prompt.folder}\n\n${prompt.text}` : prompt.text}
     >
       <svg width={inDropdown ? 14 : 11} height={inDropdown ? 14 : 11} viewBox="0 0 16 16" fill="currentColor" className={inDropdown ? "shrink-0 opacity-30" : "shrink-0 opacity-30"}>
         <path d="M4.5 2A2.5 2.5 0 0 0 2 4.5v7A2.5 2.5 0 0 0 4.5 14h7a2.5 2.5 0 0 0 2.5-2.5v-7A2.5 2.5 0 0 0 11.5 2h-7ZM5 5.5A.5.5 0 0 1 5.5 5h5a.5.5 0 0 1 0 1h-5a.5.5 0 0 1-.5-.5ZM5.5 8a.5.5 0 0 0 0 1h3a.5.5 0 0 0 0-1h-3Z"/>
       </svg>
-      <span className={inDropdown ? "" : "truncate"}>{prompt.name}</span>
+      <span className={inDropdown ? "truncate" : "truncate max-w-[160px]"}>{prompt.name}</span>
     </button>
   )
 
   return (
     <>
       <div ref={barRef} className="h-7 shrink-0 flex items-center gap-1 px-2 border-b border-white/[0.06] glass-pane-header overflow-hidden">
+        {/* Library: search, folders, import/export */}
+        <button
+          ref={libraryButtonRef}
+          onClick={() => setShowLibrary(!showLibrary)}
+          className={`flex items-center px-1.5 py-1 rounded transition-colors shrink-0 ${
+            showLibrary ? 'text-white bg-white/[0.08]' : 'text-white/60 hover:text-white hover:bg-white/[0.08]'
+          }`}
+          title="Search prompt library"
+        >
+          <svg width="12" height="12" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.8">
+            <circle cx="7" cy="7" r="4.5" />
+            <path d="M10.5 10.5L14 14" strokeLinecap="round" />
+          </svg>
+        </button>
+
         {/* Visible prompt buttons */}
         {visiblePrompts.map((prompt) => promptButton(prompt))}
 
@@ -245,31 +346,68 @@ export const PromptToolbar = memo(function PromptToolbar({ onSelectPrompt }: Pro
           </button>
           <button
             onClick={() => {
-              const p = savedPrompts.find(p => p.id === contextMenu.promptId)
+              const p = allPrompts.find(p => p.id === contextMenu.promptId)
               if (p) { setEditingPrompt(p); setContextMenu(null) }
             }}
             className="w-full px-3 py-1.5 text-xs text-[--ui-text-primary] hover:bg-white/[0.08] text-left transition-colors"
           >
             Edit...
           </button>
-          <div className="my-1 border-t border-white/[0.06]" />
           <button
-            onClick={() => handleDelete(contextMenu.promptId)}
-            className="w-full px-3 py-1.5 text-xs text-red-400 hover:bg-white/[0.08] text-left transition-colors"
+            onClick={() => {
+              const p = allPrompts.find(p => p.id === contextMenu.promptId)
+              if (p) choosePrompt(p, true)
+              setContextMenu(null)
+            }}
+            className="w-full px-3 py-1.5 text-xs text-[--ui-text-primary] hover:bg-white/[0.08] text-left transition-colors"
+            title="Send to the active pane when its agent is next idle"
           >
-            Delete
+            Queue in Active Pane
           </button>
+          {/* Synced prompts are deleted by removing their file */}
+          {savedPrompts.some(p => p.id === contextMenu.promptId) && (
+            <>
+              <div className="my-1 border-t border-white/[0.06]" />
+              <button
+                onClick={() => handleDelete(contextMenu.promptId)}
+                className="w-full px-3 py-1.5 text-xs text-red-400 hover:bg-white/[0.08] text-left transition-colors"
+              >
+                Delete
+              </button>
+            </>
+          )}
         </div>
       )}
 
+      {showLibrary && (
+        <PromptLibrary
+          anchor={libraryButtonRef.current}
+          onChoose={choosePrompt}
+          onClose={closeLibrary}
+        />
+      )}
+
       {/* Create modal */}
       {showCreateModal && (
-        <PromptModal onSave={handleCreate} onClose={() => setShowCreateModal(false)} />
+        <PromptModal folders={folders} onSave={handleCreate} onClose={() => setShowCreateModal(false)} />
+      )}
+
+      {/* Template inputs */}
+      {pendingPrompt && (
+        <PromptInputsDialog
+          title={pendingPrompt.prompt.name}
+          labels={templateInputs(pendingPrompt.prompt.text)}
+          onSubmit={(inputs) => {
+            finishPrompt(pendingPrompt.prompt, inputs, pendingPrompt.queue)
+            setPendingPrompt(null)
+          }}
+          onClose={() => setPendingPrompt(null)}
+        />
       )}
 
       {/* Edit modal */}
       {editingPrompt && (
-        <PromptModal prompt={editingPrompt} onSave={handleSaveEdit} onClose={() => setEditingPrompt(null)} />
+        <PromptModal prompt={editingPrompt} folders={folders} onSave={handleSaveEdit} onClose={() => setEditingPrompt(null)} />
       )}
     </>
   )
@@ -0,0 +1,236 @@
+import { memo, useEffect, useMemo, useRef, useState } from 'react'
+import { useWorkspaceStore } from '../store/workspace'
+import { revealPaneMatch, searchPaneBuffer } from './TerminalPane'
+import { OutputSearchMatch, outputMatcher } from '../../shared/types'
+
+interface SearchPaletteProps {
+  isOpen: boolean
+  onClose: () => void
+  onFocusPane: (paneId: number) => void
+}
+
+interface PaneResults {
+  paneId: number
+  label: string
+  folder: string
+  matches: OutputSearchMatch[] // in the terminal buffer (jumpable)
+  history: OutputSearchMatch[] // older, from the on-disk history
+}
+
+const MATCHES_PER_PANE = 50
+const HISTORY_PER_PANE = 20
+const SEARCH_DEBOUNCE_MS = 150
+
+function folderName(dir: string): string {
+  const parts = dir.split('/').filter(Boolean)
+  return parts[parts.length - 1] || '~'
+}
+
+function Highlighted({ match }: { match: OutputSearchMatch }) {
+  const { line, start, length } = match
+  return (
+    <span className="whitespace-pre">
+      {line.slice(0, start)}
+      <mark className="bg-[--git-yellow] text-black rounded-[2px]">{line.slice(start, start + length)}</mark>
+      {line.slice(start + length)}
+    </span>
+  )
+}
+
+// Cmd+Shift+F: search the output of every pane at once, grouped by pane.
+// Buffer hits jump to the line in its pane; with extended history on, older
+// hits that have scrolled out of the terminal are listed under each pane too.
+export const SearchPalette = memo(function SearchPalette({ isOpen, onClose, onFocusPane }: SearchPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [regex, setRegex] = useState(false)
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [results, setResults] = useState<PaneResults[]>([])
+  const [selected, setSelected] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const extendedHistory = useWorkspaceStore((s) => !!s.preferences.extendedHistory)
+
+  const invalid = !!query && regex && !outputMatcher({ query, regex, caseSensitive })
+
+  useEffect(() => {
+    if (!isOpen) return
+    setSelected(0)
+    requestAnimationFrame(() => inputRef.current?.select())
+  }, [isOpen])
+
+  // Re-run on every edit (debounced); buffers are searched in-process, the
+  // on-disk history in main.
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const q = { query, regex, caseSensitive }
+      const panes = useWorkspaceStore.getState().panes
+      const history = extendedHistory && query
+        ? await window.electronAPI.searchHistory(q, panes.map((p) => p.id), HISTORY_PER_PANE).catch(() => ({}))
+        : {}
+      if (cancelled) return
+      const next: PaneResults[] = []
+      for (const pane of panes) {
+        const matches = searchPaneBuffer(pane.id, q, MATCHES_PER_PANE)
+        // Lines still in the buffer are already listed (and jumpable)
+        const inBuffer = new Set(matches.map((m) => m.line.trimEnd()))
+        const older = ((history as Record<number, OutputSearchMatch[]>)[pane.id] ?? []).filter(
+          (m) => !inBuffer.has(m.line.trimEnd()),
+        )
+        if (matches.length === 0 && older.length === 0) continue
+        next.push({ paneId: pane.id, label: pane.label, folder: folderName(pane.workingDirectory), matches, history: older })
+      }
+      setResults(next)
+      setSelected(0)
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [isOpen, query, regex, caseSensitive, extendedHistory])
+
+  // Flattened jump targets, in display order, for keyboard navigation
+  const targets = useMemo(
+    () => results.flatMap((r) => r.matches.map((m) => ({ paneId: r.paneId, match: m }))),
+    [results],
+  )
+  const total = results.reduce((n, r) => n + r.matches.length + r.history.length, 0)
+
+  const jump = (paneId: number, match?: OutputSearchMatch) => {
+    onClose()
+    onFocusPane(paneId)
+    if (match) requestAnimationFrame(() => revealPaneMatch(paneId, match))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setSelected((i) => Math.min(i + 1, Math.max(0, targets.length - 1)))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setSelected((i) => Math.max(i - 1, 0))
+    } else if (e.key === 'Enter' && targets[selected]) {
+      e.preventDefault()
+      jump(targets[selected].paneId, targets[selected].match)
+    }
+  }
+
+  // Keep the keyboard selection scrolled into view
+  useEffect(() => {
+    document.querySelector('[data-search-selected="true"]')?.scrollIntoView({ block: 'nearest' })
+  }, [selected])
+
+  if (!isOpen) return null
+
+  let flatIndex = 0
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-start justify-center pt-[12vh] z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      role="presentation"
+    >
+      <div
+        className="glass-elevated glass-border rounded-xl shadow-2xl w-full max-w-3xl mx-4 max-h-[70vh] flex flex-col backdrop-blur-xl overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search output in all panes"
+        onKeyDown={handleKeyDown}
+      >
+        {/* Query */}
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-white/[0.06]">
+          <svg width="13" height="13" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" className="text-[--ui-text-dimmed] shrink-0">
+            <circle cx="7" cy="7" r="4.5" />
+            <path d="M10.5 10.5L14 14" strokeLinecap="round" />
+          </svg>
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search output in all panes…"
+            className={`flex-1 bg-transparent text-sm outline-none ${invalid ? 'text-[#f87171]' : 'text-[--ui-text-primary]'}`}
+            spellCheck={false}
+          />
+          <button
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            className={`px-1.5 py-0.5 rounded text-[11px] ${caseSensitive ? 'bg-[--accent] text-white' : 'text-[--ui-text-dimmed] hover:text-[--ui-text-primary]'}`}
+            title="Match case"
+          >
+            Aa
+          </button>
+          <button
+            onClick={() => setRegex(!regex)}
+            className={`px-1.5 py-0.5 rounded text-[11px] font-mono ${regex ? 'bg-[--accent] text-white' : 'text-[--ui-text-dimmed] hover:text-[--ui-text-primary]'}`}
+            title="Regular expression"
+          >
+            .*
+          </button>
+        </div>
+
+        {/* Results, grouped by pane */}
+        <div className="flex-1 overflow-y-auto py-1 text-xs font-mono">
+          {query && total === 0 && !invalid && (
+            <div className="px-4 py-6 text-center text-[--ui-text-muted]">No matches</div>
+          )}
+          {results.map((r) => (
+            <div key={r.paneId} className="mb-1">
+              <button
+                onClick={() => jump(r.paneId)}
+                className="w-full flex items-center gap-2 px-3 py-1 text-left text-[11px] text-[--ui-text-secondary] hover:text-[--ui-text-primary]"
+              >
+                <span className="font-medium">{r.label}</span>
+                <span className="text-[--ui-text-muted]">· {r.folder}</span>
+                <span className="ml-auto text-[10px] text-[--ui-text-muted] tabular-nums">
+                  {r.matches.length + r.history.length}
+                </span>
+              </button>
+              {r.matches.map((m, i) => {
+                const index = flatIndex++
+                const isSelected = index === selected
+                return (
+                  <button
+                    key={`b${i}`}
+                    data-search-selected={isSelected}
+                    onClick={() => jump(r.paneId, m)}
+                    onMouseEnter={() => setSelected(index)}
+                    className={`w-full block px-5 py-1 text-left overflow-hidden ${isSelected ? 'bg-[--ui-bg-active]/60' : ''}`}
+                  >
+                    {m.before.map((line, j) => (
+                      <div key={j} className="truncate text-[--ui-text-faint] whitespace-pre">{line || ' '}</div>
+                    ))}
+                    <div className="truncate text-[--ui-text-primary]"><Highlighted match={m} /></div>
+                    {m.after.map((line, j) => (
+                      <div key={j} className="truncate text-[--ui-text-faint] whitespace-pre">{line || ' '}</div>
+                    ))}
+                  </button>
+                )
+              })}
+              {r.history.length > 0 && (
+                <>
+                  <div className="px-5 pt-1 text-[10px] uppercase tracking-wide text-[--ui-text-muted]">
+                    Older history
+                  </div>
+                  {r.history.map((m, i) => (
+                    <div key={`h${i}`} className="px-5 py-0.5 truncate text-[--ui-text-dimmed]" title="Scrolled out of the terminal — from the on-disk history">
+                      <Highlighted match={m} />
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-3 py-1.5 border-t border-white/[0.06] text-[10px] text-[--ui-text-muted] flex gap-3">
+          <span>↑↓ select</span>
+          <span>↵ jump to pane</span>
+          <span>esc close</span>
+          {!extendedHistory && <span className="ml-auto">Searching terminal scrollback only — turn on extended history in Settings</span>}
+        </div>
+      </div>
+    </div>
+  )
+})
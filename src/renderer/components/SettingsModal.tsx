@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, KeyboardEvent, memo, ReactNode } from 'react'
 import { useWorkspaceStore } from '../store/workspace'
-import { HotkeyBindings, DEFAULT_HOTKEYS, DEFAULT_BACKGROUND, BackgroundMode, PortIsolation, LoopbackStatus } from '../../shared/types'
+import { HotkeyBindings, DEFAULT_HOTKEYS, DEFAULT_BACKGROUND, BackgroundMode, PortIsolation, LoopbackStatus, SCROLLBACK_DEFAULT, SCROLLBACK_OPTIONS, WORKTREE_DIR_DEFAULT } from '../../shared/types'
+import { registerCommands } from '../commands'
 import { AgentsSettings } from './AgentsSettings'
 import { ModelRouterSettings } from './ModelRouterSettings'
 
@@ -9,7 +10,8 @@ interface SettingsModalProps {
   onClose: () => void
 }
 
-type HotkeyField = keyof HotkeyBindings
+// Fixed bindings; preset hotkeys live in the layoutPresets map
+type HotkeyField = Exclude<keyof HotkeyBindings, 'layoutPresets'>
 type TabId = 'general' | 'models' | 'agents' | 'background' | 'shortcuts' | 'about'
 
 // One toggle, defined once so every switch in Settings looks and behaves identically.
@@ -83,6 +85,33 @@ const TABS: { id: TabId; label: string }[] = [
   { id: 'about', label: 'About' },
 ]
 
+// The General tab's switches, named for what running them does
+registerCommands('settings', () => {
+  const store = useWorkspaceStore.getState()
+  const prefs = store.preferences
+  const toggle = (id: string, name: string, on: boolean, update: Partial<typeof prefs>, hotkey?: string) => ({
+    id: `settings:${id}`,
+    title: `${on ? 'Turn Off' : 'Turn On'} ${name}`,
+    category: 'Settings',
+    hotkey,
+    run: () => useWorkspaceStore.getState().updatePreferences(update),
+  })
+  const promptBar = prefs.showPromptBar !== false
+  const chime = prefs.decisionSoundEnabled !== false
+  const notifications = prefs.desktopNotificationsEnabled !== false
+  const skipPermissions = !!prefs.dangerouslySkipPermissions
+  const history = !!prefs.extendedHistory
+  const repoPrompts = prefs.repoPrompts !== false
+  return [
+    toggle('prompt-bar', 'Always Show Prompt Bar', promptBar, { showPromptBar: !promptBar }, 'Cmd+P'),
+    toggle('decision-chime', 'Decision Chime', chime, { decisionSoundEnabled: !chime }),
+    toggle('desktop-notifications', 'Desktop Notifications', notifications, { desktopNotificationsEnabled: !notifications }),
+    toggle('skip-permissions', 'Skip Permission Prompts', skipPermissions, { dangerouslySkipPermissions: !skipPermissions }),
+    toggle('extended-history', 'Extended History', history, { extendedHistory: !history }),
+    toggle('repo-prompts', 'Repo Prompts', repoPrompts, { repoPrompts: !repoPrompts }),
+  ]
+})
+
 export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const { preferences, updatePreferences, updateBackground } = useWorkspaceStore()
   const { hotkeys, fontSize } = preferences
@@ -91,7 +120,8 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
   const firstFocusableRef = useRef<HTMLButtonElement>(null)
 
   const [tab, setTab] = useState<TabId>('general')
-  const [editingHotkey, setEditingHotkey] = useState<HotkeyField | null>(null)
+  // A HotkeyField, or `preset:<id>` for a layout preset's hotkey
+  const [editingHotkey, setEditingHotkey] = useState<string | null>(null)
   const [appVersion, setAppVersion] = useState<string>('')
   const [loopback, setLoopback] = useState<LoopbackStatus | null>(null)
   const [settingUpLoopback, setSettingUpLoopback] = useState(false)
@@ -152,11 +182,12 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
     if (e.target === e.currentTarget) onClose()
   }
 
-  // Handle hotkey capture
-  const handleHotkeyKeyDown = (e: KeyboardEvent<HTMLButtonElement>, field: HotkeyField) => {
+  // Handle hotkey capture: the pressed combination as "Cmd+Shift+R", or null
+  // while only modifiers are down
+  const hotkeyFromEvent = (e: KeyboardEvent<HTMLButtonElement>): string | null => {
     e.preventDefault()
     e.stopPropagation()
-    if (['Control', 'Alt', 'Shift', 'Meta'].includes(e.key)) return
+    if (['Control', 'Alt', 'Shift', 'Meta'].includes(e.key)) return null
 
     const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0
     const parts: string[] = []
@@ -172,8 +203,24 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
       key = key.toUpperCase()
     }
     parts.push(key)
+    return parts.join('+')
+  }
+
+  const handleHotkeyKeyDown = (e: KeyboardEvent<HTMLButtonElement>, field: HotkeyField) => {
+    const hotkey = hotkeyFromEvent(e)
+    if (!hotkey) return
+    updatePreferences({ hotkeys: { ...hotkeys, [field]: hotkey } })
+    setEditingHotkey(null)
+  }
 
-    updatePreferences({ hotkeys: { ...hotkeys, [field]: parts.join('+') } })
+  // Preset hotkeys are optional: Backspace/Delete clears one
+  const handlePresetHotkeyKeyDown = (e: KeyboardEvent<HTMLButtonElement>, presetId: string) => {
+    const hotkey = e.key === 'Backspace' || e.key === 'Delete' ? '' : hotkeyFromEvent(e)
+    if (hotkey === null) return
+    e.preventDefault()
+    e.stopPropagation()
+    const { [presetId]: _previous, ...others } = hotkeys.layoutPresets ?? {}
+    updatePreferences({ hotkeys: { ...hotkeys, layoutPresets: hotkey ? { ...others, [presetId]: hotkey } : others } })
     setEditingHotkey(null)
   }
 
@@ -194,12 +241,17 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
 
   if (!isOpen) return null
 
-  const renderHotkeyRow = (field: HotkeyField, label: string) => (
+  const renderCaptureRow = (
+    field: string,
+    label: string,
+    value: string,
+    onCapture: (e: KeyboardEvent<HTMLButtonElement>) => void,
+  ) => (
     <div key={field} className="flex items-center justify-between">
-      <span className="text-sm text-[--ui-text-primary]" id={`hotkey-label-${field}`}>{label}</span>
+      <span className="text-sm text-[--ui-text-primary] truncate" id={`hotkey-label-${field}`}>{label}</span>
       <button
         onClick={() => setEditingHotkey(field)}
-        onKeyDown={(e) => editingHotkey === field && handleHotkeyKeyDown(e, field)}
+        onKeyDown={(e) => editingHotkey === field && onCapture(e)}
         onBlur={() => setEditingHotkey(null)}
         className={`px-3 py-1.5 min-w-[104px] text-sm text-center rounded-lg transition-all ${
           editingHotkey === field
@@ -208,11 +260,16 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
         }`}
         aria-labelledby={`hotkey-label-${field}`}
       >
-        {editingHotkey === field ? 'Press keys…' : hotkeys[field]}
+        {editingHotkey === field ? 'Press keys…' : value}
       </button>
     </div>
   )
 
+  const renderHotkeyRow = (field: HotkeyField, label: string) =>
+    renderCaptureRow(field, label, hotkeys[field], (e) => handleHotkeyKeyDown(e, field))
+
+  const layoutPresets = preferences.layoutPresets ?? []
+
   return (
     <div
       className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50"
@@ -292,6 +349,26 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
                   </div>
                 </SettingRow>
 
+                <SettingRow title="Scrollback" caption="Lines each terminal keeps · more lines use more memory per pane">
+                  <select
+                    value={preferences.scrollbackLines ?? SCROLLBACK_DEFAULT}
+                    onChange={(e) => updatePreferences({ scrollbackLines: Number(e.target.value) })}
+                    className="bg-[--ui-bg-input] border border-[#444] rounded px-2 py-1 text-sm text-[--ui-text-primary] outline-none focus:border-[--accent]"
+                  >
+                    {SCROLLBACK_OPTIONS.map((n) => (
+                      <option key={n} value={n}>{n.toLocaleString()} lines</option>
+                    ))}
+                  </select>
+                </SettingRow>
+
+                <SettingRow title="Extended history" caption="Keep a larger plain-text log of every pane's output on disk so Find in All Panes (Cmd+Shift+F) reaches past the scrollback · turning it off deletes the log">
+                  <Toggle
+                    on={!!preferences.extendedHistory}
+                    onChange={() => updatePreferences({ extendedHistory: !preferences.extendedHistory })}
+                    label="Extended history"
+                  />
+                </SettingRow>
+
                 <SettingRow title="Prompt bar" caption="Floating toolbar for your saved prompts">
                   <Toggle
                     on={preferences.showPromptBar !== false}
@@ -300,6 +377,65 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
                   />
                 </SettingRow>
 
+                <SettingRow title="Prompt folders" caption="Folders of Markdown prompt files to show alongside your saved prompts · edits write back to the files">
+                  <button
+                    onClick={async () => {
+                      const dir = await window.electronAPI.openDirectoryDialog('Choose Prompt Folder')
+                      const current = preferences.promptDirectories ?? []
+                      if (dir && !current.includes(dir)) updatePreferences({ promptDirectories: [...current, dir] })
+                    }}
+                    className="text-xs px-2 py-1 rounded glass-control text-[--ui-text-secondary] hover:border-[--accent] hover:text-[--accent] transition-all"
+                  >
+                    Add folder…
+                  </button>
+                </SettingRow>
+                {(preferences.promptDirectories ?? []).map((dir) => (
+                  <div key={dir} className="flex items-center gap-2 pb-1 text-[11px] text-[--ui-text-dimmed]">
+                    <span className="font-mono truncate flex-1" title={dir}>{dir}</span>
+                    <button
+                      onClick={() => updatePreferences({
+                        promptDirectories: (preferences.promptDirectories ?? []).filter((d) => d !== dir),
+                      })}
+                      className="text-[--ui-text-dimmed] hover:text-[#f87171] shrink-0"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+
+                <SettingRow title="Repo prompts" caption="Load a repo's shared .quadclaude/prompts folder when a pane is in it">
+                  <Toggle
+                    on={preferences.repoPrompts !== false}
+                    onChange={() => updatePreferences({ repoPrompts: preferences.repoPrompts === false })}
+                    label="Repo prompts"
+                  />
+                </SettingRow>
+
+                {Object.keys(preferences.trustedProjects ?? {}).length > 0 && (
+                  <>
+                    <div className="flex flex-col gap-0.5 pt-1.5 pb-1">
+                      <span className="text-sm text-[--ui-text-primary]">Trusted projects</span>
+                      <span className="text-[11px] text-[--ui-text-dimmed]">
+                        Repos whose .quadclaude.json applies · revoking asks again the next time a pane enters one
+                      </span>
+                    </div>
+                    {Object.keys(preferences.trustedProjects ?? {}).map((root) => (
+                      <div key={root} className="flex items-center gap-2 pb-1 text-[11px] text-[--ui-text-dimmed]">
+                        <span className="font-mono truncate flex-1" title={root}>{root}</span>
+                        <button
+                          onClick={() => {
+                            const { [root]: _revoked, ...rest } = preferences.trustedProjects ?? {}
+                            updatePreferences({ trustedProjects: rest })
+                          }}
+                          className="text-[--ui-text-dimmed] hover:text-[#f87171] shrink-0"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    ))}
+                  </>
+                )}
+
                 <SettingRow title="Decision chime" caption="Play a sound when a pane needs a yes/no answer">
                   <Toggle
                     on={preferences.decisionSoundEnabled !== false}
@@ -308,6 +444,14 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
                   />
                 </SettingRow>
 
+                <SettingRow title="Desktop notifications" caption="Notify when a pane needs you or finishes while QuadClaude is in the background">
+                  <Toggle
+                    on={preferences.desktopNotificationsEnabled !== false}
+                    onChange={() => updatePreferences({ desktopNotificationsEnabled: preferences.desktopNotificationsEnabled === false })}
+                    label="Desktop notifications"
+                  />
+                </SettingRow>
+
                 <SettingRow title="Skip permission prompts" caption="Launch Claude with --dangerously-skip-permissions · Claude Code only">
                   <Toggle
                     on={!!preferences.dangerouslySkipPermissions}
@@ -364,6 +508,16 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
                     for tools that honor <span className="font-mono">PORT</span>. Re-launch a pane to apply.
                   </p>
                 )}
+
+                <SettingRow title="Worktree folder" caption="Where New worktree pane (the caret next to Fork) creates worktrees, as <folder>/<repo>/<branch>">
+                  <input
+                    value={preferences.worktreeDirectory ?? ''}
+                    onChange={(e) => updatePreferences({ worktreeDirectory: e.target.value || undefined })}
+                    placeholder={WORKTREE_DIR_DEFAULT}
+                    className="w-56 bg-[--ui-bg-input] border border-[#444] rounded px-2 py-1 text-sm text-[--ui-text-primary] outline-none focus:border-[--accent]"
+                    spellCheck={false}
+                  />
+                </SettingRow>
               </div>
             )}
 
@@ -542,6 +696,28 @@ export const SettingsModal = memo(function SettingsModal({ isOpen, onClose }: Se
                     </div>
                   </div>
                 </div>
+                <div className="mt-6">
+                  <span className="text-xs text-[--ui-text-muted] mb-2 block uppercase tracking-wide">Layout presets</span>
+                  {layoutPresets.length === 0 ? (
+                    <p className="text-xs text-[--ui-text-dimmed]">
+                      Save the current arrangement from the Presets menu in the title bar, then give it a shortcut here.
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-x-8 gap-y-2">
+                      {layoutPresets.map((preset) =>
+                        renderCaptureRow(
+                          `preset:${preset.id}`,
+                          preset.name,
+                          hotkeys.layoutPresets?.[preset.id] || 'None',
+                          (e) => handlePresetHotkeyKeyDown(e, preset.id),
+                        ),
+                      )}
+                    </div>
+                  )}
+                  {layoutPresets.length > 0 && (
+                    <p className="text-[11px] text-[--ui-text-muted] mt-2">Backspace clears a preset's shortcut.</p>
+                  )}
+                </div>
               </div>
             )}
 
@@ -5,11 +5,14 @@ import { WebLinksAddon } from '@xterm/addon-web-links'
 import { CanvasAddon } from '@xterm/addon-canvas'
 import '@xterm/xterm/css/xterm.css'
 import { useWorkspaceStore } from '../store/workspace'
-import { PaneHeader, PANE_DRAG_TYPE } from './PaneHeader'
-import { DEFAULT_HOTKEYS, DEFAULT_BACKGROUND, DEFAULT_AGENT_PROFILES, AgentProfile, PaneConfig, WorkspacePreferences } from '../../shared/types'
+import { PaneHeader, PANE_DRAG_TYPE, PANE_WINDOW_DRAG_PREFIX } from './PaneHeader'
+import { PaneEdge } from '../layouts'
+import { DEFAULT_HOTKEYS, DEFAULT_BACKGROUND, DEFAULT_AGENT_PROFILES, AgentProfile, AgentDetectorId, PaneConfig, WorkspacePreferences, detectorForProfile, isAwaitingUser, isProjectTrusted, isRouterProfile, OutputSearchMatch, OutputSearchQuery, SCROLLBACK_DEFAULT, outputMatcher, MAIN_WINDOW_ID, isClaudeSessionId } from '../../shared/types'
 
 // Module-level tracking to persist across component remounts
 const initializedPtys = new Set<number>()
+// Panes whose first PTY spawn has completed (input typed before then is lost)
+const readyPtys = new Set<number>()
 const terminals = new Map<number, { terminal: Terminal; fitAddon: FitAddon }>()
 // Track focus listeners for proper cleanup
 const focusListeners = new Map<number, () => void>()
@@ -40,6 +43,31 @@ const promptScanTimers = new Map<number, ReturnType<typeof setTimeout>>()
 // background toggles (the canvas addon bakes in transparency at load time
 // and won't honor a later theme-background alpha change reliably).
 const canvasAddons = new Map<number, CanvasAddon>()
+// Panes currently replaying last session's output. Recorded output can contain
+// terminal queries (device attributes, cursor position) that xterm answers via
+// onData - those replies must not reach the new shell as typed input.
+const replayingScrollback = new Set<number>()
+
+// Undo any modes the recorded stream may have left on (alternate screen,
+// hidden cursor, SGR colors) so the divider and new shell render normally.
+const REPLAY_RESET = '\x1b[?1049l\x1b[0m\x1b[?25h'
+// Input xterm generates on its own - mouse and focus reports, query replies -
+// which broadcast keeps to the pane it came from
+const TERMINAL_REPORT = /^\x1b\[(?:<|M|I$|O$|\?[\d;]*c$|\d+;\d+R$)/
+const REPLAY_DIVIDER = '\r\n\x1b[2m──── restored from previous session ────\x1b[0m\r\n'
+
+// Write the previous session's recorded output into a fresh terminal, followed
+// by a dim divider. Resolves once xterm has parsed it all.
+function replayScrollback(paneId: number, terminal: Terminal, text: string): Promise<void> {
+  replayingScrollback.add(paneId)
+  return new Promise((resolve) => {
+    terminal.write(text + REPLAY_RESET + REPLAY_DIVIDER, () => {
+      replayingScrollback.delete(paneId)
+      terminal.scrollToBottom()
+      resolve()
+    })
+  })
+}
 
 // xterm theme with a fully-transparent background lets the wallpaper show
 // through. Used both at terminal creation and on background toggle.
@@ -71,6 +99,24 @@ function scanForClaudePrompt(terminal: Terminal): boolean {
   return hasSelector && hasDecision
 }
 
+// The question a waiting agent is asking, read from the bottom of the pane's
+// buffer: the last line ending in "?" (Claude's "Do you want to proceed?", or a
+// clarifying question in its reply). Box-drawing borders are stripped.
+export function extractPaneQuestion(paneId: number): string | null {
+  const entry = terminals.get(paneId)
+  if (!entry) return null
+  const buf = entry.terminal.buffer.active
+  const end = buf.baseY + entry.terminal.rows
+  for (let i = end - 1; i >= Math.max(0, end - 40); i--) {
+    const raw = buf.getLine(i)?.translateToString(true) ?? ''
+    const line = raw.replace(/[│╭╮╰╯─]/g, '').replace(/^[\s⏺●>]+/, '').trim()
+    if (line.length > 3 && line.endsWith('?')) {
+      return line.length > 200 ? line.slice(0, 199) + '…' : line
+    }
+  }
+  return null
+}
+
 // Soft two-note chime synthesized via WebAudio (no asset needed)
 let chimeCtx: AudioContext | null = null
 function playDecisionChime() {
@@ -150,14 +196,22 @@ function schedulePendingFlush(paneId: number, terminal: Terminal) {
   })
 }
 
-// Re-evaluate active vs waiting from the buffer, transitioning state and
-// chiming once when a pane newly enters the waiting state.
+// Is Claude blocked on the user? The main-process detector's classification
+// wins when it has one; the buffer scan covers the gap before its first verdict.
+function isClaudeWaiting(pane: PaneConfig | undefined, terminal: Terminal | null): boolean {
+  if (pane?.activity) return isAwaitingUser(pane.activity)
+  return terminal ? scanForClaudePrompt(terminal) : false
+}
+
+// Re-evaluate active vs waiting, transitioning state and chiming once when a
+// pane newly enters the waiting state.
 function refreshClaudeWaitingState(paneId: number, terminal: Terminal | null) {
   const store = useWorkspaceStore.getState()
-  const current = store.panes.find((p) => p.id === paneId)?.state
+  const pane = store.panes.find((p) => p.id === paneId)
+  const current = pane?.state
   // Only meaningful while Claude is believed to be running
   if (current !== 'claude-active' && current !== 'claude-waiting') return
-  const waiting = terminal ? scanForClaudePrompt(terminal) : false
+  const waiting = isClaudeWaiting(pane, terminal)
   const next = waiting ? 'claude-waiting' : 'claude-active'
   if (current !== next) {
     store.setPaneState(paneId, next)
@@ -248,35 +302,62 @@ export function sendToTerminal(paneId: number, text: string) {
 // pane was spawned with. null = a plain shell (no injected env). Used to decide
 // when an agent launch must re-spawn the PTY to inject/clear env.
 const paneEnvProfile = new Map<number, string | null>()
+// Transient: the output detector main is classifying each pane with. Reset
+// whenever a fresh PTY is spawned (main forgets it on PTY_CREATE too).
+const paneDetector = new Map<number, AgentDetectorId | null>()
+
+function assignDetector(paneId: number, detector: AgentDetectorId | null) {
+  if (paneDetector.get(paneId) === detector) return
+  paneDetector.set(paneId, detector)
+  window.electronAPI.setAgentDetector(paneId, detector)
+}
 // Panes with a launch in flight — guards against double-click / double-fire
 // sending the agent command twice (the env re-spawn path is async).
 const launchingPanes = new Set<number>()
 
-// Resolve which agent profile a pane should run: per-pane assignment, then the
-// global default, then the Claude builtin. The id-based fallthrough also makes
-// a deleted/dangling agentId degrade gracefully instead of breaking.
+// Agent profile by id, or by name (case-insensitive)
+export function findProfile(profiles: AgentProfile[], idOrName: string | undefined): AgentProfile | undefined {
+  if (!idOrName) return undefined
+  const key = idOrName.toLowerCase()
+  return profiles.find((p) => p.id === idOrName) ?? profiles.find((p) => p.name.toLowerCase() === key)
+}
+
+// Resolve which agent profile a pane should run: per-pane assignment, then its
+// trusted project's agent, then the global default, then the Claude builtin.
+// The id-based fallthrough also makes a deleted/dangling agentId degrade
+// gracefully instead of breaking.
 export function resolvePaneProfile(
-  pane: Pick<PaneConfig, 'agentId'> | undefined,
-  prefs: Pick<WorkspacePreferences, 'agentProfiles' | 'defaultAgentId'>,
+  pane: Pick<PaneConfig, 'agentId' | 'project'> | undefined,
+  prefs: Pick<WorkspacePreferences, 'agentProfiles' | 'defaultAgentId' | 'trustedProjects'>,
 ): AgentProfile {
   const profiles = prefs.agentProfiles ?? DEFAULT_AGENT_PROFILES
+  const projectAgent = isProjectTrusted(pane?.project, prefs) ? pane?.project?.config.agent : undefined
   return (
     profiles.find((p) => p.id === pane?.agentId) ??
+    findProfile(profiles, projectAgent) ??
     profiles.find((p) => p.id === prefs.defaultAgentId) ??
     profiles.find((p) => p.builtin === 'claude') ??
     DEFAULT_AGENT_PROFILES[0]
   )
 }
 
+// Profiles that run the real `claude` CLI and so accept `--resume <id>`: the
+// builtin, and router-backed profiles (`ccr code` forwards its args to claude).
+export function supportsClaudeResume(profile: AgentProfile): boolean {
+  return profile.builtin === 'claude' || isRouterProfile(profile)
+}
+
 // Launch an agent profile in a pane. Profiles that carry env re-spawn the shell
 // with that env (so secrets never hit shell history); env-less profiles (incl.
 // Claude) just type the command into the existing shell — identical to before.
 // forceCwd (used by Fork) forces a fresh shell in a specific directory.
+// resumeSessionId (workspace restore) continues a prior Claude conversation.
 export async function launchAgent(
   paneId: number,
   profile: AgentProfile,
   fallbackCwd: string,
   forceCwd?: string,
+  resumeSessionId?: string,
 ) {
   // Swallow rapid duplicate launches for the same pane (double-click / double-fire).
   if (launchingPanes.has(paneId)) return
@@ -284,23 +365,72 @@ export async function launchAgent(
   setTimeout(() => launchingPanes.delete(paneId), 600)
   const hasEnv = !!profile.env && Object.keys(profile.env).length > 0
   const currentEnvProfile = paneEnvProfile.get(paneId) ?? null
-  // Re-spawn when a directory is forced, this profile needs env, OR the pane's
-  // PTY still carries env from a DIFFERENT profile (don't leak prior secrets).
+  // Re-spawn when a directory is forced, this profile needs env, the pane's
+  // PTY still carries env from a DIFFERENT profile (don't leak prior secrets),
+  // OR the shell has since moved into (or out of) a project with its own env.
   const needsRespawn =
-    !!forceCwd || (hasEnv ? currentEnvProfile !== profile.id : currentEnvProfile !== null)
+    !!forceCwd ||
+    (hasEnv ? currentEnvProfile !== profile.id : currentEnvProfile !== null) ||
+    (await window.electronAPI.isProjectEnvStale(paneId))
   if (needsRespawn) {
     // Use the forced dir, else the live tracked cwd (user may have cd'd).
     const cwd = forceCwd || (await window.electronAPI.getCwd(paneId)) || fallbackCwd
     clearTerminal(paneId)
     await window.electronAPI.createPty(paneId, cwd, hasEnv ? profile.env : undefined)
     paneEnvProfile.set(paneId, hasEnv ? profile.id : null)
+    paneDetector.delete(paneId)
   }
+  assignDetector(paneId, detectorForProfile(profile))
   let command = profile.command
   if (profile.builtin === 'claude') {
     const skip = useWorkspaceStore.getState().preferences.dangerouslySkipPermissions === true
     if (skip) command += ' --dangerously-skip-permissions'
   }
-  sendToTerminal(paneId, command + '\r')
+  // Saved workspaces are files on disk: only a well-formed id is typed into the shell
+  if (isClaudeSessionId(resumeSessionId) && supportsClaudeResume(profile)) {
+    command += ` --resume '${resumeSessionId}'`
+  }
+  // Straight to the PTY: a shelved pane has no xterm to go through
+  window.electronAPI.sendInput(paneId, command + '\r')
+  terminals.get(paneId)?.terminal.focus()
+}
+
+// Restore mode: the Claude conversation a pane was running when the app last
+// quit, if its profile can resume it. Env-carrying (router) profiles get their
+// env on the first spawn so launchAgent doesn't re-spawn and wipe the
+// replayed scrollback.
+function restoreTarget(saved: PaneConfig | undefined, prefs: WorkspacePreferences) {
+  const profile = resolvePaneProfile(saved, prefs)
+  const resumeId =
+    isClaudeSessionId(saved?.claudeSessionId) && saved.resumeClaude !== false && supportsClaudeResume(profile)
+      ? saved.claudeSessionId
+      : undefined
+  const resumeEnv = resumeId && profile.env && Object.keys(profile.env).length > 0 ? profile.env : undefined
+  return { profile, resumeId, resumeEnv }
+}
+
+// Shelved panes have no xterm. One restored onto the shelf gets its shell (and
+// conversation) started here; a pane shelved from the grid keeps the shell it
+// had. Either way its output keeps recording, and promoting it replays that.
+const startingHeadless = new Set<number>()
+export async function startHeadlessPty(paneId: number) {
+  if (startingHeadless.has(paneId) || terminals.has(paneId)) return
+  startingHeadless.add(paneId)
+  try {
+    if (await window.electronAPI.isPtyAlive(paneId)) return
+    const store = useWorkspaceStore.getState()
+    const saved = store.panes.find((p) => p.id === paneId)
+    if (!saved?.shelved) return
+    const { profile, resumeId, resumeEnv } = restoreTarget(saved, store.preferences)
+    const success = await window.electronAPI.createPty(paneId, saved.workingDirectory, resumeEnv)
+    paneEnvProfile.set(paneId, resumeEnv ? profile.id : null)
+    paneDetector.delete(paneId)
+    if (success && resumeId) await launchAgent(paneId, profile, saved.workingDirectory, undefined, resumeId)
+  } catch {
+    // Retried the next time the shelf looks
+  } finally {
+    startingHeadless.delete(paneId)
+  }
 }
 
 // Kill whatever is running in a pane and re-spawn a fresh shell. Recovers a pane
@@ -310,8 +440,80 @@ export async function restartShell(paneId: number, fallbackCwd: string) {
   const cwd = (await window.electronAPI.getCwd(paneId)) || fallbackCwd
   clearTerminal(paneId)
   paneEnvProfile.set(paneId, null)
+  paneDetector.delete(paneId)
   await window.electronAPI.createPty(paneId, cwd)
-  useWorkspaceStore.getState().setPaneState(paneId, 'shell')
+  const store = useWorkspaceStore.getState()
+  store.setPaneState(paneId, 'shell')
+  // A deliberate stop ends the conversation; don't resurrect it on restore.
+  store.setPaneClaudeSession(paneId, null)
+}
+
+// Has this pane's shell been spawned yet? (A pane added programmatically
+// mounts and spawns on the next render.)
+export function isPtyReady(paneId: number): boolean {
+  return readyPtys.has(paneId)
+}
+
+// The last `count` lines of a pane's buffer as plain text, trailing blank
+// rows dropped.
+export function readPaneLines(paneId: number, count: number): string[] | null {
+  const entry = terminals.get(paneId)
+  if (!entry) return null
+  const buf = entry.terminal.buffer.active
+  let end = buf.length
+  while (end > 0 && !(buf.getLine(end - 1)?.translateToString(true).trim())) end--
+  const lines: string[] = []
+  for (let i = Math.max(0, end - count); i < end; i++) {
+    lines.push(buf.getLine(i)?.translateToString(true) ?? '')
+  }
+  return lines
+}
+
+// Text selected in a pane's terminal ('' when nothing is, or it has no xterm)
+export function getPaneSelection(paneId: number): string {
+  return terminals.get(paneId)?.terminal.getSelection() ?? ''
+}
+
+// Search a pane's buffer (scrollback + screen). Soft-wrapped rows are joined
+// into their logical line so a match can't be split by the terminal width.
+export function searchPaneBuffer(paneId: number, query: OutputSearchQuery, limit: number): OutputSearchMatch[] {
+  const entry = terminals.get(paneId)
+  const match = outputMatcher(query)
+  if (!entry || !match) return []
+  const buf = entry.terminal.buffer.active
+  const lines: Array<{ text: string; row: number }> = []
+  for (let i = 0; i < buf.length; i++) {
+    const line = buf.getLine(i)
+    if (!line) continue
+    const text = line.translateToString(true)
+    if (line.isWrapped && lines.length > 0) lines[lines.length - 1].text += text
+    else lines.push({ text, row: i })
+  }
+  const hits: OutputSearchMatch[] = []
+  const cols = entry.terminal.cols
+  for (let i = 0; i < lines.length; i++) {
+    const hit = match(lines[i].text)
+    if (!hit) continue
+    hits.push({
+      line: lines[i].text,
+      start: hit.start,
+      length: hit.length,
+      before: lines.slice(Math.max(0, i - 1), i).map((l) => l.text),
+      after: lines.slice(i + 1, i + 2).map((l) => l.text),
+      row: lines[i].row + Math.floor(hit.start / cols),
+    })
+  }
+  return hits.slice(-limit)
+}
+
+// Scroll a search hit into the middle of the pane and select it
+export function revealPaneMatch(paneId: number, match: OutputSearchMatch) {
+  const entry = terminals.get(paneId)
+  if (!entry || match.row === undefined) return
+  const { terminal } = entry
+  terminal.scrollToLine(Math.max(0, match.row - Math.floor(terminal.rows / 2)))
+  userScrolledUp.set(paneId, !isTerminalAtBottom(terminal))
+  terminal.select(match.start % terminal.cols, match.row, match.length)
 }
 
 export function focusTerminal(paneId: number) {
@@ -363,16 +565,19 @@ function disposeTerminal(paneId: number) {
       if (handles.timer !== null) clearTimeout(handles.timer)
     }
     pendingFlush.delete(paneId)
+    replayingScrollback.delete(paneId)
     const scanTimer = promptScanTimers.get(paneId)
     if (scanTimer) clearTimeout(scanTimer)
     promptScanTimers.delete(paneId)
     paneEnvProfile.delete(paneId)
+    paneDetector.delete(paneId)
     canvasAddons.delete(paneId) // addon is disposed with terminal.dispose()
 
     // Dispose the terminal (releases xterm.js resources, DOM elements, event listeners)
     entry.terminal.dispose()
     terminals.delete(paneId)
     initializedPtys.delete(paneId)
+    readyPtys.delete(paneId)
   }
 }
 
@@ -489,6 +694,30 @@ interface TerminalPaneProps {
   paneId: number
 }
 
+// Where a pane dragged onto this one lands: near an edge (outer quarter) it
+// moves to that side, splitting this pane's cell; anywhere else the two swap.
+// A pane from another window moves into this one; detached windows tile
+// their panes, so there it is always a swap.
+type PaneDropZone = PaneEdge | 'center' | 'window'
+
+function paneDropZoneAt(e: DragEvent<HTMLDivElement>, windowId: string): PaneDropZone {
+  if (!e.dataTransfer.types.includes(PANE_WINDOW_DRAG_PREFIX + windowId)) return 'window'
+  if (windowId !== MAIN_WINDOW_ID) return 'center'
+  const rect = e.currentTarget.getBoundingClientRect()
+  const fx = (e.clientX - rect.left) / rect.width
+  const fy = (e.clientY - rect.top) / rect.height
+  const edges: [PaneEdge, number][] = [['left', fx], ['right', 1 - fx], ['top', fy], ['bottom', 1 - fy]]
+  const [edge, distance] = edges.reduce((a, b) => (b[1] < a[1] ? b : a))
+  return distance < 0.25 ? edge : 'center'
+}
+
+const DROP_EDGE_CLASS: Record<PaneEdge, string> = {
+  left: 'inset-y-0 left-0 w-1/2',
+  right: 'inset-y-0 right-0 w-1/2',
+  top: 'inset-x-0 top-0 h-1/2',
+  bottom: 'inset-x-0 bottom-0 h-1/2',
+}
+
 export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneProps) {
   const terminalRef = useRef<HTMLDivElement>(null)
   const xtermRef = useRef<Terminal | null>(null)
@@ -499,14 +728,17 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
   // subscription caused all 4 panes to re-render on every pane change).
   const pane = useWorkspaceStore((s) => s.panes.find((p) => p.id === paneId))
   const isActive = useWorkspaceStore((s) => s.activePaneId === paneId)
+  const broadcasting = useWorkspaceStore((s) => !!s.broadcastPaneIds?.includes(paneId))
   const focusPaneId = useWorkspaceStore((s) => s.focusPaneId)
   const layout = useWorkspaceStore((s) => s.layout)
   const preferences = useWorkspaceStore((s) => s.preferences)
   const setActivePaneId = useWorkspaceStore((s) => s.setActivePaneId)
   const setFocusPaneId = useWorkspaceStore((s) => s.setFocusPaneId)
   const swapPanes = useWorkspaceStore((s) => s.swapPanes)
+  const movePaneToEdge = useWorkspaceStore((s) => s.movePaneToEdge)
+  const windowId = useWorkspaceStore((s) => s.windowId)
   const [isDragOver, setIsDragOver] = useState(false)
-  const [isPaneDragOver, setIsPaneDragOver] = useState(false)
+  const [paneDropZone, setPaneDropZone] = useState<PaneDropZone | null>(null)
 
   // Initialize terminal
   useEffect(() => {
@@ -554,7 +786,7 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
         cursorBlink: true,
         allowProposedApi: true,
         allowTransparency: true,
-        scrollback: 1000, // Limit scrollback to prevent memory bloat
+        scrollback: preferences.scrollbackLines ?? SCROLLBACK_DEFAULT, // Bounded to prevent memory bloat
         scrollOnUserInput: false, // Preserve scroll position when user types
       })
 
@@ -603,20 +835,54 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
         if (initializedPtys.has(paneId)) return
         initializedPtys.add(paneId)
 
+        const restored = await window.electronAPI.loadScrollback(paneId).catch(() => null)
+        if (restored && terminals.get(paneId)?.terminal === terminal) {
+          await replayScrollback(paneId, terminal, restored)
+        }
+
+        // Moved in from another window: its shell is still running, so take
+        // it over (the replay above is its live output) instead of spawning
+        if (await window.electronAPI.isPtyAlive(paneId).catch(() => false)) {
+          readyPtys.add(paneId)
+          if (xtermRef.current) {
+            const { cols, rows } = xtermRef.current
+            window.electronAPI.resizeTerminal(paneId, cols, rows)
+          }
+          return
+        }
+
+        // Restore mode: relaunch the Claude conversation this pane was running
+        // when the app last quit
+        const store = useWorkspaceStore.getState()
+        const saved = store.panes.find((p) => p.id === paneId)
+        const { profile, resumeId, resumeEnv } = restoreTarget(saved, store.preferences)
+
         const success = await window.electronAPI.createPty(
           paneId,
-          pane.workingDirectory
+          pane.workingDirectory,
+          resumeEnv
         )
+        if (resumeEnv) paneEnvProfile.set(paneId, profile.id)
+        if (success) readyPtys.add(paneId)
         if (success && xtermRef.current) {
           const { cols, rows } = xtermRef.current
           window.electronAPI.resizeTerminal(paneId, cols, rows)
         }
+        if (success && resumeId) {
+          launchAgent(paneId, profile, pane.workingDirectory, undefined, resumeId)
+        }
       }
       initPty()
 
       // Handle input
       terminal.onData((data) => {
+        if (replayingScrollback.has(paneId)) return
         window.electronAPI.sendInput(paneId, data)
+        // Broadcast: typing in one picked pane types in all of them
+        const targets = useWorkspaceStore.getState().broadcastPaneIds
+        if (targets?.includes(paneId) && !TERMINAL_REPORT.test(data)) {
+          for (const id of targets) if (id !== paneId) window.electronAPI.sendInput(id, data)
+        }
       })
 
       // Set active pane when terminal receives focus (e.g., from clicking on it)
@@ -743,6 +1009,13 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
     return () => clearTimeout(timeoutId)
   }, [preferences.fontSize, paneId])
 
+  // Apply a changed scrollback length to the live terminal
+  useEffect(() => {
+    if (xtermRef.current) {
+      xtermRef.current.options.scrollback = preferences.scrollbackLines ?? SCROLLBACK_DEFAULT
+    }
+  }, [preferences.scrollbackLines])
+
   // Update terminal theme when preference changes (including background transparency)
   useEffect(() => {
     if (xtermRef.current) {
@@ -865,6 +1138,25 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
     return unsubscribe
   }, [paneId])
 
+  // Classified agent activity from the main-process detector
+  useEffect(() => {
+    const unsubscribe = window.electronAPI.onAgentState((statePaneId, update) => {
+      if (statePaneId !== paneId) return
+      const store = useWorkspaceStore.getState()
+      store.setPaneActivity(paneId, update)
+      // A session id means the update came from a Claude Code hook: Claude is
+      // definitely running, so don't wait for the next process poll.
+      if (update.sessionId && update.activity) {
+        store.setPaneClaudeSession(paneId, update.sessionId)
+        if (store.panes.find((p) => p.id === paneId)?.state === 'shell') {
+          store.setPaneState(paneId, 'claude-active')
+        }
+      }
+      refreshClaudeWaitingState(paneId, xtermRef.current)
+    })
+    return unsubscribe
+  }, [paneId])
+
   // Listen for PTY exit
   // Note: Only paneId in deps - use getState() for store actions to prevent re-registration
   useEffect(() => {
@@ -890,6 +1182,7 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
           const paneConfig = store.panes.find((p) => p.id === paneId)
           initializedPtys.add(paneId)
           paneEnvProfile.set(paneId, null)
+          paneDetector.delete(paneId)
           await window.electronAPI.createPty(
             paneId,
             paneConfig?.workingDirectory
@@ -921,6 +1214,7 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
   // Poll for Claude process status (fast, lightweight check)
   // Note: Only paneId in deps - use getState() for store access to prevent re-registration
   useEffect(() => {
+    let sessionPolls = 0
     const checkClaudeStatus = async () => {
       // Don't poll while the window is hidden/minimized/occluded
       if (document.hidden) return
@@ -932,12 +1226,28 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
       const isClaudeRunning = await window.electronAPI.isClaudeRunning(paneId)
 
       if (!isClaudeRunning) {
-        if (currentState !== 'shell') store.setPaneState(paneId, 'shell')
+        if (currentState !== 'shell') {
+          store.setPaneState(paneId, 'shell')
+          // Claude exited while we watched (not an app quit): nothing to resume.
+          store.setPaneClaudeSession(paneId, null)
+          if (paneDetector.get(paneId) === 'claude') assignDetector(paneId, null)
+        }
+        sessionPolls = 0
         return
       }
 
-      // Claude is running: classify active vs waiting from the buffer.
-      const waiting = xtermRef.current ? scanForClaudePrompt(xtermRef.current) : false
+      // Track the conversation id for --resume on restore. Looked up when Claude
+      // first appears, then every ~15s to follow /clear and /resume.
+      if (sessionPolls++ % 5 === 0) {
+        const sessionId = await window.electronAPI.getClaudeSessionId(paneId)
+        if (sessionId) useWorkspaceStore.getState().setPaneClaudeSession(paneId, sessionId)
+      }
+
+      // Claude may have been started by hand (typed `claude`), not via launchAgent
+      if (paneDetector.get(paneId) !== 'claude') assignDetector(paneId, 'claude')
+
+      // Claude is running: classify active vs waiting.
+      const waiting = isClaudeWaiting(currentPane, xtermRef.current)
       const next = waiting ? 'claude-waiting' : 'claude-active'
       if (currentState !== next) {
         store.setPaneState(paneId, next)
@@ -1018,34 +1328,40 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
 
     // Check if this is a pane drag
     if (e.dataTransfer.types.includes(PANE_DRAG_TYPE)) {
-      setIsPaneDragOver(true)
+      setPaneDropZone(paneDropZoneAt(e, windowId))
       setIsDragOver(false)
     } else {
       setIsDragOver(true)
-      setIsPaneDragOver(false)
+      setPaneDropZone(null)
     }
-  }, [])
+  }, [windowId])
 
   const handleDragLeave = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault()
     e.stopPropagation()
     setIsDragOver(false)
-    setIsPaneDragOver(false)
+    setPaneDropZone(null)
   }, [])
 
   const handleDrop = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault()
     e.stopPropagation()
     setIsDragOver(false)
-    setIsPaneDragOver(false)
+    setPaneDropZone(null)
 
     // Check if this is a pane drag
     const draggedPaneId = e.dataTransfer.getData(PANE_DRAG_TYPE)
     if (draggedPaneId) {
       const sourcePaneId = parseInt(draggedPaneId, 10)
       if (sourcePaneId !== paneId) {
-        // Swap pane positions - this visually swaps them since grid uses array position
-        swapPanes(sourcePaneId, paneId)
+        const zone = paneDropZoneAt(e, windowId)
+        if (zone === 'window') {
+          window.electronAPI.movePaneToWindow(sourcePaneId, windowId)
+        } else if (zone === 'center') {
+          swapPanes(sourcePaneId, paneId)
+        } else {
+          movePaneToEdge(sourcePaneId, paneId, zone)
+        }
       }
       return
     }
@@ -1093,7 +1409,7 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
 
       xtermRef.current?.focus()
     }
-  }, [paneId, setActivePaneId, layout, swapPanes])
+  }, [paneId, windowId, setActivePaneId, layout, swapPanes, movePaneToEdge])
 
   if (!pane) return null
 
@@ -1102,7 +1418,7 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
 
   // Border styling - thin glass-style borders
   const getBorderClass = () => {
-    if (isPaneDragOver) return 'border border-[--accent]'
+    if (paneDropZone) return 'border border-[--accent]'
     if (isDragOver) return 'border border-[--accent]/50'
     if (isActive) return 'border border-white/[0.1]'
     return 'border border-white/[0.05]'
@@ -1117,6 +1433,8 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
   const waiting = pane.state === 'claude-waiting'
   const ringShadows: string[] = []
   if (paired) ringShadows.push(`inset 0 0 0 2px ${pane.pairColor}`)
+  // Broadcast targets get an orange ring, drawn just inside any pair ring
+  if (broadcasting) ringShadows.push(`inset 0 0 0 ${paired ? 4 : 2}px var(--git-orange)`)
   if (isActive && !waiting) {
     ringShadows.push('inset 0 0 0 1.5px rgba(255, 255, 255, 0.7), inset 0 0 12px 1px rgba(255, 255, 255, 0.22)')
   }
@@ -1178,11 +1496,21 @@ export const TerminalPane = memo(function TerminalPane({ paneId }: TerminalPaneP
           <div className="text-[--accent] text-sm font-medium">Drop file here</div>
         </div>
       )}
-      {isPaneDragOver && (
+      {paneDropZone === 'center' && (
         <div className="absolute inset-0 flex items-center justify-center bg-[--accent]/10 pointer-events-none font-mono rounded-sm">
           <div className="text-[--accent] text-sm font-medium">Swap terminals</div>
         </div>
       )}
+      {paneDropZone === 'window' && (
+        <div className="absolute inset-0 flex items-center justify-center bg-[--accent]/10 pointer-events-none font-mono rounded-sm">
+          <div className="text-[--accent] text-sm font-medium">Move to this window</div>
+        </div>
+      )}
+      {paneDropZone && paneDropZone !== 'center' && paneDropZone !== 'window' && (
+        <div className={`absolute ${DROP_EDGE_CLASS[paneDropZone]} flex items-center justify-center bg-[--accent]/15 border border-[--accent]/60 pointer-events-none font-mono rounded-sm`}>
+          <div className="text-[--accent] text-sm font-medium">Move here</div>
+        </div>
+      )}
     </div>
   )
 })
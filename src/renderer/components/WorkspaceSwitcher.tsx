@@ -0,0 +1,242 @@
+import { memo, useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useWorkspaceStore } from '../store/workspace'
+import { disposeAllTerminals } from './TerminalPane'
+import { WorkspaceList, WorkspaceSummary } from '../../shared/types'
+
+type Editing =
+  | { kind: 'save-as' }
+  | { kind: 'rename'; id: string }
+  | { kind: 'confirm-switch'; id: string }
+  | null
+
+// Title-bar menu of named workspaces. Each keeps its own panes and layout;
+// switching tears down the running terminals and starts the other set.
+export const WorkspaceSwitcher = memo(function WorkspaceSwitcher() {
+  const [open, setOpen] = useState(false)
+  const [list, setList] = useState<WorkspaceList | null>(null)
+  const [editing, setEditing] = useState<Editing>(null)
+  const [draft, setDraft] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const buttonRef = useRef<HTMLButtonElement>(null)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  const workspaceId = useWorkspaceStore((s) => s.workspaceId)
+  const flushSave = useWorkspaceStore((s) => s.flushSave)
+  const applyWorkspace = useWorkspaceStore((s) => s.applyWorkspace)
+
+  const refresh = () => {
+    window.electronAPI.listWorkspaces().then(setList).catch(() => {})
+  }
+
+  // The active name shows on the button, so load the list up front
+  useEffect(refresh, [workspaceId])
+
+  // Close on click outside
+  useEffect(() => {
+    if (!open) return
+    const handler = (e: MouseEvent) => {
+      if (
+        panelRef.current && !panelRef.current.contains(e.target as Node) &&
+        buttonRef.current && !buttonRef.current.contains(e.target as Node)
+      ) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [open])
+
+  useEffect(() => {
+    if (open) refresh()
+    setEditing(null)
+    setError(null)
+  }, [open])
+
+  const run = async (action: () => Promise<WorkspaceList | void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const next = await action()
+      if (next) setList(next)
+      setEditing(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const switchTo = (id: string) =>
+    run(async () => {
+      flushSave()
+      const state = await window.electronAPI.switchWorkspace(id)
+      disposeAllTerminals()
+      applyWorkspace(id, state)
+      setOpen(false)
+    })
+
+  const requestSwitch = (ws: WorkspaceSummary) => {
+    if (ws.id === workspaceId || busy) return
+    // Switching ends every running agent; ask first if any are
+    const running = useWorkspaceStore.getState().panes.some((p) => p.state !== 'shell' || !!p.activity)
+    if (running) {
+      setEditing({ kind: 'confirm-switch', id: ws.id })
+    } else {
+      switchTo(ws.id)
+    }
+  }
+
+  const submitDraft = () => {
+    if (!editing || !draft.trim()) return
+    if (editing.kind === 'save-as') {
+      flushSave()
+      run(() => window.electronAPI.saveWorkspaceAs(draft.trim()))
+    } else if (editing.kind === 'rename') {
+      run(() => window.electronAPI.renameWorkspace(editing.id, draft.trim()))
+    }
+  }
+
+  const startEditing = (next: Editing, initial: string) => {
+    setEditing(next)
+    setDraft(initial)
+  }
+
+  const activeName = list?.workspaces.find((w) => w.id === list.activeId)?.name ?? 'Workspace'
+
+  const getPosition = () => {
+    if (!buttonRef.current) return { top: 0, left: 0 }
+    const rect = buttonRef.current.getBoundingClientRect()
+    return { top: rect.bottom + 4, left: rect.left }
+  }
+
+  const draftInput = (placeholder: string) => (
+    <input
+      autoFocus
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') submitDraft()
+        if (e.key === 'Escape') setEditing(null)
+      }}
+      placeholder={placeholder}
+      className="flex-1 min-w-0 bg-[--ui-bg-base] border border-[#444] rounded px-1.5 py-0.5 text-xs text-[--ui-text-primary] outline-none focus:border-[--accent]"
+      spellCheck={false}
+    />
+  )
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-1.5 py-1 text-[11px] text-[--ui-text-dimmed] hover:text-[--ui-text-primary] transition-colors titlebar-no-drag max-w-[180px]"
+        title="Switch workspace"
+        aria-label="Switch workspace"
+      >
+        <span className="truncate">{activeName}</span>
+        <svg width="8" height="8" viewBox="0 0 10 10" fill="none" stroke="currentColor" strokeWidth="1.5" className="shrink-0">
+          <path d="M2 3.5L5 6.5L8 3.5" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      </button>
+
+      {open && createPortal(
+        <div
+          ref={panelRef}
+          className="fixed z-50 w-[260px] bg-[--ui-bg-elevated] border border-[#444] rounded-md shadow-lg overflow-hidden"
+          style={getPosition()}
+        >
+          <div className="px-3 py-1.5 text-[10px] uppercase tracking-wide text-[--ui-text-muted]">
+            Workspaces
+          </div>
+          <div className="max-h-[320px] overflow-y-auto">
+            {list?.workspaces.map((ws) => {
+              const isActive = ws.id === list.activeId
+              if (editing?.kind === 'rename' && editing.id === ws.id) {
+                return (
+                  <div key={ws.id} className="flex items-center gap-1 px-3 py-1">
+                    {draftInput('Workspace name')}
+                  </div>
+                )
+              }
+              return (
+                <div
+                  key={ws.id}
+                  className="group flex items-center gap-2 px-3 py-1.5 hover:bg-[--ui-bg-active]/50 transition-colors cursor-pointer"
+                  onClick={() => requestSwitch(ws)}
+                >
+                  <span className="w-3 shrink-0 text-[--accent] text-xs">{isActive ? '✓' : ''}</span>
+                  <span className={`text-xs truncate flex-1 ${isActive ? 'text-[--ui-text-primary]' : 'text-[--ui-text-secondary]'}`}>
+                    {ws.name}
+                  </span>
+                  <span className="text-[10px] text-[--ui-text-muted] tabular-nums group-hover:hidden">
+                    {ws.paneCount}
+                  </span>
+                  <div className="hidden group-hover:flex items-center gap-1.5 text-[10px]" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => startEditing({ kind: 'rename', id: ws.id }, ws.name)}
+                      className="text-[--ui-text-dimmed] hover:text-[--ui-text-primary]"
+                      title="Rename"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => run(() => window.electronAPI.duplicateWorkspace(ws.id))}
+                      className="text-[--ui-text-dimmed] hover:text-[--ui-text-primary]"
+                      title="Duplicate"
+                    >
+                      Copy
+                    </button>
+                    {!isActive && (
+                      <button
+                        onClick={() => run(() => window.electronAPI.deleteWorkspace(ws.id))}
+                        className="text-[--ui-text-dimmed] hover:text-[#f87171]"
+                        title="Delete"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          {editing?.kind === 'confirm-switch' && (
+            <div className="px-3 py-2 border-t border-white/[0.06] text-[11px] text-[--ui-text-secondary]">
+              <div className="mb-1.5">Switching stops the agents running in this workspace.</div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setEditing(null)} className="text-[--ui-text-dimmed] hover:text-[--ui-text-primary]">
+                  Cancel
+                </button>
+                <button
+                  onClick={() => switchTo(editing.id)}
+                  disabled={busy}
+                  className="px-2 py-0.5 rounded bg-[--accent] text-white disabled:opacity-50"
+                >
+                  Switch
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="border-t border-white/[0.06] px-3 py-1.5">
+            {editing?.kind === 'save-as' ? (
+              <div className="flex items-center gap-1">{draftInput('New workspace name')}</div>
+            ) : (
+              <button
+                onClick={() => startEditing({ kind: 'save-as' }, '')}
+                className="text-xs text-[--ui-text-dimmed] hover:text-[--ui-text-primary]"
+              >
+                Save current as…
+              </button>
+            )}
+            {error && <div className="mt-1 text-[10px] text-[#f87171]">{error}</div>}
+          </div>
+        </div>,
+        document.body,
+      )}
+    </>
+  )
+})
@@ -0,0 +1,122 @@
+import { memo, useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { PaneWorktree, WorktreeFinishAction, WorktreeInfo } from '../../shared/types'
+
+interface WorktreeFinishDialogProps {
+  worktree: PaneWorktree
+  closing: boolean // opened by closing the pane: "Keep" still closes it
+  onCancel: () => void
+  // removed: the worktree directory is gone (merge/push/delete), not kept
+  onFinished: (removed: boolean) => void
+}
+
+// Wrap up a worktree pane: merge its branch back, push it, or throw it away.
+export const WorktreeFinishDialog = memo(function WorktreeFinishDialog({
+  worktree,
+  closing,
+  onCancel,
+  onFinished,
+}: WorktreeFinishDialogProps) {
+  const [info, setInfo] = useState<WorktreeInfo | null>(null)
+  const [busy, setBusy] = useState<WorktreeFinishAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    window.electronAPI.inspectWorktree(worktree).then(setInfo).catch(() => setInfo(null))
+  }, [worktree])
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !busy) onCancel()
+    }
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [busy, onCancel])
+
+  const run = async (action: WorktreeFinishAction) => {
+    // Deleting loses work; ask once more when there's anything to lose
+    if (action === 'delete' && !confirmDelete && info && (info.dirty > 0 || info.ahead > 0)) {
+      setConfirmDelete(true)
+      return
+    }
+    setBusy(action)
+    setError(null)
+    const result = await window.electronAPI.finishWorktree(worktree, action).catch((err) => ({
+      ok: false,
+      error: err instanceof Error ? err.message : String(err),
+    }))
+    setBusy(null)
+    if (result.ok) onFinished(true)
+    else setError(result.error ?? 'Failed')
+  }
+
+  const summary = info
+    ? !info.exists
+      ? 'The worktree folder no longer exists.'
+      : [
+          `${info.ahead} commit${info.ahead === 1 ? '' : 's'} not in ${worktree.baseBranch}`,
+          info.dirty > 0 ? `${info.dirty} uncommitted file${info.dirty === 1 ? '' : 's'}` : 'no uncommitted changes',
+        ].join(' · ')
+    : 'Checking…'
+
+  const actionClass =
+    'w-full px-3 py-2 text-left rounded-lg glass-control hover:border-[--accent] transition-all disabled:opacity-50 disabled:hover:border-transparent'
+
+  // Portaled: pane chrome uses backdrop-filter, which would trap a fixed overlay
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center z-50"
+      onClick={(e) => e.target === e.currentTarget && !busy && onCancel()}
+      role="presentation"
+    >
+      <div
+        className="glass-elevated glass-border rounded-xl shadow-2xl w-full max-w-md mx-4 p-5 backdrop-blur-xl font-mono"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Finish worktree"
+      >
+        <div className="text-sm text-[--ui-text-primary] mb-1">
+          Worktree <span className="text-[--git-green]">{worktree.branch}</span>
+        </div>
+        <div className="text-[11px] text-[--ui-text-muted] truncate" title={worktree.path}>{worktree.path}</div>
+        <div className="text-[11px] text-[--ui-text-dimmed] mt-2 mb-4">{summary}</div>
+
+        <div className="space-y-2 text-xs">
+          <button onClick={() => run('merge')} disabled={!!busy} className={actionClass}>
+            <div className="text-[--ui-text-primary]">{busy === 'merge' ? 'Merging…' : `Merge into ${worktree.baseBranch}`}</div>
+            <div className="text-[10px] text-[--ui-text-muted]">Merge in the main checkout, then remove the worktree and branch</div>
+          </button>
+          <button onClick={() => run('push')} disabled={!!busy} className={actionClass}>
+            <div className="text-[--ui-text-primary]">{busy === 'push' ? 'Pushing…' : 'Push branch'}</div>
+            <div className="text-[10px] text-[--ui-text-muted]">Push {worktree.branch} to origin and remove the worktree; the branch stays</div>
+          </button>
+          <button onClick={() => run('delete')} disabled={!!busy} className={actionClass}>
+            <div className={confirmDelete ? 'text-[#f87171]' : 'text-[--ui-text-primary]'}>
+              {busy === 'delete' ? 'Deleting…' : confirmDelete ? 'Click again to discard the changes' : 'Delete worktree and branch'}
+            </div>
+            <div className="text-[10px] text-[--ui-text-muted]">Throw away the worktree, its branch and anything uncommitted</div>
+          </button>
+        </div>
+
+        {error && <div className="mt-3 text-[11px] text-[#f87171] whitespace-pre-wrap break-words">{error}</div>}
+
+        <div className="flex justify-end gap-3 mt-4 text-xs">
+          <button onClick={onCancel} disabled={!!busy} className="text-[--ui-text-dimmed] hover:text-[--ui-text-primary]">
+            Cancel
+          </button>
+          {closing && (
+            <button
+              onClick={() => onFinished(false)}
+              disabled={!!busy}
+              className="text-[--ui-text-dimmed] hover:text-[--ui-text-primary]"
+            >
+              Keep worktree and close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body,
+  )
+})
@@ -0,0 +1,17 @@
+// Fuzzy matching for the pickers (prompt library, command palette)
+
+// Every query character in order. Lower is better: gaps cost, and a match at
+// the start of a word is cheaper. null = no match.
+export function fuzzyScore(query: string, text: string): number | null {
+  const t = text.toLowerCase()
+  let score = 0
+  let from = 0
+  for (const ch of query) {
+    const at = t.indexOf(ch, from)
+    if (at === -1) return null
+    const wordStart = at === 0 || /[\s/_:-]/.test(t[at - 1])
+    score += (at - from) + (wordStart ? 0 : 1)
+    from = at + 1
+  }
+  return score
+}
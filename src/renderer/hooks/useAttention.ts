@@ -0,0 +1,83 @@
+import { useEffect } from 'react'
+import { useWorkspaceStore } from '../store/workspace'
+import { extractPaneQuestion } from '../components/TerminalPane'
+import { PaneConfig, AGENT_ACTIVITY_LABELS, paneNeedsAttention } from '../../shared/types'
+
+// Give xterm a moment to render the question before we read it from the buffer:
+// hook events can land before the output that goes with them.
+const NOTIFY_DELAY_MS = 300
+
+// Repo (or folder) a pane is working in, for notification titles and the queue
+export function paneRepoName(pane: PaneConfig): string {
+  const parts = pane.workingDirectory.split('/').filter(Boolean)
+  const name = parts[parts.length - 1] || '~'
+  return pane.gitStatus?.branch ? `${name} (${pane.gitStatus.branch})` : name
+}
+
+// What the pane is waiting on, in one line: the question from its buffer when
+// there is one, otherwise the tool call / activity label.
+export function paneAttentionText(pane: PaneConfig): string {
+  const question = extractPaneQuestion(pane.id)
+  if (pane.activity === 'finished-task') return question ?? 'Finished — ready for the next prompt'
+  if (pane.activity === 'awaiting-permission' && pane.activityDetail) {
+    return question ? `${question}\n${pane.activityDetail}` : `Needs permission: ${pane.activityDetail}`
+  }
+  return question ?? (pane.activity ? AGENT_ACTIVITY_LABELS[pane.activity] : 'Waiting for input')
+}
+
+/**
+ * Hook that raises a desktop notification when a pane starts waiting on the
+ * user (or finishes its turn), keeps the dock/taskbar badge at the number of
+ * waiting panes, and focuses a pane when its notification is clicked.
+ *
+ * @param onFocusPane - Focuses a pane in the grid (same path as the menu hotkeys)
+ */
+export function useAttention(onFocusPane: (paneId: number) => void) {
+  useEffect(() => {
+    let waiting = new Set<number>()
+    const timers = new Map<number, ReturnType<typeof setTimeout>>()
+
+    const notify = (paneId: number) => {
+      const store = useWorkspaceStore.getState()
+      if (store.preferences.desktopNotificationsEnabled === false) return
+      const pane = store.panes.find((p) => p.id === paneId)
+      if (!pane || !paneNeedsAttention(pane)) return
+      window.electronAPI.notifyAttention({
+        paneId,
+        title: `${pane.label} · ${paneRepoName(pane)}`,
+        body: paneAttentionText(pane),
+      })
+    }
+
+    const sync = (panes: PaneConfig[]) => {
+      const next = new Set(panes.filter(paneNeedsAttention).map((p) => p.id))
+      for (const id of next) {
+        if (waiting.has(id)) continue
+        clearTimeout(timers.get(id))
+        timers.set(id, setTimeout(() => {
+          timers.delete(id)
+          notify(id)
+        }, NOTIFY_DELAY_MS))
+      }
+      for (const id of waiting) {
+        if (next.has(id)) continue
+        clearTimeout(timers.get(id))
+        timers.delete(id)
+        window.electronAPI.clearAttention(id)
+      }
+      if (next.size !== waiting.size) window.electronAPI.setAttentionBadge(next.size)
+      waiting = next
+    }
+
+    sync(useWorkspaceStore.getState().panes)
+    const unsubscribe = useWorkspaceStore.subscribe((state, prev) => {
+      if (state.panes !== prev.panes) sync(state.panes)
+    })
+    return () => {
+      unsubscribe()
+      timers.forEach((t) => clearTimeout(t))
+    }
+  }, [])
+
+  useEffect(() => window.electronAPI.onAttentionFocusPane(onFocusPane), [onFocusPane])
+}
@@ -0,0 +1,248 @@
+import { useEffect } from 'react'
+import { useWorkspaceStore } from '../store/workspace'
+import {
+  clearTerminal,
+  findProfile,
+  isPtyReady,
+  launchAgent,
+  readPaneLines,
+  resolvePaneProfile,
+  sendToTerminal,
+} from '../components/TerminalPane'
+import {
+  AgentProfile,
+  AutomationPaneInfo,
+  AutomationRequest,
+  AUTOMATION_ERRORS,
+  DEFAULT_AGENT_PROFILES,
+  LayoutMode,
+  PaneConfig,
+  paneNeedsAttention,
+} from '../../shared/types'
+
+const LAYOUTS: LayoutMode[] = ['grid', 'focus', 'focus-right', 'custom']
+const DEFAULT_READ_LINES = 50
+const MAX_READ_LINES = 1000
+const PTY_READY_TIMEOUT_MS = 5000
+// Enter goes out as its own write, a beat after the text, so agent TUIs see a
+// submit rather than a newline inside a paste.
+const ENTER_DELAY_MS = 50
+
+// Thrown by handlers; carried back to the socket as a JSON-RPC error
+class AutomationCallError extends Error {
+  code: number
+  constructor(code: number, message: string) {
+    super(message)
+    this.code = code
+  }
+}
+
+function paneInfo(pane: PaneConfig): AutomationPaneInfo {
+  const { preferences } = useWorkspaceStore.getState()
+  return {
+    id: pane.id,
+    label: pane.label,
+    cwd: pane.workingDirectory,
+    state: pane.state,
+    activity: pane.activity ?? null,
+    detail: pane.activityDetail ?? null,
+    agent: resolvePaneProfile(pane, preferences).id,
+    branch: pane.gitStatus?.branch ?? null,
+    needsAttention: paneNeedsAttention(pane),
+  }
+}
+
+function requirePane(params: Record<string, unknown>): PaneConfig {
+  const paneId = params.paneId
+  if (typeof paneId !== 'number') {
+    throw new AutomationCallError(AUTOMATION_ERRORS.INVALID_PARAMS, 'paneId must be a number')
+  }
+  const pane = useWorkspaceStore.getState().panes.find((p) => p.id === paneId)
+  if (!pane) throw new AutomationCallError(AUTOMATION_ERRORS.NO_PANE, `No pane with id ${paneId}`)
+  return pane
+}
+
+// Agent profile by id, or by name (case-insensitive)
+function requireProfile(agent: unknown): AgentProfile {
+  const profiles = useWorkspaceStore.getState().preferences.agentProfiles ?? DEFAULT_AGENT_PROFILES
+  const profile = findProfile(profiles, String(agent))
+  if (!profile) {
+    throw new AutomationCallError(
+      AUTOMATION_ERRORS.INVALID_PARAMS,
+      `Unknown agent "${agent}" (have: ${profiles.map((p) => p.id).join(', ')})`,
+    )
+  }
+  return profile
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// A pane added programmatically mounts and spawns its shell on a later render
+async function waitForPty(paneId: number): Promise<void> {
+  const deadline = Date.now() + PTY_READY_TIMEOUT_MS
+  while (!isPtyReady(paneId)) {
+    if (Date.now() > deadline) {
+      throw new AutomationCallError(AUTOMATION_ERRORS.UNAVAILABLE, `Pane ${paneId} did not start`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100))
+  }
+}
+
+async function openPane(params: Record<string, unknown>): Promise<AutomationPaneInfo> {
+  const cwd = params.cwd
+  if (typeof cwd !== 'string' || !cwd.startsWith('/')) {
+    throw new AutomationCallError(AUTOMATION_ERRORS.INVALID_PARAMS, 'cwd must be an absolute path')
+  }
+  const profile = params.agent !== undefined && params.agent !== null ? requireProfile(params.agent) : null
+  const store = useWorkspaceStore.getState()
+  // Same notion of "free" as the Fork button: idle shell, no agent, no servers
+  const free = store.panes.find(
+    (p) => p.state === 'shell' && !p.activity && (!p.servers || p.servers.length === 0),
+  )
+
+  let paneId: number
+  if (free) {
+    paneId = free.id
+    if (profile) {
+      // Fresh shell rooted at cwd, then the agent
+      await launchAgent(paneId, profile, cwd, cwd)
+    } else {
+      clearTerminal(paneId)
+      sendToTerminal(paneId, `cd ${shellQuote(cwd)}\r`)
+    }
+  } else {
+    const added = store.addPane()
+    if (added === null) {
+      throw new AutomationCallError(AUTOMATION_ERRORS.NO_PANE, 'No free pane, and already at the pane limit')
+    }
+    paneId = added
+    // Set before the pane mounts so its first shell spawns in cwd
+    store.updatePane(paneId, { workingDirectory: cwd })
+    await waitForPty(paneId)
+    if (profile) await launchAgent(paneId, profile, cwd)
+  }
+  if (profile) store.setPaneAgent(paneId, profile.id)
+  store.setPaneCwd(paneId, cwd)
+  return paneInfo(requirePane({ paneId }))
+}
+
+async function sendText(params: Record<string, unknown>): Promise<{ ok: true }> {
+  const pane = requirePane(params)
+  if (typeof params.text !== 'string') {
+    throw new AutomationCallError(AUTOMATION_ERRORS.INVALID_PARAMS, 'text must be a string')
+  }
+  if (params.text) sendToTerminal(pane.id, params.text)
+  if (params.enter !== false) {
+    await new Promise((resolve) => setTimeout(resolve, params.text ? ENTER_DELAY_MS : 0))
+    sendToTerminal(pane.id, '\r')
+  }
+  return { ok: true }
+}
+
+async function launch(params: Record<string, unknown>): Promise<AutomationPaneInfo> {
+  const pane = requirePane(params)
+  const store = useWorkspaceStore.getState()
+  const profile = params.agent ? requireProfile(params.agent) : resolvePaneProfile(pane, store.preferences)
+  if (params.agent) store.setPaneAgent(pane.id, profile.id)
+  await launchAgent(pane.id, profile, pane.workingDirectory)
+  return paneInfo(requirePane(params))
+}
+
+function read(params: Record<string, unknown>): { lines: string[] } {
+  const pane = requirePane(params)
+  const requested = typeof params.lines === 'number' ? Math.floor(params.lines) : DEFAULT_READ_LINES
+  const lines = readPaneLines(pane.id, Math.min(Math.max(1, requested), MAX_READ_LINES))
+  if (!lines) throw new AutomationCallError(AUTOMATION_ERRORS.UNAVAILABLE, `Pane ${pane.id} has no terminal`)
+  return { lines }
+}
+
+// Resolve on the pane's next state/activity change - or, with `until`, once its
+// state or activity is one of those (immediately if it already is).
+function waitForChange(params: Record<string, unknown>): Promise<AutomationPaneInfo> {
+  const pane = requirePane(params)
+  const until = Array.isArray(params.until) ? params.until.map(String) : []
+  const timeoutMs = typeof params.timeoutMs === 'number' ? params.timeoutMs : 0
+  const matches = (p: PaneConfig) =>
+    until.includes(p.state) || (!!p.activity && until.includes(p.activity)) ||
+    (until.includes('attention') && paneNeedsAttention(p))
+  if (until.length > 0 && matches(pane)) return Promise.resolve(paneInfo(pane))
+
+  const startKey = `${pane.state}/${pane.activity ?? ''}`
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const finish = (fn: () => void) => {
+      unsubscribe()
+      if (timer) clearTimeout(timer)
+      fn()
+    }
+    const unsubscribe = useWorkspaceStore.subscribe((state, prev) => {
+      if (state.panes === prev.panes) return
+      const current = state.panes.find((p) => p.id === pane.id)
+      if (!current) {
+        finish(() => reject(new AutomationCallError(AUTOMATION_ERRORS.NO_PANE, `Pane ${pane.id} was closed`)))
+        return
+      }
+      const changed = `${current.state}/${current.activity ?? ''}` !== startKey
+      if (until.length > 0 ? matches(current) : changed) finish(() => resolve(paneInfo(current)))
+    })
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        finish(() => reject(new AutomationCallError(AUTOMATION_ERRORS.TIMEOUT, `Timed out waiting on pane ${pane.id}`)))
+      }, timeoutMs)
+    }
+  })
+}
+
+function handle(method: string, params: Record<string, unknown>): unknown {
+  const store = useWorkspaceStore.getState()
+  switch (method) {
+    case 'panes.list':
+      return store.panes.map(paneInfo)
+    case 'panes.open':
+      return openPane(params)
+    case 'panes.send':
+      return sendText(params)
+    case 'panes.launch':
+      return launch(params)
+    case 'panes.read':
+      return read(params)
+    case 'panes.wait':
+      return waitForChange(params)
+    case 'layout.set': {
+      const layout = params.layout as LayoutMode
+      if (!LAYOUTS.includes(layout)) {
+        throw new AutomationCallError(AUTOMATION_ERRORS.INVALID_PARAMS, `layout must be one of ${LAYOUTS.join(', ')}`)
+      }
+      store.setLayout(layout)
+      return { layout }
+    }
+    default:
+      throw new AutomationCallError(AUTOMATION_ERRORS.METHOD_NOT_FOUND, `Unknown method: ${method}`)
+  }
+}
+
+/**
+ * Hook that answers automation API calls (the `quadclaude` CLI / local
+ * JSON-RPC socket) forwarded from the main process. Calls about one pane come
+ * to the window showing it, so every window answers.
+ */
+export function useAutomation() {
+  useEffect(() => {
+    return window.electronAPI.onAutomationRequest(async ({ id, method, params }: AutomationRequest) => {
+      try {
+        const result = await handle(method, params)
+        window.electronAPI.respondAutomation({ id, result })
+      } catch (error) {
+        window.electronAPI.respondAutomation({
+          id,
+          error: {
+            code: error instanceof AutomationCallError ? error.code : AUTOMATION_ERRORS.INTERNAL,
+            message: error instanceof Error ? error.message : String(error),
+          },
+        })
+      }
+    })
+  }, [])
+}
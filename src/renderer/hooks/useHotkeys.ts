@@ -4,7 +4,8 @@ import { focusTerminal } from '../components/TerminalPane'
 import { LayoutMode } from '../../shared/types'
 
 /**
- * Hook to handle global hotkey bindings for terminal focus and layout switching
+ * Hook to handle global hotkey bindings for terminal focus, layout switching
+ * and layout presets
  *
  * @param enabled - Whether hotkeys are currently enabled (default: true)
  */
@@ -14,6 +15,7 @@ export function useHotkeys(enabled: boolean = true) {
   // global keydown listener.
   const hotkeys = useWorkspaceStore((s) => s.preferences.hotkeys)
   const setLayout = useWorkspaceStore((s) => s.setLayout)
+  const applyLayoutPreset = useWorkspaceStore((s) => s.applyLayoutPreset)
 
   // Stable callback: reads activePaneId via getState() so it doesn't change
   // identity on every pane focus (which would re-register the listener).
@@ -81,6 +83,11 @@ export function useHotkeys(enabled: boolean = true) {
       { ...parseHotkey(hotkeys.layoutFocusRight), layout: 'focus-right' },
     ]
 
+    // Layout presets with a hotkey assigned
+    const presetHotkeyConfigs = Object.entries(hotkeys.layoutPresets ?? {})
+      .filter(([, hotkey]) => !!hotkey)
+      .map(([presetId, hotkey]) => ({ ...parseHotkey(hotkey), presetId }))
+
     const handleKeyDown = (e: KeyboardEvent) => {
       // Don't intercept if user is typing in an input field
       if (
@@ -108,6 +115,21 @@ export function useHotkeys(enabled: boolean = true) {
         }
       }
 
+      for (const config of presetHotkeyConfigs) {
+        const modifiersMatch =
+          e.ctrlKey === config.modifiers.ctrl &&
+          e.altKey === config.modifiers.alt &&
+          e.shiftKey === config.modifiers.shift &&
+          e.metaKey === config.modifiers.meta
+
+        if (pressedKey === config.key && modifiersMatch) {
+          e.preventDefault()
+          e.stopPropagation()
+          applyLayoutPreset(config.presetId)
+          return
+        }
+      }
+
       // Check each terminal focus hotkey config for a match
       for (const config of terminalHotkeyConfigs) {
         const modifiersMatch =
@@ -138,5 +160,5 @@ export function useHotkeys(enabled: boolean = true) {
       window.removeEventListener('keydown', handleKeyDown, true)
       window.removeEventListener('terminal-hotkey', handleTerminalHotkey)
     }
-  }, [enabled, hotkeys, handleTerminalFocus, setLayout])
+  }, [enabled, hotkeys, handleTerminalFocus, setLayout, applyLayoutPreset])
 }
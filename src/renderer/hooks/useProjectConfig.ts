@@ -0,0 +1,161 @@
+import { useEffect } from 'react'
+import { useWorkspaceStore } from '../store/workspace'
+import { findProfile, launchAgent, resolvePaneProfile } from '../components/TerminalPane'
+import {
+  DEFAULT_AGENT_PROFILES,
+  PaneConfig,
+  ProjectConfig,
+  ProjectInfo,
+  isProjectTrusted,
+  windowOwningPane,
+} from '../../shared/types'
+
+const SHELL_START_TIMEOUT_MS = 5000
+
+// Projects whose startup commands and pairing already ran this session, by root
+const startedProjects = new Set<string>()
+// Project versions the user declined to trust this session (root#hash)
+const dismissedProjects = new Set<string>()
+
+// Only a prompt folder is harmless; anything else waits for trust
+function needsTrust(config: ProjectConfig): boolean {
+  return !!(config.agent || config.env || config.portBase !== undefined || config.startup || config.pair)
+}
+
+function inProject(pane: PaneConfig, root: string): boolean {
+  return pane.workingDirectory === root || pane.workingDirectory.startsWith(root + '/')
+}
+
+// A pane added programmatically spawns its shell once it mounts (or, on the
+// shelf, headless)
+async function waitForShell(paneId: number): Promise<boolean> {
+  const deadline = Date.now() + SHELL_START_TIMEOUT_MS
+  while (!(await window.electronAPI.isPtyAlive(paneId))) {
+    if (Date.now() > deadline) return false
+    await new Promise((resolve) => setTimeout(resolve, 100))
+  }
+  return true
+}
+
+// A new pane in the project root; the user stays in the pane they're in
+function openProjectPane(root: string, updates: Partial<PaneConfig>): number | null {
+  const store = useWorkspaceStore.getState()
+  const activePaneId = store.activePaneId
+  const paneId = store.addPane()
+  if (paneId === null) return null
+  // Set before the pane mounts so its first shell spawns in the root
+  store.updatePane(paneId, { workingDirectory: root, ...updates })
+  store.setActivePaneId(activePaneId)
+  return paneId
+}
+
+// Each startup command runs in its companion pane: the one opened for it
+// before (restored with the workspace), else a new one
+async function runStartup(project: ProjectInfo) {
+  for (const { command, label } of project.config.startup ?? []) {
+    const existing = useWorkspaceStore.getState().panes.find(
+      (p) => p.companion?.root === project.root && p.companion.command === command,
+    )
+    // Already running something
+    if (existing && (existing.state !== 'shell' || existing.servers?.length)) continue
+    const paneId = existing?.id ?? openProjectPane(project.root, {
+      label: label ?? command,
+      companion: { root: project.root, command },
+    })
+    if (paneId === null) continue
+    if (await waitForShell(paneId)) window.electronAPI.sendInput(paneId, command + '\r')
+  }
+}
+
+// Suggested pairing: the pane entering the project drives a new worker pane,
+// unless one of the project's panes is already paired
+async function runPairing(paneId: number, project: ProjectInfo) {
+  const { pair } = project.config
+  if (!pair) return
+  const store = useWorkspaceStore.getState()
+  const pane = store.panes.find((p) => p.id === paneId)
+  if (!pane || pane.pairId || pane.companion) return
+  if (store.panes.some((p) => p.pairId && inProject(p, project.root))) return
+  const profiles = store.preferences.agentProfiles ?? DEFAULT_AGENT_PROFILES
+  const profile = (pair !== true && findProfile(profiles, pair)) || resolvePaneProfile({ project }, store.preferences)
+  const workerId = openProjectPane(project.root, { label: 'Worker', agentId: profile.id })
+  if (workerId === null) return
+  store.pairPanes(paneId, workerId)
+  if (await waitForShell(workerId)) await launchAgent(workerId, profile, project.root)
+}
+
+// Once per session per project. Env, port base and the default agent need no
+// action here: main adds the env to shells spawned in the project, and
+// resolvePaneProfile reads the agent off the pane.
+function applyProject(paneId: number, project: ProjectInfo) {
+  if (startedProjects.has(project.root)) return
+  startedProjects.add(project.root)
+  runStartup(project)
+    .then(() => runPairing(paneId, project))
+    .catch(() => {})
+}
+
+export function trustProject(paneId: number, project: ProjectInfo) {
+  const store = useWorkspaceStore.getState()
+  store.updatePreferences({
+    trustedProjects: { ...store.preferences.trustedProjects, [project.root]: project.hash },
+  })
+  store.setProjectTrustRequest(null)
+  applyProject(paneId, project)
+}
+
+export function dismissProject(project: ProjectInfo) {
+  dismissedProjects.add(`${project.root}#${project.hash}`)
+  useWorkspaceStore.getState().setProjectTrustRequest(null)
+}
+
+function enterProject(paneId: number, project: ProjectInfo) {
+  const store = useWorkspaceStore.getState()
+  if (!needsTrust(project.config)) return
+  if (isProjectTrusted(project, store.preferences)) {
+    applyProject(paneId, project)
+    return
+  }
+  if (dismissedProjects.has(`${project.root}#${project.hash}`) || store.projectTrustRequest) return
+  store.setProjectTrustRequest({ paneId, project })
+}
+
+/**
+ * Hook that finds each of this window's panes' project config (.quadclaude.json
+ * at or above its directory) whenever the pane's directory changes. Entering a
+ * project asks to trust it the first time (and whenever the file changes), then
+ * runs its startup commands and suggested pairing once per session.
+ */
+export function useProjectConfig() {
+  useEffect(() => {
+    // Directory each pane was last looked up for
+    const looked = new Map<number, string>()
+
+    const check = () => {
+      const { panes, windows, windowId } = useWorkspaceStore.getState()
+      for (const pane of panes) {
+        if (windowOwningPane(windows, pane.id) !== windowId) {
+          looked.delete(pane.id)
+          continue
+        }
+        const cwd = pane.workingDirectory
+        if (!cwd || looked.get(pane.id) === cwd) continue
+        looked.set(pane.id, cwd)
+        window.electronAPI.getProjectConfig(cwd).then((project) => {
+          const store = useWorkspaceStore.getState()
+          const current = store.panes.find((p) => p.id === pane.id)
+          if (!current || current.workingDirectory !== cwd) return
+          const entered = project && project.hash !== current.project?.hash
+          store.setPaneProject(pane.id, project)
+          if (entered) enterProject(pane.id, project)
+        }).catch(() => {})
+      }
+    }
+
+    check()
+    return useWorkspaceStore.subscribe((state, prev) => {
+      if (state.workspaceId !== prev.workspaceId) looked.clear()
+      if (state.panes !== prev.panes || state.windows !== prev.windows) check()
+    })
+  }, [])
+}
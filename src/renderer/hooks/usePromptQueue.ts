@@ -0,0 +1,82 @@
+import { useEffect } from 'react'
+import { useWorkspaceStore } from '../store/workspace'
+import { PaneConfig, QueuedPrompt, windowOwningPane } from '../../shared/types'
+
+// Enter goes out as its own write, a beat after the text, so agent TUIs see a
+// submit rather than a newline inside a paste (same as the automation send).
+const ENTER_DELAY_MS = 50
+// After a send, the pane only counts as idle again once its agent has been
+// seen working - or after this long, for prompts that start no work at all
+// (slash commands, an agent that already exited).
+const SETTLE_MS = 15_000
+// Scheduled prompts are re-checked at least this often, so a sleep or clock
+// change can't leave one waiting on a stale timer.
+const MAX_WAIT_MS = 60_000
+
+// The agent is sitting at its prompt, ready for the next one
+function atPrompt(pane: PaneConfig): boolean {
+  return pane.activity === 'idle-at-prompt' || pane.activity === 'finished-task'
+}
+
+function send(paneId: number, prompt: QueuedPrompt) {
+  useWorkspaceStore.getState().dequeuePrompt(paneId, prompt.id)
+  window.electronAPI.sendInput(paneId, prompt.text)
+  setTimeout(() => window.electronAPI.sendInput(paneId, '\r'), ENTER_DELAY_MS)
+}
+
+/**
+ * Hook that works through each pane's prompt queue: the head of the queue is
+ * typed into the pane once its agent is idle at the prompt and its scheduled
+ * time (if any) has come. Each window sends only for the panes it owns, shelved
+ * ones included.
+ */
+export function usePromptQueue() {
+  useEffect(() => {
+    // Pane id → when we last sent to it
+    const sentAt = new Map<number, number>()
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const check = () => {
+      clearTimeout(timer)
+      const state = useWorkspaceStore.getState()
+      const now = Date.now()
+      let nextCheck = now + MAX_WAIT_MS
+      const due: Array<[number, QueuedPrompt]> = []
+
+      for (const pane of state.panes) {
+        const head = pane.promptQueue?.[0]
+        if (!head || windowOwningPane(state.windows, pane.id) !== state.windowId) continue
+        const sent = sentAt.get(pane.id)
+        if (sent !== undefined) {
+          if (atPrompt(pane) && now - sent < SETTLE_MS) {
+            nextCheck = Math.min(nextCheck, sent + SETTLE_MS)
+            continue
+          }
+          sentAt.delete(pane.id)
+        }
+        if (head.sendAt && head.sendAt > now) {
+          nextCheck = Math.min(nextCheck, head.sendAt)
+          continue
+        }
+        if (atPrompt(pane)) due.push([pane.id, head])
+      }
+
+      // Sent after the scan: each dequeue re-enters check through the store
+      for (const [paneId, prompt] of due) {
+        sentAt.set(paneId, now)
+        send(paneId, prompt)
+      }
+      clearTimeout(timer)
+      timer = setTimeout(check, Math.max(nextCheck - Date.now(), 0) + 50)
+    }
+
+    check()
+    const unsubscribe = useWorkspaceStore.subscribe((state, prev) => {
+      if (state.panes !== prev.panes) check()
+    })
+    return () => {
+      unsubscribe()
+      clearTimeout(timer)
+    }
+  }, [])
+}
@@ -0,0 +1,53 @@
+import { useEffect } from 'react'
+import { useWorkspaceStore } from '../store/workspace'
+import { PromptSyncRequest } from '../../shared/types'
+
+// Pane directories change in bursts (every cd); sync a moment after the first
+const SYNC_DEBOUNCE_MS = 1000
+
+function syncRequest(): PromptSyncRequest {
+  const { preferences, panes } = useWorkspaceStore.getState()
+  return {
+    directories: preferences.promptDirectories ?? [],
+    cwds: preferences.repoPrompts === false ? [] : [...new Set(panes.map((p) => p.workingDirectory))],
+  }
+}
+
+/**
+ * Hook that keeps the store's syncedPrompts in step with the prompt folders on
+ * disk: the ones picked in Settings, plus .quadclaude/prompts in the repos the
+ * panes are in. Main watches the folders and pushes changes.
+ */
+export function usePromptSync() {
+  useEffect(() => {
+    const { setSyncedPrompts } = useWorkspaceStore.getState()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let lastRequest = ''
+
+    const sync = () => {
+      const request = syncRequest()
+      const key = JSON.stringify(request)
+      if (key === lastRequest) return
+      lastRequest = key
+      window.electronAPI.syncPrompts(request).then(setSyncedPrompts).catch(() => {})
+    }
+
+    sync()
+    // Panes churn constantly (activity, git status); only a changed request
+    // schedules a sync, and a pending one isn't pushed back
+    const unsubscribe = useWorkspaceStore.subscribe((state, prev) => {
+      if (state.panes === prev.panes && state.preferences === prev.preferences) return
+      if (timer !== undefined || JSON.stringify(syncRequest()) === lastRequest) return
+      timer = setTimeout(() => {
+        timer = undefined
+        sync()
+      }, SYNC_DEBOUNCE_MS)
+    })
+    const offChanged = window.electronAPI.onPromptsChanged(setSyncedPrompts)
+    return () => {
+      unsubscribe()
+      offChanged()
+      clearTimeout(timer)
+    }
+  }, [])
+}
@@ -1,5 +1,7 @@
 import {
   LayoutMode,
+  LayoutNode,
+  SPLIT_SIZE_MIN,
   FOCUS_SMALL_RATIO_DEFAULT,
   FOCUS_SMALL_RATIO_MIN,
   FOCUS_SMALL_RATIO_MAX,
@@ -20,6 +22,7 @@ export const LAYOUTS: Record<LayoutMode, LayoutConfig> = {
   grid: { name: 'Grid', icon: '⊞' },
   focus: { name: 'Focus', icon: '◱' },
   'focus-right': { name: 'Focus Right', icon: '◰' },
+  custom: { name: 'Custom', icon: '⊟' },
 }
 
 // Auto-balanced grid dimensions for N panes: the most square-ish layout that
@@ -33,64 +36,252 @@ export function gridDimensions(count: number): { cols: number; rows: number } {
 
 // Number of empty trailing cells in the grid (where the "+" ghost tile goes).
 // Only the grid layout has these; focus layouts stack exactly count-1 panes.
+// In the generated tree they are GHOST_PANE_ID leaves.
 export function gridBlanks(count: number): number {
   if (count <= 0) return 0
   const { cols, rows } = gridDimensions(count)
   return cols * rows - count
 }
 
-export function getGridStyle(
+// Leaf id for an empty grid cell (rendered as the "+" add-terminal tile)
+export const GHOST_PANE_ID = -1
+
+type SplitNode = Extract<LayoutNode, { type: 'split' }>
+export type SplitDirection = SplitNode['direction']
+export type PaneEdge = 'left' | 'right' | 'top' | 'bottom'
+
+const leaf = (paneId: number): LayoutNode => ({ type: 'pane', paneId })
+
+// Fractions summing to 1; equal shares when the input doesn't fit the children.
+function normalizeSizes(sizes: number[], count: number): number[] {
+  const valid = sizes.length === count && sizes.every((s) => Number.isFinite(s) && s > 0)
+  const raw = valid ? sizes : new Array<number>(count).fill(1)
+  const total = raw.reduce((a, b) => a + b, 0)
+  return raw.map((s) => s / total)
+}
+
+// Build a split, keeping trees canonical: a lone child stands in for the
+// split, and a child split running the same direction is merged into this one.
+function split(direction: SplitDirection, children: LayoutNode[], sizes?: number[]): LayoutNode {
+  if (children.length === 1) return children[0]
+  const shares = normalizeSizes(sizes ?? children.map(() => 1), children.length)
+  const flat: LayoutNode[] = []
+  const flatSizes: number[] = []
+  children.forEach((child, i) => {
+    if (child.type === 'split' && child.direction === direction) {
+      child.children.forEach((c, j) => {
+        flat.push(c)
+        flatSizes.push(shares[i] * child.sizes[j])
+      })
+    } else {
+      flat.push(child)
+      flatSizes.push(shares[i])
+    }
+  })
+  return { type: 'split', direction, children: flat, sizes: normalizeSizes(flatSizes, flat.length) }
+}
+
+// Grid: rows of auto-balanced columns. Trailing blanks become ghost cells so
+// the last row's panes line up with the rows above.
+function gridTree(paneIds: number[]): LayoutNode {
+  if (paneIds.length === 0) return leaf(GHOST_PANE_ID)
+  const { cols, rows } = gridDimensions(paneIds.length)
+  const cells = [...paneIds, ...new Array<number>(gridBlanks(paneIds.length)).fill(GHOST_PANE_ID)]
+  const rowNodes = Array.from({ length: rows }, (_, r) =>
+    split('row', cells.slice(r * cols, (r + 1) * cols).map(leaf)),
+  )
+  return split('column', rowNodes)
+}
+
+// Focus: the first pane big, the rest stacked in a column beside it whose
+// share of the width is the focus splitter ratio.
+function focusTree(paneIds: number[], focusSmallRatio: number, right: boolean): LayoutNode {
+  const [big, ...rest] = paneIds
+  if (rest.length === 0) return gridTree(paneIds)
+  const r = clampFocusRatio(focusSmallRatio)
+  const stack = split('column', rest.map(leaf))
+  return right ? split('row', [stack, leaf(big)], [r, 1 - r]) : split('row', [leaf(big), stack], [1 - r, r])
+}
+
+// The tree a layout renders: grid and focus are generated from the pane order,
+// custom is the saved tree brought in line with the current panes.
+export function buildLayoutTree(
   layout: LayoutMode,
-  count: number,
+  paneIds: number[],
   focusSmallRatio: number = FOCUS_SMALL_RATIO_DEFAULT,
-): React.CSSProperties {
-  const base: React.CSSProperties = { display: 'grid', gap: '2px', height: '100%' }
-
-  // Focus layouts: one large pane spanning all rows, the rest stacked in a
-  // narrow column beside it. Rows = number of small panes (count - 1). The
-  // big/small split is driven by the (draggable, persisted) ratio; fr units
-  // keep the 2px gap from causing overflow. position:relative anchors the
-  // splitter overlay rendered by TerminalGrid.
+  customTree?: LayoutNode,
+): LayoutNode {
+  if (layout === 'custom' && customTree) return syncTree(customTree, paneIds)
   if (layout === 'focus' || layout === 'focus-right') {
-    const smallRows = Math.max(1, count - 1)
-    const r = clampFocusRatio(focusSmallRatio)
-    const big = 1 - r
-    return {
-      ...base,
-      position: 'relative',
-      gridTemplateColumns: layout === 'focus' ? `${big}fr ${r}fr` : `${r}fr ${big}fr`,
-      gridTemplateRows: `repeat(${smallRows}, 1fr)`,
+    return focusTree(paneIds, focusSmallRatio, layout === 'focus-right')
+  }
+  return gridTree(paneIds)
+}
+
+export function treePaneIds(node: LayoutNode): number[] {
+  return node.type === 'pane' ? [node.paneId] : node.children.flatMap(treePaneIds)
+}
+
+// Make a tree hold exactly `paneIds`: leaves for closed panes (and ghost cells)
+// are dropped, splits left with one child collapse, and panes the tree doesn't
+// have yet join the top-level split. Also tolerates malformed saved trees.
+export function syncTree(tree: LayoutNode, paneIds: number[]): LayoutNode {
+  const wanted = new Set(paneIds)
+  const seen = new Set<number>()
+  const prune = (node: LayoutNode | undefined): LayoutNode | null => {
+    if (!node || typeof node !== 'object') return null
+    if (node.type === 'pane') {
+      if (!wanted.has(node.paneId) || seen.has(node.paneId)) return null
+      seen.add(node.paneId)
+      return node
     }
+    if (node.type !== 'split' || !Array.isArray(node.children)) return null
+    const kept: LayoutNode[] = []
+    const sizes: number[] = []
+    node.children.forEach((child, i) => {
+      const next = prune(child)
+      if (next) {
+        kept.push(next)
+        sizes.push(node.sizes?.[i])
+      }
+    })
+    if (kept.length === 0) return null
+    return split(node.direction === 'column' ? 'column' : 'row', kept, sizes)
   }
 
-  // Grid: auto-balanced columns/rows, panes auto-placed in DOM (array) order.
-  const { cols, rows } = gridDimensions(count)
-  return {
-    ...base,
-    gridTemplateColumns: `repeat(${cols}, 1fr)`,
-    gridTemplateRows: `repeat(${rows}, 1fr)`,
+  const root = prune(tree)
+  if (!root) return gridTree(paneIds)
+  const missing = paneIds.filter((id) => !seen.has(id))
+  if (missing.length === 0) return root
+
+  // New panes get an equal share of the top-level split
+  const children = root.type === 'split' ? root.children : [root]
+  const sizes = root.type === 'split' ? root.sizes : [1]
+  const n = children.length + missing.length
+  return split(
+    root.type === 'split' ? root.direction : 'row',
+    [...children, ...missing.map(leaf)],
+    [...sizes.map((s) => (s * children.length) / n), ...missing.map(() => 1 / n)],
+  )
+}
+
+export function swapTreePanes(tree: LayoutNode, a: number, b: number): LayoutNode {
+  if (tree.type === 'pane') {
+    if (tree.paneId === a) return leaf(b)
+    if (tree.paneId === b) return leaf(a)
+    return tree
   }
+  return { ...tree, children: tree.children.map((c) => swapTreePanes(c, a, b)) }
 }
 
-export function getPaneStyle(
-  position: number,
-  layout: LayoutMode,
-  count: number,
-): React.CSSProperties {
-  const base: React.CSSProperties = { minWidth: 0, minHeight: 0, overflow: 'hidden' }
+// Take a pane out of its cell and put it on one side of another pane, halving
+// that pane's cell. Beside a pane already in a split of the same direction it
+// simply becomes another sibling (split() merges the two).
+export function movePaneInTree(tree: LayoutNode, paneId: number, targetId: number, edge: PaneEdge): LayoutNode {
+  const ids = treePaneIds(tree).filter((id) => id !== GHOST_PANE_ID)
+  if (paneId === targetId || !ids.includes(paneId) || !ids.includes(targetId)) return tree
+  const without = syncTree(tree, ids.filter((id) => id !== paneId))
+  const direction: SplitDirection = edge === 'left' || edge === 'right' ? 'row' : 'column'
+  const before = edge === 'left' || edge === 'top'
 
-  // Focus layouts place panes explicitly: position 0 is the big pane (spanning
-  // every row), positions 1..n-1 stack in the narrow column.
-  if (layout === 'focus' || layout === 'focus-right') {
-    const smallRows = Math.max(1, count - 1)
-    const bigCol = layout === 'focus' ? 1 : 2
-    const smallCol = layout === 'focus' ? 2 : 1
-    if (position === 0) {
-      return { ...base, gridColumn: bigCol, gridRow: `1 / span ${smallRows}` }
+  const place = (node: LayoutNode): LayoutNode => {
+    if (node.type === 'pane') {
+      if (node.paneId !== targetId) return node
+      return split(direction, before ? [leaf(paneId), node] : [node, leaf(paneId)])
     }
-    return { ...base, gridColumn: smallCol, gridRow: position }
+    return split(node.direction, node.children.map(place), node.sizes)
   }
+  return place(without)
+}
 
-  // Grid layout relies on auto-placement (row-major in array order).
-  return base
+// Geometry in fractions of the layout area (0..1 on both axes)
+export interface LayoutRect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export interface LayoutDivider {
+  path: number[] // child indexes from the root down to the split
+  index: number // sits between children index and index + 1
+  direction: SplitDirection
+  area: LayoutRect // the split's own rect
+  at: number // position along the split's axis
+}
+
+export function layoutGeometry(tree: LayoutNode): {
+  panes: { paneId: number; rect: LayoutRect }[]
+  dividers: LayoutDivider[]
+} {
+  const panes: { paneId: number; rect: LayoutRect }[] = []
+  const dividers: LayoutDivider[] = []
+  const walk = (node: LayoutNode, rect: LayoutRect, path: number[]) => {
+    if (node.type === 'pane') {
+      panes.push({ paneId: node.paneId, rect })
+      return
+    }
+    const isRow = node.direction === 'row'
+    let offset = 0
+    node.children.forEach((child, i) => {
+      const size = node.sizes[i]
+      walk(
+        child,
+        isRow
+          ? { x: rect.x + offset * rect.w, y: rect.y, w: size * rect.w, h: rect.h }
+          : { x: rect.x, y: rect.y + offset * rect.h, w: rect.w, h: size * rect.h },
+        [...path, i],
+      )
+      offset += size
+      if (i < node.children.length - 1) {
+        dividers.push({
+          path,
+          index: i,
+          direction: node.direction,
+          area: rect,
+          at: isRow ? rect.x + offset * rect.w : rect.y + offset * rect.h,
+        })
+      }
+    })
+  }
+  walk(tree, { x: 0, y: 0, w: 1, h: 1 }, [])
+  return { panes, dividers }
+}
+
+// Drag a divider to `at` (fraction of the whole layout area along its axis),
+// trading size between the two children either side of it.
+export function resizeSplit(tree: LayoutNode, divider: LayoutDivider, at: number): LayoutNode {
+  const { area, direction, index, path } = divider
+  const within = direction === 'row' ? (at - area.x) / area.w : (at - area.y) / area.h
+  const update = (node: LayoutNode, depth: number): LayoutNode => {
+    if (node.type !== 'split') return node
+    if (depth < path.length) {
+      return { ...node, children: node.children.map((c, j) => (j === path[depth] ? update(c, depth + 1) : c)) }
+    }
+    if (index + 1 >= node.sizes.length || !Number.isFinite(within)) return node
+    const before = node.sizes.slice(0, index).reduce((a, b) => a + b, 0)
+    const pair = node.sizes[index] + node.sizes[index + 1]
+    if (pair < 2 * SPLIT_SIZE_MIN) return node
+    const first = Math.min(pair - SPLIT_SIZE_MIN, Math.max(SPLIT_SIZE_MIN, within - before))
+    const sizes = [...node.sizes]
+    sizes[index] = first
+    sizes[index + 1] = pair - first
+    return { ...node, sizes }
+  }
+  return update(tree, 0)
+}
+
+// Absolute placement for a pane cell. The 1px inset on every side leaves a 2px
+// gutter between neighbours.
+export function getPaneStyle(rect: LayoutRect): React.CSSProperties {
+  return {
+    position: 'absolute',
+    left: `calc(${rect.x * 100}% + 1px)`,
+    top: `calc(${rect.y * 100}% + 1px)`,
+    width: `calc(${rect.w * 100}% - 2px)`,
+    height: `calc(${rect.h * 100}% - 2px)`,
+    minWidth: 0,
+    minHeight: 0,
+    overflow: 'hidden',
+  }
 }
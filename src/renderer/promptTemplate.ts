@@ -0,0 +1,65 @@
+import { useWorkspaceStore } from './store/workspace'
+import { getPaneSelection } from './components/TerminalPane'
+import { PROMPT_TEMPLATE_VARIABLES, PromptMainVariable, PromptTemplateVariable } from '../shared/types'
+
+// {{name}} or {{input:Label}}; spaces just inside the braces are allowed
+const PLACEHOLDER = /\{\{\s*(input:[^{}]*?|[a-z_]+)\s*\}\}/g
+const INPUT_PREFIX = 'input:'
+const MAIN_VARIABLES: PromptMainVariable[] = ['repo', 'git_diff', 'clipboard']
+
+function isVariable(name: string): name is PromptTemplateVariable {
+  return (PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(name)
+}
+
+// C0 control bytes and DEL, bar newline and tab
+const CONTROL_CHARS = /[\x00-\x08\x0b-\x1f\x7f]/g
+
+// A filled-in value is typed into the PTY as is: a CR (CRLF files, a copied
+// multi-line clipboard) would submit the prompt halfway, and ESC and friends
+// would reach Claude as keystrokes. Newlines and tabs stay.
+function typeable(value: string): string {
+  return value.replace(/\r\n?/g, '\n').replace(CONTROL_CHARS, '')
+}
+
+// The {{input:…}} labels a template asks for, in order of first use
+export function templateInputs(text: string): string[] {
+  const labels: string[] = []
+  for (const m of text.matchAll(PLACEHOLDER)) {
+    if (!m[1].startsWith(INPUT_PREFIX)) continue
+    const label = m[1].slice(INPUT_PREFIX.length).trim()
+    if (label && !labels.includes(label)) labels.push(label)
+  }
+  return labels
+}
+
+// Fill a prompt template for a pane: variables from its config, git status,
+// terminal selection and (via main) repo, diff and clipboard; inputs by label.
+// Unknown {{names}} are left as typed; filled-in values are made safe to type.
+export async function resolvePromptTemplate(
+  paneId: number,
+  text: string,
+  inputs: Record<string, string> = {},
+): Promise<string> {
+  const used = new Set<string>([...text.matchAll(PLACEHOLDER)].map((m) => m[1]))
+  if (used.size === 0) return text
+
+  const pane = useWorkspaceStore.getState().panes.find((p) => p.id === paneId)
+  const wanted = MAIN_VARIABLES.filter((name) => used.has(name))
+  const fromMain = wanted.length > 0
+    ? await window.electronAPI.getPromptVariables(paneId, wanted).catch(() => ({}) as Partial<Record<PromptMainVariable, string>>)
+    : {}
+  const cwd = pane?.workingDirectory ?? ''
+  const values: Record<PromptTemplateVariable, string> = {
+    branch: pane?.gitStatus?.branch ?? '',
+    cwd,
+    repo: fromMain.repo ?? (cwd.split('/').filter(Boolean).pop() || ''),
+    selection: getPaneSelection(paneId),
+    clipboard: fromMain.clipboard ?? '',
+    git_diff: fromMain.git_diff ?? '',
+  }
+
+  return text.replace(PLACEHOLDER, (whole, name: string) => {
+    if (name.startsWith(INPUT_PREFIX)) return typeable(inputs[name.slice(INPUT_PREFIX.length).trim()] ?? '')
+    return isVariable(name) ? typeable(values[name]) : whole
+  })
+}
@@ -14,12 +14,34 @@ import {
   GitStatus,
   BackgroundConfig,
   ServerInfo,
+  AgentStateUpdate,
   MIN_PANES,
   MAX_PANES,
+  MAX_SESSIONS,
   FOCUS_SMALL_RATIO_DEFAULT,
   FOCUS_SMALL_RATIO_MIN,
   FOCUS_SMALL_RATIO_MAX,
+  DEFAULT_WORKSPACE_ID,
+  LayoutPreset,
+  MAX_LAYOUT_PRESETS,
+  DetachedWindowState,
+  WorkspaceSync,
+  MAIN_WINDOW_ID,
+  windowOwningPane,
+  QueuedPrompt,
+  SavedPrompt,
+  ProjectInfo,
 } from '../../shared/types'
+import {
+  LayoutDivider,
+  PaneEdge,
+  buildLayoutTree,
+  clampFocusRatio,
+  movePaneInTree,
+  resizeSplit,
+  swapTreePanes,
+  syncTree,
+} from '../layouts'
 
 interface WorkspaceStore extends WorkspaceState {
   // Initialization
@@ -32,17 +54,57 @@ interface WorkspaceStore extends WorkspaceState {
   setActivePaneId: (id: number) => void
   swapPanes: (paneId1: number, paneId2: number) => void
   setFocusSmallRatio: (ratio: number) => void
-
-  // Pane add/remove (4..MAX_PANES). addPane returns the new pane's id (or null
-  // if already at the cap) so callers can focus it; removePane returns the
-  // removed id (or null if at the floor) so callers can tear down its PTY.
+  // Split-tree editing. Both turn whatever is on screen into a custom layout,
+  // except the focus splitter, which stays the focus layouts' ratio.
+  resizeLayoutDivider: (divider: LayoutDivider, at: number) => void
+  movePaneToEdge: (paneId: number, targetId: number, edge: PaneEdge) => void
+
+  // Layout presets (stored in preferences). Saving under an existing name
+  // replaces that preset; a new name at MAX_LAYOUT_PRESETS isn't saved (false).
+  // layoutPresetId is the last one applied (transient), which cycling continues from.
+  layoutPresetId: string | null
+  saveLayoutPreset: (name: string) => boolean
+  applyLayoutPreset: (id: string) => void
+  cycleLayoutPreset: () => void
+  deleteLayoutPreset: (id: string) => void
+
+  // Pane add/remove (4..MAX_SESSIONS). addPane returns the new pane's id (or
+  // null if already at the cap) so callers can focus it; once the grid holds
+  // MAX_PANES the new pane starts on the shelf. removePane returns the removed
+  // id (or null if at the floor) so callers can tear down its PTY.
   addPane: () => number | null
   removePane: (id: number) => number | null
 
+  // The shelf: panes out of the grid whose shell runs headless. Both return
+  // the id whose xterm the caller should dispose - the shelved pane, or the
+  // one unshelvePane put on the shelf to make room in a full grid - or null.
+  shelvePane: (id: number) => number | null
+  unshelvePane: (id: number) => number | null
+
   // Pane actions
   updatePane: (id: number, updates: Partial<PaneConfig>) => void
   setPaneState: (id: number, state: PaneState) => void
   setPaneAgent: (id: number, agentId: string) => void
+  setPaneClaudeSession: (id: number, sessionId: string | null) => void
+  setPaneActivity: (id: number, update: AgentStateUpdate) => void
+  setPaneResumeClaude: (id: number, enabled: boolean) => void
+
+  // Project config (useProjectConfig): the pane's project is transient and
+  // re-read when its directory changes. A project that isn't trusted yet waits
+  // in projectTrustRequest for the user.
+  setPaneProject: (id: number, project: ProjectInfo | null) => void
+  projectTrustRequest: { paneId: number; project: ProjectInfo } | null
+  setProjectTrustRequest: (request: { paneId: number; project: ProjectInfo } | null) => void
+
+  // Broadcast mode (transient): input typed into one of these panes, and
+  // prompts chosen from the prompt bar, go to all of them. null = off; an
+  // empty list is on with nothing picked yet.
+  broadcastPaneIds: number[] | null
+  setBroadcastPanes: (ids: number[] | null) => void
+
+  // Per-pane prompt queue (sent by usePromptQueue as the agent goes idle)
+  enqueuePrompt: (id: number, prompt: Omit<QueuedPrompt, 'id'>) => void
+  dequeuePrompt: (id: number, promptId: string) => void
 
   // Pane pairing (orchestrator ⇄ worker)
   pairPanes: (orchestratorId: number, workerId: number) => void
@@ -59,15 +121,39 @@ interface WorkspaceStore extends WorkspaceState {
   // Preferences
   updatePreferences: (updates: Partial<WorkspacePreferences>) => void
 
+  // Prompt library. Imported prompts replace saved ones with the same name and
+  // folder; returns how many were added or replaced. syncedPrompts come from
+  // prompt folders on disk (usePromptSync) and aren't saved.
+  importSavedPrompts: (prompts: SavedPrompt[]) => number
+  syncedPrompts: SavedPrompt[]
+  setSyncedPrompts: (prompts: SavedPrompt[]) => void
+
   // Persistence
   saveWorkspace: () => void
+  flushSave: () => void
+
+  // Named workspaces: the live one's id keys the terminal grid, so switching
+  // remounts every terminal.
+  workspaceId: string
+  applyWorkspace: (id: string, state: WorkspaceState) => void
+
+  // Multi-window. windowId is this window's (MAIN_WINDOW_ID, or a detached
+  // window's id from the ?window= query); `windows` is main's membership,
+  // pushed on every change. Every window holds the whole workspace but shows
+  // and saves only its own panes; applyWorkspaceSync takes in another
+  // window's save.
+  windowId: string
+  setWindows: (windows: DetachedWindowState[]) => void
+  applyWorkspaceSync: (sync: WorkspaceSync) => void
 }
 
 // Array size limits to prevent unbounded memory growth
-const MAX_SAVED_PROMPTS = 100
+const MAX_SAVED_PROMPTS = 500
 const MAX_FAVORITE_DIRS = 50
 const MAX_CUSTOM_WALLPAPERS = 30
 
+const WINDOW_ID = new URLSearchParams(window.location.search).get('window') ?? MAIN_WINDOW_ID
+
 // Debounce helper
 let saveTimeout: ReturnType<typeof setTimeout> | null = null
 const debouncedSave = (saveFn: () => void) => {
@@ -107,6 +193,51 @@ function seedAgentProfiles(
   return { agentProfiles, defaultAgentId }
 }
 
+// Layout and panes as loaded from disk, made safe to render: removed layouts
+// migrate to 'grid', panes start as plain shells, the splitter is clamped.
+function normalizeLayoutState(savedState: WorkspaceState) {
+  // Migrate removed layouts to 'grid' (older saves may hold any of these)
+  let layout = savedState.layout
+  const saved: string = layout
+  if (saved === 'horizontal' || saved === 'vertical' || saved === 'fullscreen' || saved === 'split' || saved === 'history') {
+    layout = 'grid'
+  }
+
+  // Reset all pane states to 'shell' on startup - Claude processes don't
+  // survive app restart (conversations are relaunched via claudeSessionId)
+  const panes = savedState.panes?.map((pane: PaneConfig) => ({
+    ...pane,
+    state: 'shell' as PaneState,
+  })) ?? []
+
+  // Restore the focus splitter (clamped; default for older saves).
+  const focusSmallRatio = Math.min(
+    FOCUS_SMALL_RATIO_MAX,
+    Math.max(FOCUS_SMALL_RATIO_MIN, savedState.focusSmallRatio ?? FOCUS_SMALL_RATIO_DEFAULT),
+  )
+
+  // Bring the custom tree in line with the saved panes; without one there is
+  // nothing to show as 'custom'.
+  const layoutTree = savedState.layoutTree ? syncTree(savedState.layoutTree, panes.map((p) => p.id)) : undefined
+  if (layout === 'custom' && !layoutTree) layout = 'grid'
+
+  return { layout, panes, focusSmallRatio, layoutTree }
+}
+
+// The panes this window shows in its grid, in pane order
+export function shownPaneIds(state: Pick<WorkspaceStore, 'panes' | 'windows' | 'windowId'>): number[] {
+  return state.panes
+    .filter((p) => !p.shelved && windowOwningPane(state.windows, p.id) === state.windowId)
+    .map((p) => p.id)
+}
+
+// This window's shelved panes, in pane order
+export function shelvedPaneIds(state: Pick<WorkspaceStore, 'panes' | 'windows' | 'windowId'>): number[] {
+  return state.panes
+    .filter((p) => p.shelved && windowOwningPane(state.windows, p.id) === state.windowId)
+    .map((p) => p.id)
+}
+
 export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
   // Initial state
   layout: 'grid',
@@ -125,11 +256,20 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
     defaultAgentId: CLAUDE_PROFILE_ID,
   },
   isInitialized: false,
+  workspaceId: DEFAULT_WORKSPACE_ID,
+  layoutPresetId: null,
+  broadcastPaneIds: null,
+  projectTrustRequest: null,
+  syncedPrompts: [],
+  windowId: WINDOW_ID,
 
   // Initialize from saved state
   initialize: async () => {
     try {
-      const savedState = await window.electronAPI.loadWorkspace()
+      const [savedState, workspaces] = await Promise.all([
+        window.electronAPI.loadWorkspace(),
+        window.electronAPI.listWorkspaces().catch(() => null),
+      ])
       // Merge saved hotkeys with defaults to handle new hotkey fields
       const mergedHotkeys = {
         ...DEFAULT_HOTKEYS,
@@ -150,29 +290,15 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
         savedState.preferences?.defaultAgentId,
       )
 
-      // Migrate removed layouts to 'grid'
-      let layout = savedState.layout
-      if (layout === 'horizontal' || layout === 'vertical' || layout === 'fullscreen' || layout === 'split' || layout === 'history') {
-        layout = 'grid'
-      }
-
-      // Reset all pane states to 'shell' on startup - Claude sessions don't survive app restart
-      const panes = savedState.panes?.map((pane: PaneConfig) => ({
-        ...pane,
-        state: 'shell' as PaneState,
-      })) ?? []
-
-      // Restore the focus splitter (clamped; default for older saves).
-      const focusSmallRatio = Math.min(
-        FOCUS_SMALL_RATIO_MAX,
-        Math.max(FOCUS_SMALL_RATIO_MIN, savedState.focusSmallRatio ?? FOCUS_SMALL_RATIO_DEFAULT),
-      )
+      const { layout, panes, focusSmallRatio, layoutTree } = normalizeLayoutState(savedState)
 
       set({
         ...savedState,
         layout,
         panes,
         focusSmallRatio,
+        layoutTree,
+        workspaceId: workspaces?.activeId ?? DEFAULT_WORKSPACE_ID,
         preferences: {
           ...savedState.preferences,
           hotkeys: mergedHotkeys,
@@ -226,7 +352,13 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
         set({ panes, focusPaneId: activePaneId })
       }
     }
-    set({ layout })
+    // Custom restores its saved tree, or starts from what's on screen now
+    if (layout === 'custom') {
+      const { layout: current, panes, focusSmallRatio, layoutTree } = get()
+      const ids = panes.map((p) => p.id)
+      set({ layoutTree: syncTree(layoutTree ?? buildLayoutTree(current, ids, focusSmallRatio), ids) })
+    }
+    set({ layout, layoutPresetId: null })
     debouncedSave(() => get().saveWorkspace())
   },
 
@@ -258,7 +390,9 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
         // Swap positions in array
         ;[panes[index1], panes[index2]] = [panes[index2], panes[index1]]
       }
-      return { panes }
+      // The custom tree places panes by id, not array position
+      const layoutTree = state.layoutTree && swapTreePanes(state.layoutTree, paneId1, paneId2)
+      return { panes, layoutTree }
     })
     debouncedSave(() => get().saveWorkspace())
   },
@@ -273,12 +407,98 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
     debouncedSave(() => get().saveWorkspace())
   },
 
+  resizeLayoutDivider: (divider, at) => {
+    const { layout, focusSmallRatio, layoutTree } = get()
+    // The focus layouts' top-level divider is the focus splitter
+    if ((layout === 'focus' || layout === 'focus-right') && divider.path.length === 0) {
+      const within = (at - divider.area.x) / divider.area.w
+      get().setFocusSmallRatio(layout === 'focus' ? 1 - within : within)
+      return
+    }
+    // Dividers come from the tree of the panes on screen
+    const ids = shownPaneIds(get())
+    const tree = resizeSplit(buildLayoutTree(layout, ids, focusSmallRatio, layoutTree), divider, at)
+    set({ layout: 'custom', layoutTree: syncTree(tree, ids) })
+    debouncedSave(() => get().saveWorkspace())
+  },
+
+  movePaneToEdge: (paneId, targetId, edge) => {
+    const { layout, focusSmallRatio, layoutTree } = get()
+    const tree = buildLayoutTree(layout, shownPaneIds(get()), focusSmallRatio, layoutTree)
+    set({ layout: 'custom', layoutTree: movePaneInTree(tree, paneId, targetId, edge) })
+    debouncedSave(() => get().saveWorkspace())
+  },
+
+  saveLayoutPreset: (name) => {
+    const { layout, panes, focusPaneId, focusSmallRatio, layoutTree, preferences } = get()
+    const presets = preferences.layoutPresets ?? []
+    const existing = presets.find((p) => p.name === name)
+    if (!existing && presets.length >= MAX_LAYOUT_PRESETS) return false
+    const preset: LayoutPreset = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      layout,
+      paneOrder: panes.map((p) => p.id),
+      focusPaneId,
+      focusSmallRatio,
+      // Split sizes only mean something for the custom layout
+      layoutTree: layout === 'custom' ? layoutTree : undefined,
+    }
+    const layoutPresets = existing
+      ? presets.map((p) => (p.id === existing.id ? preset : p))
+      : [...presets, preset]
+    set({ layoutPresetId: preset.id })
+    get().updatePreferences({ layoutPresets })
+    return true
+  },
+
+  applyLayoutPreset: (id) => {
+    const { panes, preferences, focusSmallRatio, layoutTree } = get()
+    const preset = preferences.layoutPresets?.find((p) => p.id === id)
+    if (!preset) return
+    // Saved order first (for the panes that still exist), then everyone else
+    const byId = new Map(panes.map((p) => [p.id, p]))
+    const order = [...new Set(preset.paneOrder)].filter((paneId) => byId.has(paneId))
+    const nextPanes = [...order.map((paneId) => byId.get(paneId)!), ...panes.filter((p) => !order.includes(p.id))]
+    const ids = nextPanes.map((p) => p.id)
+    const nextTree = preset.layoutTree ? syncTree(preset.layoutTree, ids) : layoutTree
+    set({
+      panes: nextPanes,
+      layout: preset.layout === 'custom' && !nextTree ? 'grid' : preset.layout,
+      focusPaneId: byId.has(preset.focusPaneId) ? preset.focusPaneId : ids[0],
+      focusSmallRatio: clampFocusRatio(preset.focusSmallRatio ?? focusSmallRatio ?? FOCUS_SMALL_RATIO_DEFAULT),
+      layoutTree: nextTree,
+      layoutPresetId: id,
+    })
+    debouncedSave(() => get().saveWorkspace())
+  },
+
+  cycleLayoutPreset: () => {
+    const { preferences, layoutPresetId } = get()
+    const presets = preferences.layoutPresets ?? []
+    if (presets.length === 0) return
+    const index = presets.findIndex((p) => p.id === layoutPresetId)
+    get().applyLayoutPreset(presets[(index + 1) % presets.length].id)
+  },
+
+  deleteLayoutPreset: (id) => {
+    const { preferences, layoutPresetId } = get()
+    // Drop its hotkey along with it
+    const { [id]: _removed, ...presetHotkeys } = preferences.hotkeys.layoutPresets ?? {}
+    if (layoutPresetId === id) set({ layoutPresetId: null })
+    get().updatePreferences({
+      layoutPresets: (preferences.layoutPresets ?? []).filter((p) => p.id !== id),
+      hotkeys: { ...preferences.hotkeys, layoutPresets: presetHotkeys },
+    })
+  },
+
   // Add a pane in the lowest free id slot (0..MAX_PANES-1), so ids stay dense
   // and Ctrl+1..6 keep mapping to slots. New pane opens in the active pane's
   // directory. No-op at the cap.
   addPane: () => {
-    const { panes, activePaneId } = get()
-    if (panes.length >= MAX_PANES) return null
+    const { panes, activePaneId, layoutTree } = get()
+    if (panes.length >= MAX_SESSIONS) return null
+    const shelved = shownPaneIds(get()).length >= MAX_PANES
     const used = new Set(panes.map((p) => p.id))
     let newId = 0
     while (used.has(newId)) newId++
@@ -289,15 +509,21 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
       label: `Terminal ${newId + 1}`,
       workingDirectory,
       state: 'shell',
+      ...(shelved && { shelved }),
     }
-    set({ panes: [...panes, newPane], activePaneId: newId })
+    const nextPanes = [...panes, newPane]
+    set({
+      panes: nextPanes,
+      activePaneId: shelved ? activePaneId : newId,
+      layoutTree: layoutTree && syncTree(layoutTree, nextPanes.map((p) => p.id)),
+    })
     debouncedSave(() => get().saveWorkspace())
     return newId
   },
 
   // Remove a pane (PTY teardown is the caller's job). No-op at the floor.
   removePane: (id) => {
-    const { panes, activePaneId, focusPaneId } = get()
+    const { panes, activePaneId, focusPaneId, layoutTree } = get()
     if (panes.length <= MIN_PANES) return null
     const removed = panes.find((p) => p.id === id)
     if (!removed) return null
@@ -306,13 +532,56 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
     const remaining = panes
       .filter((p) => p.id !== id)
       .map((p) => (dissolvePairId && p.pairId === dissolvePairId ? stripPair(p) : p))
-    const nextActive = activePaneId === id ? remaining[0].id : activePaneId
-    const nextFocus = focusPaneId === id ? remaining[0].id : focusPaneId
-    set({ panes: remaining, activePaneId: nextActive, focusPaneId: nextFocus })
+    const fallback = remaining.find((p) => !p.shelved) ?? remaining[0]
+    const nextActive = activePaneId === id ? fallback.id : activePaneId
+    const nextFocus = focusPaneId === id ? fallback.id : focusPaneId
+    set((state) => ({
+      panes: remaining,
+      activePaneId: nextActive,
+      focusPaneId: nextFocus,
+      layoutTree: layoutTree && syncTree(layoutTree, remaining.map((p) => p.id)),
+      broadcastPaneIds: state.broadcastPaneIds && state.broadcastPaneIds.filter((paneId) => paneId !== id),
+    }))
+    debouncedSave(() => get().saveWorkspace())
+    return id
+  },
+
+  shelvePane: (id) => {
+    const shown = shownPaneIds(get())
+    // The grid keeps at least one pane
+    if (!shown.includes(id) || shown.length <= 1) return null
+    const fallback = shown.find((paneId) => paneId !== id)!
+    set((state) => ({
+      panes: state.panes.map((p) => (p.id === id ? { ...p, shelved: true } : p)),
+      activePaneId: state.activePaneId === id ? fallback : state.activePaneId,
+      focusPaneId: state.focusPaneId === id ? fallback : state.focusPaneId,
+    }))
     debouncedSave(() => get().saveWorkspace())
     return id
   },
 
+  unshelvePane: (id) => {
+    const { panes, activePaneId } = get()
+    if (!panes.find((p) => p.id === id)?.shelved) return null
+    // A full grid trades its active pane (or its last one) for the promoted pane
+    const shown = shownPaneIds(get())
+    const swappedOut =
+      shown.length >= MAX_PANES ? (shown.includes(activePaneId) ? activePaneId : shown[shown.length - 1]) : null
+    set((state) => ({
+      panes: state.panes.map((p) => {
+        if (p.id === id) {
+          const { shelved: _s, ...rest } = p
+          return rest
+        }
+        return p.id === swappedOut ? { ...p, shelved: true } : p
+      }),
+      activePaneId: id,
+      focusPaneId: state.focusPaneId === swappedOut ? id : state.focusPaneId,
+    }))
+    debouncedSave(() => get().saveWorkspace())
+    return swappedOut
+  },
+
   // Pane actions
   updatePane: (id, updates) => {
     set((state) => ({
@@ -330,7 +599,7 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
 
     set((state) => ({
       panes: state.panes.map((pane) =>
-        pane.id === id ? { ...pane, state: paneState } : pane
+        pane.id === id ? { ...pane, state: paneState, stateSince: Date.now() } : pane
       ),
     }))
     // Don't save on pane state changes - too frequent during terminal activity
@@ -375,6 +644,94 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
     debouncedSave(() => get().saveWorkspace())
   },
 
+  // Remember (or forget, with null) the Claude conversation running in a pane
+  // so a restored workspace can relaunch it with --resume.
+  setPaneClaudeSession: (id, sessionId) => {
+    const currentPane = get().panes.find((p) => p.id === id)
+    if (!currentPane || (currentPane.claudeSessionId ?? null) === sessionId) return
+
+    set((state) => ({
+      panes: state.panes.map((pane) => {
+        if (pane.id !== id) return pane
+        if (sessionId) return { ...pane, claudeSessionId: sessionId }
+        const { claudeSessionId: _s, ...rest } = pane
+        return rest
+      }),
+    }))
+    debouncedSave(() => get().saveWorkspace())
+  },
+
+  // Transient, like setPaneState: arrives on every classified transition.
+  setPaneActivity: (id, update) => {
+    const currentPane = get().panes.find((p) => p.id === id)
+    if (!currentPane) return
+    if (currentPane.activity === (update.activity ?? undefined) && currentPane.activityDetail === update.detail) return
+
+    set((state) => ({
+      panes: state.panes.map((pane) =>
+        pane.id === id
+          ? {
+              ...pane,
+              activity: update.activity ?? undefined,
+              activityDetail: update.detail,
+              activitySince: update.since,
+            }
+          : pane
+      ),
+    }))
+  },
+
+  setPaneResumeClaude: (id, enabled) => {
+    set((state) => ({
+      panes: state.panes.map((pane) =>
+        pane.id === id ? { ...pane, resumeClaude: enabled } : pane
+      ),
+    }))
+    debouncedSave(() => get().saveWorkspace())
+  },
+
+  setPaneProject: (id, project) => {
+    const current = get().panes.find((p) => p.id === id)
+    if (!current || (current.project?.hash ?? null) === (project?.hash ?? null)) return
+    set((state) => ({
+      panes: state.panes.map((pane) => {
+        if (pane.id !== id) return pane
+        if (project) return { ...pane, project }
+        const { project: _p, ...rest } = pane
+        return rest
+      }),
+    }))
+    // Transient - not saved
+  },
+
+  setProjectTrustRequest: (request) => set({ projectTrustRequest: request }),
+
+  setBroadcastPanes: (ids) => set({ broadcastPaneIds: ids && [...new Set(ids)] }),
+
+  enqueuePrompt: (id, prompt) => {
+    set((state) => ({
+      panes: state.panes.map((pane) =>
+        pane.id === id
+          ? { ...pane, promptQueue: [...(pane.promptQueue ?? []), { ...prompt, id: crypto.randomUUID() }] }
+          : pane
+      ),
+    }))
+    debouncedSave(() => get().saveWorkspace())
+  },
+
+  dequeuePrompt: (id, promptId) => {
+    set((state) => ({
+      panes: state.panes.map((pane) => {
+        if (pane.id !== id || !pane.promptQueue) return pane
+        const promptQueue = pane.promptQueue.filter((p) => p.id !== promptId)
+        if (promptQueue.length > 0) return { ...pane, promptQueue }
+        const { promptQueue: _q, ...rest } = pane
+        return rest
+      }),
+    }))
+    debouncedSave(() => get().saveWorkspace())
+  },
+
   pairPanes: (orchestratorId, workerId) => {
     if (orchestratorId === workerId) return
     set((state) => {
@@ -496,18 +853,77 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
     debouncedSave(() => get().saveWorkspace())
   },
 
+  importSavedPrompts: (prompts) => {
+    const key = (p: SavedPrompt) => `${p.folder ?? ''}\n${p.name.toLowerCase()}`
+    const incoming = new Map(prompts.map((p) => [key(p), p]))
+    const { savedPrompts } = get().preferences
+    // Replaced in place, keeping the existing id; the rest appended
+    const merged = savedPrompts.map((p) => {
+      const replacement = incoming.get(key(p))
+      if (!replacement) return p
+      incoming.delete(key(p))
+      return { ...replacement, id: p.id }
+    })
+    get().updatePreferences({ savedPrompts: [...merged, ...incoming.values()] })
+    return prompts.length
+  },
+
+  setSyncedPrompts: (prompts) => set({ syncedPrompts: prompts }),
+
+  // Load another workspace's layout and panes; preferences are shared and stay.
+  applyWorkspace: (id, state) => {
+    if (saveTimeout) clearTimeout(saveTimeout)
+    saveTimeout = null
+    set({
+      ...normalizeLayoutState(state),
+      focusPaneId: state.focusPaneId,
+      activePaneId: state.activePaneId,
+      windows: state.windows,
+      workspaceId: id,
+      broadcastPaneIds: null,
+      projectTrustRequest: null,
+    })
+  },
+
+  setWindows: (windows) => set({ windows }),
+
+  // Panes this window shows keep their live config (and transient fields);
+  // the rest, and the pane list itself, follow the saving window. Not saved
+  // back - it is already on disk.
+  applyWorkspaceSync: ({ panes, preferences }) => {
+    set((state) => {
+      const local = new Map(state.panes.map((p) => [p.id, p]))
+      const owns = (id: number) => windowOwningPane(state.windows, id) === state.windowId
+      return {
+        panes: panes.map((p) => (owns(p.id) && local.get(p.id)) || { ...p, state: local.get(p.id)?.state ?? 'shell' }),
+        preferences: { ...state.preferences, ...preferences },
+      }
+    })
+  },
+
   // Save to disk (debounced calls converge here)
   saveWorkspace: () => {
-    const { layout, focusPaneId, activePaneId, focusSmallRatio, panes, preferences } = get()
-    // Strip transient data (gitStatus, servers) from panes before persisting
-    const cleanPanes = panes.map(({ gitStatus: _g, servers: _s, ...rest }) => rest)
+    const { layout, focusPaneId, activePaneId, focusSmallRatio, layoutTree, panes, preferences } = get()
+    // Strip transient data (gitStatus, servers, activity, project) from panes before persisting
+    const cleanPanes = panes.map(
+      ({ gitStatus: _g, servers: _s, activity: _a, activityDetail: _ad, activitySince: _as, stateSince: _ss, project: _p, ...rest }) => rest
+    )
     window.electronAPI.saveWorkspace({
       layout,
       focusPaneId,
       activePaneId,
       focusSmallRatio,
+      layoutTree,
       panes: cleanPanes,
       preferences,
     })
   },
+
+  // Write any pending debounced save now (before switching workspaces)
+  flushSave: () => {
+    if (!saveTimeout) return
+    clearTimeout(saveTimeout)
+    saveTimeout = null
+    get().saveWorkspace()
+  },
 }))
@@ -1,5 +1,32 @@
 // Layout types - all show 4 terminals (true to "QuadClaude" name)
-export type LayoutMode = 'grid' | 'focus' | 'focus-right'
+export type LayoutMode = 'grid' | 'focus' | 'focus-right' | 'custom'
+
+// Split-tree layout. Every layout renders as one of these: grid and focus are
+// generated from the pane list, 'custom' is the user's own tree (persisted).
+// A split lays its children out left→right ('row') or top→bottom ('column');
+// sizes are fractions of the split, one per child, summing to 1.
+export type LayoutNode =
+  | { type: 'pane'; paneId: number }
+  | { type: 'split'; direction: 'row' | 'column'; children: LayoutNode[]; sizes: number[] }
+
+// Smallest share a split child can be dragged down to
+export const SPLIT_SIZE_MIN = 0.1
+
+// A saved arrangement ("review mode", "grind mode"): layout, pane order, focus
+// pane, focus splitter and custom split sizes. Panes are referenced by id; ids
+// the workspace doesn't have are skipped, and its other panes follow the saved
+// ones in their current order.
+export interface LayoutPreset {
+  id: string
+  name: string
+  layout: LayoutMode
+  paneOrder: number[]
+  focusPaneId: number
+  focusSmallRatio?: number
+  layoutTree?: LayoutNode
+}
+
+export const MAX_LAYOUT_PRESETS = 20
 
 // Git status for pane header
 export interface GitStatus {
@@ -8,6 +35,70 @@ export interface GitStatus {
   ahead?: number
   behind?: number
   dirty?: number
+  worktree?: string // set when cwd is in a linked worktree (its folder name), not the main checkout
+}
+
+// A git worktree created for a pane by "New worktree pane". Persisted, so the
+// pane can later offer to merge, push, or delete what it created.
+export interface PaneWorktree {
+  path: string // the worktree's directory
+  branch: string // branch created for it
+  repoRoot: string // the checkout it was created from
+  baseBranch: string // branch it started from; the merge target
+}
+
+// --- Diff review ----------------------------------------------------------------
+// Working-tree diff of a pane's repo, for the review panel. Hunks are identified
+// by their "@@ ... @@" header when staging/unstaging/discarding one.
+
+export type DiffFileStatus = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked'
+
+export interface DiffHunk {
+  header: string // "@@ -12,7 +12,9 @@ function foo()"
+  lines: string[] // each prefixed with ' ', '+', '-', or '\' for "No newline at end of file"
+}
+
+export interface DiffFile {
+  path: string
+  oldPath?: string // renames
+  status: DiffFileStatus
+  binary?: boolean
+  truncated?: boolean // too large to show in full
+  staged: DiffHunk[]
+  unstaged: DiffHunk[]
+}
+
+export interface GitReview {
+  repoRoot: string
+  branch: string
+  files: DiffFile[]
+}
+
+export type GitReviewAction = 'stage' | 'unstage' | 'discard'
+
+export interface GitReviewOp {
+  action: GitReviewAction
+  path: string
+  hunk?: string // hunk header; omitted = the whole file
+}
+
+export interface GitReviewResult {
+  ok: boolean
+  error?: string
+}
+
+// What to do with a pane's worktree when it's done
+export type WorktreeFinishAction = 'merge' | 'push' | 'delete'
+
+export interface WorktreeInfo {
+  exists: boolean
+  dirty: number // uncommitted files in the worktree
+  ahead: number // commits on the branch not yet in baseBranch
+}
+
+export interface WorktreeResult {
+  ok: boolean
+  error?: string
 }
 
 // Saved prompt for prompt library
@@ -16,16 +107,152 @@ export interface SavedPrompt {
   name: string
   text: string
   createdAt: number
+  folder?: string // "Review", or nested as "Team/Review"
+  tags?: string[]
+  // Synced prompts only: the Markdown file it was read from (id is "file:<path>")
+  file?: string
+}
+
+export const MAX_PROMPT_NAME_LENGTH = 60
+
+// A repo's shared prompt files live here, relative to its root
+export const PROMPT_SYNC_DIR = '.quadclaude/prompts'
+
+// What PromptSync should read: folders picked in Settings, and pane working
+// directories whose repos may carry a PROMPT_SYNC_DIR
+export interface PromptSyncRequest {
+  directories: string[]
+  cwds: string[]
+}
+
+// Template variables a prompt can use, as {{name}}; {{input:Label}} asks for a
+// value when the prompt is used. Resolved against the target pane.
+export const PROMPT_TEMPLATE_VARIABLES = ['branch', 'cwd', 'repo', 'selection', 'clipboard', 'git_diff'] as const
+export type PromptTemplateVariable = (typeof PROMPT_TEMPLATE_VARIABLES)[number]
+// The ones only the main process can resolve
+export type PromptMainVariable = Extract<PromptTemplateVariable, 'repo' | 'git_diff' | 'clipboard'>
+
+// A prompt waiting in a pane's queue. The head of the queue is typed into the
+// pane the next time its agent is idle at the prompt, and not before sendAt.
+export interface QueuedPrompt {
+  id: string
+  text: string
+  name?: string // saved prompt it came from, for the queue list
+  sendAt?: number // ms epoch; unset = as soon as the pane is idle
+  schedule?: 'time' | 'usage-reset' // what sendAt was set from, for display
+}
+
+// Broadcasting to more panes than this asks for confirmation first
+export const BROADCAST_CONFIRM_OVER = 4
+
+// --- Project config --------------------------------------------------------------
+// A repo can carry PROJECT_CONFIG_FILE at its root with the settings its panes
+// should get. The file can run commands and set env, so nothing in it applies
+// until the user has trusted that exact content (by hash).
+
+export const PROJECT_CONFIG_FILE = '.quadclaude.json'
+
+export interface ProjectStartupCommand {
+  command: string // e.g. "npm run dev"; typed into a companion pane in the project root
+  label?: string // the companion pane's label (default: the command)
+}
+
+export interface ProjectConfig {
+  agent?: string // agent profile (id or name) for panes that haven't picked one
+  env?: Record<string, string> // added to every shell started in the project
+  portBase?: number // PORT for the project's panes (per-pane offsets in 'port' isolation)
+  startup?: ProjectStartupCommand[]
+  prompts?: string // prompt folder, relative to the root (default PROMPT_SYNC_DIR)
+  // Pair the first pane to enter the project with a worker pane running this
+  // agent (id or name; true = the project's agent)
+  pair?: string | true
+}
+
+// A pane's project: where its config was found and which version of it
+export interface ProjectInfo {
+  root: string
+  hash: string
+  config: ProjectConfig
+}
+
+export function isProjectTrusted(
+  project: ProjectInfo | undefined,
+  prefs: Pick<WorkspacePreferences, 'trustedProjects'>,
+): boolean {
+  return !!project && prefs.trustedProjects?.[project.root] === project.hash
 }
 
 // Pane state
 export type PaneState = 'shell' | 'claude-active' | 'claude-waiting'
 
+// Fine-grained agent activity, classified in the main process from each pane's
+// output stream (see src/main/agentState.ts). PaneState stays the coarse
+// process-level view; this says what the agent is actually doing.
+export type AgentActivity =
+  | 'idle-at-prompt'
+  | 'thinking'
+  | 'running-tool'
+  | 'awaiting-permission'
+  | 'awaiting-free-text'
+  | 'errored'
+  | 'finished-task'
+
+export const AGENT_ACTIVITY_LABELS: Record<AgentActivity, string> = {
+  'idle-at-prompt': 'Idle',
+  thinking: 'Thinking',
+  'running-tool': 'Running tool',
+  'awaiting-permission': 'Needs permission',
+  'awaiting-free-text': 'Needs answer',
+  errored: 'Error',
+  'finished-task': 'Done',
+}
+
+// Activities where the agent is blocked on the user
+export function isAwaitingUser(activity: AgentActivity | undefined): boolean {
+  return activity === 'awaiting-permission' || activity === 'awaiting-free-text'
+}
+
+// Does this pane want the user: blocked on a question/permission, or its agent
+// just finished a turn. Drives desktop notifications, the dock badge and the
+// attention queue.
+export function paneNeedsAttention(pane: PaneConfig): boolean {
+  if (pane.activity) return isAwaitingUser(pane.activity) || pane.activity === 'finished-task'
+  return pane.state === 'claude-waiting'
+}
+
+// A desktop notification for a pane that needs the user. Clicking it focuses
+// the pane (main sends ATTENTION_FOCUS_PANE back).
+export interface AttentionNotification {
+  paneId: number
+  title: string // e.g. "Terminal 2 · my-repo"
+  body: string // the question Claude is asking, or what it finished
+}
+
+// When the pane started waiting (ms epoch), for ordering the attention queue
+export function paneAttentionSince(pane: PaneConfig): number {
+  return (pane.activity ? pane.activitySince : pane.stateSince) ?? 0
+}
+
+// Pushed from main whenever a pane's classified activity changes. activity null
+// = the detector can't tell (e.g. the agent exited back to a shell).
+export interface AgentStateUpdate {
+  activity: AgentActivity | null
+  detail?: string // e.g. the tool call awaiting permission: "Bash(rm -rf build)"
+  since: number // ms epoch of the transition
+  sessionId?: string // Claude session id, when reported by a Claude Code hook
+}
+
+// Which output detector classifies a pane. 'none' disables classification.
+export type AgentDetectorId = 'claude' | 'opencode' | 'aider' | 'generic' | 'none'
+
 // Pane count bounds. The app is "QuadClaude" so 4 is the floor; extra panes
 // can be added up to MAX_PANES. 12 is a practical ceiling — beyond a 4x3 grid
 // the cells get too small to be useful even on large displays.
 export const MIN_PANES = 4
 export const MAX_PANES = 12
+// Panes past what a grid shows go on the shelf: their shell keeps running in
+// main with no xterm behind it, up to MAX_SESSIONS panes in all.
+export const MAX_SESSIONS = 32
 
 // Focus-layout splitter: fraction of the width given to the column of small
 // panes. The default IS the minimum (small panes at their tightest); the user
@@ -48,8 +275,55 @@ export interface AgentProfile {
   id: string
   name: string
   command: string // bare executable + args, e.g. "claude" or "opencode"
-  env?: Record<string, string> // free-form; injected at PTY spawn, never echoed
+  env?: Record<string, string> // free-form; injected at PTY spawn, never echoed. Secrets are $QC_SECRET:<name> references
   builtin?: 'claude' // discriminator for Claude-only UI/behavior
+  detector?: AgentDetectorId // output classifier; omitted = inferred from command
+}
+
+// Detector for a profile: explicit choice, else inferred from the executable.
+// Router-backed profiles (`ccr code`) run the real claude TUI.
+export function detectorForProfile(profile: AgentProfile): AgentDetectorId {
+  if (profile.detector) return profile.detector
+  if (profile.builtin === 'claude' || profile.command === 'ccr code') return 'claude'
+  const exe = profile.command.trim().split(/\s+/)[0]?.split('/').pop() ?? ''
+  if (exe === 'claude') return 'claude'
+  if (exe === 'opencode') return 'opencode'
+  if (exe === 'aider') return 'aider'
+  return 'generic'
+}
+
+// Profiles made by Settings → Models: `ccr code`, or `claude` behind the
+// built-in translation proxy. Both run the real claude TUI.
+export function isRouterProfile(profile: AgentProfile): boolean {
+  return profile.command === 'ccr code' || profile.env?.ANTHROPIC_BASE_URL === ROUTER_PROXY_URL
+}
+
+// --- Secrets ---------------------------------------------------------------------
+// API keys and secret env values live in the OS secret store (Electron safeStorage:
+// Keychain, DPAPI, libsecret/kwallet). Config files only hold a reference by name,
+// resolved when a pane launches.
+export const SECRET_REF_PREFIX = '$QC_SECRET:'
+
+// An env var whose value is treated as secret (masked, kept in the secret store)
+export const SECRET_ENV_KEY = /key|token|secret|password|pass/i
+
+export function secretRef(name: string): string {
+  return `${SECRET_REF_PREFIX}${name}`
+}
+
+// The secret a value refers to, or null for a plain value
+export function secretRefName(value: string | undefined): string | null {
+  return value?.startsWith(SECRET_REF_PREFIX) ? value.slice(SECRET_REF_PREFIX.length) : null
+}
+
+// Where an agent profile's secret env value is stored
+export function agentSecretName(profileId: string, key: string): string {
+  return `agent-${profileId.slice(0, 8)}-${key.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`
+}
+
+export interface SecretStoreStatus {
+  available: boolean // false: no OS secret store, so keys stay in plaintext files
+  backend: string // 'keychain', 'dpapi', 'gnome_libsecret', 'kwallet5', 'basic_text', ...
 }
 
 export const CLAUDE_PROFILE_ID = 'claude'
@@ -78,6 +352,7 @@ export interface PaneConfig {
   label: string
   workingDirectory: string
   state: PaneState
+  stateSince?: number // Transient: ms epoch of the last state change
   gitStatus?: GitStatus // Git status for pane header
   servers?: ServerInfo[] // Transient: detected listening servers (not persisted)
   agentId?: string // Which agent profile THIS pane runs; falls back to defaultAgentId
@@ -86,6 +361,29 @@ export interface PaneConfig {
   pairId?: string
   pairRole?: 'orchestrator' | 'worker'
   pairColor?: string // stored hue (from PAIR_RING_COLORS) so rings survive restarts
+  // Claude conversation running in this pane, relaunched with `claude --resume`
+  // when the workspace is restored. Cleared when Claude exits on its own.
+  claudeSessionId?: string
+  resumeClaude?: boolean // per-pane restore toggle; undefined = on
+  worktree?: PaneWorktree // worktree this pane was opened on by "New worktree pane"
+  shelved?: boolean // on the shelf: running headless, out of the grid
+  promptQueue?: QueuedPrompt[] // sent one at a time as the agent goes idle
+  // Opened for a project's startup command; found again (and re-run) after a restore
+  companion?: { root: string; command: string }
+  // Transient (not persisted): the project config found for workingDirectory
+  project?: ProjectInfo
+  // Transient (not persisted): latest classified agent activity
+  activity?: AgentActivity
+  activityDetail?: string
+  activitySince?: number
+}
+
+// Claude Code session ids are UUIDs. Anything else (they're read from world-writable
+// /tmp files and transcript names) must never reach a shell.
+const CLAUDE_SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function isClaudeSessionId(value: unknown): value is string {
+  return typeof value === 'string' && CLAUDE_SESSION_ID.test(value)
 }
 
 // Workspace state (persisted)
@@ -99,8 +397,61 @@ export interface WorkspaceState {
   // Splitter position for focus / focus-right layouts (width fraction of the
   // small-panes column). Persisted so it survives layout switches.
   focusSmallRatio?: number
+  // Split tree for the 'custom' layout. Kept when switching to another layout
+  // so switching back restores it.
+  layoutTree?: LayoutNode
+  // Pane windows detached from the main one. Written by main only; every pane
+  // not listed here lives in the main window.
+  windows?: DetachedWindowState[]
 }
 
+// Multi-window: a detached window shows some of the workspace's panes (on
+// another display, typically). Its PTYs keep running in main like any other;
+// their output is routed to whichever window owns the pane.
+export const MAIN_WINDOW_ID = 'main'
+
+export interface DetachedWindowState {
+  id: string
+  paneIds: number[]
+  bounds?: WindowBounds
+}
+
+export function windowOwningPane(windows: DetachedWindowState[] | undefined, paneId: number): string {
+  return windows?.find((w) => w.paneIds.includes(paneId))?.id ?? MAIN_WINDOW_ID
+}
+
+// What one window's save changed, pushed to the other windows so their copy
+// of the workspace stays current
+export type WorkspaceSync = Pick<WorkspaceState, 'panes' | 'preferences'>
+
+// Named workspaces. Each keeps its own panes (directories, agents, pairings)
+// and layout; preferences are shared by all of them. The active workspace is
+// the live WorkspaceState above; the others are stored as snapshots.
+export type WorkspaceLayoutState = Pick<
+  WorkspaceState,
+  'layout' | 'focusPaneId' | 'activePaneId' | 'panes' | 'focusSmallRatio' | 'layoutTree' | 'windows'
+>
+
+export interface NamedWorkspace extends WorkspaceLayoutState {
+  id: string
+  name: string
+  updatedAt: number
+}
+
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  paneCount: number
+  updatedAt: number
+}
+
+export interface WorkspaceList {
+  activeId: string
+  workspaces: WorkspaceSummary[]
+}
+
+export const DEFAULT_WORKSPACE_ID = 'default'
+
 export interface HotkeyBindings {
   focusTerminal1: string
   focusTerminal2: string
@@ -109,6 +460,8 @@ export interface HotkeyBindings {
   layoutGrid: string
   layoutFocus: string
   layoutFocusRight: string
+  // Layout preset id -> hotkey. Presets without an entry have no shortcut.
+  layoutPresets?: Record<string, string>
 }
 
 // Use Cmd on Mac, Win on Windows for layout hotkeys
@@ -153,16 +506,76 @@ export interface WorkspacePreferences {
   favoriteDirectories: string[]
   background?: BackgroundConfig
   showPromptBar?: boolean
+  // Folders of Markdown prompt files to load alongside savedPrompts
+  promptDirectories?: string[]
+  // When false, don't load PROMPT_SYNC_DIR from the panes' repos (default: on)
+  repoPrompts?: boolean
+  // Project root -> hash of the PROJECT_CONFIG_FILE content the user trusted
+  trustedProjects?: Record<string, string>
   // When true, the pane "Claude" button launches `claude --dangerously-skip-permissions`
   dangerouslySkipPermissions?: boolean
   // When false, suppress the chime played when a pane starts waiting on a decision (default: enabled)
   decisionSoundEnabled?: boolean
+  // When false, no desktop notification when a pane starts waiting or finishes
+  // while QuadClaude is in the background (default: enabled)
+  desktopNotificationsEnabled?: boolean
   // Configurable agents a pane can launch. Seeded with the built-in Claude profile.
   agentProfiles?: AgentProfile[]
   // Global fallback agent when a pane has no agentId assigned yet
   defaultAgentId?: string
   // Per-pane network isolation so dev servers in different panes don't fight over ports
   portIsolation?: PortIsolation
+  // Lines of scrollback each terminal keeps (default SCROLLBACK_DEFAULT)
+  scrollbackLines?: number
+  // Record every pane's output to a larger plain-text history on disk so output
+  // search reaches past the terminal scrollback (default: off)
+  extendedHistory?: boolean
+  // Where "New worktree pane" creates worktrees, as <dir>/<repo>/<branch>
+  // (default WORKTREE_DIR_DEFAULT; ~ is expanded)
+  worktreeDirectory?: string
+  // Saved layout presets, shared by every workspace; applied from the layout
+  // selector or their hotkey (HotkeyBindings.layoutPresets)
+  layoutPresets?: LayoutPreset[]
+}
+
+export const WORKTREE_DIR_DEFAULT = '~/.quadclaude/worktrees'
+
+export const SCROLLBACK_DEFAULT = 1000
+export const SCROLLBACK_OPTIONS = [1000, 5000, 10000]
+
+// --- Output search -------------------------------------------------------------
+
+export interface OutputSearchQuery {
+  query: string
+  regex?: boolean
+  caseSensitive?: boolean
+}
+
+// One matching line with a little context. `row` locates it in the pane's
+// xterm buffer; history hits (older than the scrollback) have no row.
+export interface OutputSearchMatch {
+  line: string
+  start: number // match offset within line
+  length: number
+  before: string[]
+  after: string[]
+  row?: number
+}
+
+// The search as a predicate, or null when the pattern is empty/invalid
+export function outputMatcher(q: OutputSearchQuery): ((line: string) => { start: number; length: number } | null) | null {
+  if (!q.query) return null
+  let re: RegExp
+  try {
+    const source = q.regex ? q.query : q.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    re = new RegExp(source, q.caseSensitive ? '' : 'i')
+  } catch {
+    return null
+  }
+  return (line) => {
+    const m = re.exec(line)
+    return m && m[0].length > 0 ? { start: m.index, length: m[0].length } : null
+  }
 }
 
 // Strategy for keeping each pane's dev servers from colliding on the same port.
@@ -191,6 +604,13 @@ export function portIsolationEnv(paneId: number, mode: PortIsolation | undefined
   return {}
 }
 
+// Port isolation with a project's port base: offsets from the base instead of
+// 3000 in 'port' mode; otherwise every pane gets the base itself
+export function projectPortEnv(paneId: number, mode: PortIsolation | undefined, portBase: number): Record<string, string> {
+  if (mode === 'port') return { PORT: String(portBase + paneId * 100) }
+  return { ...portIsolationEnv(paneId, mode), PORT: String(portBase) }
+}
+
 // State of the macOS lo0 loopback aliases required by 'loopback' isolation.
 export interface LoopbackStatus {
   supported: boolean // false on non-macOS (range is bindable without aliases)
@@ -219,11 +639,44 @@ export const IPC_CHANNELS = {
   PTY_CWD: 'pty:cwd',
   PTY_GIT_STATUS: 'pty:git-status',
   PTY_IS_CLAUDE_RUNNING: 'pty:is-claude-running',
+  PTY_LOAD_SCROLLBACK: 'pty:load-scrollback',
+  PTY_CLAUDE_SESSION: 'pty:claude-session',
+  PTY_IS_ALIVE: 'pty:is-alive',
+  PTY_LAST_LINES: 'pty:last-lines',
+  AGENT_SET_DETECTOR: 'agent:set-detector',
+  AGENT_STATE: 'agent:state',
+
+  // Attention — native notifications + dock/taskbar badge for waiting panes
+  ATTENTION_NOTIFY: 'attention:notify',
+  ATTENTION_CLEAR: 'attention:clear',
+  ATTENTION_SET_BADGE: 'attention:set-badge',
+  ATTENTION_FOCUS_PANE: 'attention:focus-pane',
+
+  // Automation API — JSON-RPC calls from the local socket, answered by the renderer
+  AUTOMATION_REQUEST: 'automation:request',
+  AUTOMATION_RESPONSE: 'automation:response',
+
+  // Output search — the optional on-disk history beyond xterm's scrollback
+  HISTORY_SET_ENABLED: 'history:set-enabled',
+  HISTORY_SEARCH: 'history:search',
 
   // Workspace
   WORKSPACE_SAVE: 'workspace:save',
   WORKSPACE_LOAD: 'workspace:load',
   WORKSPACE_GET_HOME: 'workspace:get-home',
+  // Named workspaces
+  WORKSPACES_LIST: 'workspaces:list',
+  WORKSPACES_SWITCH: 'workspaces:switch',
+  WORKSPACES_SAVE_AS: 'workspaces:save-as',
+  WORKSPACES_DUPLICATE: 'workspaces:duplicate',
+  WORKSPACES_RENAME: 'workspaces:rename',
+  WORKSPACES_DELETE: 'workspaces:delete',
+  WORKSPACE_SYNC: 'workspace:sync',
+
+  // Multi-window: detached pane windows
+  WINDOW_DETACH_PANES: 'window:detach-panes',
+  WINDOW_MOVE_PANE: 'window:move-pane',
+  WINDOWS_CHANGED: 'window:changed',
 
   // App
   APP_MENU_ACTION: 'app:menu-action',
@@ -234,8 +687,33 @@ export const IPC_CHANNELS = {
   // App info
   APP_GET_VERSION: 'app:get-version',
 
+  // Diff review panel
+  GIT_REVIEW_LOAD: 'git-review:load',
+  GIT_REVIEW_APPLY: 'git-review:apply',
+  GIT_REVIEW_COMMIT: 'git-review:commit',
+
+  // Prompt templates
+  PROMPT_VARIABLES: 'prompt:variables',
+
+  // Prompt library files: import/export and synced folders
+  PROMPTS_IMPORT: 'prompts:import',
+  PROMPTS_EXPORT: 'prompts:export',
+  PROMPTS_SYNC: 'prompts:sync',
+  PROMPTS_WRITE: 'prompts:write',
+  PROMPTS_CHANGED: 'prompts:changed',
+
+  // Project config (.quadclaude.json)
+  PROJECT_CONFIG: 'project:config',
+  PROJECT_ENV_STALE: 'project:env-stale',
+
+  // Git worktree panes
+  WORKTREE_CREATE: 'worktree:create',
+  WORKTREE_INSPECT: 'worktree:inspect',
+  WORKTREE_FINISH: 'worktree:finish',
+
   // Dialog
   DIALOG_OPEN_IMAGE: 'dialog:open-image',
+  DIALOG_OPEN_DIRECTORY: 'dialog:open-directory',
 
   // Shell — open a URL in the system default browser
   APP_OPEN_EXTERNAL: 'app:open-external',
@@ -243,6 +721,11 @@ export const IPC_CHANNELS = {
   // Usage tracking
   USAGE_UPDATE: 'usage:update',
   USAGE_FETCH: 'usage:fetch',
+  // Spend on routed and delegated models
+  COSTS_SUMMARY: 'costs:summary',
+  COSTS_UPDATE: 'costs:update',
+  COSTS_SET_CONFIG: 'costs:set-config',
+  COSTS_CLEAR: 'costs:clear',
   PTY_CONTEXT_USAGE: 'pty:context-usage',
   PTY_DETECT_SERVERS: 'pty:detect-servers',
   PTY_KILL_SERVER: 'pty:kill-server',
@@ -253,32 +736,130 @@ export const IPC_CHANNELS = {
   ROUTER_SAVE_PROVIDER: 'router:save-provider',
   ROUTER_DELETE_PROVIDER: 'router:delete-provider',
   ROUTER_TEST: 'router:test',
+  ROUTER_REVEAL_KEY: 'router:reveal-key',
+  ROUTER_ROTATE_KEY: 'router:rotate-key',
   // Delegation — hand bulk work to a cheaper configured model via a `qcdelegate` CLI
   ROUTER_SET_DELEGATION: 'router:set-delegation',
   ROUTER_DELEGATION_STATUS: 'router:delegation-status',
   ROUTER_CLEAR_DELEGATION: 'router:clear-delegation',
+  // OS secret store for API keys and secret agent env values
+  SECRETS_STATUS: 'secrets:status',
+  SECRETS_REVEAL: 'secrets:reveal',
+  SECRETS_SET: 'secrets:set',
+  SECRETS_DELETE: 'secrets:delete',
   // Per-pane port isolation — manage macOS lo0 loopback aliases
   NET_LOOPBACK_STATUS: 'net:loopback-status',
   NET_ENSURE_LOOPBACK: 'net:ensure-loopback',
 } as const
 
+// --- Automation API ------------------------------------------------------------
+// Scripts (and agents in panes) drive QuadClaude over a local Unix socket with
+// newline-delimited JSON-RPC 2.0; the `quadclaude` CLI is a thin client. Main
+// owns the socket and forwards each call to the renderer, which owns the panes.
+//
+//   ping                                  -> { version }
+//   panes.list                            -> AutomationPaneInfo[]
+//   panes.open    { cwd, agent? }         -> AutomationPaneInfo (free pane, else a new one)
+//   panes.send    { paneId, text, enter? } -> { ok } (enter defaults to true)
+//   panes.launch  { paneId, agent? }      -> AutomationPaneInfo (agent = profile id or name)
+//   panes.read    { paneId, lines? }      -> { lines: string[] } (default 50)
+//   panes.wait    { paneId, until?, timeoutMs? } -> AutomationPaneInfo
+//                 until = states/activities to wait for; default: any change
+//   layout.set    { layout }              -> { layout }
+
+export interface AutomationPaneInfo {
+  id: number
+  label: string
+  cwd: string
+  state: PaneState
+  activity: AgentActivity | null
+  detail: string | null
+  agent: string // assigned agent profile id
+  branch: string | null
+  needsAttention: boolean
+}
+
+export interface AutomationError {
+  code: number
+  message: string
+}
+
+// JSON-RPC error codes (the -32000 range is ours)
+export const AUTOMATION_ERRORS = {
+  PARSE: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL: -32603,
+  TIMEOUT: -32000,
+  NO_PANE: -32001,
+  UNAVAILABLE: -32002,
+} as const
+
+// main -> renderer
+export interface AutomationRequest {
+  id: number
+  method: string
+  params: Record<string, unknown>
+}
+
+// renderer -> main
+export interface AutomationResponse {
+  id: number
+  result?: unknown
+  error?: AutomationError
+}
+
 // --- Model router (claude-code-router) types ---------------------------------
 // QuadClaude writes ccr's local config so a pane can run `claude` against a non-
 // Anthropic model with identical look/feel. We never speak the LLM API ourselves.
 
-// What the wizard collects for one bring-your-own model.
+// ccr's routing slots: which model Claude Code's requests go to, by kind
+export type RouterSlot = 'default' | 'background' | 'think' | 'longContext' | 'webSearch'
+
+export const ROUTER_SLOTS: { id: RouterSlot; label: string; hint: string }[] = [
+  { id: 'default', label: 'Default', hint: 'Everything not routed below' },
+  { id: 'background', label: 'Background', hint: 'Small background tasks (titles, summaries) · a cheap model' },
+  { id: 'think', label: 'Think', hint: 'Requests with extended thinking · a reasoning model' },
+  { id: 'longContext', label: 'Long context', hint: 'Conversations past ~60k tokens · a long-context model' },
+  { id: 'webSearch', label: 'Web search', hint: 'Requests using web search · a model that supports it' },
+]
+
+// Slot -> model id at the same provider. Unset slots fall back to default.
+export type RouterRoutes = Partial<Record<RouterSlot, string>>
+
+// What runs a saved model: claude-code-router (`ccr code`), or QuadClaude's own
+// Anthropic-to-OpenAI translation proxy (plain `claude`, no installs)
+export type RouterBackend = 'ccr' | 'builtin'
+
+export const ROUTER_PROXY_PORT = 3457 // next to ccr's 3456
+export const ROUTER_PROXY_URL = `http://127.0.0.1:${ROUTER_PROXY_PORT}`
+
+export interface RouterProxyStatus {
+  running: boolean
+  url: string
+  error?: string // why it couldn't start (port taken, ...)
+}
+
+// What the wizard collects for one bring-your-own provider.
 export interface RouterProviderInput {
   label: string // friendly display name, e.g. "DeepSeek V3"
   baseUrl: string // full chat/completions endpoint, e.g. https://openrouter.ai/api/v1/chat/completions
-  apiKey: string // hosted-provider key; stored in ccr's local config.json (chmod 600)
-  model: string // model id at the provider, e.g. deepseek/deepseek-chat
+  apiKey: string // hosted-provider key; kept in the OS secret store (ccr's config.json only names it). Empty keeps the saved one
+  models: string[] // model ids at the provider, e.g. deepseek/deepseek-chat
+  routes?: RouterRoutes // default = models[0] when unset
+  backend?: RouterBackend // default 'ccr'
   transformer?: string // optional ccr transformer key (openrouter | deepseek | gemini | ...)
 }
 
 export interface RouterStatusProvider {
   name: string // ccr provider slug
-  model: string
+  model: string // the default route's model
+  models: string[]
+  routes: RouterRoutes
   baseUrl: string
+  transformer?: string
+  keyStored: boolean // the API key is in the OS secret store, not plaintext in config.json
 }
 
 export interface RouterStatus {
@@ -287,20 +868,35 @@ export interface RouterStatus {
   installHint: string // e.g. "npm install -g @musistudio/claude-code-router"
   command: string // pane command that launches the real Claude Code TUI ("ccr code")
   providers: RouterStatusProvider[]
+  proxy: RouterProxyStatus
+  secrets: SecretStoreStatus
 }
 
 export interface RouterSaveResult {
   ok: boolean
   route: string // "providerSlug,modelId"
-  command: string // pane command, e.g. "ccr code"
-  env: Record<string, string> // env to put on the created AgentProfile (ANTHROPIC_MODEL)
+  command: string // pane command, e.g. "ccr code" (or "claude" behind the built-in proxy)
+  env: Record<string, string> // env to put on the created AgentProfile (ANTHROPIC_MODEL, ...)
   ccrInstalled: boolean
   error?: string
 }
 
+// The connection test's checks, in the order they run
+export type RouterTestStepId = 'auth' | 'models' | 'stream' | 'tools' | 'context'
+
+export interface RouterTestStep {
+  id: RouterTestStepId
+  label: string
+  status: 'pass' | 'warn' | 'fail' | 'skip'
+  ms: number // latency of the step's requests
+  detail?: string
+}
+
 export interface RouterTestResult {
-  ok: boolean
-  error?: string
+  ok: boolean // no step failed (warnings don't count)
+  model?: string // the model id the steps ran against (the default route)
+  error?: string // the input problem, or the first failing step
+  steps: RouterTestStep[]
 }
 
 // State of the generic `qcdelegate` worker that hands bulk tasks to a cheaper model.
@@ -315,6 +911,48 @@ export interface RouterDelegationStatus {
   feedCommand: string // pane command that tails the feed live
 }
 
+// --- Model costs -------------------------------------------------------------------
+// Tokens that routed panes and qcdelegate workers spend, read from Claude Code's
+// transcripts when a turn ends, priced with the user's own tables.
+
+export interface ModelPrice {
+  input: number // USD per million input tokens
+  output: number // USD per million output tokens
+}
+
+export interface CostBudget {
+  dailyUsd?: number
+  monthlyUsd?: number
+}
+
+export interface CostConfig {
+  prices: Record<string, ModelPrice> // by route, "providerSlug,modelId"
+  budget: CostBudget
+}
+
+// One line of a breakdown: a day (YYYY-MM-DD), a route, or a pane id
+export interface CostRow {
+  key: string
+  inputTokens: number
+  outputTokens: number
+  usd: number // tokens of unpriced routes count as $0
+  delegatedUsd: number // the part spent by qcdelegate workers
+}
+
+export interface CostSummary {
+  todayUsd: number
+  monthUsd: number
+  byDay: CostRow[] // newest first, the last 30 days
+  byModel: CostRow[] // most expensive first
+  byPane: CostRow[]
+  unpriced: string[] // routes that spent tokens but have no price yet
+  warning?: string // spend at or near a budget; qcdelegate prints it before running
+  config: CostConfig
+}
+
+// Warn once spend reaches this share of a budget
+export const BUDGET_WARN_RATIO = 0.8
+
 // Rate limit usage data from Anthropic API
 export interface UsageData {
   fiveHour: { utilization: number; resetsAt: string | null }
@@ -346,3 +984,5 @@ export type MenuAction =
   | 'decrease-font'
   | 'open-settings'
   | 'toggle-prompt-bar'
+  | 'search-output'
+  | 'command-palette'